@@ -0,0 +1,108 @@
+/*
+  Service worker del formulario de consentimiento.
+  Guarda la aplicación (HTML, JS, CSS e íconos) para que la tablet del estudio la abra sin conexión.
+  Las peticiones a Supabase no pasan por aquí: los consentimientos sin conexión los maneja la cola
+  de la aplicación (src/lib/colaConsentimientos.ts).
+*/
+
+// Cambiar la versión invalida el caché anterior
+const VERSION = 'v1';
+const CACHE_APP = `consentimientos-app-${VERSION}`;
+
+const ARCHIVOS_INICIALES = [
+  '/',
+  '/index.html',
+  '/manifest.webmanifest',
+  '/icon.svg'
+];
+
+// Los nombres de los archivos de /assets cambian en cada build: se leen del index.html publicado
+const archivosDelIndex = async () => {
+  const respuesta = await fetch('/index.html', { cache: 'no-store' });
+  const html = await respuesta.text();
+  return Array.from(html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g), coincidencia => coincidencia[1]);
+};
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(CACHE_APP)
+      .then(async cache => {
+        await cache.addAll(ARCHIVOS_INICIALES);
+        await cache.addAll(await archivosDelIndex());
+      })
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(claves => Promise.all(
+        claves
+          .filter(clave => clave.startsWith('consentimientos-app-') && clave !== CACHE_APP)
+          .map(clave => caches.delete(clave))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Navegación: primero la red (para recibir versiones nuevas) y sin conexión el index.html guardado
+const responderNavegacion = async request => {
+  const cache = await caches.open(CACHE_APP);
+  try {
+    const respuesta = await fetch(request);
+    if (respuesta.ok) {
+      cache.put('/index.html', respuesta.clone());
+    }
+    return respuesta;
+  } catch (error) {
+    const guardada = await cache.match('/index.html');
+    if (guardada) return guardada;
+    throw error;
+  }
+};
+
+// Archivos de Vite en /assets: llevan un hash en el nombre, así que nunca cambian
+const responderArchivo = async request => {
+  const cache = await caches.open(CACHE_APP);
+  const guardada = await cache.match(request);
+  if (guardada) return guardada;
+
+  const respuesta = await fetch(request);
+  if (respuesta.ok) {
+    cache.put(request, respuesta.clone());
+  }
+  return respuesta;
+};
+
+// Resto de archivos propios (íconos, manifest): red primero, caché sin conexión
+const responderOtro = async request => {
+  const cache = await caches.open(CACHE_APP);
+  try {
+    const respuesta = await fetch(request);
+    if (respuesta.ok) {
+      cache.put(request, respuesta.clone());
+    }
+    return respuesta;
+  } catch (error) {
+    const guardada = await cache.match(request);
+    if (guardada) return guardada;
+    throw error;
+  }
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  // Solo lecturas del propio sitio; Supabase y otros dominios van directo a la red
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(responderNavegacion(request));
+  } else if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(responderArchivo(request));
+  } else {
+    event.respondWith(responderOtro(request));
+  }
+});
@@ -5,11 +5,13 @@ import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-d
 import { AuthProvider } from './contexts/AuthContext';
 import { ConfigProvider } from './contexts/ConfigContext';
 import { ConsentimientosProvider } from './contexts/ConsentimientosContext';
+import { KioscoProvider } from './contexts/KioscoContext';
 
 // Pages
 import Landing from './pages/Landing';
 import FormularioConsentimiento from './pages/FormularioConsentimiento';
 import ExitoFormulario from './pages/ExitoFormulario';
+import VerificarConsentimiento from './pages/VerificarConsentimiento';
 import Login from './pages/admin/Login';
 import AdminLayout from './layouts/AdminLayout';
 import Dashboard from './pages/admin/Dashboard';
@@ -20,7 +22,17 @@ import Configuracion from './pages/admin/Configuracion';
 import Artistas from './pages/admin/Artistas';
 import VistaConfiguracion from './pages/admin/VistaConfiguracion';
 import CuidadosTatuajes from './pages/admin/CuidadosTatuajes';
+import MensajesSeguimiento from './pages/admin/MensajesSeguimiento';
+import Seguimientos from './pages/admin/Seguimientos';
+import Agenda from './pages/admin/Agenda';
+import Clientes from './pages/admin/Clientes';
+import ClienteDetalle from './pages/admin/ClienteDetalle';
+import PreguntasSalud from './pages/admin/PreguntasSalud';
+import TiposProcedimiento from './pages/admin/TiposProcedimiento';
+import PanelArtista from './pages/artista/PanelArtista';
+import Auditoria from './pages/admin/Auditoria';
 import ProtectedRoute from './components/ProtectedRoute';
+import BloqueoKiosco from './components/BloqueoKiosco';
 import NotFound from './pages/NotFound';
 
 function App() {
@@ -28,35 +40,86 @@ function App() {
     <AuthProvider>
       <ConfigProvider>
         <ConsentimientosProvider>
-          <Router>
-            <Routes>
-              {/* Rutas públicas */}
-              <Route path="/" element={<Landing />} />
-              <Route path="/formulario" element={<FormularioConsentimiento />} />
-              <Route path="/exito" element={<ExitoFormulario />} />
-              <Route path="/admin/login" element={<Login />} />
-              
-              {/* Rutas protegidas de administración */}
-              <Route path="/admin" element={
-                <ProtectedRoute>
-                  <AdminLayout />
-                </ProtectedRoute>
-              }>
-                <Route index element={<Dashboard />} />
-                <Route path="consentimientos" element={<Consentimientos />} />
-                <Route path="consentimientos/:id" element={<ConsentimientoDetalle />} />
-                <Route path="archivados" element={<ConsentimientosArchivados />} />
-                <Route path="configuracion" element={<Configuracion />}>
-                  <Route index element={<VistaConfiguracion />} />
-                  <Route path="artistas" element={<Artistas />} />
-                  <Route path="cuidados" element={<CuidadosTatuajes />} />
+          <KioscoProvider>
+            <Router>
+              <BloqueoKiosco />
+              <Routes>
+                {/* Rutas públicas */}
+                <Route path="/" element={<Landing />} />
+                <Route path="/formulario" element={<FormularioConsentimiento />} />
+                <Route path="/exito" element={<ExitoFormulario />} />
+                <Route path="/verificar/:codigo" element={<VerificarConsentimiento />} />
+                <Route path="/admin/login" element={<Login />} />
+                
+                {/* Rutas protegidas de administración */}
+                <Route path="/admin" element={
+                  <ProtectedRoute seccion="panel">
+                    <AdminLayout />
+                  </ProtectedRoute>
+                }>
+                  <Route index element={<Dashboard />} />
+                  <Route path="consentimientos" element={<Consentimientos />} />
+                  <Route path="consentimientos/:id" element={<ConsentimientoDetalle />} />
+                  <Route path="archivados" element={
+                    <ProtectedRoute seccion="archivados">
+                      <ConsentimientosArchivados />
+                    </ProtectedRoute>
+                  } />
+                  <Route path="agenda" element={
+                    <ProtectedRoute seccion="agenda">
+                      <Agenda />
+                    </ProtectedRoute>
+                  } />
+                  <Route path="clientes" element={
+                    <ProtectedRoute seccion="clientes">
+                      <Clientes />
+                    </ProtectedRoute>
+                  } />
+                  <Route path="clientes/:id" element={
+                    <ProtectedRoute seccion="clientes">
+                      <ClienteDetalle />
+                    </ProtectedRoute>
+                  } />
+                  <Route path="seguimientos" element={
+                    <ProtectedRoute seccion="seguimientos">
+                      <Seguimientos />
+                    </ProtectedRoute>
+                  } />
+                  <Route path="configuracion" element={
+                    <ProtectedRoute seccion="configuracion">
+                      <Configuracion />
+                    </ProtectedRoute>
+                  }>
+                    <Route index element={<VistaConfiguracion />} />
+                    <Route path="artistas" element={<Artistas />} />
+                    <Route path="tipos" element={<TiposProcedimiento />} />
+                    <Route path="cuidados" element={<CuidadosTatuajes />} />
+                    <Route path="preguntas" element={<PreguntasSalud />} />
+                    <Route path="seguimiento" element={<MensajesSeguimiento />} />
+                  </Route>
+                  <Route path="auditoria" element={
+                    <ProtectedRoute seccion="auditoria">
+                      <Auditoria />
+                    </ProtectedRoute>
+                  } />
                 </Route>
-              </Route>
-              
-              {/* Página 404 */}
-              <Route path="*" element={<NotFound />} />
-            </Routes>
-          </Router>
+                
+                {/* Portal del artista: solo sus propios clientes */}
+                <Route path="/artista" element={
+                  <ProtectedRoute seccion="portalArtista">
+                    <AdminLayout />
+                  </ProtectedRoute>
+                }>
+                  <Route index element={<PanelArtista />} />
+                  <Route path="consentimientos" element={<Consentimientos />} />
+                  <Route path="consentimientos/:id" element={<ConsentimientoDetalle />} />
+                </Route>
+                
+                {/* Página 404 */}
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+            </Router>
+          </KioscoProvider>
         </ConsentimientosProvider>
       </ConfigProvider>
     </AuthProvider>
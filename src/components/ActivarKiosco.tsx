@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { X } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useKiosco, PIN_KIOSCO_PATRON } from '../contexts/KioscoContext';
+
+interface ActivarKioscoProps {
+  onClose: () => void;
+}
+
+/**
+ * Activa el modo kiosco en este dispositivo: bloquea la tablet en el formulario hasta ingresar el PIN
+ */
+const ActivarKiosco: React.FC<ActivarKioscoProps> = ({ onClose }) => {
+  const { activarKiosco } = useKiosco();
+  const { logout } = useAuth();
+  const navigate = useNavigate();
+  const [pin, setPin] = useState('');
+  const [confirmacion, setConfirmacion] = useState('');
+  const [minutos, setMinutos] = useState(3);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!PIN_KIOSCO_PATRON.test(pin)) {
+      setError('El PIN debe tener entre 4 y 8 dígitos');
+      return;
+    }
+    if (pin !== confirmacion) {
+      setError('Los PIN no coinciden');
+      return;
+    }
+
+    try {
+      await activarKiosco(pin, minutos);
+      // El cliente no debe quedar con la sesión del personal abierta en la tablet
+      await logout();
+      navigate('/formulario', { replace: true });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'No se pudo activar el modo kiosco');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-lg p-6 max-w-md w-full relative animate-fadeIn">
+        <button
+          type="button"
+          onClick={onClose}
+          className="absolute top-3 right-3 text-gray-500 hover:text-gray-700"
+        >
+          <X size={24} />
+        </button>
+
+        <h3 className="text-2xl font-bold mb-2 text-center">Modo Kiosco</h3>
+        <p className="text-sm text-gray-600 mb-6 text-center">
+          Este dispositivo quedará bloqueado en el formulario de consentimiento y se cerrará tu sesión.
+          Para salir se pedirá el PIN.
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="pinKiosco" className="block text-sm font-medium text-gray-700 mb-1">
+              PIN (4 a 8 dígitos)
+            </label>
+            <input
+              id="pinKiosco"
+              type="password"
+              inputMode="numeric"
+              autoComplete="new-password"
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+              maxLength={8}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="pinKioscoConfirmacion" className="block text-sm font-medium text-gray-700 mb-1">
+              Confirmar PIN
+            </label>
+            <input
+              id="pinKioscoConfirmacion"
+              type="password"
+              inputMode="numeric"
+              autoComplete="new-password"
+              value={confirmacion}
+              onChange={(e) => setConfirmacion(e.target.value.replace(/\D/g, ''))}
+              maxLength={8}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="minutosInactividad" className="block text-sm font-medium text-gray-700 mb-1">
+              Reiniciar el formulario tras (minutos sin actividad)
+            </label>
+            <select
+              id="minutosInactividad"
+              value={minutos}
+              onChange={(e) => setMinutos(Number(e.target.value))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            >
+              {[2, 3, 5, 10].map(valor => (
+                <option key={valor} value={valor}>{valor} minutos</option>
+              ))}
+            </select>
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+
+          <button
+            type="submit"
+            className="w-full px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white rounded-md"
+          >
+            Activar modo kiosco
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ActivarKiosco;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { AlertTriangle, Info, Ban } from 'lucide-react';
+import { NivelRiesgo } from '../types';
+import { NOMBRES_NIVEL_RIESGO } from '../utils/preguntasSalud';
+
+interface BadgeRiesgoProps {
+  nivel?: NivelRiesgo;
+  className?: string;
+}
+
+const ESTILOS: Record<Exclude<NivelRiesgo, 'none'>, { clase: string; icono: React.ReactNode }> = {
+  info: { clase: 'bg-blue-100 text-blue-800', icono: <Info size={12} className="mr-1" /> },
+  review: { clase: 'bg-amber-100 text-amber-800', icono: <AlertTriangle size={12} className="mr-1" /> },
+  block: { clase: 'bg-red-100 text-red-800', icono: <Ban size={12} className="mr-1" /> }
+};
+
+// Insignia con el nivel de riesgo de salud; no muestra nada si no hay riesgo
+const BadgeRiesgo: React.FC<BadgeRiesgoProps> = ({ nivel, className = '' }) => {
+  if (!nivel || nivel === 'none') return null;
+
+  const estilo = ESTILOS[nivel];
+
+  return (
+    <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${estilo.clase} ${className}`}>
+      {estilo.icono}
+      {NOMBRES_NIVEL_RIESGO[nivel]}
+    </span>
+  );
+};
+
+export default BadgeRiesgo;
@@ -0,0 +1,22 @@
+import React from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { useKiosco } from '../contexts/KioscoContext';
+
+// Rutas disponibles para el cliente mientras la tablet está en modo kiosco
+const RUTAS_KIOSCO = ['/formulario', '/exito'];
+
+/**
+ * En modo kiosco, redirige cualquier otra ruta (inicio, panel, login) al formulario
+ */
+const BloqueoKiosco: React.FC = () => {
+  const { activo } = useKiosco();
+  const { pathname } = useLocation();
+
+  if (activo && !RUTAS_KIOSCO.includes(pathname)) {
+    return <Navigate to="/formulario" replace />;
+  }
+
+  return null;
+};
+
+export default BloqueoKiosco;
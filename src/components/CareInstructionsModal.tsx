@@ -1,7 +1,9 @@
 import React, { useState } from 'react';
 import { useConfig } from '../contexts/ConfigContext';
 import { X, Download, Phone } from 'lucide-react';
-import { jsPDF } from 'jspdf';
+import { generarPdfCuidados } from '../utils/pdfGenerator';
+import { textoCuidados } from '../utils/procedimiento';
+import { TipoCuidado } from '../types';
 
 interface CareInstructionsModalProps {
   onClose: () => void;
@@ -9,54 +11,24 @@ interface CareInstructionsModalProps {
 
 const CareInstructionsModal: React.FC<CareInstructionsModalProps> = ({ onClose }) => {
   const { config } = useConfig();
-  const [careType, setCareType] = useState<'cream' | 'patch'>('cream');
+  // Solo los procedimientos activos que tienen instrucciones de cuidado
+  const tiposConCuidados = config.tiposProcedimiento.filter(tipo => tipo.activo && (tipo.creamAftercare || tipo.patchAftercare));
+  const [tipoId, setTipoId] = useState(tiposConCuidados[0]?.id ?? '');
+  const [careType, setCareType] = useState<TipoCuidado>('cream');
   const [phoneNumber, setPhoneNumber] = useState('');
 
-  const handleDownloadPDF = () => {
-    // Crear un nuevo documento PDF
-    const pdf = new jsPDF();
-    const margin = 20;
-    let y = margin;
-
-    // Configuración del documento
-    pdf.setFontSize(18);
-    pdf.setFont('helvetica', 'bold');
-    pdf.text(`${config.nombreEstudio}`, 105, y, { align: 'center' });
-    y += 10;
-    
-    pdf.setFontSize(16);
-    pdf.text(
-      careType === 'cream' 
-        ? 'CUIDADOS POST-TATUAJE CON CREMA' 
-        : 'CUIDADOS POST-TATUAJE CON PARCHE', 
-      105, 
-      y, 
-      { align: 'center' }
-    );
-    y += 10;
+  const tipo = tiposConCuidados.find(t => t.id === tipoId) ?? tiposConCuidados[0];
+  const opcionesCuidado = (['cream', 'patch'] as TipoCuidado[]).filter(cuidado => textoCuidados(tipo, cuidado));
+  const cuidado = opcionesCuidado.includes(careType) ? careType : opcionesCuidado[0];
+  const careText = cuidado ? textoCuidados(tipo, cuidado) : '';
 
-    // Contenido
-    pdf.setFontSize(11);
-    pdf.setFont('helvetica', 'normal');
-    
-    const careText = careType === 'cream' 
-      ? config.creamAftercare 
-      : config.patchAftercare;
+  const handleDownloadPDF = () => {
+    if (!tipo || !cuidado) return;
     
-    const textLines = pdf.splitTextToSize(careText, 170);
-    pdf.text(textLines, 20, y);
-
-    // Pie de página con contacto del estudio
-    pdf.setFontSize(10);
-    pdf.text(
-      `Para cualquier consulta: ${config.datosContacto.whatsapp || 'WhatsApp no disponible'}`,
-      105,
-      pdf.internal.pageSize.height - 20,
-      { align: 'center' }
-    );
+    const pdf = generarPdfCuidados(config, tipo, cuidado);
 
     // Guardar PDF
-    pdf.save(`cuidados_tatuaje_${careType === 'cream' ? 'crema' : 'parche'}.pdf`);
+    pdf.save(`cuidados_${tipo.nombre.toLowerCase().replace(/\s+/g, '_')}_${cuidado === 'cream' ? 'crema' : 'parche'}.pdf`);
   };
   
   const handleWhatsApp = () => {
@@ -73,13 +45,8 @@ const CareInstructionsModal: React.FC<CareInstructionsModalProps> = ({ onClose }
       return;
     }
     
-    // Preparar el texto para WhatsApp
-    const careText = careType === 'cream' 
-      ? config.creamAftercare 
-      : config.patchAftercare;
-    
     // Crear la URL con el texto codificado
-    const whatsappText = encodeURIComponent(`*CUIDADOS DE TU TATUAJE - ${config.nombreEstudio}*\n\n${careText}`);
+    const whatsappText = encodeURIComponent(`*CUIDADOS DE TU ${(tipo?.nombre ?? '').toUpperCase()} - ${config.nombreEstudio}*\n\n${careText}`);
     const whatsappURL = `https://wa.me/${cleanPhone}?text=${whatsappText}`;
     
     // Abrir WhatsApp en una nueva pestaña
@@ -96,49 +63,70 @@ const CareInstructionsModal: React.FC<CareInstructionsModalProps> = ({ onClose }
           <X size={24} />
         </button>
 
-        <h3 className="text-2xl font-bold mb-4 text-center">Cuidados del Tatuaje</h3>
+        <h3 className="text-2xl font-bold mb-4 text-center">Cuidados Posteriores</h3>
         <p className="text-gray-600 mb-6 text-center">
-          Descarga las instrucciones detalladas de cuidado según el tipo de protección que utilizas.
+          Descarga las instrucciones detalladas de cuidado según tu procedimiento y el tipo de protección que utilizas.
         </p>
 
         <div className="mb-6">
-          <div className="flex justify-center space-x-4 mb-6">
-            <button
-              onClick={() => setCareType('cream')} 
-              className={`px-4 py-2 rounded-md transition-colors ${
-                careType === 'cream' 
-                  ? 'bg-teal-500 text-white' 
-                  : 'bg-gray-100 text-gray-700'
-              }`}
-            >
-              Cuidados con Crema
-            </button>
-            <button
-              onClick={() => setCareType('patch')}
-              className={`px-4 py-2 rounded-md transition-colors ${
-                careType === 'patch' 
-                  ? 'bg-teal-500 text-white' 
-                  : 'bg-gray-100 text-gray-700'
-              }`}
-            >
-              Cuidados con Parche
-            </button>
-          </div>
+          {tiposConCuidados.length > 1 && (
+            <div className="mb-4">
+              <label htmlFor="tipoProcedimientoCuidados" className="block text-sm font-medium text-gray-700 mb-1">
+                Procedimiento
+              </label>
+              <select
+                id="tipoProcedimientoCuidados"
+                value={tipo?.id ?? ''}
+                onChange={(e) => setTipoId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500"
+              >
+                {tiposConCuidados.map(opcion => (
+                  <option key={opcion.id} value={opcion.id}>{opcion.nombre}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          
+          {opcionesCuidado.length > 1 && (
+            <div className="flex justify-center space-x-4 mb-6">
+              <button
+                onClick={() => setCareType('cream')} 
+                className={`px-4 py-2 rounded-md transition-colors ${
+                  cuidado === 'cream' 
+                    ? 'bg-teal-500 text-white' 
+                    : 'bg-gray-100 text-gray-700'
+                }`}
+              >
+                Cuidados con Crema
+              </button>
+              <button
+                onClick={() => setCareType('patch')}
+                className={`px-4 py-2 rounded-md transition-colors ${
+                  cuidado === 'patch' 
+                    ? 'bg-teal-500 text-white' 
+                    : 'bg-gray-100 text-gray-700'
+                }`}
+              >
+                Cuidados con Parche
+              </button>
+            </div>
+          )}
         </div>
 
         <div className="bg-gray-50 p-4 rounded-md mb-6">
           <h4 className="font-semibold mb-2">
-            {careType === 'cream' ? 'Cuidados con Crema' : 'Cuidados con Parche (Second Skin)'}
+            {cuidado === 'patch' ? 'Cuidados con Parche (Second Skin)' : 'Cuidados con Crema'}
           </h4>
           <div className="max-h-60 overflow-y-auto mb-4">
             <p className="text-sm text-gray-700 whitespace-pre-line">
-              {careType === 'cream' ? config.creamAftercare : config.patchAftercare}
+              {careText || 'El estudio aún no ha publicado instrucciones de cuidado.'}
             </p>
           </div>
 
           <button
             onClick={handleDownloadPDF}
-            className="w-full flex items-center justify-center px-4 py-2 bg-teal-600 text-white rounded-md hover:bg-teal-700 mb-4"
+            disabled={!careText}
+            className="w-full flex items-center justify-center px-4 py-2 bg-teal-600 text-white rounded-md hover:bg-teal-700 disabled:opacity-50 mb-4"
           >
             <Download size={18} className="mr-2" />
             Descargar PDF
@@ -0,0 +1,39 @@
+import React, { useMemo } from 'react';
+import { generarMatrizQr } from '../utils/codigoQr';
+
+interface CodigoQrProps {
+  texto: string;
+  tamano?: number;
+  className?: string;
+}
+
+/**
+ * Código QR generado en el navegador (sin servicios externos), dibujado como SVG
+ */
+const CodigoQr: React.FC<CodigoQrProps> = ({ texto, tamano = 160, className }) => {
+  const { lado, trazado } = useMemo(() => {
+    const matriz = generarMatrizQr(texto);
+    // Un solo path con un cuadrado por módulo oscuro, desplazado por la zona blanca de 4 módulos
+    const cuadrados = matriz.flatMap((fila, y) =>
+      fila.map((oscuro, x) => (oscuro ? `M${x + 4} ${y + 4}h1v1h-1z` : '')).filter(Boolean)
+    );
+    return { lado: matriz.length + 8, trazado: cuadrados.join('') };
+  }, [texto]);
+
+  return (
+    <svg
+      width={tamano}
+      height={tamano}
+      viewBox={`0 0 ${lado} ${lado}`}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label="Código QR de verificación"
+      className={className}
+    >
+      <rect width={lado} height={lado} fill="#ffffff" />
+      <path d={trazado} fill="#000000" />
+    </svg>
+  );
+};
+
+export default CodigoQr;
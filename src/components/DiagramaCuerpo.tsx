@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { VistaCuerpo } from '../types';
+import { ZONAS_CUERPO, NOMBRES_VISTA_CUERPO, nombreZonaCuerpo } from '../utils/procedimiento';
+
+interface DiagramaCuerpoProps {
+  // Id de la zona seleccionada ('' si aún no hay)
+  valor: string;
+  onChange: (zona: string) => void;
+  error?: boolean;
+}
+
+/**
+ * Silueta frontal y posterior con zonas seleccionables para indicar dónde va el tatuaje
+ */
+const DiagramaCuerpo: React.FC<DiagramaCuerpoProps> = ({ valor, onChange, error = false }) => {
+  const zonaSeleccionada = ZONAS_CUERPO.find(zona => zona.id === valor);
+  const [vista, setVista] = useState<VistaCuerpo>(zonaSeleccionada?.vista ?? 'front');
+
+  return (
+    <div>
+      <div className="flex justify-center space-x-2 mb-4">
+        {(Object.keys(NOMBRES_VISTA_CUERPO) as VistaCuerpo[]).map(opcion => (
+          <button
+            key={opcion}
+            type="button"
+            onClick={() => setVista(opcion)}
+            className={`px-4 py-2 rounded-md text-sm transition-colors ${
+              vista === opcion ? 'bg-teal-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {NOMBRES_VISTA_CUERPO[opcion]}
+          </button>
+        ))}
+      </div>
+
+      <div className={`mx-auto w-48 border rounded-lg p-3 ${error ? 'border-red-500' : 'border-gray-200'}`}>
+        <svg viewBox="0 0 120 250" className="w-full h-auto" role="group" aria-label={`Vista ${NOMBRES_VISTA_CUERPO[vista].toLowerCase()} del cuerpo`}>
+          {ZONAS_CUERPO.filter(zona => zona.vista === vista).map(zona => (
+            <rect
+              key={zona.id}
+              x={zona.x}
+              y={zona.y}
+              width={zona.ancho}
+              height={zona.alto}
+              rx={zona.radio}
+              role="button"
+              aria-label={zona.nombre}
+              aria-pressed={zona.id === valor}
+              onClick={() => onChange(zona.id)}
+              className={`cursor-pointer stroke-white transition-colors ${
+                zona.id === valor ? 'fill-teal-500' : 'fill-gray-200 hover:fill-teal-200'
+              }`}
+              strokeWidth={1}
+            >
+              <title>{zona.nombre}</title>
+            </rect>
+          ))}
+        </svg>
+      </div>
+
+      <p className="mt-3 text-center text-sm text-gray-700">
+        {valor
+          ? <>Zona seleccionada: <span className="font-medium">{nombreZonaCuerpo(valor)}</span></>
+          : 'Toca en el diagrama la zona donde irá el tatuaje'}
+      </p>
+    </div>
+  );
+};
+
+export default DiagramaCuerpo;
@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { ColorTatuaje, DetallesProcedimiento, TamanoTatuaje } from '../types';
+import { OPCIONES_TAMANO, OPCIONES_COLOR } from '../utils/procedimiento';
+import DiagramaCuerpo from './DiagramaCuerpo';
+
+interface EditorProcedimientoProps {
+  detalles?: DetallesProcedimiento;
+  onGuardar: (detalles: DetallesProcedimiento, imagenDiseno?: File) => Promise<void>;
+  onClose: () => void;
+}
+
+/**
+ * Ventana para completar o corregir los detalles del tatuaje de un consentimiento guardado
+ */
+const EditorProcedimiento: React.FC<EditorProcedimientoProps> = ({ detalles, onGuardar, onClose }) => {
+  const [zonaCuerpo, setZonaCuerpo] = useState(detalles?.zonaCuerpo ?? '');
+  const [tamano, setTamano] = useState<TamanoTatuaje | ''>(detalles?.tamano ?? '');
+  const [color, setColor] = useState<ColorTatuaje | ''>(detalles?.color ?? '');
+  const [sesionesEstimadas, setSesionesEstimadas] = useState(detalles?.sesionesEstimadas ?? 1);
+  const [descripcion, setDescripcion] = useState(detalles?.descripcion ?? '');
+  const [imagenDiseno, setImagenDiseno] = useState<File | undefined>();
+  const [guardando, setGuardando] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleGuardar = async () => {
+    if (!zonaCuerpo || !tamano || !color) {
+      setError('Selecciona la zona del cuerpo, el tamaño y el color.');
+      return;
+    }
+    if (!Number.isInteger(sesionesEstimadas) || sesionesEstimadas < 1 || sesionesEstimadas > 50) {
+      setError('Las sesiones estimadas deben estar entre 1 y 50.');
+      return;
+    }
+
+    try {
+      setGuardando(true);
+      setError(null);
+      await onGuardar({
+        zonaCuerpo,
+        tamano,
+        color,
+        sesionesEstimadas,
+        descripcion: descripcion.trim() || undefined
+      }, imagenDiseno);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al guardar los detalles del tatuaje');
+      setGuardando(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-lg p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto relative">
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 text-gray-500 hover:text-gray-700"
+        >
+          <X size={24} />
+        </button>
+
+        <h3 className="text-xl font-bold text-gray-800 mb-6">Detalles del Tatuaje</h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <DiagramaCuerpo valor={zonaCuerpo} onChange={setZonaCuerpo} />
+
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="editorTamano" className="block text-sm font-medium text-gray-700 mb-1">
+                Tamaño aproximado
+              </label>
+              <select
+                id="editorTamano"
+                value={tamano}
+                onChange={(e) => setTamano(e.target.value as TamanoTatuaje | '')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                <option value="">Selecciona un tamaño</option>
+                {OPCIONES_TAMANO.map(opcion => (
+                  <option key={opcion.valor} value={opcion.valor}>{opcion.etiqueta}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="editorColor" className="block text-sm font-medium text-gray-700 mb-1">
+                Color
+              </label>
+              <select
+                id="editorColor"
+                value={color}
+                onChange={(e) => setColor(e.target.value as ColorTatuaje | '')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                <option value="">Selecciona</option>
+                {OPCIONES_COLOR.map(opcion => (
+                  <option key={opcion.valor} value={opcion.valor}>{opcion.etiqueta}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="editorSesiones" className="block text-sm font-medium text-gray-700 mb-1">
+                Sesiones estimadas
+              </label>
+              <input
+                id="editorSesiones"
+                type="number"
+                min={1}
+                max={50}
+                value={sesionesEstimadas}
+                onChange={(e) => setSesionesEstimadas(parseInt(e.target.value, 10))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="editorDescripcion" className="block text-sm font-medium text-gray-700 mb-1">
+                Descripción del diseño
+              </label>
+              <textarea
+                id="editorDescripcion"
+                rows={3}
+                value={descripcion}
+                onChange={(e) => setDescripcion(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="editorDiseno" className="block text-sm font-medium text-gray-700 mb-1">
+                Diseño aprobado
+              </label>
+              <input
+                id="editorDiseno"
+                type="file"
+                accept="image/*"
+                onChange={(e) => setImagenDiseno(e.target.files?.[0])}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+              <p className="mt-1 text-xs text-gray-500">Reemplaza el diseño actual, si lo hay.</p>
+            </div>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        <p className="mt-4 text-xs text-gray-500">
+          Los cambios no modifican el PDF archivado al firmar.
+        </p>
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-200 hover:bg-gray-300 rounded-md text-gray-700"
+          >
+            Cancelar
+          </button>
+          <button
+            type="button"
+            onClick={handleGuardar}
+            disabled={guardando}
+            className="px-4 py-2 bg-teal-600 text-white rounded-md hover:bg-teal-700 disabled:opacity-50"
+          >
+            {guardando ? 'Guardando...' : 'Guardar'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EditorProcedimiento;
@@ -1,26 +1,24 @@
 import React from 'react';
 import { useFormContext } from 'react-hook-form';
 import { useConfig } from '../../contexts/ConfigContext';
-import { formatRut } from '../../utils/formatters';
+import { renderTextoLegal, datosTextoDesdeConsentimiento } from '../../utils/plantillaConsentimiento';
+import { buscarTipoProcedimiento } from '../../utils/procedimiento';
 
 const Consentimiento: React.FC = () => {
   const { register, watch, formState: { errors } } = useFormContext();
   const { config } = useConfig();
   
-  const clienteNombre = watch('cliente.nombre');
-  const clienteApellidos = watch('cliente.apellidos');
-  const clienteRut = watch('cliente.rut');
-  const clienteEdad = watch('cliente.edad');
+  const cliente = watch('cliente');
+  const tutor = watch('tutor');
   const artistaSeleccionado = watch('artistaSeleccionado');
+  const tipo = buscarTipoProcedimiento(config.tiposProcedimiento, watch('tipoProcedimientoId'));
   
-  // Reemplazar etiquetas en el texto del consentimiento
-  const textoConsentimientoFormateado = config.textoConsentimiento
-    .replace('{Nombre Cliente}', `${clienteNombre || '[Nombre Cliente]'} ${clienteApellidos || '[Apellidos Cliente]'}`)
-    .replace('{Rut Cliente}', clienteRut ? formatRut(clienteRut) : '[Rut Cliente]')
-    .replace('{Edad Cliente}', clienteEdad?.toString() || '[Edad Cliente]')
-    .replace('{Nombre Artista}', artistaSeleccionado || '[Nombre Artista]')
-    .replace(/{Nombre Estudio}/g, config.nombreEstudio)
-    .replace('{Direccion Estudio}', config.direccionEstudio);
+  // Reemplazar etiquetas en el texto del consentimiento del procedimiento elegido
+  const textoConsentimientoFormateado = renderTextoLegal(
+    tipo?.textoConsentimiento ?? '',
+    datosTextoDesdeConsentimiento({ cliente, tutor, artistaSeleccionado }),
+    config
+  );
 
   return (
     <div className="space-y-6">
@@ -4,7 +4,8 @@ import { useConfig } from '../../contexts/ConfigContext';
 import SignatureCanvas from 'react-signature-canvas';
 import { format } from 'date-fns';
 import { Undo2 } from 'lucide-react';
-import { formatRut } from '../../utils/formatters';
+import { renderTextoLegal, datosTextoDesdeConsentimiento } from '../../utils/plantillaConsentimiento';
+import { buscarTipoProcedimiento } from '../../utils/procedimiento';
 
 interface ConsentimientoFirmaProps {
   onCompleteStepChange: (complete: boolean) => void;
@@ -19,21 +20,18 @@ const ConsentimientoFirma: React.FC<ConsentimientoFirmaProps> = ({ onCompleteSte
   const sigCanvas = useRef<SignatureCanvas | null>(null);
   const [fechaFirma] = useState<string>(format(new Date(), 'dd/MM/yyyy'));
   
-  const clienteNombre = watch('cliente.nombre');
-  const clienteApellidos = watch('cliente.apellidos');
-  const clienteRut = watch('cliente.rut');
-  const clienteEdad = watch('cliente.edad');
+  const cliente = watch('cliente');
+  const tutor = watch('tutor');
   const artistaSeleccionado = watch('artistaSeleccionado');
+  const tipo = buscarTipoProcedimiento(config.tiposProcedimiento, watch('tipoProcedimientoId'));
   const confirmacion = watch('confirmacionConsentimiento');
 
-  // Reemplazar etiquetas en el texto del consentimiento
-  const textoConsentimientoFormateado = config.textoConsentimiento
-    .replace('{Nombre Cliente}', `${clienteNombre || '[Nombre Cliente]'} ${clienteApellidos || '[Apellidos Cliente]'}`)
-    .replace('{Rut Cliente}', clienteRut ? formatRut(clienteRut) : '[Rut Cliente]')
-    .replace('{Edad Cliente}', clienteEdad?.toString() || '[Edad Cliente]')
-    .replace('{Nombre Artista}', artistaSeleccionado || '[Nombre Artista]')
-    .replace(/{Nombre Estudio}/g, config.nombreEstudio)
-    .replace('{Direccion Estudio}', config.direccionEstudio);
+  // Reemplazar etiquetas en el texto del consentimiento del procedimiento elegido
+  const textoConsentimientoFormateado = renderTextoLegal(
+    tipo?.textoConsentimiento ?? '',
+    datosTextoDesdeConsentimiento({ cliente, tutor, artistaSeleccionado }),
+    config
+  );
 
   const limpiarFirma = () => {
     if (sigCanvas.current) {
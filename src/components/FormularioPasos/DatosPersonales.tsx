@@ -1,13 +1,23 @@
 import React, { useState, useEffect } from 'react';
 import { useFormContext } from 'react-hook-form';
 import { format } from 'date-fns';
+import { UserCheck } from 'lucide-react';
 import regionesChile from '../../data/regiones';
-import { formatRut } from '../../utils/formatters';
+import { formatRut, normalizarDocumento, calcularEdad } from '../../utils/formatters';
+import { buscarClienteRecurrente } from '../../lib/clientes';
 
 const DatosPersonales: React.FC = () => {
   const { register, watch, setValue, formState: { errors, isSubmitted } } = useFormContext();
   const [regionSeleccionada, setRegionSeleccionada] = useState<number | null>(null);
   const [comunas, setComunas] = useState<string[]>([]);
+  // Comuna de la última visita, que se selecciona cuando se cargan las comunas de su región
+  const [comunaPendiente, setComunaPendiente] = useState<string | null>(null);
+  // Búsqueda de los datos de un cliente que vuelve (por RUT y fecha de nacimiento)
+  const [busquedaCliente, setBusquedaCliente] = useState<{
+    clave: string;
+    estado: 'buscando' | 'encontrado' | 'no_encontrado' | 'error';
+    mensaje?: string;
+  } | null>(null);
   
   const fechaNacimiento = watch('cliente.fechaNacimiento');
   const edad = watch('cliente.edad');
@@ -16,16 +26,7 @@ const DatosPersonales: React.FC = () => {
   // Calcular edad basada en la fecha de nacimiento
   useEffect(() => {
     if (fechaNacimiento) {
-      const fechaNac = new Date(fechaNacimiento);
-      const hoy = new Date();
-      let edadCalculada = hoy.getFullYear() - fechaNac.getFullYear();
-      const m = hoy.getMonth() - fechaNac.getMonth();
-      
-      if (m < 0 || (m === 0 && hoy.getDate() < fechaNac.getDate())) {
-        edadCalculada--;
-      }
-      
-      setValue('cliente.edad', edadCalculada);
+      setValue('cliente.edad', calcularEdad(fechaNacimiento));
     }
   }, [fechaNacimiento, setValue]);
 
@@ -43,6 +44,46 @@ const DatosPersonales: React.FC = () => {
     }
   }, [regionSeleccionada, setValue]);
 
+  useEffect(() => {
+    if (comunaPendiente && comunas.includes(comunaPendiente)) {
+      setValue('cliente.direccion.comuna', comunaPendiente, { shouldValidate: true });
+      setComunaPendiente(null);
+    }
+  }, [comunas, comunaPendiente, setValue]);
+
+  const claveCliente = rut && fechaNacimiento ? `${normalizarDocumento(rut)}|${fechaNacimiento}` : '';
+
+  // Completar contacto y dirección con los datos de la última visita
+  const handleUsarDatosAnteriores = async () => {
+    setBusquedaCliente({ clave: claveCliente, estado: 'buscando' });
+    
+    try {
+      const datos = await buscarClienteRecurrente(rut, fechaNacimiento);
+      if (!datos) {
+        setBusquedaCliente({ clave: claveCliente, estado: 'no_encontrado' });
+        return;
+      }
+      
+      if (datos.telefono) setValue('cliente.telefono', datos.telefono, { shouldValidate: true });
+      if (datos.email) setValue('cliente.email', datos.email, { shouldValidate: true });
+      if (datos.direccion?.calle) setValue('cliente.direccion.calle', datos.direccion.calle, { shouldValidate: true });
+      
+      const region = regionesChile.find(r => r.nombre === datos.direccion?.region);
+      if (region) {
+        setRegionSeleccionada(region.id);
+        setComunaPendiente(datos.direccion?.comuna || null);
+      }
+      
+      setBusquedaCliente({ clave: claveCliente, estado: 'encontrado' });
+    } catch (error) {
+      setBusquedaCliente({
+        clave: claveCliente,
+        estado: 'error',
+        mensaje: error instanceof Error ? error.message : undefined
+      });
+    }
+  };
+
   // Manejar cambio de región
   const handleRegionChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const regionId = parseInt(e.target.value);
@@ -154,6 +195,35 @@ const DatosPersonales: React.FC = () => {
             </div>
           </div>
 
+          {/* Cliente que vuelve: ofrecer sus datos anteriores */}
+          {claveCliente && normalizarDocumento(rut).length >= 5 && (
+            <div className="mt-4 p-3 bg-teal-50 border border-teal-200 rounded-md text-sm text-teal-800">
+              {busquedaCliente?.clave === claveCliente && busquedaCliente.estado === 'encontrado' ? (
+                <p>Completamos tu contacto y dirección con los datos de tu última visita. Revísalos antes de continuar.</p>
+              ) : busquedaCliente?.clave === claveCliente && busquedaCliente.estado === 'no_encontrado' ? (
+                <p>No encontramos visitas anteriores con ese RUT y fecha de nacimiento.</p>
+              ) : (
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                  <p>¿Ya te has tatuado con nosotros? Podemos completar tu contacto y dirección.</p>
+                  <button
+                    type="button"
+                    onClick={handleUsarDatosAnteriores}
+                    disabled={busquedaCliente?.estado === 'buscando'}
+                    className="inline-flex items-center justify-center px-3 py-1.5 bg-teal-600 hover:bg-teal-700 text-white rounded-md disabled:opacity-70"
+                  >
+                    <UserCheck size={16} className="mr-2" />
+                    {busquedaCliente?.estado === 'buscando' ? 'Buscando...' : 'Usar mis datos anteriores'}
+                  </button>
+                </div>
+              )}
+              {busquedaCliente?.clave === claveCliente && busquedaCliente.estado === 'error' && (
+                <p className="mt-2 text-red-600">
+                  {busquedaCliente.mensaje || 'No se pudieron obtener tus datos anteriores.'}
+                </p>
+              )}
+            </div>
+          )}
+
           {edad !== undefined && (
             <div className="mt-2">
               <div className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${
@@ -184,7 +254,7 @@ const DatosPersonales: React.FC = () => {
                   showError('direccion.region') ? 'border-red-500' : 'border-gray-300'
                 }`}
                 onChange={handleRegionChange}
-                defaultValue=""
+                value={regionSeleccionada ?? ''}
               >
                 <option value="" disabled>Selecciona una región</option>
                 {regionesChile.map(region => (
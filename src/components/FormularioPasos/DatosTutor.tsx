@@ -2,6 +2,8 @@ import React, { useState, useRef } from 'react';
 import { useFormContext } from 'react-hook-form';
 import { useConfig } from '../../contexts/ConfigContext';
 import { formatRut } from '../../utils/formatters';
+import { renderTextoLegal, textoParentescoTutor } from '../../utils/plantillaConsentimiento';
+import { buscarTipoProcedimiento } from '../../utils/procedimiento';
 import SignatureCanvas from 'react-signature-canvas';
 import { Undo2 } from 'lucide-react';
 
@@ -20,11 +22,7 @@ const DatosTutor: React.FC = () => {
   const otroParentesco = watch('tutor.otroParentesco');
   const tutorNombre = watch('tutor.nombre');
   const tutorRut = watch('tutor.rut');
-  
-  // Generar texto completo de parentesco
-  const textoParentesco = parentesco === 'Otro' && otroParentesco 
-    ? `${parentesco} (${otroParentesco})` 
-    : parentesco || '[Parentesco]';
+  const tipo = buscarTipoProcedimiento(config.tiposProcedimiento, watch('tipoProcedimientoId'));
   
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -65,17 +63,16 @@ const DatosTutor: React.FC = () => {
     }
   };
 
-  // Reemplazar etiquetas en el texto del tutor legal
-  const textoTutorLegalFormateado = config.textoTutorLegal
-    .replace('{Nombre Tutor}', tutorNombre || '[Nombre Tutor Legal]')
-    .replace('{Rut Tutor}', tutorRut ? formatRut(tutorRut) : '[Rut Tutor]')
-    .replace('{Parentesco Tutor}', textoParentesco)
-    .replace('{Nombre Cliente}', clienteNombre || '[Nombre Cliente]')
-    .replace('{Apellidos Cliente}', clienteApellidos || '[Apellidos Cliente]')
-    .replace('{Rut Cliente}', clienteRut ? formatRut(clienteRut) : '[Rut Cliente]')
-    .replace('{Edad Cliente}', clienteEdad?.toString() || '[Edad Cliente]')
-    .replace(/{Nombre Estudio}/g, config.nombreEstudio)
-    .replace('{Direccion Estudio}', config.direccionEstudio);
+  // Reemplazar etiquetas en el texto del tutor legal del procedimiento elegido
+  const textoTutorLegalFormateado = renderTextoLegal(tipo?.textoTutorLegal ?? '', {
+    nombreTutor: tutorNombre,
+    rutTutor: tutorRut,
+    parentescoTutor: textoParentescoTutor(parentesco, otroParentesco),
+    nombreCliente: clienteNombre,
+    apellidosCliente: clienteApellidos,
+    rutCliente: clienteRut,
+    edadCliente: clienteEdad
+  }, config);
 
   return (
     <div className="space-y-6">
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { useFormContext } from 'react-hook-form';
+import DiagramaCuerpo from '../DiagramaCuerpo';
+import { OPCIONES_TAMANO, OPCIONES_COLOR } from '../../utils/procedimiento';
+
+const DetallesTatuaje: React.FC = () => {
+  const { register, setValue, watch, formState: { errors } } = useFormContext();
+  const [vistaPreviaDiseno, setVistaPreviaDiseno] = useState<string | null>(null);
+
+  const zonaCuerpo = watch('procedimiento.zonaCuerpo');
+  const errores = (errors.procedimiento || {}) as Record<string, { message?: string } | undefined>;
+
+  const handleDisenoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      if (file.size > 20 * 1024 * 1024) { // 20MB
+        alert('El archivo es demasiado grande. El tamaño máximo permitido es 20MB.');
+        e.target.value = '';
+        return;
+      }
+
+      const reader = new FileReader();
+      reader.onload = () => {
+        setVistaPreviaDiseno(reader.result as string);
+      };
+      reader.readAsDataURL(file);
+      setValue('imagenDiseno', file);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold text-gray-800">Detalles del Tatuaje</h2>
+
+      <p className="text-gray-600 mb-4">
+        Indica el tatuaje que autorizas, según lo conversado con tu artista.
+      </p>
+
+      <div>
+        <h3 className="text-lg font-medium text-gray-800 mb-4">Zona del cuerpo</h3>
+        <input
+          type="hidden"
+          {...register('procedimiento.zonaCuerpo', { required: 'Selecciona en el diagrama la zona del tatuaje' })}
+        />
+        <DiagramaCuerpo
+          valor={zonaCuerpo}
+          onChange={zona => setValue('procedimiento.zonaCuerpo', zona, { shouldValidate: true })}
+          error={!!errores.zonaCuerpo}
+        />
+        {errores.zonaCuerpo && (
+          <p className="mt-1 text-sm text-red-600 text-center">{errores.zonaCuerpo.message}</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="tamano" className="block text-sm font-medium text-gray-700 mb-1">
+            Tamaño aproximado
+          </label>
+          <select
+            id="tamano"
+            className={`w-full px-3 py-2 border rounded-md ${
+              errores.tamano ? 'border-red-500' : 'border-gray-300'
+            }`}
+            {...register('procedimiento.tamano', { required: 'Selecciona el tamaño aproximado' })}
+          >
+            <option value="">Selecciona un tamaño</option>
+            {OPCIONES_TAMANO.map(opcion => (
+              <option key={opcion.valor} value={opcion.valor}>{opcion.etiqueta}</option>
+            ))}
+          </select>
+          {errores.tamano && (
+            <p className="mt-1 text-sm text-red-600">{errores.tamano.message}</p>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="sesionesEstimadas" className="block text-sm font-medium text-gray-700 mb-1">
+            Sesiones estimadas
+          </label>
+          <input
+            id="sesionesEstimadas"
+            type="number"
+            min={1}
+            max={50}
+            className={`w-full px-3 py-2 border rounded-md ${
+              errores.sesionesEstimadas ? 'border-red-500' : 'border-gray-300'
+            }`}
+            {...register('procedimiento.sesionesEstimadas', {
+              required: 'Indica la cantidad de sesiones',
+              valueAsNumber: true,
+              min: { value: 1, message: 'Debe ser al menos 1 sesión' },
+              max: { value: 50, message: 'Máximo 50 sesiones' }
+            })}
+          />
+          {errores.sesionesEstimadas && (
+            <p className="mt-1 text-sm text-red-600">{errores.sesionesEstimadas.message}</p>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <p className="block text-sm font-medium text-gray-700 mb-2">Color</p>
+        <div className="flex flex-wrap gap-4">
+          {OPCIONES_COLOR.map(opcion => (
+            <label key={opcion.valor} className="inline-flex items-center">
+              <input
+                type="radio"
+                value={opcion.valor}
+                className="h-4 w-4 text-teal-600 border-gray-300"
+                {...register('procedimiento.color', { required: 'Selecciona si el tatuaje es a color o en negro y grises' })}
+              />
+              <span className="ml-2 text-gray-700">{opcion.etiqueta}</span>
+            </label>
+          ))}
+        </div>
+        {errores.color && (
+          <p className="mt-1 text-sm text-red-600">{errores.color.message}</p>
+        )}
+      </div>
+
+      <div>
+        <label htmlFor="descripcionDiseno" className="block text-sm font-medium text-gray-700 mb-1">
+          Descripción del diseño (opcional)
+        </label>
+        <textarea
+          id="descripcionDiseno"
+          rows={3}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          placeholder="Ej: rosa con lettering, línea fina"
+          {...register('procedimiento.descripcion')}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="imagenDiseno" className="block text-sm font-medium text-gray-700 mb-2">
+          Diseño aprobado (opcional, máx. 20MB)
+        </label>
+        <input
+          id="imagenDiseno"
+          type="file"
+          accept="image/*"
+          onChange={handleDisenoChange}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md"
+        />
+        <p className="mt-1 text-xs text-gray-500">
+          Si tu artista ya te envió el diseño, súbelo para que quede en el consentimiento.
+        </p>
+
+        {vistaPreviaDiseno && (
+          <div className="mt-4">
+            <p className="text-sm font-medium text-gray-700 mb-2">Vista previa:</p>
+            <img
+              src={vistaPreviaDiseno}
+              alt="Vista previa del diseño"
+              className="max-h-60 rounded border border-gray-300"
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DetallesTatuaje;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { FieldError, useFormContext } from 'react-hook-form';
+import { format } from 'date-fns';
+import { formatRut } from '../../utils/formatters';
+import { TipoSesion } from '../../types';
+
+interface IdentidadSesionProps {
+  tipoSesion: TipoSesion;
+}
+
+// Primer paso de una sesión nueva de un proyecto: el RUT y la fecha de nacimiento identifican al
+// cliente antes de mostrar los datos que firmó la vez anterior
+const IdentidadSesion: React.FC<IdentidadSesionProps> = ({ tipoSesion }) => {
+  const { register, watch, formState: { errors } } = useFormContext();
+  const rut = watch('cliente.rut');
+  const erroresCliente = errors.cliente as Partial<Record<'rut' | 'fechaNacimiento', FieldError>> | undefined;
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold text-gray-800">
+        {tipoSesion === 'touch_up' ? 'Retoque de tu Proyecto' : 'Nueva Sesión de tu Proyecto'}
+      </h2>
+
+      <p className="text-gray-600 mb-4">
+        Usaremos los datos de tu consentimiento anterior: solo tendrás que confirmar tu contacto, actualizar tu
+        información de salud y volver a firmar. Para continuar, confirma tu identidad.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="rutSesion" className="block text-sm font-medium text-gray-700 mb-1">
+            RUT / Pasaporte
+          </label>
+          <input
+            id="rutSesion"
+            type="text"
+            className={`w-full px-3 py-2 border rounded-md ${
+              erroresCliente?.rut ? 'border-red-500' : 'border-gray-300'
+            }`}
+            placeholder="12.345.678-9 o Pasaporte"
+            {...register('cliente.rut', { required: 'El RUT o pasaporte es obligatorio' })}
+          />
+          {rut && !erroresCliente?.rut && (
+            <p className="mt-1 text-sm text-gray-500">
+              Formato: {formatRut(rut)}
+            </p>
+          )}
+          {erroresCliente?.rut && (
+            <p className="mt-1 text-sm text-red-600">{erroresCliente.rut.message}</p>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="fechaNacimientoSesion" className="block text-sm font-medium text-gray-700 mb-1">
+            Fecha de Nacimiento
+          </label>
+          <input
+            id="fechaNacimientoSesion"
+            type="date"
+            max={format(new Date(), 'yyyy-MM-dd')}
+            className={`w-full px-3 py-2 border rounded-md ${
+              erroresCliente?.fechaNacimiento ? 'border-red-500' : 'border-gray-300'
+            }`}
+            {...register('cliente.fechaNacimiento', { required: 'La fecha de nacimiento es obligatoria' })}
+          />
+          {erroresCliente?.fechaNacimiento && (
+            <p className="mt-1 text-sm text-red-600">{erroresCliente.fechaNacimiento.message}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IdentidadSesion;
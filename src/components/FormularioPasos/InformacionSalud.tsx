@@ -1,90 +1,47 @@
-import React, { useState } from 'react';
+import React from 'react';
 import { useFormContext } from 'react-hook-form';
+import { useConfig } from '../../contexts/ConfigContext';
+import { AlertTriangle } from 'lucide-react';
+import { requiereCampoAdicional, activaReglaRiesgo, preguntasDelTipo } from '../../utils/preguntasSalud';
 
-// Lista fija de preguntas de salud
-const PREGUNTAS_SALUD = [
-  '¿Comiste en las últimas 4 horas?',
-  '¿Tienes alergias?',
-  '¿Tienes hemofilia?',
-  '¿Has tomado aspirina en los últimos 5 días?',
-  '¿Tienes hepatitis?',
-  '¿Tienes mala cicatrización?',
-  '¿Vives con VIH?',
-  '¿Tienes problemas de salud?',
-  '¿Estás en tratamiento médico?',
-  '¿Tienes tendencia a desmayarte?',
-  '¿Fumas?',
-  '¿Bebes alcohol?',
-  '¿Bebiste en las últimas 3 horas?',
-  '¿Consumes drogas?',
-  '¿Tienes problemas dermatológicos?',
-  '¿Tu piel produce queloides?',
-  '¿Es tu primer tatuaje?'
-];
+type ErroresSalud = Record<string, { respuesta?: { message?: string } } | undefined>;
 
 const InformacionSalud: React.FC = () => {
   const { register, watch, formState: { errors } } = useFormContext();
-  
-  // Estado local para manejar los campos adicionales
-  const [showAdditionalFields, setShowAdditionalFields] = useState<{[key: string]: boolean}>({});
-  
-  // Vigilar las respuestas para mostrar campos adicionales para preguntas específicas
-  const respuestas = watch('informacionSalud');
+  const { config } = useConfig();
 
-  // Determinar si mostrar campo adicional basado en la respuesta
-  React.useEffect(() => {
-    if (respuestas) {
-      const newState = { ...showAdditionalFields };
-      
-      // Para alergias (índice 1)
-      if (respuestas[1]?.respuesta === 'true') {
-        newState[1] = true;
-      } else {
-        newState[1] = false;
-      }
-      
-      // Para problemas de salud (índice 7)
-      if (respuestas[7]?.respuesta === 'true') {
-        newState[7] = true;
-      } else {
-        newState[7] = false;
-      }
-      
-      // Para tratamiento médico (índice 8)
-      if (respuestas[8]?.respuesta === 'true') {
-        newState[8] = true;
-      } else {
-        newState[8] = false;
-      }
-      
-      // Para problemas dermatológicos (índice 14)
-      if (respuestas[14]?.respuesta === 'true') {
-        newState[14] = true;
-      } else {
-        newState[14] = false;
-      }
-      
-      setShowAdditionalFields(newState);
-    }
-  }, [respuestas]);
+  // Vigilar las respuestas para mostrar los campos adicionales según la configuración de cada pregunta
+  const respuestas = watch('informacionSalud') || {};
+  const erroresSalud = errors.informacionSalud as unknown as ErroresSalud | undefined;
+  // Preguntas comunes y las propias del procedimiento elegido
+  const preguntas = preguntasDelTipo(config.preguntasSalud, watch('tipoProcedimientoId'));
 
   return (
     <div className="space-y-6">
       <h2 className="text-2xl font-bold text-gray-800">Información de Salud</h2>
-      
+
       <p className="text-gray-600 mb-4">
         Por favor, responde las siguientes preguntas sobre tu salud para garantizar un procedimiento seguro.
       </p>
-      
+
+      {preguntas.length === 0 && (
+        <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-800">
+          El estudio no tiene preguntas de salud configuradas. Puedes continuar al siguiente paso.
+        </div>
+      )}
+
       <div className="space-y-4">
-        {PREGUNTAS_SALUD.map((pregunta, index) => {
-          const mostrarCampoAdicional = showAdditionalFields[index];
-              
+        {preguntas.map(pregunta => {
+          const mostrarCampoAdicional = requiereCampoAdicional(pregunta, respuestas[pregunta.id]?.respuesta);
+          const error = erroresSalud?.[pregunta.id]?.respuesta;
+          // Solo las reglas bloqueantes se muestran al cliente; el resto las ve el artista
+          const bloquea = pregunta.nivelRiesgo === 'block' && activaReglaRiesgo(pregunta, respuestas[pregunta.id]?.respuesta);
+
           return (
-            <div key={index} className="p-4 bg-white rounded-lg shadow-sm">
+            <div key={pregunta.id} className="p-4 bg-white rounded-lg shadow-sm">
               <div className="flex items-start">
                 <div className="flex-1">
-                  <p className="font-medium text-gray-800">{pregunta}</p>
+                  <p className="font-medium text-gray-800">{pregunta.pregunta}</p>
                 </div>
                 <div className="flex space-x-4 ml-4">
                   <label className="inline-flex items-center">
@@ -92,8 +49,8 @@ const InformacionSalud: React.FC = () => {
                       type="radio"
                       className="form-radio h-4 w-4 text-teal-600"
                       value="true"
-                      defaultChecked={index === 0} // Por defecto "Sí" solo para la primera pregunta (¿Comiste en las últimas 4 horas?)
-                      {...register(`informacionSalud.${index}.respuesta`, {
+                      defaultChecked={pregunta.respuestaPorDefecto}
+                      {...register(`informacionSalud.${pregunta.id}.respuesta`, {
                         required: 'Esta pregunta es obligatoria'
                       })}
                     />
@@ -104,8 +61,8 @@ const InformacionSalud: React.FC = () => {
                       type="radio"
                       className="form-radio h-4 w-4 text-teal-600"
                       value="false"
-                      defaultChecked={index !== 0} // Por defecto "No" para todas las demás preguntas
-                      {...register(`informacionSalud.${index}.respuesta`, {
+                      defaultChecked={!pregunta.respuestaPorDefecto}
+                      {...register(`informacionSalud.${pregunta.id}.respuesta`, {
                         required: 'Esta pregunta es obligatoria'
                       })}
                     />
@@ -113,21 +70,28 @@ const InformacionSalud: React.FC = () => {
                   </label>
                 </div>
               </div>
-              
+
               {mostrarCampoAdicional && (
                 <div className="mt-3">
                   <input
                     type="text"
                     className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                    placeholder="Proporciona más detalles..."
-                    {...register(`informacionSalud.${index}.informacionAdicional`)}
+                    placeholder={pregunta.textoAdicional || 'Proporciona más detalles...'}
+                    {...register(`informacionSalud.${pregunta.id}.informacionAdicional`)}
                   />
                 </div>
               )}
+
+              {bloquea && (
+                <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700 flex items-start">
+                  <AlertTriangle size={16} className="mr-2 mt-0.5 flex-shrink-0" />
+                  <span>{pregunta.mensajeRiesgo || 'Según esta respuesta no es posible continuar con el procedimiento.'}</span>
+                </div>
+              )}
               
-              {errors.informacionSalud?.[index]?.respuesta && (
+              {error && (
                 <p className="mt-1 text-sm text-red-600">
-                  {errors.informacionSalud[index].respuesta.message as string}
+                  {error.message}
                 </p>
               )}
             </div>
@@ -138,4 +102,4 @@ const InformacionSalud: React.FC = () => {
   );
 };
 
-export default InformacionSalud;
\ No newline at end of file
+export default InformacionSalud;
@@ -1,34 +1,16 @@
-import React, { useState } from 'react';
+import React from 'react';
 import { useFormContext } from 'react-hook-form';
 import { useConfig } from '../../contexts/ConfigContext';
 import { formatRut } from '../../utils/formatters';
-import { generatePDF } from '../../utils/pdfGenerator';
-import { FileDown, CheckCircle } from 'lucide-react';
-import { format } from 'date-fns';
-
-// Lista fija de preguntas de salud
-const PREGUNTAS_SALUD = [
-  '¿Comiste en las últimas 4 horas?',
-  '¿Tienes alergias?',
-  '¿Tienes hemofilia?',
-  '¿Has tomado aspirina en los últimos 5 días?',
-  '¿Tienes hepatitis?',
-  '¿Tienes mala cicatrización?',
-  '¿Vives con VIH?',
-  '¿Tienes problemas de salud?',
-  '¿Estás en tratamiento médico?',
-  '¿Tienes tendencia a desmayarte?',
-  '¿Fumas?',
-  '¿Bebes alcohol?',
-  '¿Bebiste en las últimas 3 horas?',
-  '¿Consumes drogas?',
-  '¿Tienes problemas dermatológicos?',
-  '¿Tu piel produce queloides?',
-  '¿Es tu primer tatuaje?'
-];
+import { preguntasDelTipo, resolverRespuestasSalud } from '../../utils/preguntasSalud';
+import { buscarTipoProcedimiento, describirProcedimiento } from '../../utils/procedimiento';
+import { CambiosSalud } from '../../types';
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
 
 interface ResumenProps {
-  onSubmit: () => void;
+  // Cambios de salud desde la última visita; null si es la primera o no se pudo comparar
+  cambiosSalud: CambiosSalud | null;
 }
 
 interface ResumenSeccionProps {
@@ -44,10 +26,10 @@ const ResumenSeccion: React.FC<ResumenSeccionProps> = ({ titulo, campos }) => {
         <dl className="grid grid-cols-1 gap-3">
           {campos.map((campo, index) => {
             // Formatear RUT si el campo es de tipo RUT
-            const valor = (campo.label === 'RUT/Pasaporte' || campo.label === 'RUT') 
+            const valor = (campo.label === 'RUT/Pasaporte' || campo.label === 'RUT')
               ? formatRut(campo.valor)
               : campo.valor;
-            
+
             return (
               <div key={index} className="flex">
                 <dt className="font-medium text-gray-600 w-1/3">{campo.label}:</dt>
@@ -61,34 +43,9 @@ const ResumenSeccion: React.FC<ResumenSeccionProps> = ({ titulo, campos }) => {
   );
 };
 
-const Resumen: React.FC<ResumenProps> = ({ onSubmit }) => {
-  const { getValues } = useFormContext();
+const Resumen: React.FC<ResumenProps> = ({ cambiosSalud }) => {
+  const { getValues, register } = useFormContext();
   const { config } = useConfig();
-  const [pdfGenerado, setPdfGenerado] = useState(false);
-  const [enviando, setEnviando] = useState(false);
-  
-  const generarPDF = () => {
-    const valores = getValues();
-    const pdf = generatePDF(valores, config);
-    pdf.save(`consentimiento_${valores.cliente.nombre}_${format(new Date(), 'yyyyMMdd')}.pdf`);
-    setPdfGenerado(true);
-  };
-
-  const handleSubmit = async () => {
-    if (!pdfGenerado) {
-      alert('Por favor, descarga una copia del consentimiento antes de enviarlo.');
-      return;
-    }
-    
-    setEnviando(true);
-    try {
-      await onSubmit();
-    } catch (error) {
-      console.error('Error al enviar el formulario:', error);
-      alert('Ocurrió un error al enviar el formulario. Por favor intenta de nuevo.');
-      setEnviando(false);
-    }
-  };
 
   const formatFechaNacimiento = (fecha: string) => {
     if (!fecha) return 'No especificada';
@@ -99,94 +56,134 @@ const Resumen: React.FC<ResumenProps> = ({ onSubmit }) => {
     }
   };
 
-  // Obtener respuestas de salud
-  const informacionSalud = getValues('informacionSalud') || {};
-  
-  // Formato para mostrar en el resumen
-  const respuestasSalud = PREGUNTAS_SALUD.map((pregunta, index) => {
-    const respuesta = informacionSalud[index]?.respuesta === 'true' ? 'Sí' : 'No';
-    const infoAdicional = informacionSalud[index]?.informacionAdicional;
-    
-    return {
+  const tipo = buscarTipoProcedimiento(config.tiposProcedimiento, getValues('tipoProcedimientoId'));
+  // Solo las preguntas del procedimiento elegido (el cliente pudo cambiarlo después de responder)
+  const idsPreguntas = new Set(preguntasDelTipo(config.preguntasSalud, tipo?.id).map(pregunta => pregunta.id));
+
+  // Respuestas de salud en el orden de las preguntas configuradas
+  const respuestasSalud = resolverRespuestasSalud(getValues('informacionSalud'), config.preguntasSalud)
+    .filter(({ id }) => idsPreguntas.has(id))
+    .map(({ id, pregunta, respuesta, informacionAdicional }) => ({
+      id,
       pregunta,
-      respuesta,
-      infoAdicional
-    };
-  });
+      respuesta: respuesta ? 'Sí' : 'No',
+      infoAdicional: informacionAdicional
+    }));
+
+  const cambios = cambiosSalud?.cambios || [];
+  const preguntasCambiadas = new Set(cambios.map(cambio => cambio.id));
+  const fechaAnterior = cambiosSalud ? format(parseISO(cambiosSalud.fechaAnterior), 'dd/MM/yyyy') : '';
 
   return (
     <div className="space-y-6">
       <h2 className="text-2xl font-bold text-gray-800">Resumen del Formulario</h2>
-      
-      <div className="bg-white p-6 rounded-lg shadow-md">
-        <div className="flex justify-between items-center mb-6">
-          <h3 className="text-lg font-medium text-gray-800">Datos Ingresados</h3>
-          <button
-            type="button"
-            onClick={generarPDF}
-            className={`inline-flex items-center px-4 py-2 rounded-md transition-colors ${
-              pdfGenerado
-                ? 'bg-green-600 hover:bg-green-700 text-white'
-                : 'bg-blue-600 hover:bg-blue-700 text-white'
-            }`}
-          >
-            {pdfGenerado ? (
-              <>
-                <CheckCircle size={18} className="mr-2" />
-                Descargar PDF de nuevo
-              </>
-            ) : (
-              <>
-                <FileDown size={18} className="mr-2" />
-                Descargar PDF
-              </>
-            )}
-          </button>
+      <p className="text-gray-600">
+        Revisa tus datos antes de firmar. Si algo no es correcto, vuelve al paso correspondiente.
+      </p>
+
+      {cambios.length > 0 && (
+        <div className="p-4 bg-amber-50 border border-amber-200 rounded-md">
+          <div className="flex items-start text-amber-800">
+            <AlertTriangle size={20} className="mr-3 mt-0.5 flex-shrink-0" />
+            <div>
+              <p className="font-medium">Cambios desde tu última visita ({fechaAnterior})</p>
+              <ul className="mt-2 text-sm space-y-1 list-disc list-inside">
+                {cambios.map(cambio => (
+                  <li key={cambio.id}>
+                    {cambio.pregunta}:{' '}
+                    {cambio.respuestaAnterior !== undefined && cambio.respuestaAnterior !== cambio.respuesta
+                      ? `antes "${cambio.respuestaAnterior ? 'Sí' : 'No'}", ahora "${cambio.respuesta ? 'Sí' : 'No'}"`
+                      : 'cambió la información adicional'}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+
+          <label className="flex items-start mt-4">
+            <input
+              type="checkbox"
+              className="mt-1 h-4 w-4 text-teal-600 border border-gray-300"
+              {...register('confirmacionCambiosSalud')}
+            />
+            <span className="ml-2 text-sm text-gray-700">
+              Confirmo que estos cambios en mi información de salud son correctos.
+            </span>
+          </label>
         </div>
-        
-        <div className="space-y-8">
-          <ResumenSeccion 
-            titulo="Datos Personales" 
+      )}
+
+      {cambiosSalud && cambios.length === 0 && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-md flex items-center text-sm text-green-800">
+          <CheckCircle size={18} className="mr-2 flex-shrink-0" />
+          Tu información de salud no cambió desde tu última visita ({fechaAnterior}).
+        </div>
+      )}
+
+      <div className="space-y-8">
+        <ResumenSeccion
+          titulo="Datos Personales"
+          campos={[
+            { label: 'Nombre', valor: `${getValues('cliente.nombre')} ${getValues('cliente.apellidos')}` },
+            { label: 'RUT/Pasaporte', valor: getValues('cliente.rut') },
+            { label: 'Edad', valor: `${getValues('cliente.edad')} años` },
+            { label: 'Fecha de Nacimiento', valor: formatFechaNacimiento(getValues('cliente.fechaNacimiento')) },
+            { label: 'Dirección', valor: `${getValues('cliente.direccion.calle')}, ${getValues('cliente.direccion.comuna')}, ${getValues('cliente.direccion.region')}` },
+            { label: 'Teléfono', valor: getValues('cliente.telefono') },
+            { label: 'Email', valor: getValues('cliente.email') }
+          ]}
+        />
+
+        {getValues('cliente.edad') < 18 && getValues('tutor') && (
+          <ResumenSeccion
+            titulo="Datos del Tutor Legal"
             campos={[
-              { label: 'Nombre', valor: `${getValues('cliente.nombre')} ${getValues('cliente.apellidos')}` },
-              { label: 'RUT/Pasaporte', valor: getValues('cliente.rut') },
-              { label: 'Edad', valor: `${getValues('cliente.edad')} años` },
-              { label: 'Fecha de Nacimiento', valor: formatFechaNacimiento(getValues('cliente.fechaNacimiento')) },
-              { label: 'Dirección', valor: `${getValues('cliente.direccion.calle')}, ${getValues('cliente.direccion.comuna')}, ${getValues('cliente.direccion.region')}` },
-              { label: 'Teléfono', valor: getValues('cliente.telefono') },
-              { label: 'Email', valor: getValues('cliente.email') }
+              { label: 'Nombre', valor: getValues('tutor.nombre') },
+              { label: 'RUT', valor: getValues('tutor.rut') },
+              { label: 'Parentesco', valor: getValues('tutor.parentesco') === 'Otro'
+                ? `${getValues('tutor.parentesco')} (${getValues('tutor.otroParentesco')})`
+                : getValues('tutor.parentesco')
+              }
             ]}
           />
-          
-          {getValues('cliente.edad') < 18 && getValues('tutor') && (
-            <ResumenSeccion 
-              titulo="Datos del Tutor Legal" 
-              campos={[
-                { label: 'Nombre', valor: getValues('tutor.nombre') },
-                { label: 'RUT', valor: getValues('tutor.rut') },
-                { label: 'Parentesco', valor: getValues('tutor.parentesco') === 'Otro' 
-                  ? `${getValues('tutor.parentesco')} (${getValues('tutor.otroParentesco')})` 
-                  : getValues('tutor.parentesco') 
-                }
-              ]}
-            />
-          )}
-          
-          <ResumenSeccion 
-            titulo="Artista Seleccionado" 
+        )}
+
+        <ResumenSeccion
+          titulo="Procedimiento y Artista"
+          campos={[
+            { label: 'Procedimiento', valor: tipo?.nombre ?? '' },
+            { label: 'Artista', valor: getValues('artistaSeleccionado') }
+          ]}
+        />
+
+        {tipo?.pideDetallesTatuaje && (
+          <ResumenSeccion
+            titulo="Detalles del Tatuaje"
             campos={[
-              { label: 'Artista', valor: getValues('artistaSeleccionado') }
+              ...describirProcedimiento(getValues('procedimiento')).map(({ etiqueta, valor }) => ({ label: etiqueta, valor })),
+              { label: 'Diseño aprobado', valor: getValues('imagenDiseno') ? 'Adjunto' : 'No adjuntado' }
             ]}
           />
-          
-          <div>
-            <h4 className="font-medium text-gray-800 mb-3">Información de Salud</h4>
-            <div className="bg-gray-50 rounded-md p-4">
-              <div className="space-y-2">
-                {respuestasSalud.map((item, index) => (
-                  <div key={index} className="flex flex-col">
+        )}
+
+        <div>
+          <h4 className="font-medium text-gray-800 mb-3">Información de Salud</h4>
+          <div className="bg-gray-50 rounded-md p-4">
+            <div className="space-y-2">
+              {respuestasSalud.map(item => {
+                const cambiada = preguntasCambiadas.has(item.id);
+                return (
+                  <div
+                    key={item.id}
+                    className={`flex flex-col ${cambiada ? '-mx-2 px-2 py-1 bg-amber-100 rounded' : ''}`}
+                  >
                     <div className="flex justify-between">
-                      <span className="font-medium text-gray-600">{item.pregunta}</span>
+                      <span className="font-medium text-gray-600">
+                        {item.pregunta}
+                        {cambiada && (
+                          <span className="ml-2 text-xs font-medium text-amber-800">Cambió desde tu última visita</span>
+                        )}
+                      </span>
                       <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
                         item.respuesta === 'Sí' ? 'bg-blue-100 text-blue-800' : 'bg-gray-200 text-gray-800'
                       }`}>
@@ -199,62 +196,14 @@ const Resumen: React.FC<ResumenProps> = ({ onSubmit }) => {
                       </span>
                     )}
                   </div>
-                ))}
-              </div>
+                );
+              })}
             </div>
           </div>
-          
-          <div>
-            <h4 className="font-medium text-gray-800 mb-3">Firma Digital</h4>
-            {getValues('firma') ? (
-              <div className="border rounded-md p-3">
-                <img 
-                  src={getValues('firma')} 
-                  alt="Firma digital" 
-                  className="max-h-20" 
-                />
-                <p className="text-sm text-gray-500 mt-2">
-                  Fecha: {format(new Date(), 'dd/MM/yyyy')}
-                </p>
-              </div>
-            ) : (
-              <p className="text-amber-600">No se ha registrado la firma</p>
-            )}
-          </div>
-        </div>
-        
-        {!pdfGenerado && (
-          <div className="mt-6 p-4 bg-yellow-50 border border-yellow-200 rounded-md">
-            <p className="text-sm text-yellow-800">
-              Por favor, descarga una copia del consentimiento antes de enviarlo.
-            </p>
-          </div>
-        )}
-        
-        <div className="mt-8">
-          <button
-            type="button"
-            onClick={handleSubmit}
-            disabled={!pdfGenerado || enviando}
-            className={`w-full inline-flex justify-center items-center px-4 py-3 rounded-md transition-colors ${
-              !pdfGenerado || enviando
-                ? 'bg-gray-400 cursor-not-allowed'
-                : 'bg-teal-600 hover:bg-teal-700 text-white'
-            }`}
-          >
-            {enviando ? (
-              <>
-                <span className="animate-spin mr-2">⌛</span>
-                Enviando...
-              </>
-            ) : (
-              'Enviar Formulario'
-            )}
-          </button>
         </div>
       </div>
     </div>
   );
 };
 
-export default Resumen;
\ No newline at end of file
+export default Resumen;
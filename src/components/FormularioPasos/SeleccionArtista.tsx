@@ -1,7 +1,14 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { useFormContext } from 'react-hook-form';
 import { useConfig } from '../../contexts/ConfigContext';
 import { User } from 'lucide-react';
+import { TipoCuidado } from '../../types';
+import { buscarTipoProcedimiento, textoCuidados } from '../../utils/procedimiento';
+
+const OPCIONES_CUIDADO: { valor: TipoCuidado; etiqueta: string }[] = [
+  { valor: 'cream', etiqueta: 'Con crema' },
+  { valor: 'patch', etiqueta: 'Con parche (Second Skin)' }
+];
 
 const SeleccionArtista: React.FC = () => {
   const { register, setValue, watch, formState: { errors } } = useFormContext();
@@ -13,6 +20,17 @@ const SeleccionArtista: React.FC = () => {
   
   // Obtener el artista seleccionado actual
   const artistaSeleccionado = watch('artistaSeleccionado');
+  const tipoCuidado = watch('tipoCuidado');
+  
+  // Solo se ofrecen los cuidados que el procedimiento tiene redactados
+  const tipoProcedimiento = buscarTipoProcedimiento(config.tiposProcedimiento, watch('tipoProcedimientoId'));
+  const opcionesCuidado = OPCIONES_CUIDADO.filter(opcion => textoCuidados(tipoProcedimiento, opcion.valor));
+  
+  useEffect(() => {
+    if (opcionesCuidado.length > 0 && !opcionesCuidado.some(opcion => opcion.valor === tipoCuidado)) {
+      setValue('tipoCuidado', opcionesCuidado[0].valor);
+    }
+  }, [opcionesCuidado, tipoCuidado, setValue]);
   
   // Manejar clic en la tarjeta del artista
   const handleArtistaClick = (nombreArtista: string) => {
@@ -24,7 +42,7 @@ const SeleccionArtista: React.FC = () => {
       <h2 className="text-2xl font-bold text-gray-800">Selección de Artista</h2>
       
       <p className="text-gray-600 mb-4">
-        Por favor, selecciona el artista que realizará tu tatuaje.
+        Por favor, selecciona el artista que realizará tu {tipoProcedimiento?.nombre.toLowerCase() ?? 'procedimiento'}.
       </p>
       
       <div>
@@ -80,6 +98,36 @@ const SeleccionArtista: React.FC = () => {
           </div>
         ))}
       </div>
+      
+      {/* Los cuidados elegidos se envían al correo del cliente junto con el consentimiento firmado */}
+      {opcionesCuidado.length > 0 && (
+        <fieldset className="mt-8">
+          <legend className="block text-sm font-medium text-gray-700 mb-2">
+            Cuidados posteriores indicados por tu artista
+          </legend>
+          <div className="flex flex-col sm:flex-row gap-3">
+            {opcionesCuidado.map(opcion => (
+              <label
+                key={opcion.valor}
+                className={`flex-1 flex items-center px-4 py-3 border rounded-md cursor-pointer ${
+                  tipoCuidado === opcion.valor ? 'border-teal-500 bg-teal-50' : 'border-gray-300'
+                }`}
+              >
+                <input
+                  type="radio"
+                  value={opcion.valor}
+                  className="mr-2 text-teal-600 focus:ring-teal-500"
+                  {...register('tipoCuidado')}
+                />
+                {opcion.etiqueta}
+              </label>
+            ))}
+          </div>
+          <p className="mt-2 text-sm text-gray-500">
+            Te enviaremos estas instrucciones por correo junto con una copia de tu consentimiento.
+          </p>
+        </fieldset>
+      )}
     </div>
   );
 };
@@ -0,0 +1,56 @@
+import React from 'react';
+import { useFormContext } from 'react-hook-form';
+import { useConfig } from '../../contexts/ConfigContext';
+import { CheckCircle } from 'lucide-react';
+
+const SeleccionProcedimiento: React.FC = () => {
+  const { register, setValue, watch, formState: { errors } } = useFormContext();
+  const { config } = useConfig();
+
+  const tiposActivos = config.tiposProcedimiento.filter(tipo => tipo.activo);
+  const tipoSeleccionado = watch('tipoProcedimientoId');
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold text-gray-800">Procedimiento</h2>
+
+      <p className="text-gray-600 mb-4">
+        Selecciona el procedimiento que te realizarás. Las preguntas y el consentimiento dependen de tu elección.
+      </p>
+
+      <input
+        type="hidden"
+        {...register('tipoProcedimientoId', { required: 'Selecciona el procedimiento' })}
+      />
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {tiposActivos.map(tipo => (
+          <button
+            key={tipo.id}
+            type="button"
+            onClick={() => setValue('tipoProcedimientoId', tipo.id, { shouldValidate: true })}
+            className={`flex items-center justify-between p-4 bg-white rounded-lg shadow-sm text-left transition-all duration-200 ${
+              tipoSeleccionado === tipo.id
+                ? 'ring-2 ring-teal-500'
+                : 'hover:shadow-md'
+            }`}
+          >
+            <div>
+              <h4 className="font-medium text-gray-800">{tipo.nombre}</h4>
+              {tipo.edadMinima && (
+                <p className="text-sm text-gray-500">Desde los {tipo.edadMinima} años</p>
+              )}
+            </div>
+            {tipoSeleccionado === tipo.id && <CheckCircle className="text-teal-500 flex-shrink-0" size={22} />}
+          </button>
+        ))}
+      </div>
+
+      {errors.tipoProcedimientoId && (
+        <p className="mt-1 text-sm text-red-600">{errors.tipoProcedimientoId.message as string}</p>
+      )}
+    </div>
+  );
+};
+
+export default SeleccionProcedimiento;
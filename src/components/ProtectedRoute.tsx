@@ -1,19 +1,37 @@
 import React from 'react';
 import { Navigate } from 'react-router-dom';
+import { RefreshCw } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { puedeAcceder, rutaInicio, SeccionPanel } from '../utils/permisos';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  seccion?: SeccionPanel;
 }
 
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
-  const { isAuthenticated } = useAuth();
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, seccion }) => {
+  const { currentUser, isAuthenticated, isLoading } = useAuth();
+
+  // Esperar a que Supabase restaure la sesión antes de decidir
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center text-gray-600">
+        <RefreshCw className="h-5 w-5 mr-2 animate-spin" />
+        Verificando sesión...
+      </div>
+    );
+  }
 
   if (!isAuthenticated) {
     return <Navigate to="/admin/login" replace />;
   }
 
+  // Sesión válida pero sin permisos para esta sección: volver al inicio según el rol
+  if (seccion && !puedeAcceder(currentUser, seccion)) {
+    return <Navigate to={rutaInicio(currentUser)} replace />;
+  }
+
   return <>{children}</>;
 };
 
-export default ProtectedRoute;
\ No newline at end of file
+export default ProtectedRoute;
@@ -0,0 +1,250 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { format, isAfter, parseISO } from 'date-fns';
+import { Layers, Link2, Check, CheckCircle, RotateCcw } from 'lucide-react';
+import { Proyecto, TipoSesion } from '../types';
+import {
+  obtenerProyecto,
+  crearProyecto,
+  actualizarEstadoProyecto,
+  enlaceSesionProyecto,
+  NOMBRES_ESTADO_PROYECTO,
+  NOMBRES_TIPO_SESION
+} from '../lib/proyectos';
+import { registrarEventoAuditoria } from '../lib/auditoria';
+
+interface ProyectoConsentimientoProps {
+  consentimientoId: string;
+  proyectoId?: string;
+}
+
+/**
+ * Proyecto de varias sesiones al que pertenece un consentimiento: línea de tiempo de sesiones y
+ * retoques, plazo del retoque gratuito y enlaces para que el cliente firme la siguiente sesión
+ */
+const ProyectoConsentimiento: React.FC<ProyectoConsentimientoProps> = ({ consentimientoId, proyectoId }) => {
+  // La lista de consentimientos del contexto no se entera del proyecto recién creado hasta recargar
+  const [idProyecto, setIdProyecto] = useState(proyectoId);
+  const [proyecto, setProyecto] = useState<Proyecto | null>(null);
+  const [cargando, setCargando] = useState(false);
+  const [guardando, setGuardando] = useState(false);
+  const [copiado, setCopiado] = useState<TipoSesion | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setIdProyecto(proyectoId);
+  }, [proyectoId]);
+
+  const cargarProyecto = async (id: string) => {
+    try {
+      setCargando(true);
+      setError(null);
+      setProyecto(await obtenerProyecto(id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al cargar el proyecto');
+    } finally {
+      setCargando(false);
+    }
+  };
+
+  useEffect(() => {
+    if (idProyecto) {
+      cargarProyecto(idProyecto);
+    } else {
+      setProyecto(null);
+    }
+  }, [idProyecto]);
+
+  const handleCrear = async () => {
+    const nombre = window.prompt('Nombre del proyecto (ej: Manga japonesa brazo izquierdo):');
+    if (!nombre?.trim()) return;
+
+    try {
+      setGuardando(true);
+      setError(null);
+      const id = await crearProyecto(consentimientoId, nombre);
+      registrarEventoAuditoria({
+        accion: 'proyecto.crear',
+        entidad: 'proyecto',
+        entidadId: id,
+        diff: { consentimientoId, nombre: nombre.trim() }
+      });
+      setIdProyecto(id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al crear el proyecto');
+    } finally {
+      setGuardando(false);
+    }
+  };
+
+  const handleCambiarEstado = async () => {
+    if (!proyecto) return;
+    const estado = proyecto.estado === 'active' ? 'completed' : 'active';
+    if (estado === 'completed' && !window.confirm('¿Marcar el proyecto como terminado? Solo admitirá retoques.')) return;
+
+    try {
+      setGuardando(true);
+      setError(null);
+      await actualizarEstadoProyecto(proyecto.id, estado);
+      registrarEventoAuditoria({
+        accion: 'proyecto.actualizar',
+        entidad: 'proyecto',
+        entidadId: proyecto.id,
+        diff: { estado }
+      });
+      await cargarProyecto(proyecto.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al actualizar el proyecto');
+    } finally {
+      setGuardando(false);
+    }
+  };
+
+  const handleCopiarEnlace = async (tipo: TipoSesion) => {
+    if (!proyecto) return;
+    const enlace = enlaceSesionProyecto(proyecto.id, tipo);
+    try {
+      await navigator.clipboard.writeText(enlace);
+      setCopiado(tipo);
+      setTimeout(() => setCopiado(null), 2000);
+    } catch (err) {
+      console.error('Error al copiar el enlace:', err);
+      window.prompt('Copia el enlace para el cliente:', enlace);
+    }
+  };
+
+  const retoqueGratisVigente = !!proyecto?.limiteRetoqueGratis
+    && isAfter(parseISO(proyecto.limiteRetoqueGratis), new Date());
+
+  return (
+    <>
+      <div className="flex items-center justify-between mt-8 mb-6 pb-2 border-b">
+        <h2 className="text-xl font-semibold text-gray-800">
+          Proyecto
+        </h2>
+        {proyecto && (
+          <span className={`px-3 py-1 rounded-full text-xs font-medium ${
+            proyecto.estado === 'active' ? 'bg-teal-100 text-teal-800' : 'bg-gray-100 text-gray-700'
+          }`}>
+            {NOMBRES_ESTADO_PROYECTO[proyecto.estado]}
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {!idProyecto ? (
+        <div className="mb-8 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <p className="text-sm text-gray-600">
+            Si el tatuaje necesita más sesiones, crea un proyecto: el cliente firmará cada sesión nueva
+            solo actualizando su salud.
+          </p>
+          <button
+            onClick={handleCrear}
+            disabled={guardando}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50 flex-shrink-0"
+          >
+            <Layers size={16} className="mr-2" />
+            {guardando ? 'Creando...' : 'Crear proyecto'}
+          </button>
+        </div>
+      ) : cargando && !proyecto ? (
+        <p className="mb-8 text-sm text-gray-500">Cargando proyecto...</p>
+      ) : proyecto && (
+        <div className="mb-8 space-y-4">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+            <div>
+              <p className="font-medium">{proyecto.nombre}</p>
+              <p className="text-sm text-gray-500">
+                {retoqueGratisVigente
+                  ? `Retoque gratuito hasta el ${format(parseISO(proyecto.limiteRetoqueGratis as string), 'dd/MM/yyyy')}`
+                  : 'Sin retoque gratuito disponible (usado o vencido)'}
+              </p>
+            </div>
+            <button
+              onClick={handleCambiarEstado}
+              disabled={guardando}
+              className="inline-flex items-center text-sm text-teal-600 hover:text-teal-900 disabled:opacity-50"
+            >
+              {proyecto.estado === 'active' ? (
+                <>
+                  <CheckCircle size={16} className="mr-1" />
+                  Marcar como terminado
+                </>
+              ) : (
+                <>
+                  <RotateCcw size={16} className="mr-1" />
+                  Reabrir proyecto
+                </>
+              )}
+            </button>
+          </div>
+
+          <ol className="relative border-l-2 border-teal-200 ml-2 space-y-4">
+            {proyecto.sesiones.map(sesion => (
+              <li key={sesion.consentimientoId} className="ml-4">
+                <span className={`absolute -left-[7px] mt-1.5 h-3 w-3 rounded-full ${
+                  sesion.tipo === 'touch_up' ? 'bg-amber-400' : 'bg-teal-500'
+                }`} />
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium text-gray-800">
+                    {NOMBRES_TIPO_SESION[sesion.tipo]}{sesion.numero ? ` ${sesion.numero}` : ''}
+                  </span>
+                  {sesion.retoqueGratis && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                      Gratuito
+                    </span>
+                  )}
+                  {sesion.consentimientoId === consentimientoId && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                      Este consentimiento
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-gray-600">
+                  {format(parseISO(sesion.fecha), 'dd/MM/yyyy')} · {sesion.artista}
+                  {sesion.consentimientoId !== consentimientoId && (
+                    <>
+                      {' · '}
+                      <Link
+                        to={`/admin/consentimientos/${sesion.consentimientoId}`}
+                        className="text-teal-600 hover:text-teal-900"
+                      >
+                        {sesion.codigo}
+                      </Link>
+                    </>
+                  )}
+                </p>
+              </li>
+            ))}
+          </ol>
+
+          <div className="flex flex-wrap gap-2">
+            {proyecto.estado === 'active' && (
+              <button
+                onClick={() => handleCopiarEnlace('session')}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm text-gray-700 rounded-md hover:bg-gray-50"
+              >
+                {copiado === 'session' ? <Check size={16} className="mr-2" /> : <Link2 size={16} className="mr-2" />}
+                {copiado === 'session' ? 'Enlace copiado' : 'Enlace de nueva sesión'}
+              </button>
+            )}
+            <button
+              onClick={() => handleCopiarEnlace('touch_up')}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm text-gray-700 rounded-md hover:bg-gray-50"
+            >
+              {copiado === 'touch_up' ? <Check size={16} className="mr-2" /> : <Link2 size={16} className="mr-2" />}
+              {copiado === 'touch_up' ? 'Enlace copiado' : 'Enlace de retoque'}
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default ProyectoConsentimiento;
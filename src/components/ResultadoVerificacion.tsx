@@ -0,0 +1,78 @@
+import React from 'react';
+import { CheckCircle, X, ShieldCheck, ShieldAlert } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { ResultadoVerificacionDocumento } from '../hooks/useVerificacion';
+
+interface ResultadoVerificacionProps {
+  resultado: ResultadoVerificacionDocumento;
+}
+
+const ResultadoVerificacion: React.FC<ResultadoVerificacionProps> = ({ resultado }) => {
+  const verificacion = resultado.verificacion;
+  const integridad = verificacion?.integridad;
+
+  return (
+    <div className={`mt-4 p-4 rounded-md ${
+      resultado.encontrado ? 'bg-green-50' : 'bg-red-50'
+    }`}>
+      {resultado.encontrado ? (
+        <div className="space-y-3">
+          <div className="flex items-center text-green-800">
+            <CheckCircle className="h-5 w-5 mr-2" />
+            <p className="font-medium">{resultado.mensaje}</p>
+          </div>
+          <div className="text-sm text-gray-600 space-y-2">
+            <p><strong>Cliente:</strong> {verificacion?.cliente}</p>
+            {verificacion?.estudio && (
+              <p><strong>Estudio:</strong> {verificacion.estudio}</p>
+            )}
+            {verificacion?.fecha && (
+              <>
+                <p><strong>Fecha:</strong> {format(parseISO(verificacion.fecha), "dd 'de' MMMM 'de' yyyy", { locale: es })}</p>
+                <p><strong>Hora:</strong> {format(parseISO(verificacion.fecha), 'HH:mm', { locale: es })}</p>
+              </>
+            )}
+            {verificacion?.archivado && (
+              <p className="text-amber-700">Este consentimiento fue archivado por el estudio.</p>
+            )}
+            {integridad !== 'alterado' && (
+              <p className="italic mt-2 text-green-700">Este consentimiento es válido y está registrado en nuestro sistema.</p>
+            )}
+          </div>
+          {integridad === 'integro' && (
+            <div className="flex items-start text-sm text-green-800 bg-white border border-green-200 rounded-md p-3">
+              <ShieldCheck className="h-5 w-5 mr-2 flex-shrink-0" />
+              <div>
+                <p className="font-medium">El contenido no ha sido modificado desde la firma.</p>
+                <p className="font-mono text-xs text-gray-500 break-all mt-1">
+                  SHA-256: {verificacion?.hash}
+                </p>
+              </div>
+            </div>
+          )}
+          {integridad === 'alterado' && (
+            <div className="flex items-start text-sm text-red-800 bg-red-50 border border-red-200 rounded-md p-3">
+              <ShieldAlert className="h-5 w-5 mr-2 flex-shrink-0" />
+              <p className="font-medium">
+                Atención: el contenido de este registro fue modificado después de la firma y no coincide con su huella de integridad.
+              </p>
+            </div>
+          )}
+          {integridad === 'sin_huella' && (
+            <p className="text-sm text-gray-500">
+              Este consentimiento no tiene huella de integridad registrada.
+            </p>
+          )}
+        </div>
+      ) : (
+        <div className="flex items-center text-red-800">
+          <X className="h-5 w-5 mr-2" />
+          <p>{resultado.mensaje}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ResultadoVerificacion;
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Lock, X } from 'lucide-react';
+import { useKiosco } from '../contexts/KioscoContext';
+
+/**
+ * Botón discreto para que el personal salga del modo kiosco con su PIN
+ */
+const SalidaKiosco: React.FC = () => {
+  const { activo, salirKiosco } = useKiosco();
+  const navigate = useNavigate();
+  const [mostrarModal, setMostrarModal] = useState(false);
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [verificando, setVerificando] = useState(false);
+
+  if (!activo) return null;
+
+  const cerrar = () => {
+    setMostrarModal(false);
+    setPin('');
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setVerificando(true);
+    const correcto = await salirKiosco(pin);
+    setVerificando(false);
+
+    if (!correcto) {
+      setError('PIN incorrecto');
+      setPin('');
+      return;
+    }
+
+    cerrar();
+    navigate('/admin/login', { replace: true });
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setMostrarModal(true)}
+        className="p-2 text-gray-300 hover:text-gray-500 rounded-full transition-colors"
+        aria-label="Salir del modo kiosco"
+      >
+        <Lock size={18} />
+      </button>
+
+      {mostrarModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-lg p-6 max-w-sm w-full relative animate-fadeIn">
+            <button
+              type="button"
+              onClick={cerrar}
+              className="absolute top-3 right-3 text-gray-500 hover:text-gray-700"
+            >
+              <X size={24} />
+            </button>
+
+            <h3 className="text-xl font-bold mb-2 text-center">Salir del modo kiosco</h3>
+            <p className="text-sm text-gray-600 mb-4 text-center">Solo para el personal del estudio.</p>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <input
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                autoFocus
+                value={pin}
+                onChange={(e) => {
+                  setPin(e.target.value.replace(/\D/g, ''));
+                  setError(null);
+                }}
+                maxLength={8}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-center text-2xl tracking-widest"
+                placeholder="PIN"
+              />
+              {error && (
+                <p className="text-sm text-red-600 text-center">{error}</p>
+              )}
+              <button
+                type="submit"
+                disabled={pin.length < 4 || verificando}
+                className="w-full px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white rounded-md disabled:opacity-50"
+              >
+                {verificando ? 'Verificando...' : 'Salir'}
+              </button>
+            </form>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default SalidaKiosco;
@@ -1,56 +1,148 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
+import type { User } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
 import { Usuario } from '../types';
 
 interface AuthContextType {
   currentUser: Usuario | null;
-  login: (username: string, password: string) => Promise<boolean>;
-  logout: () => void;
+  login: (email: string, password: string) => Promise<boolean>;
+  logout: () => Promise<void>;
   isAuthenticated: boolean;
+  isLoading: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-// Usuario de prueba para demostración
-const DEMO_USER: Usuario = {
-  id: '1',
-  usuario: 'demian',
-  password: 'Llamasami1',
-  rol: 'admin'
+// Obtener el perfil de personal asociado a un usuario de Supabase Auth
+const cargarPerfil = async (user: User): Promise<Usuario | null> => {
+  const { data, error } = await supabase
+    .from('staff')
+    .select('*')
+    .eq('id', user.id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error al cargar el perfil del personal:', error);
+    throw error;
+  }
+
+  if (!data || !data.active) {
+    return null;
+  }
+
+  return {
+    id: data.id,
+    email: data.email,
+    nombre: data.display_name,
+    rol: data.role,
+    artistaId: data.artist_id ?? undefined
+  };
 };
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [currentUser, setCurrentUser] = useState<Usuario | null>(null);
-  const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
+  const [sessionUser, setSessionUser] = useState<User | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  // Id del perfil cargado, leído desde el efecto de la sesión sin volver a ejecutarlo
+  const perfilIdRef = useRef<string | undefined>(undefined);
+  perfilIdRef.current = currentUser?.id;
 
   useEffect(() => {
-    // Comprobar si hay un usuario guardado en localStorage
-    const storedUser = localStorage.getItem('currentUser');
-    if (storedUser) {
-      setCurrentUser(JSON.parse(storedUser));
-      setIsAuthenticated(true);
-    }
+    // Eliminar la sesión antigua guardada en localStorage (incluía la contraseña)
+    localStorage.removeItem('currentUser');
+
+    supabase.auth.getSession().then(({ data }) => {
+      setSessionUser(data.session?.user ?? null);
+      if (!data.session) {
+        setIsLoading(false);
+      }
+    });
+
+    // No llamar a Supabase dentro del callback: el perfil se carga en otro efecto
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setSessionUser(session?.user ?? null);
+    });
+
+    return () => subscription.unsubscribe();
   }, []);
 
-  const login = async (username: string, password: string): Promise<boolean> => {
-    // En una aplicación real, esto se haría mediante una llamada API
-    // Para esta demostración, usamos un usuario hardcodeado
-    if (username.toLowerCase() === DEMO_USER.usuario.toLowerCase() && password === DEMO_USER.password) {
-      setCurrentUser(DEMO_USER);
-      setIsAuthenticated(true);
-      localStorage.setItem('currentUser', JSON.stringify(DEMO_USER));
-      return true;
+  useEffect(() => {
+    if (!sessionUser) {
+      setCurrentUser(null);
+      setIsLoading(false);
+      return;
+    }
+
+    // Si el perfil ya corresponde a este usuario (p. ej. tras refrescar el token), no recargar
+    if (perfilIdRef.current === sessionUser.id) {
+      return;
+    }
+
+    let cancelado = false;
+    setIsLoading(true);
+
+    cargarPerfil(sessionUser)
+      .then(async (perfil) => {
+        if (cancelado) return;
+        if (!perfil) {
+          console.warn('La sesión no corresponde a un empleado activo, cerrando sesión');
+          await supabase.auth.signOut();
+        }
+        setCurrentUser(perfil);
+      })
+      .catch(() => {
+        if (!cancelado) setCurrentUser(null);
+      })
+      .finally(() => {
+        if (!cancelado) setIsLoading(false);
+      });
+
+    return () => {
+      cancelado = true;
+    };
+  }, [sessionUser]);
+
+  const login = async (email: string, password: string): Promise<boolean> => {
+    const { data, error } = await supabase.auth.signInWithPassword({
+      email: email.trim(),
+      password
+    });
+
+    if (error) {
+      // Credenciales inválidas: devolver false para que la página muestre el mensaje
+      if (error.status === 400) {
+        return false;
+      }
+      throw error;
     }
-    return false;
+
+    const perfil = await cargarPerfil(data.user);
+    if (!perfil) {
+      await supabase.auth.signOut();
+      throw new Error('Tu cuenta no tiene acceso al panel de administración o está desactivada.');
+    }
+
+    setCurrentUser(perfil);
+    return true;
   };
 
-  const logout = () => {
+  const logout = async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) {
+      console.error('Error al cerrar sesión:', error);
+    }
     setCurrentUser(null);
-    setIsAuthenticated(false);
-    localStorage.removeItem('currentUser');
+    setSessionUser(null);
   };
 
   return (
-    <AuthContext.Provider value={{ currentUser, login, logout, isAuthenticated }}>
+    <AuthContext.Provider value={{
+      currentUser,
+      login,
+      logout,
+      isAuthenticated: currentUser !== null,
+      isLoading
+    }}>
       {children}
     </AuthContext.Provider>
   );
@@ -62,4 +154,4 @@ export const useAuth = () => {
     throw new Error('useAuth debe usarse dentro de un AuthProvider');
   }
   return context;
-};
\ No newline at end of file
+};
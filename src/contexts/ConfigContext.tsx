@@ -1,6 +1,14 @@
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
-import { ConfiguracionFormulario, Artista } from '../types';
+import { ConfiguracionFormulario, Artista, PreguntaSalud, PlantillaConsentimiento, TipoProcedimiento, PasoSeguimiento } from '../types';
 import { supabase, checkSupabaseConnection, createRealtimeSubscription, cacheData, getCachedData } from '../lib/supabase';
+import { registrarEventoAuditoria, calcularDiff } from '../lib/auditoria';
+import type { Database } from '../types/supabase';
+
+type HealthQuestionRow = Database['public']['Tables']['health_questions']['Row'];
+type ProcedureTypeRow = Database['public']['Tables']['procedure_types']['Row'];
+
+// Datos de un tipo nuevo; la plantilla vigente la crea el servidor
+export type NuevoTipoProcedimiento = Omit<TipoProcedimiento, 'id' | 'plantillaId' | 'versionPlantilla'>;
 
 interface ConfigContextType {
   config: ConfiguracionFormulario;
@@ -8,31 +16,79 @@ interface ConfigContextType {
   updateArtista: (id: string, updates: Partial<Artista>) => Promise<void>;
   addArtista: (artista: Artista) => Promise<void>;
   removeArtista: (id: string) => Promise<void>;
+  addPreguntaSalud: (pregunta: Omit<PreguntaSalud, 'id'>) => Promise<void>;
+  updatePreguntaSalud: (id: string, updates: Partial<PreguntaSalud>) => Promise<void>;
+  archivePreguntaSalud: (id: string) => Promise<void>;
+  restorePreguntaSalud: (id: string) => Promise<void>;
+  reorderPreguntasSalud: (ids: string[]) => Promise<void>;
+  getPreguntasSaludArchivadas: () => Promise<PreguntaSalud[]>;
+  addTipoProcedimiento: (tipo: NuevoTipoProcedimiento) => Promise<void>;
+  updateTipoProcedimiento: (id: string, updates: Partial<NuevoTipoProcedimiento>) => Promise<void>;
+  getPlantillasConsentimiento: (tipoProcedimientoId: string) => Promise<PlantillaConsentimiento[]>;
   connectionError: boolean;
   isLoading: boolean;
   retryConnection: () => void;
 }
 
+// Textos con los que se crea la configuración; el servidor los copia al tipo "Tatuaje"
+const textosIniciales = {
+  textoConsentimiento: 'Yo, {Nombre Completo Cliente}, con RUT {Rut Cliente}, de {Edad Cliente} años de edad, declaro ser la persona descrita como "CLIENTE" en este documento y autorizo al artista {Nombre Artista} de {Nombre Estudio} ubicado en {Direccion Estudio} para realizar el procedimiento de tatuaje...',
+  textoTutorLegal: 'Yo, {Nombre Tutor} con cédula de identidad {Rut Tutor}, en mi calidad de {Parentesco Tutor} de {Nombre Cliente} {Apellidos Cliente} con RUT {Rut Cliente}, menor de edad ({Edad Cliente} años), autorizo que se le realice un tatuaje en {Nombre Estudio} ubicado en {Direccion Estudio}...',
+  creamAftercare: 'CUIDADOS POST-TATUAJE CON CREMA\n\n1. Durante las primeras 2-3 horas:\n   - Mantén el vendaje original colocado por el artista.\n   - El tatuaje podría sangrar ligeramente, esto es normal.\n\n2. Después de 2-3 horas:\n   - Retira suavemente el vendaje.\n   - Lava el área con agua tibia y jabón neutro, sin frotar.\n   - Seca dando pequeños toques con una toalla limpia.\n\n3. Durante los siguientes 7-14 días:\n   - Aplica una capa fina de crema recomendada por tu artista 2-3 veces al día.\n   - No cubras el tatuaje con vendajes adicionales.\n   - Evita rascarte, despegar costras o piel descamada.\n   - Evita la exposición directa al sol.\n   - Evita nadar en piscinas, mar o bañeras.\n   - Evita actividades que provoquen sudoración excesiva.\n\n4. Después de la cicatrización (2-3 semanas):\n   - Usa siempre protector solar SPF 50+ en el tatuaje si se expone al sol.\n   - Mantén la piel hidratada.\n\n¡Si tienes dudas o preocupaciones durante el proceso de cicatrización, no dudes en contactarnos!',
+  patchAftercare: 'CUIDADOS POST-TATUAJE CON PARCHE (SECOND SKIN)\n\n1. Parche inicial:\n   - Mantén el parche Second Skin colocado por el artista durante 24 horas (mínimo) a 5 días (máximo).\n   - Es normal ver fluidos acumulados debajo del parche, esto ayuda a la cicatrización.\n\n2. Removiendo el parche:\n   - Retíralo en la ducha con agua tibia para facilitar su desprendimiento.\n   - No lo arranques en seco para evitar dañar la piel.\n   - Lava suavemente el tatuaje con jabón neutro y agua tibia.\n\n3. Después de remover el parche:\n   - Aplica una capa fina de crema recomendada por tu artista 2-3 veces al día durante 7-10 días.\n   - No apliques un nuevo parche a menos que el artista lo recomiende.\n   - Evita la exposición directa al sol.\n   - Evita nadar en piscinas, mar o bañeras hasta que el tatuaje esté completamente cicatrizado.\n\n4. Después de la cicatrización (2-3 semanas):\n   - Usa siempre protector solar SPF 50+ en el tatuaje si se expone al sol.\n   - Mantén la piel hidratada.\n\n¡Si tienes dudas o preocupaciones durante el proceso de cicatrización, no dudes en contactarnos!'
+};
+
 const defaultConfig: ConfiguracionFormulario = {
   nombreEstudio: 'Estudio de Tatuajes',
   direccionEstudio: 'Calle Principal #123, Santiago, Chile',
   preguntasSalud: [],
   artistas: [],
-  textoConsentimiento: 'Yo, {Nombre Cliente}, con RUT {Rut Cliente}, de {Edad Cliente} años de edad, declaro ser la persona descrita como "CLIENTE" en este documento y autorizo al artista {Nombre Artista} de {Nombre Estudio} ubicado en {Direccion Estudio} para realizar el procedimiento de tatuaje...',
-  textoTutorLegal: 'Yo, {Nombre Tutor} con cédula de identidad {Rut Tutor}, en mi calidad de {Parentesco Tutor} de {Nombre Cliente} {Apellidos Cliente} con RUT {Rut Cliente}, menor de edad ({Edad Cliente} años), autorizo que se le realice un tatuaje en {Nombre Estudio} ubicado en {Direccion Estudio}...',
+  tiposProcedimiento: [],
   textosFooter: '¿Deseas un sistema como este? Dale clic acá',
   datosContacto: {
     nombre: 'Desarrollador Web',
     whatsapp: '+56 9 1234 5678',
     email: 'contacto@desarrollador.cl',
     instagram: '@desarrollador_web'
-  },
-  creamAftercare: 'CUIDADOS POST-TATUAJE CON CREMA\n\n1. Durante las primeras 2-3 horas:\n   - Mantén el vendaje original colocado por el artista.\n   - El tatuaje podría sangrar ligeramente, esto es normal.\n\n2. Después de 2-3 horas:\n   - Retira suavemente el vendaje.\n   - Lava el área con agua tibia y jabón neutro, sin frotar.\n   - Seca dando pequeños toques con una toalla limpia.\n\n3. Durante los siguientes 7-14 días:\n   - Aplica una capa fina de crema recomendada por tu artista 2-3 veces al día.\n   - No cubras el tatuaje con vendajes adicionales.\n   - Evita rascarte, despegar costras o piel descamada.\n   - Evita la exposición directa al sol.\n   - Evita nadar en piscinas, mar o bañeras.\n   - Evita actividades que provoquen sudoración excesiva.\n\n4. Después de la cicatrización (2-3 semanas):\n   - Usa siempre protector solar SPF 50+ en el tatuaje si se expone al sol.\n   - Mantén la piel hidratada.\n\n¡Si tienes dudas o preocupaciones durante el proceso de cicatrización, no dudes en contactarnos!',
-  patchAftercare: 'CUIDADOS POST-TATUAJE CON PARCHE (SECOND SKIN)\n\n1. Parche inicial:\n   - Mantén el parche Second Skin colocado por el artista durante 24 horas (mínimo) a 5 días (máximo).\n   - Es normal ver fluidos acumulados debajo del parche, esto ayuda a la cicatrización.\n\n2. Removiendo el parche:\n   - Retíralo en la ducha con agua tibia para facilitar su desprendimiento.\n   - No lo arranques en seco para evitar dañar la piel.\n   - Lava suavemente el tatuaje con jabón neutro y agua tibia.\n\n3. Después de remover el parche:\n   - Aplica una capa fina de crema recomendada por tu artista 2-3 veces al día durante 7-10 días.\n   - No apliques un nuevo parche a menos que el artista lo recomiende.\n   - Evita la exposición directa al sol.\n   - Evita nadar en piscinas, mar o bañeras hasta que el tatuaje esté completamente cicatrizado.\n\n4. Después de la cicatrización (2-3 semanas):\n   - Usa siempre protector solar SPF 50+ en el tatuaje si se expone al sol.\n   - Mantén la piel hidratada.\n\n¡Si tienes dudas o preocupaciones durante el proceso de cicatrización, no dudes en contactarnos!'
+  }
 };
 
-const CONFIG_CACHE_KEY = 'app_config_data';
-const CONFIG_CACHE_TTL = 3600; // 1 hora en segundos
+// Convertir una fila de health_questions al formato de la aplicación
+const mapPreguntaSalud = (row: HealthQuestionRow): PreguntaSalud => ({
+  id: row.id,
+  pregunta: row.question,
+  respuestaPorDefecto: row.default_answer,
+  mostrarCampoAdicional: row.show_additional_field,
+  campoAdicionalSoloSi: row.additional_field_only_if_yes,
+  version: row.version,
+  archivadaEn: row.archived_at,
+  nivelRiesgo: row.risk_level,
+  respuestaRiesgo: row.risk_answer,
+  mensajeRiesgo: row.risk_message || undefined,
+  tipoProcedimientoId: row.procedure_type_id
+});
+
+// Convertir una fila de procedure_types al formato de la aplicación, con su plantilla vigente
+const mapTipoProcedimiento = (row: ProcedureTypeRow, plantilla?: { id: string; version: number }): TipoProcedimiento => ({
+  id: row.id,
+  nombre: row.name,
+  prefijoCodigo: row.code_prefix,
+  textoConsentimiento: row.consent_text,
+  textoTutorLegal: row.tutor_consent_text,
+  edadMinima: row.minimum_age ?? undefined,
+  creamAftercare: row.cream_aftercare,
+  patchAftercare: row.patch_aftercare,
+  mensajesSeguimiento: (row.followup_texts ?? {}) as Partial<Record<PasoSeguimiento, string>>,
+  pideDetallesTatuaje: row.asks_tattoo_details,
+  activo: row.active,
+  plantillaId: plantilla?.id,
+  versionPlantilla: plantilla?.version
+});
+
+// v2: los textos legales y los cuidados pasaron a los tipos de procedimiento
+// v3: también los mensajes de seguimiento
+const CONFIG_CACHE_KEY = 'app_config_data_v3';
+const CONFIG_CACHE_TTL = 172800; // 48 horas en segundos: el formulario del kiosco debe funcionar sin conexión
 
 const ConfigContext = createContext<ConfigContextType | undefined>(undefined);
 
@@ -159,12 +215,12 @@ export const ConfigProvider: React.FC<{ children: React.ReactNode }> = ({ childr
             .insert({
               studio_name: defaultConfig.nombreEstudio,
               studio_address: defaultConfig.direccionEstudio,
-              consent_text: defaultConfig.textoConsentimiento,
-              tutor_consent_text: defaultConfig.textoTutorLegal,
+              consent_text: textosIniciales.textoConsentimiento,
+              tutor_consent_text: textosIniciales.textoTutorLegal,
               footer_text: defaultConfig.textosFooter,
               contact_info: defaultConfig.datosContacto,
-              cream_aftercare: defaultConfig.creamAftercare,
-              patch_aftercare: defaultConfig.patchAftercare
+              cream_aftercare: textosIniciales.creamAftercare,
+              patch_aftercare: textosIniciales.patchAftercare
             })
             .select();
           
@@ -185,7 +241,7 @@ export const ConfigProvider: React.FC<{ children: React.ReactNode }> = ({ childr
         localStorage.setItem('app_config_id', currentConfigId);
         console.log('ConfigID establecido:', currentConfigId);
         
-        // Utilizar AbortController para los artistas
+        // Utilizar AbortController para los artistas y las preguntas de salud
         const artistsController = new AbortController();
         const artistsSignal = artistsController.signal;
         const artistsTimeoutId = setTimeout(() => artistsController.abort(), 15000); // 15s timeout (aumentado)
@@ -198,8 +254,6 @@ export const ConfigProvider: React.FC<{ children: React.ReactNode }> = ({ childr
             .eq('config_id', currentConfigId)
             .abortSignal(artistsSignal);
           
-          clearTimeout(artistsTimeoutId);
-          
           if (artistsError) {
             console.error('Error al cargar artistas:', artistsError);
             throw new Error(`Error al cargar artistas: ${artistsError.message}`);
@@ -213,18 +267,70 @@ export const ConfigProvider: React.FC<{ children: React.ReactNode }> = ({ childr
             imagen: artist.image_url
           })) : [];
           
+          // Cargar preguntas de salud vigentes en el orden definido por el estudio
+          const { data: questionsData, error: questionsError } = await supabase
+            .from('health_questions')
+            .select('*')
+            .eq('config_id', currentConfigId)
+            .is('archived_at', null)
+            .order('position', { ascending: true })
+            .order('created_at', { ascending: true })
+            .abortSignal(artistsSignal);
+          
+          if (questionsError) {
+            console.error('Error al cargar preguntas de salud:', questionsError);
+            throw new Error(`Error al cargar preguntas de salud: ${questionsError.message}`);
+          }
+          
+          console.log('Preguntas de salud cargadas:', questionsData);
+          const preguntas = questionsData ? questionsData.map(mapPreguntaSalud) : [];
+          
+          // Tipos de procedimiento, incluidos los inactivos para mostrar los consentimientos antiguos
+          const { data: typesData, error: typesError } = await supabase
+            .from('procedure_types')
+            .select('*')
+            .eq('config_id', currentConfigId)
+            .order('position', { ascending: true })
+            .order('created_at', { ascending: true })
+            .abortSignal(artistsSignal);
+          
+          if (typesError) {
+            console.error('Error al cargar tipos de procedimiento:', typesError);
+            throw new Error(`Error al cargar tipos de procedimiento: ${typesError.message}`);
+          }
+          
+          // Versión vigente de los textos legales de cada tipo, para guardarla con cada consentimiento
+          const { data: templateData, error: templateError } = await supabase
+            .from('consent_templates')
+            .select('id, version, procedure_type_id')
+            .eq('config_id', currentConfigId)
+            .order('version', { ascending: false })
+            .abortSignal(artistsSignal);
+          
+          clearTimeout(artistsTimeoutId);
+          
+          if (templateError) {
+            // No es crítico: el servidor asigna la plantilla vigente si no se envía
+            console.error('Error al cargar las plantillas de consentimiento:', templateError);
+          }
+          
+          const tiposProcedimiento = (typesData || []).map(tipo =>
+            mapTipoProcedimiento(tipo, templateData?.find(plantilla => plantilla.procedure_type_id === tipo.id))
+          );
+          
           // Configuración completa para actualizar el estado y guardar en caché
           const completeConfig = {
             nombreEstudio: currentConfig.studio_name,
             direccionEstudio: currentConfig.studio_address,
-            textoConsentimiento: currentConfig.consent_text,
-            textoTutorLegal: currentConfig.tutor_consent_text,
+            logo: currentConfig.logo || undefined,
+            colorMarca: currentConfig.brand_color || undefined,
             textosFooter: currentConfig.footer_text,
             datosContacto: currentConfig.contact_info,
             artistas: artists,
-            preguntasSalud: [], // No cargamos las preguntas de salud ya que ahora son fijas
-            creamAftercare: currentConfig.cream_aftercare,
-            patchAftercare: currentConfig.patch_aftercare
+            preguntasSalud: preguntas,
+            tiposProcedimiento,
+            canalSeguimiento: currentConfig.followup_channel || undefined,
+            diasRetoqueGratis: currentConfig.touch_up_window_days ?? undefined
           };
           
           // Guardar en caché para uso offline
@@ -320,10 +426,16 @@ export const ConfigProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       }
     });
     
+    const healthQuestionsSubscription = createRealtimeSubscription('health_questions', () => {
+      console.log('Actualización detectada en la tabla health_questions, recargando datos...');
+      loadConfig();
+    });
+    
     // Limpiar suscripciones al desmontar
     return () => {
       configSubscription.unsubscribe();
       artistsSubscription.unsubscribe();
+      healthQuestionsSubscription.unsubscribe();
     };
   }, [loadConfig, configId]);
 
@@ -343,6 +455,9 @@ export const ConfigProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     console.log('Actualizando configuración con ID:', configId);
     console.log('Nuevos datos:', newConfig);
     
+    // Guardar los valores anteriores para el registro de auditoría
+    const configAnterior = config;
+    
     try {
       // Actualizar estado local primero para una respuesta inmediata al usuario
       const updatedConfig = { ...config, ...newConfig };
@@ -362,12 +477,13 @@ export const ConfigProvider: React.FC<{ children: React.ReactNode }> = ({ childr
           .update({
             studio_name: newConfig.nombreEstudio,
             studio_address: newConfig.direccionEstudio,
-            consent_text: newConfig.textoConsentimiento,
-            tutor_consent_text: newConfig.textoTutorLegal,
             footer_text: newConfig.textosFooter,
             contact_info: newConfig.datosContacto,
-            cream_aftercare: newConfig.creamAftercare,
-            patch_aftercare: newConfig.patchAftercare,
+            // Un logo vacío lo elimina
+            logo: newConfig.logo !== undefined ? newConfig.logo || null : undefined,
+            brand_color: newConfig.colorMarca,
+            followup_channel: newConfig.canalSeguimiento,
+            touch_up_window_days: newConfig.diasRetoqueGratis,
             updated_at: new Date().toISOString()
           })
           .eq('id', configId)
@@ -383,6 +499,13 @@ export const ConfigProvider: React.FC<{ children: React.ReactNode }> = ({ childr
         
         console.log('Configuración actualizada en Supabase:', data);
         console.log('Configuración actualizada correctamente');
+        
+        registrarEventoAuditoria({
+          accion: 'config.actualizar',
+          entidad: 'config',
+          entidadId: configId,
+          diff: calcularDiff(configAnterior, newConfig, ['logo'])
+        });
       } catch (fetchError) {
         clearTimeout(timeoutId);
         if (fetchError.name === 'AbortError') {
@@ -414,6 +537,9 @@ export const ConfigProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     console.log('Actualizando artista con ID:', id);
     console.log('Nuevos datos:', updates);
     
+    // Guardar los valores anteriores para el registro de auditoría
+    const artistaAnterior = config.artistas.find(a => a.id === id);
+    
     try {
       // Actualizar estado local primero para una respuesta inmediata
       setConfig(prevConfig => {
@@ -457,6 +583,13 @@ export const ConfigProvider: React.FC<{ children: React.ReactNode }> = ({ childr
         
         console.log('Artista actualizado en Supabase:', data);
         console.log('Artista actualizado correctamente');
+        
+        registrarEventoAuditoria({
+          accion: 'artista.actualizar',
+          entidad: 'artista',
+          entidadId: id,
+          diff: artistaAnterior ? calcularDiff(artistaAnterior, updates, ['imagen']) : null
+        });
       } catch (fetchError) {
         clearTimeout(timeoutId);
         if (fetchError.name === 'AbortError') {
@@ -663,6 +796,652 @@ export const ConfigProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     }
   };
 
+  // Añadir pregunta de salud (se agrega al final de la lista)
+  const addPreguntaSalud = async (pregunta: Omit<PreguntaSalud, 'id'>) => {
+    if (!configId) {
+      console.error('Error: No hay ID de configuración disponible');
+      throw new Error('No hay configuración disponible');
+    }
+    
+    // Verificar conexión primero
+    const isConnected = await checkSupabaseConnection();
+    if (!isConnected) {
+      throw new Error('No se puede conectar a Supabase. Por favor, verifica tu conexión e inténtalo de nuevo.');
+    }
+    
+    console.log('Añadiendo nueva pregunta de salud para configId:', configId);
+    
+    try {
+      // Utilizar AbortController para establecer un timeout
+      const controller = new AbortController();
+      const signal = controller.signal;
+      const timeoutId = setTimeout(() => controller.abort(), 15000); // 15s timeout
+      
+      try {
+        const { data, error } = await supabase
+          .from('health_questions')
+          .insert({
+            config_id: configId,
+            question: pregunta.pregunta,
+            default_answer: pregunta.respuestaPorDefecto,
+            show_additional_field: pregunta.mostrarCampoAdicional,
+            additional_field_only_if_yes: pregunta.mostrarCampoAdicional && pregunta.campoAdicionalSoloSi,
+            position: config.preguntasSalud.length,
+            risk_level: pregunta.nivelRiesgo || 'none',
+            risk_answer: pregunta.respuestaRiesgo ?? true,
+            risk_message: pregunta.mensajeRiesgo || null,
+            procedure_type_id: pregunta.tipoProcedimientoId || null
+          })
+          .select()
+          .abortSignal(signal);
+        
+        clearTimeout(timeoutId);
+        
+        if (error) {
+          console.error('Error al añadir la pregunta de salud en Supabase:', error);
+          throw new Error(`Error al añadir pregunta de salud: ${error.message}`);
+        }
+        
+        if (!data || data.length === 0) {
+          throw new Error('No se recibieron datos al crear la pregunta de salud');
+        }
+        
+        const nuevaPregunta = mapPreguntaSalud(data[0]);
+        
+        // Actualizar estado local
+        setConfig(prevConfig => {
+          const updatedConfig = {
+            ...prevConfig,
+            preguntasSalud: [...prevConfig.preguntasSalud, nuevaPregunta]
+          };
+          
+          // Actualizar caché
+          cacheData(CONFIG_CACHE_KEY, updatedConfig, CONFIG_CACHE_TTL);
+          
+          return updatedConfig;
+        });
+        
+        console.log('Pregunta de salud añadida correctamente');
+        
+        registrarEventoAuditoria({
+          accion: 'pregunta_salud.actualizar',
+          entidad: 'pregunta_salud',
+          entidadId: nuevaPregunta.id,
+          diff: { pregunta: { antes: null, despues: nuevaPregunta.pregunta } }
+        });
+      } catch (fetchError) {
+        clearTimeout(timeoutId);
+        if (fetchError instanceof Error && fetchError.name === 'AbortError') {
+          throw new Error('Tiempo de espera agotado al añadir la pregunta de salud. Por favor intente nuevamente.');
+        }
+        throw fetchError;
+      }
+    } catch (error) {
+      console.error('Error en addPreguntaSalud:', error);
+      
+      // Re-verificar conexión para actualizar estado
+      const stillConnected = await checkSupabaseConnection();
+      if (!stillConnected) {
+        setConnectionError(true);
+      }
+      
+      throw error;
+    }
+  };
+
+  // Actualizar pregunta de salud
+  // Los consentimientos ya firmados guardan el texto y la versión de la pregunta, por lo que editarla no los altera
+  const updatePreguntaSalud = async (id: string, updates: Partial<PreguntaSalud>) => {
+    // Verificar conexión primero
+    const isConnected = await checkSupabaseConnection();
+    if (!isConnected) {
+      throw new Error('No se puede conectar a Supabase. Por favor, verifica tu conexión e inténtalo de nuevo.');
+    }
+    
+    console.log('Actualizando pregunta de salud con ID:', id);
+    
+    // Guardar los valores anteriores para el registro de auditoría
+    const preguntaAnterior = config.preguntasSalud.find(p => p.id === id);
+    
+    try {
+      // Actualizar estado local primero para una respuesta inmediata
+      setConfig(prevConfig => {
+        const updatedConfig = {
+          ...prevConfig,
+          preguntasSalud: prevConfig.preguntasSalud.map(p =>
+            p.id === id ? { ...p, ...updates } : p
+          )
+        };
+        
+        // Actualizar caché
+        cacheData(CONFIG_CACHE_KEY, updatedConfig, CONFIG_CACHE_TTL);
+        
+        return updatedConfig;
+      });
+      
+      // Utilizar AbortController para establecer un timeout
+      const controller = new AbortController();
+      const signal = controller.signal;
+      const timeoutId = setTimeout(() => controller.abort(), 15000); // 15s timeout
+      
+      try {
+        const { data, error } = await supabase
+          .from('health_questions')
+          .update({
+            question: updates.pregunta,
+            default_answer: updates.respuestaPorDefecto,
+            show_additional_field: updates.mostrarCampoAdicional,
+            additional_field_only_if_yes: updates.campoAdicionalSoloSi,
+            risk_level: updates.nivelRiesgo,
+            risk_answer: updates.respuestaRiesgo,
+            risk_message: updates.mensajeRiesgo === undefined ? undefined : updates.mensajeRiesgo || null,
+            procedure_type_id: updates.tipoProcedimientoId === undefined ? undefined : updates.tipoProcedimientoId || null,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', id)
+          .select()
+          .abortSignal(signal);
+        
+        clearTimeout(timeoutId);
+        
+        if (error) {
+          console.error('Error al actualizar la pregunta de salud en Supabase:', error);
+          throw new Error(`Error al actualizar pregunta de salud: ${error.message}`);
+        }
+        
+        // El servidor incrementa la versión si cambió el texto o las opciones
+        if (data && data.length > 0) {
+          const preguntaActualizada = mapPreguntaSalud(data[0]);
+          setConfig(prevConfig => {
+            const updatedConfig = {
+              ...prevConfig,
+              preguntasSalud: prevConfig.preguntasSalud.map(p =>
+                p.id === id ? preguntaActualizada : p
+              )
+            };
+            
+            cacheData(CONFIG_CACHE_KEY, updatedConfig, CONFIG_CACHE_TTL);
+            
+            return updatedConfig;
+          });
+        }
+        
+        console.log('Pregunta de salud actualizada correctamente');
+        
+        registrarEventoAuditoria({
+          accion: 'pregunta_salud.actualizar',
+          entidad: 'pregunta_salud',
+          entidadId: id,
+          diff: preguntaAnterior ? calcularDiff(preguntaAnterior, updates) : null
+        });
+      } catch (fetchError) {
+        clearTimeout(timeoutId);
+        if (fetchError instanceof Error && fetchError.name === 'AbortError') {
+          throw new Error('Tiempo de espera agotado al actualizar la pregunta de salud. Por favor intente nuevamente.');
+        }
+        throw fetchError;
+      }
+    } catch (error) {
+      console.error('Error en updatePreguntaSalud:', error);
+      
+      // Re-verificar conexión para actualizar estado
+      const stillConnected = await checkSupabaseConnection();
+      if (!stillConnected) {
+        setConnectionError(true);
+      }
+      
+      throw error;
+    }
+  };
+
+  // Archivar pregunta de salud: deja de mostrarse en el formulario pero se conserva su historial
+  const archivePreguntaSalud = async (id: string) => {
+    // Verificar conexión primero
+    const isConnected = await checkSupabaseConnection();
+    if (!isConnected) {
+      throw new Error('No se puede conectar a Supabase. Por favor, verifica tu conexión e inténtalo de nuevo.');
+    }
+    
+    console.log('Archivando pregunta de salud con ID:', id);
+    
+    const preguntaAnterior = config.preguntasSalud.find(p => p.id === id);
+    
+    try {
+      // Actualizar estado local primero para una respuesta inmediata
+      setConfig(prevConfig => {
+        const updatedConfig = {
+          ...prevConfig,
+          preguntasSalud: prevConfig.preguntasSalud.filter(p => p.id !== id)
+        };
+        
+        // Actualizar caché
+        cacheData(CONFIG_CACHE_KEY, updatedConfig, CONFIG_CACHE_TTL);
+        
+        return updatedConfig;
+      });
+      
+      // Utilizar AbortController para establecer un timeout
+      const controller = new AbortController();
+      const signal = controller.signal;
+      const timeoutId = setTimeout(() => controller.abort(), 10000); // 10s timeout
+      
+      try {
+        const { error } = await supabase
+          .from('health_questions')
+          .update({
+            archived_at: new Date().toISOString(),
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', id)
+          .abortSignal(signal);
+        
+        clearTimeout(timeoutId);
+        
+        if (error) {
+          console.error('Error al archivar la pregunta de salud en Supabase:', error);
+          throw new Error(`Error al archivar pregunta de salud: ${error.message}`);
+        }
+        
+        console.log('Pregunta de salud archivada correctamente');
+        
+        registrarEventoAuditoria({
+          accion: 'pregunta_salud.actualizar',
+          entidad: 'pregunta_salud',
+          entidadId: id,
+          diff: { archivada: { antes: false, despues: true }, pregunta: preguntaAnterior?.pregunta ?? null }
+        });
+      } catch (fetchError) {
+        clearTimeout(timeoutId);
+        if (fetchError instanceof Error && fetchError.name === 'AbortError') {
+          throw new Error('Tiempo de espera agotado al archivar la pregunta de salud. Por favor intente nuevamente.');
+        }
+        throw fetchError;
+      }
+    } catch (error) {
+      console.error('Error en archivePreguntaSalud:', error);
+      
+      // Re-verificar conexión para actualizar estado
+      const stillConnected = await checkSupabaseConnection();
+      if (!stillConnected) {
+        setConnectionError(true);
+      }
+      
+      throw error;
+    }
+  };
+
+  // Restaurar una pregunta archivada al final de la lista
+  const restorePreguntaSalud = async (id: string) => {
+    // Verificar conexión primero
+    const isConnected = await checkSupabaseConnection();
+    if (!isConnected) {
+      throw new Error('No se puede conectar a Supabase. Por favor, verifica tu conexión e inténtalo de nuevo.');
+    }
+    
+    console.log('Restaurando pregunta de salud con ID:', id);
+    
+    try {
+      const { data, error } = await supabase
+        .from('health_questions')
+        .update({
+          archived_at: null,
+          position: config.preguntasSalud.length,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', id)
+        .select();
+      
+      if (error) {
+        console.error('Error al restaurar la pregunta de salud en Supabase:', error);
+        throw new Error(`Error al restaurar pregunta de salud: ${error.message}`);
+      }
+      
+      if (!data || data.length === 0) {
+        throw new Error('No se recibieron datos al restaurar la pregunta de salud');
+      }
+      
+      const preguntaRestaurada = mapPreguntaSalud(data[0]);
+      
+      setConfig(prevConfig => {
+        const updatedConfig = {
+          ...prevConfig,
+          preguntasSalud: [...prevConfig.preguntasSalud, preguntaRestaurada]
+        };
+        
+        // Actualizar caché
+        cacheData(CONFIG_CACHE_KEY, updatedConfig, CONFIG_CACHE_TTL);
+        
+        return updatedConfig;
+      });
+      
+      console.log('Pregunta de salud restaurada correctamente');
+      
+      registrarEventoAuditoria({
+        accion: 'pregunta_salud.actualizar',
+        entidad: 'pregunta_salud',
+        entidadId: id,
+        diff: { archivada: { antes: true, despues: false }, pregunta: preguntaRestaurada.pregunta }
+      });
+    } catch (error) {
+      console.error('Error en restorePreguntaSalud:', error);
+      
+      // Re-verificar conexión para actualizar estado
+      const stillConnected = await checkSupabaseConnection();
+      if (!stillConnected) {
+        setConnectionError(true);
+      }
+      
+      throw error;
+    }
+  };
+
+  // Guardar el nuevo orden de las preguntas de salud
+  const reorderPreguntasSalud = async (ids: string[]) => {
+    // Verificar conexión primero
+    const isConnected = await checkSupabaseConnection();
+    if (!isConnected) {
+      throw new Error('No se puede conectar a Supabase. Por favor, verifica tu conexión e inténtalo de nuevo.');
+    }
+    
+    const ordenAnterior = config.preguntasSalud.map(p => p.id);
+    
+    try {
+      // Actualizar estado local primero para que la lista no "salte" al soltar
+      setConfig(prevConfig => {
+        const porId = new Map(prevConfig.preguntasSalud.map(p => [p.id, p]));
+        const updatedConfig = {
+          ...prevConfig,
+          preguntasSalud: ids
+            .map(id => porId.get(id))
+            .filter((p): p is PreguntaSalud => p !== undefined)
+        };
+        
+        // Actualizar caché
+        cacheData(CONFIG_CACHE_KEY, updatedConfig, CONFIG_CACHE_TTL);
+        
+        return updatedConfig;
+      });
+      
+      const { error } = await supabase.rpc('reordenar_preguntas_salud', { p_ids: ids });
+      
+      if (error) {
+        console.error('Error al reordenar las preguntas de salud en Supabase:', error);
+        throw new Error(`Error al guardar el orden de las preguntas: ${error.message}`);
+      }
+      
+      console.log('Orden de preguntas de salud guardado correctamente');
+      
+      registrarEventoAuditoria({
+        accion: 'pregunta_salud.actualizar',
+        entidad: 'pregunta_salud',
+        diff: { orden: { antes: ordenAnterior, despues: ids } }
+      });
+    } catch (error) {
+      console.error('Error en reorderPreguntasSalud:', error);
+      
+      // Restaurar el orden anterior si no se pudo guardar
+      loadConfig();
+      
+      throw error;
+    }
+  };
+
+  // Preguntas archivadas (solo se consultan desde el panel de configuración)
+  const getPreguntasSaludArchivadas = useCallback(async (): Promise<PreguntaSalud[]> => {
+    if (!configId) {
+      return [];
+    }
+    
+    const { data, error } = await supabase
+      .from('health_questions')
+      .select('*')
+      .eq('config_id', configId)
+      .not('archived_at', 'is', null)
+      .order('archived_at', { ascending: false });
+    
+    if (error) {
+      console.error('Error al cargar preguntas de salud archivadas:', error);
+      throw new Error(`Error al cargar preguntas archivadas: ${error.message}`);
+    }
+    
+    return (data || []).map(mapPreguntaSalud);
+  }, [configId]);
+
+  // Versión vigente de los textos legales de un tipo; la crea el servidor al guardar los textos
+  const obtenerPlantillaVigente = async (tipoProcedimientoId: string) => {
+    const { data, error } = await supabase
+      .from('consent_templates')
+      .select('id, version')
+      .eq('procedure_type_id', tipoProcedimientoId)
+      .order('version', { ascending: false })
+      .limit(1);
+    
+    if (error) {
+      // No es crítico: el servidor asigna la plantilla vigente si el formulario no la envía
+      console.error('Error al cargar la plantilla vigente:', error);
+      return undefined;
+    }
+    
+    return data && data.length > 0 ? data[0] : undefined;
+  };
+  
+  // Añadir tipo de procedimiento (se agrega al final de la lista)
+  const addTipoProcedimiento = async (tipo: NuevoTipoProcedimiento) => {
+    if (!configId) {
+      console.error('Error: No hay ID de configuración disponible');
+      throw new Error('No hay configuración disponible');
+    }
+    
+    // Verificar conexión primero
+    const isConnected = await checkSupabaseConnection();
+    if (!isConnected) {
+      throw new Error('No se puede conectar a Supabase. Por favor, verifica tu conexión e inténtalo de nuevo.');
+    }
+    
+    console.log('Añadiendo nuevo tipo de procedimiento para configId:', configId);
+    
+    try {
+      // Utilizar AbortController para establecer un timeout
+      const controller = new AbortController();
+      const signal = controller.signal;
+      const timeoutId = setTimeout(() => controller.abort(), 15000); // 15s timeout
+      
+      try {
+        const { data, error } = await supabase
+          .from('procedure_types')
+          .insert({
+            config_id: configId,
+            name: tipo.nombre,
+            code_prefix: tipo.prefijoCodigo,
+            consent_text: tipo.textoConsentimiento,
+            tutor_consent_text: tipo.textoTutorLegal,
+            minimum_age: tipo.edadMinima ?? null,
+            cream_aftercare: tipo.creamAftercare,
+            patch_aftercare: tipo.patchAftercare,
+            followup_texts: tipo.mensajesSeguimiento,
+            asks_tattoo_details: tipo.pideDetallesTatuaje,
+            active: tipo.activo,
+            position: config.tiposProcedimiento.length
+          })
+          .select()
+          .abortSignal(signal);
+        
+        clearTimeout(timeoutId);
+        
+        if (error) {
+          console.error('Error al añadir el tipo de procedimiento en Supabase:', error);
+          throw new Error(error.code === '23505'
+            ? `Ya existe un tipo de procedimiento con el prefijo ${tipo.prefijoCodigo}`
+            : `Error al añadir tipo de procedimiento: ${error.message}`);
+        }
+        
+        if (!data || data.length === 0) {
+          throw new Error('No se recibieron datos al crear el tipo de procedimiento');
+        }
+        
+        const nuevoTipo = mapTipoProcedimiento(data[0], await obtenerPlantillaVigente(data[0].id));
+        
+        // Actualizar estado local
+        setConfig(prevConfig => {
+          const updatedConfig = {
+            ...prevConfig,
+            tiposProcedimiento: [...prevConfig.tiposProcedimiento, nuevoTipo]
+          };
+          
+          // Actualizar caché
+          cacheData(CONFIG_CACHE_KEY, updatedConfig, CONFIG_CACHE_TTL);
+          
+          return updatedConfig;
+        });
+        
+        console.log('Tipo de procedimiento añadido correctamente');
+        
+        registrarEventoAuditoria({
+          accion: 'tipo_procedimiento.actualizar',
+          entidad: 'tipo_procedimiento',
+          entidadId: nuevoTipo.id,
+          diff: { nombre: { antes: null, despues: nuevoTipo.nombre } }
+        });
+      } catch (fetchError) {
+        clearTimeout(timeoutId);
+        if (fetchError instanceof Error && fetchError.name === 'AbortError') {
+          throw new Error('Tiempo de espera agotado al añadir el tipo de procedimiento. Por favor intente nuevamente.');
+        }
+        throw fetchError;
+      }
+    } catch (error) {
+      console.error('Error en addTipoProcedimiento:', error);
+      
+      // Re-verificar conexión para actualizar estado
+      const stillConnected = await checkSupabaseConnection();
+      if (!stillConnected) {
+        setConnectionError(true);
+      }
+      
+      throw error;
+    }
+  };
+  
+  // Actualizar tipo de procedimiento
+  // Si cambian los textos legales el servidor crea una versión nueva; los consentimientos firmados conservan la suya
+  const updateTipoProcedimiento = async (id: string, updates: Partial<NuevoTipoProcedimiento>) => {
+    // Verificar conexión primero
+    const isConnected = await checkSupabaseConnection();
+    if (!isConnected) {
+      throw new Error('No se puede conectar a Supabase. Por favor, verifica tu conexión e inténtalo de nuevo.');
+    }
+    
+    console.log('Actualizando tipo de procedimiento con ID:', id);
+    
+    // Guardar los valores anteriores para el registro de auditoría
+    const tipoAnterior = config.tiposProcedimiento.find(t => t.id === id);
+    
+    try {
+      // Utilizar AbortController para establecer un timeout
+      const controller = new AbortController();
+      const signal = controller.signal;
+      const timeoutId = setTimeout(() => controller.abort(), 15000); // 15s timeout
+      
+      try {
+        const { data, error } = await supabase
+          .from('procedure_types')
+          .update({
+            name: updates.nombre,
+            code_prefix: updates.prefijoCodigo,
+            consent_text: updates.textoConsentimiento,
+            tutor_consent_text: updates.textoTutorLegal,
+            minimum_age: 'edadMinima' in updates ? updates.edadMinima ?? null : undefined,
+            cream_aftercare: updates.creamAftercare,
+            patch_aftercare: updates.patchAftercare,
+            followup_texts: updates.mensajesSeguimiento,
+            asks_tattoo_details: updates.pideDetallesTatuaje,
+            active: updates.activo
+          })
+          .eq('id', id)
+          .select()
+          .abortSignal(signal);
+        
+        clearTimeout(timeoutId);
+        
+        if (error) {
+          console.error('Error al actualizar el tipo de procedimiento en Supabase:', error);
+          throw new Error(error.code === '23505'
+            ? `Ya existe un tipo de procedimiento con el prefijo ${updates.prefijoCodigo}`
+            : `Error al actualizar tipo de procedimiento: ${error.message}`);
+        }
+        
+        if (!data || data.length === 0) {
+          throw new Error('No se recibieron datos al actualizar el tipo de procedimiento');
+        }
+        
+        const tipoActualizado = mapTipoProcedimiento(data[0], await obtenerPlantillaVigente(id));
+        
+        setConfig(prevConfig => {
+          const updatedConfig = {
+            ...prevConfig,
+            tiposProcedimiento: prevConfig.tiposProcedimiento.map(t =>
+              t.id === id ? tipoActualizado : t
+            )
+          };
+          
+          // Actualizar caché
+          cacheData(CONFIG_CACHE_KEY, updatedConfig, CONFIG_CACHE_TTL);
+          
+          return updatedConfig;
+        });
+        
+        console.log('Tipo de procedimiento actualizado correctamente');
+        
+        registrarEventoAuditoria({
+          accion: 'tipo_procedimiento.actualizar',
+          entidad: 'tipo_procedimiento',
+          entidadId: id,
+          diff: tipoAnterior
+            ? calcularDiff(tipoAnterior, updates, ['textoConsentimiento', 'textoTutorLegal', 'creamAftercare', 'patchAftercare', 'mensajesSeguimiento'])
+            : null
+        });
+      } catch (fetchError) {
+        clearTimeout(timeoutId);
+        if (fetchError instanceof Error && fetchError.name === 'AbortError') {
+          throw new Error('Tiempo de espera agotado al actualizar el tipo de procedimiento. Por favor intente nuevamente.');
+        }
+        throw fetchError;
+      }
+    } catch (error) {
+      console.error('Error en updateTipoProcedimiento:', error);
+      
+      // Re-verificar conexión para actualizar estado
+      const stillConnected = await checkSupabaseConnection();
+      if (!stillConnected) {
+        setConnectionError(true);
+      }
+      
+      throw error;
+    }
+  };
+
+  // Obtener el historial de versiones de los textos legales de un tipo, de la más reciente a la más antigua
+  const getPlantillasConsentimiento = useCallback(async (tipoProcedimientoId: string): Promise<PlantillaConsentimiento[]> => {
+    const { data, error } = await supabase
+      .from('consent_templates')
+      .select('*')
+      .eq('procedure_type_id', tipoProcedimientoId)
+      .order('version', { ascending: false });
+    
+    if (error) {
+      console.error('Error al cargar las versiones del consentimiento:', error);
+      throw new Error(`Error al cargar versiones del consentimiento: ${error.message}`);
+    }
+    
+    return (data || []).map(row => ({
+      id: row.id,
+      version: row.version,
+      textoConsentimiento: row.consent_text,
+      textoTutorLegal: row.tutor_consent_text,
+      fechaCreacion: row.created_at
+    }));
+  }, []);
+
   return (
     <ConfigContext.Provider value={{
       config,
@@ -670,6 +1449,15 @@ export const ConfigProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       updateArtista,
       addArtista,
       removeArtista,
+      addPreguntaSalud,
+      updatePreguntaSalud,
+      archivePreguntaSalud,
+      restorePreguntaSalud,
+      reorderPreguntasSalud,
+      getPreguntasSaludArchivadas,
+      addTipoProcedimiento,
+      updateTipoProcedimiento,
+      getPlantillasConsentimiento,
       connectionError,
       isLoading: loading,
       retryConnection
@@ -1,21 +1,44 @@
-import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
-import { Consentimiento, EstadisticasGenerales, EstadisticaArtista } from '../types';
-import { format, parseISO } from 'date-fns';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import { Consentimiento, DetallesProcedimiento, EstadisticasGenerales, EstadisticaArtista } from '../types';
+import { format, parseISO, startOfMonth, subMonths } from 'date-fns';
 import { es } from 'date-fns/locale';
-import { supabase, checkSupabaseConnection, createRealtimeSubscription, cacheData, getCachedData } from '../lib/supabase';
+import { supabase, checkSupabaseConnection, createRealtimeSubscription, cacheData, getCachedData, clearCacheItem, isNetworkUnavailable, resetNetworkStatus } from '../lib/supabase';
+import { useAuth } from './AuthContext';
+import { useConfig } from './ConfigContext';
+import type { Json } from '../types/supabase';
+import { registrarEventoAuditoria, calcularDiff } from '../lib/auditoria';
+import { calcularHashConsentimiento } from '../utils/integridad';
+import { subirCedula, subirImagenDiseno, archivarPdfConsentimiento } from '../lib/documentos';
+import { generatePDF } from '../utils/pdfGenerator';
+import { imagenParaPdf } from '../utils/imagenes';
+import { enviarCorreoConsentimiento } from '../lib/correo';
+import {
+  NuevoConsentimiento,
+  ConsentimientoPendiente,
+  obtenerPendientes,
+  guardarPendiente,
+  eliminarPendiente,
+  suscribirCambiosCola
+} from '../lib/colaConsentimientos';
 
 interface ConsentimientosContextType {
   consentimientos: Consentimiento[];
   consentimientosArchivados: Consentimiento[]; 
-  addConsentimiento: (consentimiento: Omit<Consentimiento, 'id' | 'codigo' | 'fechaCreacion' | 'archivado'>) => Promise<Consentimiento>;
+  addConsentimiento: (consentimiento: NuevoConsentimiento) => Promise<Consentimiento>;
   getConsentimiento: (id: string) => Consentimiento | undefined;
   getConsentimientoPorCodigo: (codigo: string) => Consentimiento | undefined;
   archivarConsentimiento: (id: string) => Promise<void>;
+  actualizarProcedimiento: (id: string, detalles: DetallesProcedimiento, imagenDiseno?: File) => Promise<void>;
   getEstadisticas: () => EstadisticasGenerales;
+  getEstadisticasArtista: (nombreArtista: string) => EstadisticaArtista;
   connectionError: boolean;
   isLoading: boolean;
   retryConnection: () => void;
   lastConnectionAttempt: Date | null;
+  // Consentimientos firmados sin conexión que esperan sincronizarse
+  pendientesSincronizacion: ConsentimientoPendiente[];
+  sincronizando: boolean;
+  sincronizarPendientes: (manual?: boolean) => Promise<void>;
 }
 
 const ConsentimientosContext = createContext<ConsentimientosContextType | undefined>(undefined);
@@ -23,9 +46,11 @@ const ConsentimientosContext = createContext<ConsentimientosContextType | undefi
 const CONSENT_CACHE_KEY = 'app_consents_data';
 const ARCHIVED_CONSENT_CACHE_KEY = 'app_archived_consents_data';
 const CONSENT_CACHE_TTL = 172800; // 48 horas en segundos (aumentado para mejor resiliencia offline)
+const SYNC_INTERVAL = 60000; // Revisar la cola de consentimientos sin conexión cada minuto
+const MAX_SYNC_ATTEMPTS = 8; // Fallos (con conexión) antes de dejar de reintentar solo
 
-const generateCode = () => {
-  const prefix = 'TCF';
+// El prefijo identifica el tipo de procedimiento (el tatuaje usa 'TCF')
+const generateCode = (prefix = 'TCF') => {
   const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
   let code = `${prefix}-`;
   
@@ -60,6 +85,9 @@ export const ConsentimientosProvider: React.FC<{ children: React.ReactNode }> =
   const [retryCount, setRetryCount] = useState(0);
   const [lastConnectionAttempt, setLastConnectionAttempt] = useState<Date | null>(null);
   const [isRetrying, setIsRetrying] = useState(false);
+  const [pendientesSincronizacion, setPendientesSincronizacion] = useState<ConsentimientoPendiente[]>([]);
+  const [sincronizando, setSincronizando] = useState(false);
+  const sincronizandoRef = useRef(false);
   const MAX_RETRIES = 15; // Aumentado para mayor persistencia en conexiones inestables
   const MAX_CONNECTION_TIMEOUT = 60000; // 60 segundos máximo para conexión inicial (aumentado)
 
@@ -168,12 +196,37 @@ export const ConsentimientosProvider: React.FC<{ children: React.ReactNode }> =
             client_signature, 
             tutor_signature, 
             archived, 
+            risk_level, 
+            template_id, 
+            template_version, 
+            consent_text, 
+            tutor_consent_text, 
+            integrity_hash, 
+            client_id_document_path, 
+            tutor_id_document_path, 
+            signed_pdf_path, 
+            aftercare_type, 
+            procedure_details, 
+            design_image_path, 
+            procedure_type_id, 
+            project_id, 
+            session_type, 
+            session_number, 
+            free_touch_up, 
+            email_status, 
+            email_sent_at, 
+            email_error, 
+            appointment_id, 
+            client_id, 
+            health_changes, 
+            signed_at, 
+            original_code, 
             created_at, 
             updated_at,
             artists:artist_id (name)
           `)
           .eq('archived', false)
-          .order('created_at', { ascending: false })
+          .order('signed_at', { ascending: false })
           .abortSignal(signal);
         
         clearTimeout(timeoutId);
@@ -202,12 +255,37 @@ export const ConsentimientosProvider: React.FC<{ children: React.ReactNode }> =
               client_signature, 
               tutor_signature, 
               archived, 
+              risk_level, 
+              template_id, 
+              template_version, 
+              consent_text, 
+              tutor_consent_text, 
+              integrity_hash, 
+              client_id_document_path, 
+              tutor_id_document_path, 
+              signed_pdf_path, 
+              aftercare_type, 
+              procedure_details, 
+              design_image_path, 
+              procedure_type_id, 
+              project_id, 
+              session_type, 
+              session_number, 
+              free_touch_up, 
+              email_status, 
+              email_sent_at, 
+              email_error, 
+              appointment_id, 
+              client_id, 
+              health_changes, 
+              signed_at, 
+              original_code, 
               created_at, 
               updated_at,
               artists:artist_id (name)
             `)
             .eq('archived', true)
-            .order('created_at', { ascending: false })
+            .order('signed_at', { ascending: false })
             .abortSignal(archivedSignal);
           
           clearTimeout(archivedTimeoutId);
@@ -231,7 +309,9 @@ export const ConsentimientosProvider: React.FC<{ children: React.ReactNode }> =
                 return {
                   id: item.id,
                   codigo: item.code,
-                  fechaCreacion: item.created_at,
+                  // Fecha en que firmó el cliente, aunque se haya sincronizado después
+                  fechaCreacion: item.signed_at,
+                  codigoOriginal: item.original_code || undefined,
                   cliente: {
                     nombre: clientInfo.nombre,
                     apellidos: clientInfo.apellidos,
@@ -253,7 +333,30 @@ export const ConsentimientosProvider: React.FC<{ children: React.ReactNode }> =
                   informacionSalud: clientInfo.informacionSalud || {},
                   artistaSeleccionado: item.artists?.name || '',
                   firma: item.client_signature,
-                  archivado: item.archived
+                  archivado: item.archived,
+                  nivelRiesgo: item.risk_level || 'none',
+                  plantillaId: item.template_id || undefined,
+                  versionPlantilla: item.template_version || undefined,
+                  textoConsentimientoFirmado: item.consent_text || undefined,
+                  textoTutorFirmado: item.tutor_consent_text || undefined,
+                  hashIntegridad: item.integrity_hash || undefined,
+                  rutaCedulaCliente: item.client_id_document_path || undefined,
+                  rutaCedulaTutor: item.tutor_id_document_path || undefined,
+                  rutaPdfFirmado: item.signed_pdf_path || undefined,
+                  tipoCuidado: item.aftercare_type || undefined,
+                  tipoProcedimientoId: item.procedure_type_id || undefined,
+                  detallesProcedimiento: item.procedure_details || undefined,
+                  rutaImagenDiseno: item.design_image_path || undefined,
+                  estadoCorreo: item.email_status || undefined,
+                  fechaEnvioCorreo: item.email_sent_at || undefined,
+                  errorCorreo: item.email_error || undefined,
+                  citaId: item.appointment_id || undefined,
+                  clienteId: item.client_id || undefined,
+                  cambiosSalud: item.health_changes || undefined,
+                  proyectoId: item.project_id || undefined,
+                  tipoSesion: item.session_type || undefined,
+                  numeroSesion: item.session_number || undefined,
+                  retoqueGratis: item.free_touch_up || undefined
                 } as Consentimiento;
               } catch (err) {
                 console.error('Error al transformar elemento de consentimiento:', err, item);
@@ -315,6 +418,34 @@ export const ConsentimientosProvider: React.FC<{ children: React.ReactNode }> =
     }
   }, [retryCount, getRetryDelay, MAX_CONNECTION_TIMEOUT, MAX_RETRIES]);
 
+  // Recargar al iniciar o cerrar sesión: las políticas RLS cambian qué registros son visibles
+  const { currentUser } = useAuth();
+  const { config } = useConfig();
+  const usuarioAnteriorRef = useRef<string | null | undefined>(undefined);
+  
+  useEffect(() => {
+    const usuarioActual = currentUser?.id ?? null;
+    const usuarioAnterior = usuarioAnteriorRef.current;
+    usuarioAnteriorRef.current = usuarioActual;
+    
+    // Primera ejecución: la carga inicial ya la hace el efecto de montaje. Los reintentos recrean
+    // loadConsentimientos, pero solo un cambio de usuario recarga
+    if (usuarioAnterior === undefined || usuarioAnterior === usuarioActual) return;
+    
+    if (usuarioAnterior && !usuarioActual) {
+      // Al cerrar sesión no dejar datos de clientes en el navegador
+      console.log('Sesión cerrada, limpiando consentimientos en caché');
+      clearCacheItem(CONSENT_CACHE_KEY);
+      clearCacheItem(ARCHIVED_CONSENT_CACHE_KEY);
+      setConsentimientos([]);
+      setConsentimientosArchivados([]);
+    }
+    
+    console.log('Cambio de sesión detectado, recargando consentimientos...');
+    setIsRetrying(false);
+    loadConsentimientos();
+  }, [currentUser?.id, loadConsentimientos]);
+
   // Función para forzar reintento de conexión
   const retryConnection = useCallback(() => {
     console.log('Forzando reintento de conexión manual...');
@@ -407,17 +538,14 @@ export const ConsentimientosProvider: React.FC<{ children: React.ReactNode }> =
     };
   }, [loadConsentimientos, connectionError, retryCount, MAX_RETRIES, isRetrying]);
 
-  const addConsentimiento = async (newConsentimiento: Omit<Consentimiento, 'id' | 'codigo' | 'fechaCreacion' | 'archivado'>): Promise<Consentimiento> => {
-    // Verificar conexión primero
-    const isConnected = await checkSupabaseConnection();
-    if (!isConnected) {
-      throw new Error('No se puede conectar a Supabase. Por favor, verifica tu conexión a internet e inténtalo de nuevo.');
-    }
-    
-    console.log('Añadiendo nuevo consentimiento...');
-    const codigo = generateCode();
-    const fechaCreacion = new Date().toISOString();
-    
+  // Guarda en Supabase un consentimiento con id y código ya asignados (nuevo o de la cola sin conexión)
+  const guardarConsentimiento = async (
+    id: string,
+    codigo: string,
+    fechaCreacion: string,
+    newConsentimiento: NuevoConsentimiento,
+    codigoOriginal?: string
+  ): Promise<Consentimiento> => {
     try {
       // Buscar el ID del artista seleccionado
       console.log('Buscando artista:', newConsentimiento.artistaSeleccionado);
@@ -475,43 +603,123 @@ export const ConsentimientosProvider: React.FC<{ children: React.ReactNode }> =
         const timeoutId = setTimeout(() => controller.abort(), 45000); // 45s timeout (aumentado)
         
         try {
+          // Las cédulas se suben antes de guardar: el formulario solo puede subir a la carpeta
+          // de un consentimiento que todavía no existe
+          const rutaCedulaCliente = newConsentimiento.cedulaCliente instanceof Blob
+            ? await subirCedula(id, 'cliente', newConsentimiento.cedulaCliente)
+            : undefined;
+          const rutaCedulaTutor = newConsentimiento.tutor?.cedulaImagen instanceof Blob
+            ? await subirCedula(id, 'tutor', newConsentimiento.tutor.cedulaImagen)
+            : undefined;
+          const rutaImagenDiseno = newConsentimiento.imagenDiseno instanceof Blob
+            ? await subirImagenDiseno(id, newConsentimiento.imagenDiseno)
+            : undefined;
+          
           // Crear el nuevo consentimiento en Supabase
-          const { data, error } = await supabase
+          const { error } = await supabase
             .from('consents')
             .insert({
+              id,
               code: codigo,
+              signed_at: fechaCreacion,
+              original_code: codigoOriginal || null,
               client_info: clientInfo,
               tutor_info: tutorInfo,
               artist_id: artistId,
               client_signature: newConsentimiento.firma,
               tutor_signature: newConsentimiento.tutor?.firma || null,
-              archived: false
+              archived: false,
+              template_id: newConsentimiento.plantillaId || null,
+              consent_text: newConsentimiento.textoConsentimientoFirmado || null,
+              tutor_consent_text: newConsentimiento.textoTutorFirmado || null,
+              client_id_document_path: rutaCedulaCliente || null,
+              tutor_id_document_path: rutaCedulaTutor || null,
+              aftercare_type: newConsentimiento.tipoCuidado || null,
+              procedure_type_id: newConsentimiento.tipoProcedimientoId || null,
+              procedure_details: newConsentimiento.detallesProcedimiento || null,
+              design_image_path: rutaImagenDiseno || null,
+              appointment_id: newConsentimiento.citaId || null,
+              project_id: newConsentimiento.proyectoId || null,
+              session_type: newConsentimiento.proyectoId ? newConsentimiento.tipoSesion || 'session' : null
             })
-            .select()
             .abortSignal(signal);
           
-          clearTimeout(timeoutId);
-          
           if (error) {
+            clearTimeout(timeoutId);
             console.error('Error al guardar consentimiento:', error);
             throw new Error(`Error al guardar consentimiento: ${error.message}`);
           }
           
-          if (!data || data.length === 0) {
-            throw new Error('No se recibieron datos al crear el consentimiento');
-          }
+          console.log('Consentimiento guardado en Supabase:', id);
           
-          console.log('Consentimiento guardado en Supabase:', data[0].id);
+          // Datos que calcula el servidor al guardar (riesgo, versión de la plantilla y huella)
+          const { data, error: resumenError } = await supabase
+            .rpc('resumen_consentimiento_guardado', { p_id: id, p_codigo: codigo })
+            .abortSignal(signal);
+          
+          clearTimeout(timeoutId);
+          
+          if (resumenError || !data || data.length === 0) {
+            throw new Error(`No se pudieron obtener los datos del consentimiento guardado${resumenError ? `: ${resumenError.message}` : ''}`);
+          }
           
           // Crear objeto de consentimiento para retornar
           const consentimientoCompleto: Consentimiento = {
             ...newConsentimiento,
-            id: data[0].id,
+            id,
             codigo,
+            codigoOriginal,
             fechaCreacion,
-            archivado: false
+            archivado: false,
+            // Calculado en el servidor a partir de las reglas de las preguntas de salud
+            nivelRiesgo: data[0].risk_level,
+            // La versión la asigna el servidor a partir de la plantilla
+            plantillaId: data[0].template_id || undefined,
+            versionPlantilla: data[0].template_version || undefined,
+            hashIntegridad: data[0].integrity_hash || undefined,
+            // El servidor descarta el proyecto si no corresponde al cliente
+            proyectoId: data[0].project_id || undefined,
+            tipoSesion: data[0].project_id ? newConsentimiento.tipoSesion || 'session' : undefined,
+            numeroSesion: data[0].session_number || undefined,
+            retoqueGratis: data[0].free_touch_up || undefined,
+            rutaCedulaCliente,
+            rutaCedulaTutor,
+            rutaImagenDiseno,
+            estadoCorreo: 'pending'
           };
           
+          // El PDF se genera una sola vez, con los datos que asignó el servidor, y queda archivado:
+          // las descargas posteriores no dependen de la configuración vigente
+          try {
+            const imagenDiseno = newConsentimiento.imagenDiseno instanceof Blob
+              ? await imagenParaPdf(newConsentimiento.imagenDiseno)
+              : undefined;
+            const pdf = generatePDF(consentimientoCompleto, config, imagenDiseno).output('blob');
+            consentimientoCompleto.rutaPdfFirmado = await archivarPdfConsentimiento(id, codigo, pdf);
+          } catch (err) {
+            // El consentimiento ya está guardado; sin PDF archivado se genera al descargarlo
+            console.error('Error al archivar el PDF del consentimiento:', err);
+          }
+          
+          // El correo se envía con el PDF archivado, sin esperar: el resultado queda registrado en el consentimiento
+          if (consentimientoCompleto.rutaPdfFirmado && consentimientoCompleto.cliente.email) {
+            enviarCorreoConsentimiento(id, codigo)
+              .catch(err => console.error('Error al enviar el correo del consentimiento:', err));
+          }
+          
+          // La huella la calcula el servidor; si la de la aplicación no coincide, la verificación pública fallaría
+          calcularHashConsentimiento(consentimientoCompleto).then(hashLocal => {
+            if (consentimientoCompleto.hashIntegridad && hashLocal !== consentimientoCompleto.hashIntegridad) {
+              console.warn('La huella calculada localmente no coincide con la del servidor:', consentimientoCompleto.codigo);
+            }
+          }).catch(err => console.error('Error al calcular la huella del consentimiento:', err));
+          
+          // Sin sesión del personal (formulario público o kiosco) el consentimiento no queda en el
+          // navegador: la lista solo la ve el personal y la tableta compartida no guarda datos de clientes
+          if (!currentUser) {
+            return consentimientoCompleto;
+          }
+
           // Actualizar estado local para una respuesta más inmediata
           setConsentimientos(prev => {
             const updated = [consentimientoCompleto, ...prev];
@@ -536,7 +744,7 @@ export const ConsentimientosProvider: React.FC<{ children: React.ReactNode }> =
         throw artistFetchError;
       }
     } catch (error) {
-      console.error('Error en addConsentimiento:', error);
+      console.error('Error en guardarConsentimiento:', error);
       // Re-verificar conexión para actualizar estado
       const stillConnected = await checkSupabaseConnection();
       if (!stillConnected) {
@@ -546,6 +754,165 @@ export const ConsentimientosProvider: React.FC<{ children: React.ReactNode }> =
     }
   };
 
+  const addConsentimiento = async (newConsentimiento: NuevoConsentimiento): Promise<Consentimiento> => {
+    console.log('Añadiendo nuevo consentimiento...');
+    // El id y el código se generan en el navegador para poder entregarlos aunque no haya conexión
+    const id = crypto.randomUUID();
+    const codigo = generateCode(
+      config.tiposProcedimiento.find(tipo => tipo.id === newConsentimiento.tipoProcedimientoId)?.prefijoCodigo
+    );
+    const fechaCreacion = new Date().toISOString();
+    
+    if (!isNetworkUnavailable() && await checkSupabaseConnection()) {
+      try {
+        return await guardarConsentimiento(id, codigo, fechaCreacion, newConsentimiento);
+      } catch (error) {
+        // Los errores que no son de conexión (p. ej. una respuesta de salud que bloquea) no se encolan
+        if (!isNetworkUnavailable()) {
+          throw error;
+        }
+      }
+    }
+    
+    // Sin conexión: guardar en el dispositivo y sincronizar cuando vuelva la red
+    try {
+      await guardarPendiente({
+        id,
+        codigo,
+        fechaCreacion,
+        datos: newConsentimiento,
+        intentos: 0,
+        proximoIntento: fechaCreacion,
+        estado: 'pendiente'
+      });
+    } catch (err) {
+      console.error('Error al guardar el consentimiento en la cola local:', err);
+      throw new Error('No hay conexión y no se pudo guardar el consentimiento en este dispositivo. Por favor intente nuevamente.');
+    }
+    console.log('Sin conexión, consentimiento guardado en la cola local:', codigo);
+    
+    return {
+      ...newConsentimiento,
+      id,
+      codigo,
+      fechaCreacion,
+      archivado: false,
+      pendienteSincronizacion: true
+    };
+  };
+
+  const actualizarPendientes = useCallback(async () => {
+    try {
+      setPendientesSincronizacion(await obtenerPendientes());
+    } catch (err) {
+      console.error('Error al leer la cola de consentimientos:', err);
+    }
+  }, []);
+
+  // Envía un consentimiento de la cola; si falla con conexión, programa el siguiente intento
+  const sincronizarPendiente = async (pendiente: ConsentimientoPendiente) => {
+    try {
+      // Un intento anterior pudo guardarlo aunque no llegó la respuesta
+      const { data: guardado, error: errorGuardado } = await supabase
+        .rpc('resumen_consentimiento_guardado', { p_id: pendiente.id, p_codigo: pendiente.codigo });
+      
+      if (errorGuardado) {
+        // Sin saber si ya está guardado, insertar podría duplicarlo: se reprograma sin contar el intento
+        console.error('Error al comprobar el consentimiento pendiente:', errorGuardado);
+        await guardarPendiente({
+          ...pendiente,
+          proximoIntento: new Date(Date.now() + Math.min(1800000, 30000 * Math.pow(2, pendiente.intentos))).toISOString()
+        });
+        return;
+      }
+      
+      if (!guardado || guardado.length === 0) {
+        try {
+          await guardarConsentimiento(pendiente.id, pendiente.codigo, pendiente.fechaCreacion, pendiente.datos, pendiente.codigoOriginal);
+        } catch (error) {
+          // Conflicto: el código generado sin conexión ya lo usa otro consentimiento. El cliente se
+          // llevó el original: queda registrado para que el personal reconozca su copia
+          if (!(error instanceof Error) || !error.message.includes('consents_code_key')) {
+            throw error;
+          }
+          const codigo = generateCode(pendiente.codigo.split('-')[0]);
+          console.warn(`El código ${pendiente.codigo} ya existe, se reemplaza por ${codigo}`);
+          pendiente = { ...pendiente, codigo, codigoOriginal: pendiente.codigoOriginal ?? pendiente.codigo };
+          await guardarPendiente(pendiente);
+          await guardarConsentimiento(pendiente.id, pendiente.codigo, pendiente.fechaCreacion, pendiente.datos, pendiente.codigoOriginal);
+        }
+      }
+      
+      await eliminarPendiente(pendiente.id);
+      console.log('Consentimiento sincronizado:', pendiente.codigo);
+    } catch (error) {
+      // Si se cortó la conexión no cuenta como intento fallido
+      if (isNetworkUnavailable()) return;
+      
+      const intentos = pendiente.intentos + 1;
+      const espera = Math.min(1800000, 30000 * Math.pow(2, intentos)); // 1 min a 30 min
+      await guardarPendiente({
+        ...pendiente,
+        intentos,
+        ultimoError: error instanceof Error ? error.message : String(error),
+        proximoIntento: new Date(Date.now() + espera).toISOString(),
+        estado: intentos >= MAX_SYNC_ATTEMPTS ? 'error' : 'pendiente'
+      });
+    }
+  };
+
+  const sincronizarPendientes = async (manual = false) => {
+    if (sincronizandoRef.current) return;
+    
+    const ahora = new Date().toISOString();
+    const porSincronizar = (await obtenerPendientes()).filter(pendiente =>
+      manual || (pendiente.estado === 'pendiente' && pendiente.proximoIntento <= ahora)
+    );
+    if (porSincronizar.length === 0 || !navigator.onLine) return;
+    
+    // La red pudo quedar marcada como no disponible mientras no había conexión
+    resetNetworkStatus();
+    if (!await checkSupabaseConnection()) return;
+    
+    sincronizandoRef.current = true;
+    setSincronizando(true);
+    console.log(`Sincronizando ${porSincronizar.length} consentimiento(s) guardados sin conexión...`);
+    
+    try {
+      for (const pendiente of porSincronizar) {
+        await sincronizarPendiente(manual ? { ...pendiente, estado: 'pendiente' } : pendiente);
+        if (isNetworkUnavailable()) break;
+      }
+    } finally {
+      sincronizandoRef.current = false;
+      setSincronizando(false);
+      await actualizarPendientes();
+    }
+  };
+  
+  // Los temporizadores usan siempre la última versión de la función
+  const sincronizarRef = useRef(sincronizarPendientes);
+  sincronizarRef.current = sincronizarPendientes;
+  
+  useEffect(() => {
+    actualizarPendientes();
+    sincronizarRef.current().catch(err => console.error('Error al sincronizar consentimientos:', err));
+    
+    const sincronizar = () => {
+      sincronizarRef.current().catch(err => console.error('Error al sincronizar consentimientos:', err));
+    };
+    
+    const syncInterval = setInterval(sincronizar, SYNC_INTERVAL);
+    window.addEventListener('online', sincronizar);
+    const dejarDeEscuchar = suscribirCambiosCola(actualizarPendientes);
+    
+    return () => {
+      clearInterval(syncInterval);
+      window.removeEventListener('online', sincronizar);
+      dejarDeEscuchar();
+    };
+  }, [actualizarPendientes]);
+
   const getConsentimiento = (id: string) => {
     // Buscar en consentimientos activos y archivados
     return consentimientos.find(c => c.id === id) || 
@@ -609,6 +976,13 @@ export const ConsentimientosProvider: React.FC<{ children: React.ReactNode }> =
         
         console.log('Consentimiento archivado en Supabase:', data);
         console.log('Estado local actualizado correctamente');
+        
+        registrarEventoAuditoria({
+          accion: 'consentimiento.archivar',
+          entidad: 'consentimiento',
+          entidadId: id,
+          diff: { archivado: { antes: false, despues: true } }
+        });
       } catch (fetchError: any) {
         clearTimeout(timeoutId);
         if (fetchError.name === 'AbortError') {
@@ -629,6 +1003,56 @@ export const ConsentimientosProvider: React.FC<{ children: React.ReactNode }> =
     }
   };
 
+  // Completar o corregir los detalles del tatuaje desde el panel; el PDF archivado al firmar no cambia
+  const actualizarProcedimiento = async (id: string, detalles: DetallesProcedimiento, imagenDiseno?: File) => {
+    const consentimiento = getConsentimiento(id);
+    if (!consentimiento) {
+      throw new Error('No se encontró el consentimiento');
+    }
+    
+    const rutaImagenDiseno = imagenDiseno
+      ? await subirImagenDiseno(id, imagenDiseno, true)
+      : consentimiento.rutaImagenDiseno;
+    
+    const { error } = await supabase
+      .from('consents')
+      .update({
+        procedure_details: detalles,
+        design_image_path: rutaImagenDiseno || null
+      })
+      .eq('id', id);
+    
+    if (error) {
+      console.error('Error al actualizar los detalles del procedimiento:', error);
+      throw new Error(`Error al actualizar los detalles del procedimiento: ${error.message}`);
+    }
+    
+    const actualizar = (lista: Consentimiento[]) => lista.map(c =>
+      c.id === id ? { ...c, detallesProcedimiento: detalles, rutaImagenDiseno } : c
+    );
+    setConsentimientos(prev => {
+      const nuevos = actualizar(prev);
+      cacheData(CONSENT_CACHE_KEY, nuevos, CONSENT_CACHE_TTL);
+      return nuevos;
+    });
+    setConsentimientosArchivados(prev => {
+      const nuevos = actualizar(prev);
+      cacheData(ARCHIVED_CONSENT_CACHE_KEY, nuevos, CONSENT_CACHE_TTL);
+      return nuevos;
+    });
+    
+    const cambios = calcularDiff<Partial<DetallesProcedimiento>>(consentimiento.detallesProcedimiento ?? {}, detalles);
+    registrarEventoAuditoria({
+      accion: 'consentimiento.editar_procedimiento',
+      entidad: 'consentimiento',
+      entidadId: id,
+      diff: {
+        ...(cambios as Record<string, Json> | null),
+        ...(imagenDiseno ? { imagenDiseno: { antes: consentimiento.rutaImagenDiseno ? '[modificado]' : null, despues: '[modificado]' } } : {})
+      }
+    });
+  };
+
   const getEstadisticas = (): EstadisticasGenerales => {
     const activosConsentimientos = consentimientos;
     
@@ -688,6 +1112,45 @@ export const ConsentimientosProvider: React.FC<{ children: React.ReactNode }> =
     };
   };
 
+  // Estadísticas personales de un artista (incluye archivados: siguen siendo sus clientes)
+  const getEstadisticasArtista = (nombreArtista: string): EstadisticaArtista => {
+    const propios = [...consentimientos, ...consentimientosArchivados]
+      .filter(c => c.artistaSeleccionado === nombreArtista);
+    
+    // Últimos 12 meses, incluyendo los meses sin clientes
+    const inicio = startOfMonth(subMonths(new Date(), 11));
+    const porMesMap = new Map<string, { cantidad: number; menores: number }>();
+    for (let i = 0; i < 12; i++) {
+      porMesMap.set(format(subMonths(new Date(), 11 - i), 'yyyy-MM'), { cantidad: 0, menores: 0 });
+    }
+    
+    propios.forEach(c => {
+      try {
+        const fecha = parseISO(c.fechaCreacion);
+        if (fecha < inicio) return;
+        const mes = porMesMap.get(format(fecha, 'yyyy-MM'));
+        if (mes) {
+          mes.cantidad += 1;
+          if (c.cliente.edad < 18) mes.menores += 1;
+        }
+      } catch (e) {
+        console.error('Error al formatear mes:', e);
+      }
+    });
+    
+    const porMes = Array.from(porMesMap.entries()).map(([mes, datos]) => ({
+      mes: format(parseISO(`${mes}-01`), 'MMM yyyy', { locale: es }),
+      ...datos
+    }));
+    
+    return {
+      nombre: nombreArtista,
+      totalClientes: propios.length,
+      menoresEdad: propios.filter(c => c.cliente.edad < 18).length,
+      porMes
+    };
+  };
+
   return (
     <ConsentimientosContext.Provider value={{
       consentimientos,
@@ -696,11 +1159,16 @@ export const ConsentimientosProvider: React.FC<{ children: React.ReactNode }> =
       getConsentimiento,
       getConsentimientoPorCodigo,
       archivarConsentimiento,
+      actualizarProcedimiento,
       getEstadisticas,
+      getEstadisticasArtista,
       connectionError,
       isLoading: loading,
       retryConnection,
-      lastConnectionAttempt
+      lastConnectionAttempt,
+      pendientesSincronizacion,
+      sincronizando,
+      sincronizarPendientes
     }}>
       {!loading && children}
     </ConsentimientosContext.Provider>
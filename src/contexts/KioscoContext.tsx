@@ -0,0 +1,92 @@
+import React, { createContext, useContext, useState } from 'react';
+
+interface KioscoContextType {
+  activo: boolean;
+  // Minutos sin actividad antes de volver al primer paso del formulario
+  minutosInactividad: number;
+  activarKiosco: (pin: string, minutosInactividad: number) => Promise<void>;
+  salirKiosco: (pin: string) => Promise<boolean>;
+}
+
+interface EstadoKiosco {
+  pinHash: string;
+  minutosInactividad: number;
+  activadoEn: string;
+}
+
+// El modo kiosco es del dispositivo (la tablet del estudio), no de la sesión: se guarda en localStorage
+// para que siga activo al recargar o reabrir la aplicación, incluso sin conexión
+const KIOSK_STORAGE_KEY = 'app_kiosk_mode';
+export const PIN_KIOSCO_PATRON = /^\d{4,8}$/;
+
+const leerEstado = (): EstadoKiosco | null => {
+  try {
+    const guardado = localStorage.getItem(KIOSK_STORAGE_KEY);
+    return guardado ? JSON.parse(guardado) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Solo se guarda la huella del PIN
+const hashPin = async (pin: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`kiosco:${pin}`));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+const KioscoContext = createContext<KioscoContextType | undefined>(undefined);
+
+export const KioscoProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [estado, setEstado] = useState<EstadoKiosco | null>(leerEstado);
+
+  const activarKiosco = async (pin: string, minutosInactividad: number) => {
+    if (!PIN_KIOSCO_PATRON.test(pin)) {
+      throw new Error('El PIN debe tener entre 4 y 8 dígitos');
+    }
+
+    const nuevoEstado: EstadoKiosco = {
+      pinHash: await hashPin(pin),
+      minutosInactividad,
+      activadoEn: new Date().toISOString()
+    };
+    localStorage.setItem(KIOSK_STORAGE_KEY, JSON.stringify(nuevoEstado));
+    setEstado(nuevoEstado);
+
+    // Pantalla completa donde el navegador lo permita (no disponible en Safari para iPad)
+    document.documentElement.requestFullscreen?.().catch(() => undefined);
+  };
+
+  const salirKiosco = async (pin: string): Promise<boolean> => {
+    if (!estado || await hashPin(pin) !== estado.pinHash) {
+      return false;
+    }
+
+    localStorage.removeItem(KIOSK_STORAGE_KEY);
+    setEstado(null);
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => undefined);
+    }
+    return true;
+  };
+
+  return (
+    <KioscoContext.Provider value={{
+      activo: estado !== null,
+      minutosInactividad: estado?.minutosInactividad ?? 3,
+      activarKiosco,
+      salirKiosco
+    }}>
+      {children}
+    </KioscoContext.Provider>
+  );
+};
+
+export const useKiosco = () => {
+  const context = useContext(KioscoContext);
+  if (context === undefined) {
+    throw new Error('useKiosco debe usarse dentro de un KioscoProvider');
+  }
+  return context;
+};
@@ -0,0 +1,31 @@
+import { useAuth } from '../contexts/AuthContext';
+import { useConfig } from '../contexts/ConfigContext';
+import { Artista } from '../types';
+
+interface ArtistaActual {
+  esArtista: boolean;
+  artista?: Artista;
+  nombreArtista?: string;
+  rutaBase: '/admin' | '/artista';
+}
+
+/**
+ * Devuelve el artista vinculado a la sesión actual (si la cuenta es de artista)
+ * y la ruta base del área en la que debe navegar: el portal del artista o el panel.
+ */
+export const useArtistaActual = (): ArtistaActual => {
+  const { currentUser } = useAuth();
+  const { config } = useConfig();
+
+  const esArtista = currentUser?.rol === 'artist';
+  const artista = esArtista
+    ? config.artistas.find(a => a.id === currentUser?.artistaId)
+    : undefined;
+
+  return {
+    esArtista,
+    artista,
+    nombreArtista: artista?.nombre,
+    rutaBase: esArtista ? '/artista' : '/admin'
+  };
+};
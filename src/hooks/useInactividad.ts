@@ -0,0 +1,32 @@
+import { useEffect, useRef } from 'react';
+
+const EVENTOS_ACTIVIDAD = ['pointerdown', 'keydown', 'touchstart', 'scroll'] as const;
+
+/**
+ * Ejecuta una acción cuando el usuario no interactúa con la página durante un tiempo.
+ * Cualquier toque, tecla o desplazamiento reinicia la cuenta.
+ * @param milisegundos Tiempo sin actividad; null desactiva el temporizador
+ * @param alExpirar Acción a ejecutar
+ */
+export const useInactividad = (milisegundos: number | null, alExpirar: () => void) => {
+  const alExpirarRef = useRef(alExpirar);
+  alExpirarRef.current = alExpirar;
+
+  useEffect(() => {
+    if (milisegundos === null) return;
+
+    let timeoutId = setTimeout(() => alExpirarRef.current(), milisegundos);
+
+    const reiniciar = () => {
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(() => alExpirarRef.current(), milisegundos);
+    };
+
+    EVENTOS_ACTIVIDAD.forEach(evento => window.addEventListener(evento, reiniciar, { passive: true }));
+
+    return () => {
+      clearTimeout(timeoutId);
+      EVENTOS_ACTIVIDAD.forEach(evento => window.removeEventListener(evento, reiniciar));
+    };
+  }, [milisegundos]);
+};
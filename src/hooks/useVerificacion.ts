@@ -0,0 +1,64 @@
+import { useState, useCallback } from 'react';
+import { verificarCodigoConsentimiento, VerificacionConsentimiento } from '../lib/verificacion';
+
+export interface ResultadoVerificacionDocumento {
+  encontrado: boolean;
+  verificacion?: VerificacionConsentimiento;
+  mensaje?: string;
+}
+
+/**
+ * Estado de la validación pública de un documento por su código,
+ * compartido por el modal de la portada y la página de verificación.
+ * @param codigoInicial Código con el que se rellena el campo (p. ej. desde el QR)
+ */
+export const useVerificacion = (codigoInicial = '') => {
+  const [codigo, setCodigo] = useState(codigoInicial);
+  const [resultado, setResultado] = useState<ResultadoVerificacionDocumento | null>(null);
+  const [verificando, setVerificando] = useState(false);
+
+  const validarDocumento = useCallback(async (codigoAValidar: string = codigo) => {
+    if (!codigoAValidar.trim()) {
+      setResultado({
+        encontrado: false,
+        mensaje: 'Por favor, ingresa un código de verificación'
+      });
+      return;
+    }
+
+    setVerificando(true);
+    setResultado(null);
+
+    try {
+      // La búsqueda y la comprobación de la huella se hacen en el servidor
+      const verificacion = await verificarCodigoConsentimiento(codigoAValidar);
+
+      if (verificacion.valido) {
+        setResultado({
+          encontrado: true,
+          verificacion,
+          mensaje: 'Documento verificado exitosamente'
+        });
+      } else {
+        setResultado({
+          encontrado: false,
+          mensaje: 'No se encontró ningún documento con ese código'
+        });
+      }
+    } catch (error) {
+      setResultado({
+        encontrado: false,
+        mensaje: error instanceof Error ? error.message : 'No se pudo verificar el documento'
+      });
+    } finally {
+      setVerificando(false);
+    }
+  }, [codigo]);
+
+  const reiniciar = useCallback(() => {
+    setResultado(null);
+    setCodigo('');
+  }, []);
+
+  return { codigo, setCodigo, resultado, verificando, validarDocumento, reiniciar };
+};
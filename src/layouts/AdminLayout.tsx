@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { Outlet, NavLink, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { useConfig } from '../contexts/ConfigContext';
+import { useConsentimientos } from '../contexts/ConsentimientosContext';
 import { 
   LayoutDashboard, 
   FileText, 
@@ -11,15 +12,41 @@ import {
   Menu, 
   X,
   ChevronLeft,
-  ChevronRight
+  ChevronRight,
+  ShieldCheck,
+  UploadCloud,
+  RefreshCw,
+  Tablet,
+  CalendarClock,
+  CalendarDays,
+  Users,
+  LucideIcon
 } from 'lucide-react';
+import { puedeAcceder, NOMBRES_ROLES, SeccionPanel } from '../utils/permisos';
+import ActivarKiosco from '../components/ActivarKiosco';
+
+// Elementos del menú lateral y la sección de permisos que requiere cada uno
+const elementosMenu: { to: string; label: string; icon: LucideIcon; seccion: SeccionPanel; end?: boolean }[] = [
+  { to: '/admin', label: 'Dashboard', icon: LayoutDashboard, seccion: 'panel', end: true },
+  { to: '/admin/consentimientos', label: 'Consentimientos', icon: FileText, seccion: 'panel' },
+  { to: '/admin/agenda', label: 'Agenda', icon: CalendarDays, seccion: 'agenda' },
+  { to: '/admin/clientes', label: 'Clientes', icon: Users, seccion: 'clientes' },
+  { to: '/admin/archivados', label: 'Archivados', icon: Archive, seccion: 'archivados' },
+  { to: '/admin/seguimientos', label: 'Seguimientos', icon: CalendarClock, seccion: 'seguimientos' },
+  { to: '/admin/configuracion', label: 'Configuración', icon: Settings, seccion: 'configuracion' },
+  { to: '/admin/auditoria', label: 'Auditoría', icon: ShieldCheck, seccion: 'auditoria' },
+  { to: '/artista', label: 'Mi Panel', icon: LayoutDashboard, seccion: 'portalArtista', end: true },
+  { to: '/artista/consentimientos', label: 'Mis Clientes', icon: FileText, seccion: 'portalArtista' }
+];
 
 const AdminLayout: React.FC = () => {
   const { currentUser, logout } = useAuth();
   const { config } = useConfig();
+  const { pendientesSincronizacion, sincronizando, sincronizarPendientes } = useConsentimientos();
   const navigate = useNavigate();
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  const [showKioscoModal, setShowKioscoModal] = useState(false);
   const [isMobile, setIsMobile] = useState(window.innerWidth < 768);
 
   useEffect(() => {
@@ -35,8 +62,8 @@ const AdminLayout: React.FC = () => {
     return () => window.removeEventListener('resize', handleResize);
   }, [sidebarOpen]);
 
-  const handleLogout = () => {
-    logout();
+  const handleLogout = async () => {
+    await logout();
     navigate('/admin/login');
   };
 
@@ -48,6 +75,12 @@ const AdminLayout: React.FC = () => {
     setMobileMenuOpen(!mobileMenuOpen);
   };
 
+  // Consentimientos firmados sin conexión en este dispositivo
+  const conError = pendientesSincronizacion.filter(p => p.estado === 'error');
+  const tituloSincronizacion = conError.length > 0
+    ? `${conError.length} no se pudieron sincronizar. Último error: ${conError[0].ultimoError || 'desconocido'}. Haz clic para reintentar.`
+    : 'Consentimientos guardados sin conexión. Haz clic para sincronizar ahora.';
+
   return (
     <div className="min-h-screen bg-gray-100 flex flex-col">
       {/* Navbar superior */}
@@ -60,13 +93,48 @@ const AdminLayout: React.FC = () => {
             {mobileMenuOpen ? <X size={24} /> : <Menu size={24} />}
           </button>
           <span className="font-semibold text-lg truncate">
-            {config.nombreEstudio} - Panel de Administración
+            {config.nombreEstudio} - {currentUser?.rol === 'artist' ? 'Portal del Artista' : 'Panel de Administración'}
           </span>
         </div>
         <div className="flex items-center">
+          {pendientesSincronizacion.length > 0 && (
+            <button
+              onClick={() => sincronizarPendientes(true)}
+              disabled={sincronizando}
+              title={tituloSincronizacion}
+              className={`mr-4 flex items-center text-xs font-medium px-2 py-1 rounded-full transition-colors ${
+                conError.length > 0
+                  ? 'bg-red-100 text-red-800 hover:bg-red-200'
+                  : 'bg-amber-100 text-amber-800 hover:bg-amber-200'
+              }`}
+            >
+              {sincronizando
+                ? <RefreshCw size={14} className="mr-1 animate-spin" />
+                : <UploadCloud size={14} className="mr-1" />}
+              <span>
+                {pendientesSincronizacion.length} pendiente{pendientesSincronizacion.length !== 1 ? 's' : ''}
+                <span className="hidden md:inline"> de sincronizar</span>
+              </span>
+            </button>
+          )}
           <span className="mr-4 hidden md:block text-gray-600">
-            ¡Hola, {currentUser?.usuario}!
+            ¡Hola, {currentUser?.nombre}!
+            {currentUser && (
+              <span className="ml-2 text-xs bg-gray-100 text-gray-500 px-2 py-0.5 rounded-full">
+                {NOMBRES_ROLES[currentUser.rol]}
+              </span>
+            )}
           </span>
+          {puedeAcceder(currentUser, 'kiosco') && (
+            <button
+              onClick={() => setShowKioscoModal(true)}
+              className="flex items-center text-gray-600 hover:text-teal-600 hover:bg-gray-100 px-2 py-1 mr-2 rounded-lg transition-colors"
+              title="Bloquear este dispositivo en el formulario de consentimiento"
+            >
+              <Tablet size={18} className="mr-1" />
+              <span className="hidden md:inline">Modo kiosco</span>
+            </button>
+          )}
           <button
             onClick={handleLogout}
             className="flex items-center text-gray-600 hover:text-red-500 hover:bg-gray-100 px-2 py-1 rounded-lg transition-colors"
@@ -103,90 +171,34 @@ const AdminLayout: React.FC = () => {
             <h2 className={`text-xl font-bold text-gray-800 mb-6 border-b pb-2 transition-opacity duration-200 ${
               sidebarOpen || isMobile ? 'opacity-100' : 'opacity-0'
             }`}>
-              Menú de Administración
+              {currentUser?.rol === 'artist' ? 'Mi Espacio' : 'Menú de Administración'}
             </h2>
             <ul className="space-y-2">
-              <li>
-                <NavLink
-                  to="/admin"
-                  end
-                  className={({ isActive }) =>
-                    `flex items-center py-2 px-3 rounded-lg transition-colors ${
-                      isActive
-                        ? 'bg-teal-500 text-white'
-                        : 'hover:bg-gray-100 text-gray-700'
-                    }`
-                  }
-                  onClick={() => setMobileMenuOpen(false)}
-                >
-                  <LayoutDashboard size={18} className={sidebarOpen || isMobile ? "mr-2" : "mx-auto"} />
-                  <span className={`transition-opacity duration-200 ${
-                    sidebarOpen || isMobile ? 'opacity-100' : 'opacity-0 w-0 overflow-hidden'
-                  }`}>
-                    Dashboard
-                  </span>
-                </NavLink>
-              </li>
-              <li>
-                <NavLink
-                  to="/admin/consentimientos"
-                  className={({ isActive }) =>
-                    `flex items-center py-2 px-3 rounded-lg transition-colors ${
-                      isActive
-                        ? 'bg-teal-500 text-white'
-                        : 'hover:bg-gray-100 text-gray-700'
-                    }`
-                  }
-                  onClick={() => setMobileMenuOpen(false)}
-                >
-                  <FileText size={18} className={sidebarOpen || isMobile ? "mr-2" : "mx-auto"} />
-                  <span className={`transition-opacity duration-200 ${
-                    sidebarOpen || isMobile ? 'opacity-100' : 'opacity-0 w-0 overflow-hidden'
-                  }`}>
-                    Consentimientos
-                  </span>
-                </NavLink>
-              </li>
-              <li>
-                <NavLink
-                  to="/admin/archivados"
-                  className={({ isActive }) =>
-                    `flex items-center py-2 px-3 rounded-lg transition-colors ${
-                      isActive
-                        ? 'bg-teal-500 text-white'
-                        : 'hover:bg-gray-100 text-gray-700'
-                    }`
-                  }
-                  onClick={() => setMobileMenuOpen(false)}
-                >
-                  <Archive size={18} className={sidebarOpen || isMobile ? "mr-2" : "mx-auto"} />
-                  <span className={`transition-opacity duration-200 ${
-                    sidebarOpen || isMobile ? 'opacity-100' : 'opacity-0 w-0 overflow-hidden'
-                  }`}>
-                    Archivados
-                  </span>
-                </NavLink>
-              </li>
-              <li>
-                <NavLink
-                  to="/admin/configuracion"
-                  className={({ isActive }) =>
-                    `flex items-center py-2 px-3 rounded-lg transition-colors ${
-                      isActive
-                        ? 'bg-teal-500 text-white'
-                        : 'hover:bg-gray-100 text-gray-700'
-                    }`
-                  }
-                  onClick={() => setMobileMenuOpen(false)}
-                >
-                  <Settings size={18} className={sidebarOpen || isMobile ? "mr-2" : "mx-auto"} />
-                  <span className={`transition-opacity duration-200 ${
-                    sidebarOpen || isMobile ? 'opacity-100' : 'opacity-0 w-0 overflow-hidden'
-                  }`}>
-                    Configuración
-                  </span>
-                </NavLink>
-              </li>
+              {elementosMenu
+                .filter(elemento => puedeAcceder(currentUser, elemento.seccion))
+                .map(({ to, label, icon: Icon, end }) => (
+                  <li key={to}>
+                    <NavLink
+                      to={to}
+                      end={end}
+                      className={({ isActive }) =>
+                        `flex items-center py-2 px-3 rounded-lg transition-colors ${
+                          isActive
+                            ? 'bg-teal-500 text-white'
+                            : 'hover:bg-gray-100 text-gray-700'
+                        }`
+                      }
+                      onClick={() => setMobileMenuOpen(false)}
+                    >
+                      <Icon size={18} className={sidebarOpen || isMobile ? "mr-2" : "mx-auto"} />
+                      <span className={`transition-opacity duration-200 ${
+                        sidebarOpen || isMobile ? 'opacity-100' : 'opacity-0 w-0 overflow-hidden'
+                      }`}>
+                        {label}
+                      </span>
+                    </NavLink>
+                  </li>
+                ))}
             </ul>
           </div>
         </aside>
@@ -206,6 +218,10 @@ const AdminLayout: React.FC = () => {
           <Outlet />
         </main>
       </div>
+
+      {showKioscoModal && (
+        <ActivarKiosco onClose={() => setShowKioscoModal(false)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,255 @@
+import { supabase } from './supabase';
+import type { Json } from '../types/supabase';
+
+export type AccionAuditoria =
+  | 'consentimiento.ver'
+  | 'consentimiento.ver_documento'
+  | 'consentimiento.archivar'
+  | 'consentimiento.exportar_csv'
+  | 'consentimiento.generar_pdf'
+  | 'consentimiento.descargar_pdf'
+  | 'consentimiento.reenviar_correo'
+  | 'consentimiento.editar_procedimiento'
+  | 'seguimiento.cancelar'
+  | 'seguimiento.reintentar'
+  | 'cita.crear'
+  | 'cita.actualizar'
+  | 'cita.cancelar'
+  | 'proyecto.crear'
+  | 'proyecto.actualizar'
+  | 'config.actualizar'
+  | 'artista.actualizar'
+  | 'pregunta_salud.actualizar'
+  | 'tipo_procedimiento.actualizar';
+
+// Etiquetas legibles para la página de auditoría
+export const NOMBRES_ACCIONES: Record<AccionAuditoria, string> = {
+  'consentimiento.ver': 'Vio un consentimiento',
+  'consentimiento.ver_documento': 'Vio una cédula de identidad',
+  'consentimiento.archivar': 'Archivó un consentimiento',
+  'consentimiento.exportar_csv': 'Exportó clientes a CSV',
+  'consentimiento.generar_pdf': 'Generó un PDF',
+  'consentimiento.descargar_pdf': 'Descargó el PDF firmado',
+  'consentimiento.reenviar_correo': 'Reenvió el correo al cliente',
+  'consentimiento.editar_procedimiento': 'Modificó los detalles del tatuaje',
+  'seguimiento.cancelar': 'Canceló un mensaje de seguimiento',
+  'seguimiento.reintentar': 'Reintentó un mensaje de seguimiento',
+  'cita.crear': 'Agendó una cita',
+  'cita.actualizar': 'Modificó una cita',
+  'cita.cancelar': 'Canceló una cita',
+  'proyecto.crear': 'Creó un proyecto de varias sesiones',
+  'proyecto.actualizar': 'Modificó el estado de un proyecto',
+  'config.actualizar': 'Modificó la configuración',
+  'artista.actualizar': 'Modificó un artista',
+  'pregunta_salud.actualizar': 'Modificó las preguntas de salud',
+  'tipo_procedimiento.actualizar': 'Modificó los tipos de procedimiento'
+};
+
+export interface EventoAuditoria {
+  id: string;
+  actorId: string | null;
+  actorEmail: string | null;
+  accion: AccionAuditoria;
+  entidad: string;
+  entidadId: string | null;
+  diff: Json | null;
+  fecha: string;
+  fechaCliente: string | null;
+}
+
+export interface FiltrosAuditoria {
+  actorId?: string;
+  accion?: AccionAuditoria | '';
+  desde?: string;
+  hasta?: string;
+}
+
+interface NuevoEventoAuditoria {
+  accion: AccionAuditoria;
+  entidad: string;
+  entidadId?: string;
+  diff?: Json;
+}
+
+type EventoPendiente = NuevoEventoAuditoria & { fechaCliente: string };
+
+// Eventos que no se pudieron enviar (p. ej. sin conexión) y se reintentan en el siguiente registro.
+// Se guardan por usuario para no atribuirlos a otra sesión en el mismo equipo.
+const pendingKey = (userId: string) => `app_audit_pending_${userId}`;
+
+// Tope de la cola: si se llena, se descartan los eventos más antiguos
+const MAX_PENDIENTES = 200;
+
+const leerPendientes = (userId: string): EventoPendiente[] => {
+  try {
+    return JSON.parse(localStorage.getItem(pendingKey(userId)) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const guardarPendientes = (userId: string, eventos: EventoPendiente[]) => {
+  try {
+    if (eventos.length === 0) {
+      localStorage.removeItem(pendingKey(userId));
+    } else {
+      localStorage.setItem(pendingKey(userId), JSON.stringify(eventos.slice(-MAX_PENDIENTES)));
+    }
+  } catch (e) {
+    console.error('Error al guardar eventos de auditoría pendientes:', e);
+  }
+};
+
+// Inserta eventos y devuelve el estado HTTP: 0 si no hubo respuesta del servidor
+const insertarEventos = async (eventos: EventoPendiente[]): Promise<number> => {
+  const { error, status } = await supabase
+    .from('audit_events')
+    .insert(eventos.map(e => ({
+      action: e.accion,
+      entity_type: e.entidad,
+      entity_id: e.entidadId ?? null,
+      diff: e.diff ?? null,
+      client_timestamp: e.fechaCliente
+    })));
+
+  if (error) {
+    console.error('Error al registrar evento de auditoría:', error);
+  }
+  return error ? status : 201;
+};
+
+// Sin conexión, tiempo agotado o error del servidor: vale la pena reintentar.
+// El resto de los 4xx (RLS, CHECK) fallarían siempre igual
+const esErrorTransitorio = (status: number) => status === 0 || status === 408 || status === 429 || status >= 500;
+
+/**
+ * Registra una acción del personal en el log de auditoría.
+ * El actor y la fecha los completa el servidor a partir de la sesión.
+ * Nunca lanza errores: si falla por la conexión o el servidor, el evento queda pendiente y se
+ * reintenta después; si el servidor lo rechaza, se descarta.
+ */
+export const registrarEventoAuditoria = async (evento: NuevoEventoAuditoria): Promise<void> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    // Las acciones públicas (p. ej. el formulario del cliente) no se auditan
+    return;
+  }
+
+  const userId = session.user.id;
+  const eventos = [...leerPendientes(userId), { ...evento, fechaCliente: new Date().toISOString() }];
+
+  try {
+    const status = await insertarEventos(eventos);
+    if (status < 400) {
+      guardarPendientes(userId, []);
+      return;
+    }
+    if (esErrorTransitorio(status)) {
+      guardarPendientes(userId, eventos);
+      return;
+    }
+
+    // El lote se rechaza completo: enviar uno por uno para descartar solo los rechazados
+    const reintentar: EventoPendiente[] = [];
+    for (const pendiente of eventos) {
+      const statusEvento = eventos.length === 1 ? status : await insertarEventos([pendiente]);
+      if (esErrorTransitorio(statusEvento)) {
+        reintentar.push(pendiente);
+      } else if (statusEvento >= 400) {
+        console.warn('Evento de auditoría rechazado por el servidor, se descarta:', pendiente.accion);
+      }
+    }
+    guardarPendientes(userId, reintentar);
+  } catch (error) {
+    console.error('Error al registrar evento de auditoría, se reintentará:', error);
+    guardarPendientes(userId, eventos);
+  }
+};
+
+/**
+ * Calcula los campos que cambiaron entre dos objetos
+ * @param antes Valores anteriores
+ * @param despues Valores nuevos (solo se comparan sus claves)
+ * @param camposResumidos Campos cuyo valor no se guarda completo (p. ej. imágenes en base64)
+ * @returns Objeto con { campo: { antes, despues } } o null si no hubo cambios
+ */
+export const calcularDiff = <T extends object>(
+  antes: T,
+  despues: Partial<T>,
+  camposResumidos: (keyof T)[] = []
+): Json | null => {
+  const cambios: Record<string, Json> = {};
+
+  (Object.keys(despues) as (keyof T)[]).forEach(campo => {
+    const valorAntes = antes[campo];
+    const valorDespues = despues[campo];
+
+    if (valorDespues === undefined) return;
+    if (JSON.stringify(valorAntes) === JSON.stringify(valorDespues)) return;
+
+    cambios[String(campo)] = camposResumidos.includes(campo)
+      ? { antes: valorAntes ? '[modificado]' : null, despues: valorDespues ? '[modificado]' : null }
+      : { antes: (valorAntes ?? null) as Json, despues: valorDespues as Json };
+  });
+
+  return Object.keys(cambios).length > 0 ? cambios : null;
+};
+
+/**
+ * Consulta el log de auditoría (solo disponible para el dueño del estudio)
+ */
+export const obtenerEventosAuditoria = async (
+  filtros: FiltrosAuditoria,
+  limite = 500
+): Promise<EventoAuditoria[]> => {
+  let query = supabase
+    .from('audit_events')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limite);
+
+  if (filtros.actorId) query = query.eq('actor_id', filtros.actorId);
+  if (filtros.accion) query = query.eq('action', filtros.accion);
+  if (filtros.desde) query = query.gte('created_at', filtros.desde);
+  if (filtros.hasta) query = query.lte('created_at', filtros.hasta);
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error al cargar el registro de auditoría:', error);
+    throw new Error(`Error al cargar el registro de auditoría: ${error.message}`);
+  }
+
+  return (data || []).map(item => ({
+    id: item.id,
+    actorId: item.actor_id,
+    actorEmail: item.actor_email,
+    accion: item.action as AccionAuditoria,
+    entidad: item.entity_type,
+    entidadId: item.entity_id,
+    diff: item.diff,
+    fecha: item.created_at,
+    fechaCliente: item.client_timestamp
+  }));
+};
+
+/**
+ * Lista del personal para el filtro por usuario
+ */
+export const obtenerPersonal = async (): Promise<{ id: string; nombre: string; email: string }[]> => {
+  const { data, error } = await supabase
+    .from('staff')
+    .select('id, display_name, email')
+    .order('display_name');
+
+  if (error) {
+    console.error('Error al cargar el personal:', error);
+    throw new Error(`Error al cargar el personal: ${error.message}`);
+  }
+
+  return (data || []).map(item => ({
+    id: item.id,
+    nombre: item.display_name,
+    email: item.email
+  }));
+};
@@ -0,0 +1,173 @@
+import { supabase } from './supabase';
+import type { Cita } from '../types';
+import type { Database } from '../types/supabase';
+
+type AppointmentRow = Database['public']['Tables']['appointments']['Row'];
+type ConsentRow = Database['public']['Tables']['consents']['Row'];
+
+// Fila de la agenda con el artista y el consentimiento vinculado (a lo más uno por cita). Los tipos
+// generados no declaran las relaciones, así que supabase-js infiere cada tabla embebida como lista
+type FilaCita = Omit<AppointmentRow, 'created_at' | 'updated_at'> & {
+  artists: { name: string } | null;
+  consents: Pick<ConsentRow, 'id' | 'code'>[] | Pick<ConsentRow, 'id' | 'code'> | null;
+};
+
+export type NuevaCita = Omit<Cita, 'id' | 'nombreArtista' | 'estado' | 'consentimientoId' | 'codigoConsentimiento'>;
+
+export interface FiltrosCitas {
+  desde: string;
+  hasta: string;
+  artistaId?: string;
+}
+
+// Datos que entrega el enlace de pre-registro al formulario público
+export interface CitaPreregistro {
+  id: string;
+  artistaId: string;
+  nombreArtista: string;
+  fechaInicio: string;
+}
+
+/**
+ * Enlace público para que el cliente complete el consentimiento antes de su cita
+ * @param citaId Id de la cita
+ */
+export const enlacePreregistro = (citaId: string): string =>
+  `${window.location.origin}/formulario?cita=${encodeURIComponent(citaId)}`;
+
+/**
+ * Citas de la agenda entre dos fechas, con el consentimiento vinculado si ya se firmó
+ */
+export const obtenerCitas = async (filtros: FiltrosCitas): Promise<Cita[]> => {
+  let query = supabase
+    .from('appointments')
+    .select(`
+      id,
+      artist_id,
+      starts_at,
+      duration_minutes,
+      client_name,
+      client_email,
+      client_phone,
+      notes,
+      status,
+      artists:artist_id (name),
+      consents (id, code)
+    `)
+    .gte('starts_at', filtros.desde)
+    .lt('starts_at', filtros.hasta)
+    .order('starts_at', { ascending: true });
+
+  if (filtros.artistaId) query = query.eq('artist_id', filtros.artistaId);
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error al cargar la agenda:', error);
+    throw new Error(`Error al cargar la agenda: ${error.message}`);
+  }
+
+  return ((data || []) as unknown as FilaCita[]).map(item => {
+    const consentimiento = Array.isArray(item.consents) ? item.consents[0] : item.consents;
+
+    return {
+      id: item.id,
+      artistaId: item.artist_id,
+      nombreArtista: item.artists?.name,
+      fechaInicio: item.starts_at,
+      duracionMinutos: item.duration_minutes,
+      nombreCliente: item.client_name,
+      emailCliente: item.client_email || undefined,
+      telefonoCliente: item.client_phone || undefined,
+      notas: item.notes || undefined,
+      estado: item.status,
+      consentimientoId: consentimiento?.id,
+      codigoConsentimiento: consentimiento?.code
+    };
+  });
+};
+
+const columnasCita = (cita: NuevaCita) => ({
+  artist_id: cita.artistaId,
+  starts_at: cita.fechaInicio,
+  duration_minutes: cita.duracionMinutos,
+  client_name: cita.nombreCliente.trim(),
+  client_email: cita.emailCliente?.trim() || null,
+  client_phone: cita.telefonoCliente?.trim() || null,
+  notes: cita.notas?.trim() || null
+});
+
+/**
+ * Agenda una cita nueva (dueño y recepción)
+ * @returns Id de la cita creada
+ */
+export const crearCita = async (cita: NuevaCita): Promise<string> => {
+  const { data, error } = await supabase
+    .from('appointments')
+    .insert(columnasCita(cita))
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Error al agendar la cita:', error);
+    throw new Error(`No se pudo agendar la cita: ${error.message}`);
+  }
+
+  return data.id;
+};
+
+/**
+ * Modifica los datos de una cita
+ * @param id Id de la cita
+ */
+export const actualizarCita = async (id: string, cita: NuevaCita): Promise<void> => {
+  const { error } = await supabase
+    .from('appointments')
+    .update(columnasCita(cita))
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error al actualizar la cita:', error);
+    throw new Error(`No se pudo actualizar la cita: ${error.message}`);
+  }
+};
+
+/**
+ * Cancela una cita; su enlace de pre-registro deja de funcionar
+ * @param id Id de la cita
+ */
+export const cancelarCita = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('appointments')
+    .update({ status: 'cancelled' })
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error al cancelar la cita:', error);
+    throw new Error(`No se pudo cancelar la cita: ${error.message}`);
+  }
+};
+
+/**
+ * Datos de la cita de un enlace de pre-registro (formulario público).
+ * Devuelve null si la cita no existe, está cancelada o ya se firmó su consentimiento.
+ * @param citaId Id de la cita del enlace
+ */
+export const obtenerCitaPreregistro = async (citaId: string): Promise<CitaPreregistro | null> => {
+  const { data, error } = await supabase.rpc('cita_preregistro', { p_id: citaId });
+
+  if (error) {
+    console.error('Error al obtener la cita del enlace:', error);
+    throw new Error(`No se pudo obtener la cita: ${error.message}`);
+  }
+
+  const cita = Array.isArray(data) ? data[0] : null;
+  if (!cita) return null;
+
+  return {
+    id: cita.id,
+    artistaId: cita.artist_id,
+    nombreArtista: cita.artist_name,
+    fechaInicio: cita.starts_at
+  };
+};
@@ -0,0 +1,185 @@
+import { supabase } from './supabase';
+import type { CambiosSalud, Cliente, FichaCliente, InformacionSalud, NivelRiesgo } from '../types';
+import { normalizarDocumento } from '../utils/formatters';
+import type { Database } from '../types/supabase';
+
+type ClientRow = Database['public']['Tables']['clients']['Row'];
+type ConsentRow = Database['public']['Tables']['consents']['Row'];
+
+// Los tipos generados no declaran las relaciones, así que supabase-js no infiere las tablas embebidas
+type FilaVisitaCliente = Pick<ConsentRow, 'id' | 'code' | 'signed_at' | 'archived' | 'risk_level'> & {
+  artists: { name: string } | null;
+};
+
+// Datos que el formulario puede completar cuando vuelve un cliente conocido
+export interface DatosClienteRecurrente {
+  telefono?: string;
+  email?: string;
+  direccion?: Cliente['direccion'];
+}
+
+// Consentimiento en la ficha del cliente
+export interface VisitaCliente {
+  id: string;
+  codigo: string;
+  fecha: string;
+  artista: string;
+  archivado: boolean;
+  nivelRiesgo: Exclude<NivelRiesgo, 'block'>;
+}
+
+const fichaDesdeFila = (item: ClientRow, totalConsentimientos?: number): FichaCliente => ({
+  id: item.id,
+  documento: item.document_number,
+  nombre: item.first_name,
+  apellidos: item.last_name,
+  fechaNacimiento: item.birth_date || undefined,
+  telefono: item.phone || undefined,
+  email: item.email || undefined,
+  direccion: (item.address as Cliente['direccion'] | null) || undefined,
+  fechaRegistro: item.created_at,
+  totalConsentimientos
+});
+
+/**
+ * Busca la ficha de un cliente que vuelve (formulario público).
+ * Solo devuelve el contacto y la dirección si el RUT y la fecha de nacimiento coinciden.
+ * @param documento RUT o pasaporte tal como lo escribió el cliente
+ * @param fechaNacimiento Fecha de nacimiento ('yyyy-MM-dd')
+ */
+export const buscarClienteRecurrente = async (
+  documento: string,
+  fechaNacimiento: string
+): Promise<DatosClienteRecurrente | null> => {
+  const { data, error } = await supabase.rpc('cliente_recurrente', {
+    p_documento: normalizarDocumento(documento),
+    p_fecha_nacimiento: fechaNacimiento
+  });
+
+  if (error) {
+    console.error('Error al buscar el cliente:', error);
+    throw new Error(error.hint === 'rate_limit'
+      ? error.message
+      : 'No se pudieron obtener tus datos anteriores.');
+  }
+
+  if (!data) return null;
+
+  return {
+    telefono: data.telefono || undefined,
+    email: data.email || undefined,
+    direccion: data.direccion || undefined
+  };
+};
+
+/**
+ * Cambios en las respuestas de salud de un cliente que vuelve, para que los confirme antes de firmar.
+ * Devuelve null si no hay una visita anterior con el mismo RUT y fecha de nacimiento.
+ * @param documento RUT o pasaporte tal como lo escribió el cliente
+ * @param fechaNacimiento Fecha de nacimiento ('yyyy-MM-dd')
+ * @param informacionSalud Respuestas nuevas, en el mismo formato en que se guardan
+ */
+export const buscarCambiosSalud = async (
+  documento: string,
+  fechaNacimiento: string,
+  informacionSalud: InformacionSalud
+): Promise<CambiosSalud | null> => {
+  const { data, error } = await supabase.rpc('cambios_salud_cliente', {
+    p_documento: normalizarDocumento(documento),
+    p_fecha_nacimiento: fechaNacimiento,
+    p_informacion_salud: informacionSalud
+  });
+
+  if (error) {
+    console.error('Error al comparar la información de salud:', error);
+    throw new Error('No se pudo comparar tu información de salud con la visita anterior.');
+  }
+
+  if (!data) return null;
+
+  return {
+    fechaAnterior: data.fechaAnterior,
+    cambios: data.cambios || []
+  };
+};
+
+/**
+ * Lista de fichas de clientes, con la cantidad de consentimientos de cada uno (dueño y recepción)
+ * @param busqueda Nombre, apellido o RUT
+ */
+export const obtenerFichasClientes = async (busqueda = '', limite = 200): Promise<FichaCliente[]> => {
+  let query = supabase
+    .from('clients')
+    .select('*, consents(count)')
+    .order('updated_at', { ascending: false })
+    .limit(limite);
+
+  // Sin caracteres que cambien el filtro de PostgREST
+  const termino = busqueda.replace(/[,()%*]/g, ' ').trim();
+  if (termino) {
+    const documento = normalizarDocumento(termino);
+    query = query.or([
+      `first_name.ilike.*${termino}*`,
+      `last_name.ilike.*${termino}*`,
+      ...(documento ? [`document_number.ilike.*${documento}*`] : [])
+    ].join(','));
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error al cargar los clientes:', error);
+    throw new Error(`Error al cargar los clientes: ${error.message}`);
+  }
+
+  return ((data || []) as unknown as (ClientRow & { consents: { count: number }[] })[])
+    .map(item => fichaDesdeFila(item, item.consents[0]?.count));
+};
+
+/**
+ * Ficha de un cliente con todos sus consentimientos, del más reciente al más antiguo
+ * @param id Id de la ficha
+ */
+export const obtenerFichaCliente = async (
+  id: string
+): Promise<{ ficha: FichaCliente; visitas: VisitaCliente[] } | null> => {
+  const { data, error } = await supabase
+    .from('clients')
+    .select(`
+      *,
+      consents (
+        id,
+        code,
+        signed_at,
+        archived,
+        risk_level,
+        artists:artist_id (name)
+      )
+    `)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error al cargar la ficha del cliente:', error);
+    throw new Error(`Error al cargar la ficha del cliente: ${error.message}`);
+  }
+
+  if (!data) return null;
+
+  const fila = data as unknown as ClientRow & { consents: FilaVisitaCliente[] | null };
+  const visitas: VisitaCliente[] = (fila.consents || [])
+    .map(item => ({
+      id: item.id,
+      codigo: item.code,
+      fecha: item.signed_at,
+      artista: item.artists?.name || '',
+      archivado: item.archived,
+      nivelRiesgo: item.risk_level || 'none'
+    }))
+    .sort((a, b) => b.fecha.localeCompare(a.fecha));
+
+  return {
+    ficha: fichaDesdeFila(fila, visitas.length),
+    visitas
+  };
+};
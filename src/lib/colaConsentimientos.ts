@@ -0,0 +1,65 @@
+import localforage from 'localforage';
+import { Consentimiento } from '../types';
+
+export type NuevoConsentimiento = Omit<Consentimiento, 'id' | 'codigo' | 'fechaCreacion' | 'archivado'>;
+
+// Consentimiento firmado sin conexión, esperando a sincronizarse con Supabase
+export interface ConsentimientoPendiente {
+  id: string;
+  codigo: string;
+  fechaCreacion: string;
+  // Datos del formulario, incluidas las imágenes de las cédulas (File) y las firmas
+  datos: NuevoConsentimiento;
+  intentos: number;
+  proximoIntento: string;
+  ultimoError?: string;
+  // Tras varios fallos que no son de conexión deja de reintentarse solo; el personal puede reintentarlo
+  estado: 'pendiente' | 'error';
+  // Código entregado al cliente si hubo que cambiarlo por un conflicto al sincronizar
+  codigoOriginal?: string;
+}
+
+// IndexedDB: a diferencia de localStorage, guarda los archivos de las cédulas sin convertirlos
+const almacen = localforage.createInstance({
+  name: 'app',
+  storeName: 'consentimientos_pendientes'
+});
+
+// Avisar a la interfaz (indicador del panel) cuando cambia la cola
+const EVENTO_COLA = 'app:cola-consentimientos';
+
+const notificarCambio = () => {
+  window.dispatchEvent(new Event(EVENTO_COLA));
+};
+
+export const suscribirCambiosCola = (callback: () => void) => {
+  window.addEventListener(EVENTO_COLA, callback);
+  return () => window.removeEventListener(EVENTO_COLA, callback);
+};
+
+/**
+ * Lista los consentimientos pendientes, del más antiguo al más reciente
+ */
+export const obtenerPendientes = async (): Promise<ConsentimientoPendiente[]> => {
+  const pendientes: ConsentimientoPendiente[] = [];
+  await almacen.iterate<ConsentimientoPendiente, void>(valor => {
+    pendientes.push(valor);
+  });
+  return pendientes.sort((a, b) => a.fechaCreacion.localeCompare(b.fechaCreacion));
+};
+
+/**
+ * Guarda o actualiza un consentimiento en la cola
+ */
+export const guardarPendiente = async (pendiente: ConsentimientoPendiente): Promise<void> => {
+  await almacen.setItem(pendiente.id, pendiente);
+  notificarCambio();
+};
+
+/**
+ * Quita un consentimiento de la cola (ya sincronizado)
+ */
+export const eliminarPendiente = async (id: string): Promise<void> => {
+  await almacen.removeItem(id);
+  notificarCambio();
+};
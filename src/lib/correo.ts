@@ -0,0 +1,34 @@
+import { supabase } from './supabase';
+import type { EstadoCorreo } from '../types';
+
+export interface ResultadoEnvioCorreo {
+  estado: EstadoCorreo;
+  fechaEnvio?: string;
+  error?: string;
+}
+
+// Etiquetas del estado del envío para el panel
+export const NOMBRES_ESTADO_CORREO: Record<EstadoCorreo, string> = {
+  pending: 'Pendiente',
+  sent: 'Enviado',
+  failed: 'Falló'
+};
+
+/**
+ * Envía al correo del cliente el PDF firmado y los cuidados elegidos (función `enviar-consentimiento`).
+ * El formulario solo puede enviarlo justo después de guardar; el personal puede reenviarlo.
+ * @param consentimientoId Id del consentimiento
+ * @param codigo Código del consentimiento
+ */
+export const enviarCorreoConsentimiento = async (consentimientoId: string, codigo: string): Promise<ResultadoEnvioCorreo> => {
+  const { data, error } = await supabase.functions.invoke('enviar-consentimiento', {
+    body: { id: consentimientoId, codigo }
+  });
+
+  if (error) {
+    console.error('Error al enviar el correo del consentimiento:', error);
+    throw new Error('No se pudo enviar el correo. Por favor intente nuevamente.');
+  }
+
+  return data as ResultadoEnvioCorreo;
+};
@@ -0,0 +1,166 @@
+import { supabase } from './supabase';
+import { registrarEventoAuditoria } from './auditoria';
+import { comprimirImagen, imagenParaPdf } from '../utils/imagenes';
+import { nombreArchivoConsentimiento } from '../utils/pdfGenerator';
+import { Consentimiento } from '../types';
+
+// Bucket privado: los archivos solo se leen con URLs firmadas
+export const BUCKET_DOCUMENTOS = 'consent-documents';
+
+// Duración de las URLs firmadas para ver o descargar un documento
+const DURACION_URL_FIRMADA = 60; // segundos
+
+export type TipoCedula = 'cliente' | 'tutor';
+
+/**
+ * Comprime y sube la foto de una cédula a la carpeta del consentimiento
+ * @param consentimientoId Id del consentimiento (la carpeta se llama igual)
+ * @param tipo Cédula del cliente o del tutor
+ * @param archivo Imagen seleccionada en el formulario
+ * @returns Ruta del archivo dentro del bucket
+ */
+export const subirCedula = async (consentimientoId: string, tipo: TipoCedula, archivo: Blob): Promise<string> => {
+  const imagen = await comprimirImagen(archivo);
+  const ruta = `${consentimientoId}/cedula-${tipo}.jpg`;
+
+  const { error } = await supabase.storage
+    .from(BUCKET_DOCUMENTOS)
+    .upload(ruta, imagen, { contentType: 'image/jpeg', upsert: false });
+
+  // Ya subida en un intento anterior de sincronización (solo se puede subir a la carpeta de un consentimiento nuevo)
+  if (error && /already exists/i.test(error.message)) {
+    return ruta;
+  }
+
+  if (error) {
+    console.error(`Error al subir la cédula del ${tipo}:`, error);
+    throw new Error(`No se pudo subir la cédula del ${tipo}: ${error.message}`);
+  }
+
+  return ruta;
+};
+
+/**
+ * Comprime y sube el diseño aprobado a la carpeta del consentimiento
+ * @param consentimientoId Id del consentimiento
+ * @param archivo Imagen del diseño
+ * @param reemplazar Desde el panel se puede cambiar el diseño de un consentimiento guardado
+ * @returns Ruta del archivo dentro del bucket
+ */
+export const subirImagenDiseno = async (consentimientoId: string, archivo: Blob, reemplazar = false): Promise<string> => {
+  const imagen = await comprimirImagen(archivo);
+  const ruta = `${consentimientoId}/diseno.jpg`;
+
+  const { error } = await supabase.storage
+    .from(BUCKET_DOCUMENTOS)
+    .upload(ruta, imagen, { contentType: 'image/jpeg', upsert: reemplazar });
+
+  // Ya subido en un intento anterior de sincronización
+  if (error && !reemplazar && /already exists/i.test(error.message)) {
+    return ruta;
+  }
+
+  if (error) {
+    console.error('Error al subir el diseño:', error);
+    throw new Error(`No se pudo subir el diseño: ${error.message}`);
+  }
+
+  return ruta;
+};
+
+/**
+ * Descarga el diseño aprobado y lo prepara para incluirlo en un PDF
+ * @param ruta Ruta del diseño dentro del bucket
+ */
+export const obtenerImagenDisenoPdf = async (ruta: string): Promise<string> => {
+  const { data, error } = await supabase.storage
+    .from(BUCKET_DOCUMENTOS)
+    .download(ruta);
+
+  if (error || !data) {
+    console.error('Error al descargar el diseño:', error);
+    throw new Error('No se pudo obtener el diseño');
+  }
+
+  return imagenParaPdf(data);
+};
+
+/**
+ * Genera una URL temporal para ver un documento del bucket privado
+ * @param ruta Ruta del archivo dentro del bucket
+ */
+export const obtenerUrlDocumento = async (ruta: string): Promise<string> => {
+  const { data, error } = await supabase.storage
+    .from(BUCKET_DOCUMENTOS)
+    .createSignedUrl(ruta, DURACION_URL_FIRMADA);
+
+  if (error || !data) {
+    console.error('Error al generar la URL del documento:', error);
+    throw new Error('No se pudo obtener el documento');
+  }
+
+  return data.signedUrl;
+};
+
+/**
+ * Sube el PDF firmado de un consentimiento recién guardado y registra su ruta.
+ * Solo se puede hacer una vez: después el PDF archivado no se reemplaza
+ * @param consentimientoId Id del consentimiento
+ * @param codigo Código del consentimiento
+ * @param pdf Documento generado al firmar
+ * @returns Ruta del PDF dentro del bucket
+ */
+export const archivarPdfConsentimiento = async (consentimientoId: string, codigo: string, pdf: Blob): Promise<string> => {
+  const ruta = `${consentimientoId}/consentimiento.pdf`;
+
+  const { error } = await supabase.storage
+    .from(BUCKET_DOCUMENTOS)
+    .upload(ruta, pdf, { contentType: 'application/pdf', upsert: false });
+
+  // Ya subido en un intento anterior; falta registrarlo
+  if (error && !/already exists/i.test(error.message)) {
+    console.error('Error al subir el PDF del consentimiento:', error);
+    throw new Error(`No se pudo subir el PDF del consentimiento: ${error.message}`);
+  }
+
+  const { error: registroError } = await supabase
+    .rpc('registrar_pdf_consentimiento', { p_id: consentimientoId, p_codigo: codigo });
+
+  if (registroError) {
+    console.error('Error al registrar el PDF del consentimiento:', registroError);
+    throw new Error(`No se pudo registrar el PDF del consentimiento: ${registroError.message}`);
+  }
+
+  return ruta;
+};
+
+/**
+ * Descarga el PDF archivado al firmar un consentimiento y registra la descarga en la auditoría
+ * @param consentimiento Consentimiento con PDF archivado
+ */
+export const descargarPdfFirmado = async (consentimiento: Consentimiento): Promise<void> => {
+  if (!consentimiento.rutaPdfFirmado) {
+    throw new Error('El consentimiento no tiene un PDF archivado');
+  }
+
+  const { data, error } = await supabase.storage
+    .from(BUCKET_DOCUMENTOS)
+    .createSignedUrl(consentimiento.rutaPdfFirmado, DURACION_URL_FIRMADA, { download: nombreArchivoConsentimiento(consentimiento) });
+
+  if (error || !data) {
+    console.error('Error al generar la URL del PDF:', error);
+    throw new Error('No se pudo obtener el PDF del consentimiento');
+  }
+
+  const link = document.createElement('a');
+  link.href = data.signedUrl;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  registrarEventoAuditoria({
+    accion: 'consentimiento.descargar_pdf',
+    entidad: 'consentimiento',
+    entidadId: consentimiento.id
+  });
+};
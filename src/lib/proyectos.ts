@@ -0,0 +1,195 @@
+import { supabase } from './supabase';
+import type {
+  Cliente,
+  DetallesProcedimiento,
+  EstadoProyecto,
+  InformacionSalud,
+  Proyecto,
+  SesionProyecto,
+  TipoCuidado,
+  TipoSesion
+} from '../types';
+import { normalizarDocumento } from '../utils/formatters';
+import type { Database } from '../types/supabase';
+
+type ProjectRow = Database['public']['Tables']['projects']['Row'];
+type ConsentRow = Database['public']['Tables']['consents']['Row'];
+
+// Sesión del proyecto con su artista; los tipos generados no declaran las relaciones, así que
+// supabase-js no infiere las tablas embebidas
+type FilaSesionProyecto = Pick<
+  ConsentRow,
+  'id' | 'code' | 'signed_at' | 'session_type' | 'session_number' | 'free_touch_up'
+> & {
+  artists: { name: string } | null;
+};
+
+export const NOMBRES_TIPO_SESION: Record<TipoSesion, string> = {
+  session: 'Sesión',
+  touch_up: 'Retoque'
+};
+
+export const NOMBRES_ESTADO_PROYECTO: Record<EstadoProyecto, string> = {
+  active: 'En curso',
+  completed: 'Terminado'
+};
+
+// Datos del último consentimiento del proyecto que recibe el formulario para una sesión nueva
+export interface DatosSesionProyecto {
+  id: string;
+  nombre: string;
+  estado: EstadoProyecto;
+  // Sin contacto ni dirección, que el cliente vuelve a ingresar
+  cliente: Pick<Cliente, 'nombre' | 'apellidos'>;
+  // Solo la respuesta de cada pregunta, por id; la información adicional se vuelve a ingresar
+  informacionSalud: Record<string, Pick<InformacionSalud[string], 'respuesta'>>;
+  artista: string;
+  tipoProcedimientoId?: string;
+  tipoCuidado?: TipoCuidado;
+  detallesProcedimiento?: DetallesProcedimiento;
+  limiteRetoqueGratis?: string;
+}
+
+/**
+ * Enlace público para que el cliente firme una sesión nueva o un retoque del proyecto
+ * @param proyectoId Id del proyecto
+ * @param tipo Sesión del proyecto o retoque
+ */
+export const enlaceSesionProyecto = (proyectoId: string, tipo: TipoSesion): string =>
+  `${window.location.origin}/formulario?proyecto=${encodeURIComponent(proyectoId)}${tipo === 'touch_up' ? '&sesion=retoque' : ''}`;
+
+const sesionDesdeFila = (item: FilaSesionProyecto): SesionProyecto => ({
+  consentimientoId: item.id,
+  codigo: item.code,
+  fecha: item.signed_at,
+  artista: item.artists?.name || '',
+  tipo: item.session_type ?? 'session',
+  numero: item.session_number || undefined,
+  retoqueGratis: !!item.free_touch_up
+});
+
+/**
+ * Proyecto con sus sesiones y retoques, y el plazo del retoque gratuito
+ * @param id Id del proyecto
+ */
+export const obtenerProyecto = async (id: string): Promise<Proyecto | null> => {
+  const { data, error } = await supabase
+    .from('projects')
+    .select(`
+      *,
+      consents (
+        id,
+        code,
+        signed_at,
+        session_type,
+        session_number,
+        free_touch_up,
+        artists:artist_id (name)
+      )
+    `)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error al cargar el proyecto:', error);
+    throw new Error(`Error al cargar el proyecto: ${error.message}`);
+  }
+
+  if (!data) return null;
+
+  const proyecto = data as unknown as ProjectRow & { consents: FilaSesionProyecto[] | null };
+
+  const { data: limite, error: limiteError } = await supabase.rpc('limite_retoque_gratis', { p_proyecto: id });
+  if (limiteError) {
+    console.error('Error al calcular el retoque gratuito:', limiteError);
+  }
+
+  return {
+    id: proyecto.id,
+    clienteId: proyecto.client_id,
+    consentimientoOriginalId: proyecto.original_consent_id,
+    nombre: proyecto.name,
+    estado: proyecto.status,
+    fechaCreacion: proyecto.created_at,
+    sesiones: (proyecto.consents || [])
+      .map(sesionDesdeFila)
+      .sort((a, b) => a.fecha.localeCompare(b.fecha)),
+    limiteRetoqueGratis: limite || undefined
+  };
+};
+
+/**
+ * Crea un proyecto a partir de un consentimiento firmado, que queda como su sesión 1 (dueño y recepción)
+ * @returns Id del proyecto creado
+ */
+export const crearProyecto = async (consentimientoId: string, nombre: string): Promise<string> => {
+  const { data, error } = await supabase
+    .from('projects')
+    .insert({ original_consent_id: consentimientoId, name: nombre.trim() })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Error al crear el proyecto:', error);
+    throw new Error(`No se pudo crear el proyecto: ${error.message}`);
+  }
+
+  return data.id;
+};
+
+/**
+ * Marca un proyecto como terminado o lo reabre. Un proyecto terminado solo admite retoques
+ * @param id Id del proyecto
+ */
+export const actualizarEstadoProyecto = async (id: string, estado: EstadoProyecto): Promise<void> => {
+  const { error } = await supabase
+    .from('projects')
+    .update({ status: estado })
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error al actualizar el proyecto:', error);
+    throw new Error(`No se pudo actualizar el proyecto: ${error.message}`);
+  }
+};
+
+/**
+ * Datos para firmar una sesión nueva del proyecto (formulario público).
+ * Devuelve null si el proyecto no existe o el RUT y la fecha de nacimiento no coinciden.
+ * @param proyectoId Id del proyecto del enlace
+ * @param documento RUT o pasaporte tal como lo escribió el cliente
+ * @param fechaNacimiento Fecha de nacimiento ('yyyy-MM-dd')
+ */
+export const obtenerSesionProyecto = async (
+  proyectoId: string,
+  documento: string,
+  fechaNacimiento: string
+): Promise<DatosSesionProyecto | null> => {
+  const { data, error } = await supabase.rpc('sesion_proyecto', {
+    p_proyecto: proyectoId,
+    p_documento: normalizarDocumento(documento),
+    p_fecha_nacimiento: fechaNacimiento
+  });
+
+  if (error) {
+    console.error('Error al obtener el proyecto:', error);
+    throw new Error(error.hint === 'rate_limit'
+      ? error.message
+      : 'No se pudieron obtener los datos de tu proyecto.');
+  }
+
+  if (!data) return null;
+
+  return {
+    id: data.id,
+    nombre: data.nombre,
+    estado: data.estado,
+    cliente: data.cliente,
+    informacionSalud: data.informacionSalud || {},
+    artista: data.artista || '',
+    tipoProcedimientoId: data.tipoProcedimientoId || undefined,
+    tipoCuidado: data.tipoCuidado || undefined,
+    detallesProcedimiento: data.detallesProcedimiento || undefined,
+    limiteRetoqueGratis: data.limiteRetoqueGratis || undefined
+  };
+};
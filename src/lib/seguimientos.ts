@@ -0,0 +1,120 @@
+import { supabase } from './supabase';
+import type { CanalSeguimiento, EstadoSeguimiento, MensajeSeguimiento, PasoSeguimiento } from '../types';
+import type { Database } from '../types/supabase';
+
+type FollowupMessageRow = Database['public']['Tables']['followup_messages']['Row'];
+type ConsentRow = Database['public']['Tables']['consents']['Row'];
+
+// Mensaje con el código y el cliente de su consentimiento; los tipos generados no declaran las
+// relaciones, así que supabase-js no infiere la tabla embebida
+type FilaSeguimiento = Omit<FollowupMessageRow, 'claimed_at' | 'created_at'> & {
+  consents: Pick<ConsentRow, 'code' | 'client_info'> | null;
+};
+
+// Pasos del seguimiento, en orden de envío después de la sesión
+export const PASOS_SEGUIMIENTO: Record<PasoSeguimiento, string> = {
+  day_1: 'Día 1',
+  day_3: 'Día 3',
+  day_14: 'Día 14',
+  week_6: '6 semanas (retoque)'
+};
+
+export const NOMBRES_ESTADO_SEGUIMIENTO: Record<EstadoSeguimiento, string> = {
+  scheduled: 'Programado',
+  sending: 'Enviando',
+  sent: 'Enviado',
+  failed: 'Falló',
+  cancelled: 'Cancelado'
+};
+
+export const NOMBRES_CANAL_SEGUIMIENTO: Record<CanalSeguimiento, string> = {
+  email: 'Correo electrónico',
+  whatsapp: 'WhatsApp'
+};
+
+// Variables que se reemplazan en el texto de cada mensaje
+export const VARIABLES_SEGUIMIENTO = ['{Nombre Cliente}', '{Nombre Artista}', '{Nombre Estudio}'];
+
+export interface FiltrosSeguimiento {
+  estado?: EstadoSeguimiento | '';
+  paso?: PasoSeguimiento | '';
+}
+
+/**
+ * Consulta los mensajes de seguimiento programados (dueño y recepción)
+ */
+export const obtenerMensajesSeguimiento = async (
+  filtros: FiltrosSeguimiento,
+  limite = 500
+): Promise<MensajeSeguimiento[]> => {
+  let query = supabase
+    .from('followup_messages')
+    .select(`
+      id,
+      consent_id,
+      step,
+      channel,
+      scheduled_for,
+      status,
+      attempts,
+      sent_at,
+      error,
+      consents:consent_id (code, client_info)
+    `)
+    .order('scheduled_for', { ascending: false })
+    .limit(limite);
+
+  if (filtros.estado) query = query.eq('status', filtros.estado);
+  if (filtros.paso) query = query.eq('step', filtros.paso);
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error al cargar los mensajes de seguimiento:', error);
+    throw new Error(`Error al cargar los mensajes de seguimiento: ${error.message}`);
+  }
+
+  return ((data || []) as unknown as FilaSeguimiento[]).map(item => {
+    const clientInfo = item.consents?.client_info as { nombre?: string; apellidos?: string } | undefined;
+
+    return {
+      id: item.id,
+      consentimientoId: item.consent_id,
+      codigoConsentimiento: item.consents?.code,
+      nombreCliente: clientInfo ? [clientInfo.nombre, clientInfo.apellidos].filter(Boolean).join(' ') : undefined,
+      paso: item.step,
+      canal: item.channel,
+      fechaProgramada: item.scheduled_for,
+      estado: item.status,
+      intentos: item.attempts,
+      fechaEnvio: item.sent_at || undefined,
+      error: item.error || undefined
+    };
+  });
+};
+
+/**
+ * Cancela un mensaje programado o fallido
+ * @param id Id del mensaje
+ */
+export const cancelarMensajeSeguimiento = async (id: string): Promise<void> => {
+  const { error } = await supabase.rpc('cancelar_seguimiento', { p_id: id });
+
+  if (error) {
+    console.error('Error al cancelar el mensaje de seguimiento:', error);
+    throw new Error(`No se pudo cancelar el mensaje: ${error.message}`);
+  }
+};
+
+/**
+ * Vuelve a programar un mensaje fallido o cancelado; se envía en la próxima ejecución de `procesar-seguimientos`
+ * @param id Id del mensaje
+ */
+export const reintentarMensajeSeguimiento = async (id: string): Promise<void> => {
+  const { error } = await supabase.rpc('reintentar_seguimiento', { p_id: id });
+
+  if (error) {
+    console.error('Error al reintentar el mensaje de seguimiento:', error);
+    throw new Error(`No se pudo reintentar el mensaje: ${error.message}`);
+  }
+};
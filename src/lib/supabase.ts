@@ -246,6 +246,17 @@ export const toggleOfflineMode = (active: boolean) => {
   }
 };
 
+// Indica si no se puede contactar al servidor (sin red, red marcada como no disponible o modo offline manual)
+export const isNetworkUnavailable = () => {
+  return !navigator.onLine || isOfflineMode();
+};
+
+// Olvidar que la red estaba caída para volver a probar la conexión (no desactiva el modo offline manual)
+export const resetNetworkStatus = () => {
+  localStorage.removeItem('app_network_unreachable');
+  lastConnectionStatus = { isConnected: false, timestamp: 0 };
+};
+
 // Función para crear suscripciones en tiempo real con mejor manejo de errores
 export const createRealtimeSubscription = (
   table: string, 
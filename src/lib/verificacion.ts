@@ -0,0 +1,53 @@
+import { supabase } from './supabase';
+import type { EstadoIntegridad } from '../utils/integridad';
+
+export interface VerificacionConsentimiento {
+  valido: boolean;
+  codigo?: string;
+  archivado?: boolean;
+  fecha?: string;
+  estudio?: string;
+  // Solo iniciales, p. ej. "C*** R***"
+  cliente?: string;
+  integridad?: EstadoIntegridad;
+  hash?: string | null;
+}
+
+/**
+ * Enlace público que abre la verificación de un consentimiento (se imprime como QR)
+ * @param codigo Código del documento
+ */
+export const enlaceVerificacion = (codigo: string): string =>
+  `${window.location.origin}/verificar/${encodeURIComponent(codigo)}`;
+
+/**
+ * Verifica un código de consentimiento en el servidor.
+ * Devuelve solo los datos mínimos de validación; el servidor limita la cantidad de consultas por origen.
+ * @param codigo Código del documento (TCF-XXXXX-XXXXX)
+ */
+export const verificarCodigoConsentimiento = async (codigo: string): Promise<VerificacionConsentimiento> => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 20000);
+
+  try {
+    const { data, error } = await supabase
+      .rpc('verificar_codigo_consentimiento', { p_codigo: codigo.trim().toUpperCase() })
+      .abortSignal(controller.signal);
+
+    if (error) {
+      console.error('Error al verificar el código:', error);
+      throw new Error(error.hint === 'rate_limit'
+        ? error.message
+        : 'No se pudo verificar el documento. Por favor intente nuevamente.');
+    }
+
+    return data as VerificacionConsentimiento;
+  } catch (err) {
+    if (err instanceof Error && err.name === 'AbortError') {
+      throw new Error('Tiempo de espera agotado al verificar el documento. Por favor intente nuevamente.');
+    }
+    throw err;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
@@ -1,28 +1,38 @@
 import React, { useState, useEffect } from 'react';
 import { Link, useLocation, Navigate } from 'react-router-dom';
 import { useConfig } from '../contexts/ConfigContext';
-import { CheckCircle, FileDown, Home, ArrowLeft } from 'lucide-react';
+import { useKiosco } from '../contexts/KioscoContext';
+import { CheckCircle, FileDown, Home, ArrowLeft, RotateCcw } from 'lucide-react';
+import SalidaKiosco from '../components/SalidaKiosco';
+import CodigoQr from '../components/CodigoQr';
+import { enlaceVerificacion } from '../lib/verificacion';
 
 interface LocationState {
   consentimientoId?: string;
   consentimientoCodigo?: string;
   clienteNombre?: string;
   pdfData?: string;
+  pendienteSincronizacion?: boolean;
 }
 
 const ExitoFormulario: React.FC = () => {
   const location = useLocation();
   const { config } = useConfig();
+  const { activo: modoKiosco } = useKiosco();
   const [contador, setContador] = useState(10);
   const [redirectHome, setRedirectHome] = useState(false);
   
   // Obtener datos del state de la navegación
   const state = location.state as LocationState;
-  const { consentimientoCodigo, clienteNombre, pdfData } = state || {};
+  const { consentimientoCodigo, clienteNombre, pdfData, pendienteSincronizacion } = state || {};
+  
+  // En modo kiosco se vuelve a un formulario vacío; al reemplazar la entrada del historial
+  // se descarta el PDF del cliente anterior
+  const rutaSalida = modoKiosco ? '/formulario' : '/';
 
   // Si no hay código de consentimiento, redirigir a la página de inicio
   if (!consentimientoCodigo) {
-    return <Navigate to="/" replace />;
+    return <Navigate to={rutaSalida} replace />;
   }
   
   // Iniciar contador para redirección automática
@@ -43,7 +53,7 @@ const ExitoFormulario: React.FC = () => {
   
   // Redireccionar cuando el contador llegue a 0
   if (redirectHome) {
-    return <Navigate to="/" replace />;
+    return <Navigate to={rutaSalida} replace />;
   }
   
   // Función para descargar el PDF nuevamente
@@ -63,12 +73,13 @@ const ExitoFormulario: React.FC = () => {
       {/* Header */}
       <header className="bg-white shadow-sm">
         <div className="container mx-auto px-4 py-4">
-          <div className="flex items-center gap-2">
-            <Link to="/" className="flex items-center gap-2">
+          <div className="flex items-center justify-between gap-2">
+            <Link to={rutaSalida} replace className="flex items-center gap-2">
               <h1 className="text-xl font-bold text-gray-800">
                 {config.nombreEstudio}
               </h1>
             </Link>
+            <SalidaKiosco />
           </div>
         </div>
       </header>
@@ -87,30 +98,58 @@ const ExitoFormulario: React.FC = () => {
             Gracias por completar el formulario de consentimiento. Tu información ha sido registrada correctamente.
           </p>
 
+          {pendienteSincronizacion && (
+            <div className="bg-amber-50 border border-amber-200 text-amber-800 text-sm p-3 rounded-lg mb-6">
+              No hay conexión a internet en este momento. Tu consentimiento quedó guardado en este dispositivo
+              y se enviará automáticamente cuando vuelva la conexión.
+            </div>
+          )}
+
           <div className="bg-gray-50 p-4 rounded-lg mb-6">
             <p className="text-sm text-gray-500 mb-2">Código de verificación:</p>
             <p className="text-lg font-mono font-bold">{consentimientoCodigo}</p>
+            {/* Solo se muestra cuando el consentimiento ya está en el servidor y se puede verificar */}
+            {!pendienteSincronizacion && (
+              <div className="flex justify-center mt-3">
+                <CodigoQr texto={enlaceVerificacion(consentimientoCodigo)} tamano={140} className="rounded" />
+              </div>
+            )}
             <p className="text-sm text-gray-500 mt-2">
-              Guarda este código para futuras referencias o verificaciones.
+              {pendienteSincronizacion
+                ? 'Guarda este código para futuras referencias o verificaciones.'
+                : 'Guarda este código o escanea el QR para verificar tu consentimiento en cualquier momento.'}
             </p>
           </div>
 
           <div className="flex flex-col sm:flex-row gap-4 mb-8">
-            <button
-              onClick={descargarPDF}
-              className="flex-1 flex items-center justify-center px-4 py-2 bg-teal-500 hover:bg-teal-600 text-white rounded-md transition-colors"
-              disabled={!pdfData}
-            >
-              <FileDown size={18} className="mr-2" />
-              Descargar PDF
-            </button>
+            {/* En la tablet compartida el PDF no se descarga: quedaría guardado en el dispositivo */}
+            {!modoKiosco && (
+              <button
+                onClick={descargarPDF}
+                className="flex-1 flex items-center justify-center px-4 py-2 bg-teal-500 hover:bg-teal-600 text-white rounded-md transition-colors"
+                disabled={!pdfData}
+              >
+                <FileDown size={18} className="mr-2" />
+                Descargar PDF
+              </button>
+            )}
             
             <Link
-              to="/"
+              to={rutaSalida}
+              replace
               className="flex-1 flex items-center justify-center px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-800 rounded-md transition-colors"
             >
-              <Home size={18} className="mr-2" />
-              Volver al Inicio
+              {modoKiosco ? (
+                <>
+                  <RotateCcw size={18} className="mr-2" />
+                  Nuevo Formulario
+                </>
+              ) : (
+                <>
+                  <Home size={18} className="mr-2" />
+                  Volver al Inicio
+                </>
+              )}
             </Link>
           </div>
 
@@ -1,34 +1,71 @@
 import React, { useState, useEffect } from 'react';
 import { useForm, FormProvider } from 'react-hook-form';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { useConfig } from '../contexts/ConfigContext';
 import { useConsentimientos } from '../contexts/ConsentimientosContext';
-import { Palette, CheckCircle, ArrowLeft, ArrowRight, FileDown } from 'lucide-react';
+import { useKiosco } from '../contexts/KioscoContext';
+import { useInactividad } from '../hooks/useInactividad';
+import SalidaKiosco from '../components/SalidaKiosco';
+import { Palette, CheckCircle, ArrowLeft, ArrowRight, FileDown, CalendarClock, Layers } from 'lucide-react';
 import { generatePDF } from '../utils/pdfGenerator';
-import { format } from 'date-fns';
+import { format, isAfter, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
 import ErrorMessageSupabase from '../components/ErrorMessageSupabase';
+import { CambiosSalud, ColorTatuaje, InformacionSalud as InformacionSaludConsentimiento, TamanoTatuaje, TipoCuidado, TipoSesion } from '../types';
+import { requiereCampoAdicional, activaReglaRiesgo, evaluarRiesgoSalud, preguntasDelTipo } from '../utils/preguntasSalud';
+import { buscarTipoProcedimiento, textoCuidados } from '../utils/procedimiento';
+import { renderTextoLegal, datosTextoDesdeConsentimiento } from '../utils/plantillaConsentimiento';
+import { imagenParaPdf } from '../utils/imagenes';
+import { obtenerCitaPreregistro, CitaPreregistro } from '../lib/citas';
+import { buscarCambiosSalud } from '../lib/clientes';
+import { obtenerSesionProyecto, DatosSesionProyecto } from '../lib/proyectos';
+import { calcularEdad } from '../utils/formatters';
 
 // Componentes de pasos del formulario
+import SeleccionProcedimiento from '../components/FormularioPasos/SeleccionProcedimiento';
 import DatosPersonales from '../components/FormularioPasos/DatosPersonales';
+import IdentidadSesion from '../components/FormularioPasos/IdentidadSesion';
 import DatosTutor from '../components/FormularioPasos/DatosTutor';
 import InformacionSalud from '../components/FormularioPasos/InformacionSalud';
 import SeleccionArtista from '../components/FormularioPasos/SeleccionArtista';
+import DetallesTatuaje from '../components/FormularioPasos/DetallesTatuaje';
 import DocumentosCedula from '../components/FormularioPasos/DocumentosCedula';
+import Resumen from '../components/FormularioPasos/Resumen';
 import ConsentimientoFirma from '../components/FormularioPasos/ConsentimientoFirma';
 
+type PasoFormulario = 'tipo' | 'identidad' | 'datos' | 'tutor' | 'salud' | 'artista' | 'procedimiento' | 'documentos' | 'resumen' | 'firma';
+
+// Valores de los radios tal como los entrega el formulario ('true'/'false')
+type RespuestasSaludFormulario = Record<string, { respuesta?: string | null; informacionAdicional?: string } | undefined>;
+
 const FormularioConsentimiento: React.FC = () => {
   const { config, connectionError } = useConfig();
-  const { addConsentimiento, connectionError: consentimientosConnectionError } = useConsentimientos();
+  const { addConsentimiento } = useConsentimientos();
+  const { activo: modoKiosco, minutosInactividad } = useKiosco();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const citaIdEnlace = searchParams.get('cita');
+  // Enlace de una sesión nueva (o un retoque) de un proyecto: el cliente solo actualiza su salud y firma
+  const proyectoIdEnlace = searchParams.get('proyecto');
+  const tipoSesion: TipoSesion = searchParams.get('sesion') === 'retoque' ? 'touch_up' : 'session';
   const [currentStep, setCurrentStep] = useState(1);
   const [isPasoFirmaCompleto, setIsPasoFirmaCompleto] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [errorSubmit, setErrorSubmit] = useState<string | null>(null);
+  // Cambia en cada reinicio para descartar el estado interno de los pasos (vistas previas, firmas)
+  const [reinicios, setReinicios] = useState(0);
+  // Cita del enlace de pre-registro: preselecciona el artista y queda vinculada al consentimiento
+  const [cita, setCita] = useState<CitaPreregistro | null>(null);
+  // Cambios de salud respecto de la visita anterior del cliente, para confirmarlos en el resumen
+  const [cambiosSalud, setCambiosSalud] = useState<CambiosSalud | null>(null);
+  // Proyecto del enlace, cargado al confirmar la identidad con los datos de su último consentimiento
+  const [proyecto, setProyecto] = useState<DatosSesionProyecto | null>(null);
   
   // Crear formulario
   const methods = useForm({
     mode: 'onChange',
     defaultValues: {
+      tipoProcedimientoId: '',
       cliente: {
         nombre: '',
         apellidos: '',
@@ -52,23 +89,222 @@ const FormularioConsentimiento: React.FC = () => {
       },
       informacionSalud: {},
       artistaSeleccionado: '',
+      tipoCuidado: 'cream' as TipoCuidado,
+      procedimiento: {
+        zonaCuerpo: '',
+        tamano: '' as TamanoTatuaje | '',
+        color: '' as ColorTatuaje | '',
+        sesionesEstimadas: 1,
+        descripcion: ''
+      },
+      imagenDiseno: undefined as File | undefined,
+      confirmacionCambiosSalud: false,
       confirmacionConsentimiento: false,
       firma: ''
     }
   });
   
-  // Observar cliente.edad para determinar validez del paso de tutor
+  useEffect(() => {
+    if (!citaIdEnlace) return;
+    
+    let cancelado = false;
+    obtenerCitaPreregistro(citaIdEnlace)
+      .then(datos => {
+        if (!cancelado) setCita(datos);
+      })
+      // Sin la cita el formulario funciona igual, sin vincularlo
+      .catch(err => console.error('Error al cargar la cita del enlace:', err));
+    
+    return () => {
+      cancelado = true;
+    };
+  }, [citaIdEnlace]);
+  
+  // Preseleccionar el artista de la cita cuando esté cargada la lista de artistas activos
+  useEffect(() => {
+    if (!cita || methods.getValues('artistaSeleccionado')) return;
+    
+    if (config.artistas.some(artista => artista.activo && artista.nombre === cita.nombreArtista)) {
+      methods.setValue('artistaSeleccionado', cita.nombreArtista);
+    }
+  }, [cita, config.artistas, methods]);
+  
+  // En la tablet del estudio, volver al primer paso si el cliente deja el formulario a medias
+  const reiniciarFormulario = () => {
+    methods.reset();
+    // El siguiente cliente no es el de la cita del enlace
+    setCita(null);
+    setCambiosSalud(null);
+    setProyecto(null);
+    setCurrentStep(1);
+    setIsPasoFirmaCompleto(false);
+    setErrorSubmit(null);
+    setReinicios(prev => prev + 1);
+    window.scrollTo(0, 0);
+  };
+  
+  useInactividad(modoKiosco && !isSubmitting ? minutosInactividad * 60000 : null, reiniciarFormulario);
+  
+  // Observar cliente.edad para determinar si se muestra el paso de tutor
   const clienteEdad = methods.watch('cliente.edad');
+  
+  // Procedimiento elegido; con un solo tipo activo no hay nada que elegir y se usa ese
+  const hayVariosTipos = config.tiposProcedimiento.filter(tipo => tipo.activo).length > 1;
+  const tipoProcedimiento = buscarTipoProcedimiento(config.tiposProcedimiento, methods.watch('tipoProcedimientoId'));
+  const preguntasSalud = preguntasDelTipo(config.preguntasSalud, tipoProcedimiento?.id);
 
-  const totalSteps = clienteEdad < 18 ? 6 : 5;
+  // Pasos del formulario en orden; el de tutor solo existe para menores de edad y el de detalles
+  // del tatuaje, para los procedimientos que lo piden. Una sesión de proyecto reutiliza el resto;
+  // el contacto, la dirección y el tutor no se entregan con el proyecto y se ingresan de nuevo
+  const pasos: PasoFormulario[] = proyectoIdEnlace ? [
+    'identidad',
+    'datos',
+    ...(proyecto && clienteEdad < 18 ? ['tutor' as const] : []),
+    'salud',
+    'artista',
+    'resumen',
+    'firma'
+  ] : [
+    ...(hayVariosTipos ? ['tipo' as const] : []),
+    'datos',
+    ...(clienteEdad < 18 ? ['tutor' as const] : []),
+    'salud',
+    'artista',
+    ...(tipoProcedimiento?.pideDetallesTatuaje ? ['procedimiento' as const] : []),
+    'documentos',
+    'resumen',
+    'firma'
+  ];
+  const totalSteps = pasos.length;
+  const pasoActual = pasos[currentStep - 1];
+  const esPasoFirma = pasoActual === 'firma';
+
+  // Mensaje para el cliente si alguna respuesta de salud bloquea el envío
+  const mensajeBloqueoSalud = (respuestas: RespuestasSaludFormulario): string | null => {
+    const bloqueos = evaluarRiesgoSalud(preguntasSalud, respuestas).alertas
+      .filter(alerta => alerta.nivel === 'block');
+    
+    if (bloqueos.length === 0) return null;
+    
+    return bloqueos
+      .map(alerta => alerta.mensaje || `Según tu respuesta a "${alerta.pregunta}", no es posible continuar con el procedimiento.`)
+      .join(' ');
+  };
+
+  // Respuestas por id de pregunta junto con el texto mostrado al cliente, tal como se guardan,
+  // para que editar las preguntas después no altere los registros firmados
+  const procesarInformacionSalud = (respuestas: RespuestasSaludFormulario): InformacionSaludConsentimiento => {
+    const informacionSaludProcesada: InformacionSaludConsentimiento = {};
+    preguntasSalud.forEach((pregunta, orden) => {
+      const respuesta = respuestas[pregunta.id]?.respuesta === 'true';
+      informacionSaludProcesada[pregunta.id] = {
+        respuesta,
+        informacionAdicional: requiereCampoAdicional(pregunta, respuesta)
+          ? respuestas[pregunta.id]?.informacionAdicional || undefined
+          : undefined,
+        pregunta: pregunta.pregunta,
+        orden,
+        version: pregunta.version,
+        nivelRiesgo: activaReglaRiesgo(pregunta, respuesta) ? pregunta.nivelRiesgo : undefined
+      };
+    });
+    return informacionSaludProcesada;
+  };
+  
+  // Comparar con la visita anterior antes de mostrar el resumen; sin conexión o sin
+  // visita anterior se continúa sin cambios (el servidor los vuelve a calcular al guardar)
+  const compararConVisitaAnterior = async () => {
+    const { rut, fechaNacimiento } = methods.getValues('cliente');
+    let resultado: CambiosSalud | null = null;
+    
+    if (rut && fechaNacimiento) {
+      try {
+        resultado = await buscarCambiosSalud(
+          rut,
+          fechaNacimiento,
+          procesarInformacionSalud(methods.getValues('informacionSalud'))
+        );
+      } catch (err) {
+        console.error('Error al comparar con la visita anterior:', err);
+      }
+    }
+    
+    setCambiosSalud(resultado);
+    methods.setValue('confirmacionCambiosSalud', false);
+  };
+
+  // Completar el formulario con el último consentimiento del proyecto; las respuestas de salud
+  // quedan como punto de partida para que el cliente las actualice
+  const cargarDatosProyecto = (datos: DatosSesionProyecto) => {
+    const cliente = methods.getValues('cliente');
+    methods.setValue('cliente', {
+      ...cliente,
+      ...datos.cliente,
+      rut: cliente.rut,
+      fechaNacimiento: cliente.fechaNacimiento,
+      edad: calcularEdad(cliente.fechaNacimiento)
+    });
+    if (config.artistas.some(artista => artista.activo && artista.nombre === datos.artista)) {
+      methods.setValue('artistaSeleccionado', datos.artista);
+    }
+    methods.setValue('tipoProcedimientoId', datos.tipoProcedimientoId || '');
+    if (datos.tipoCuidado) {
+      methods.setValue('tipoCuidado', datos.tipoCuidado);
+    }
+    if (datos.detallesProcedimiento) {
+      methods.setValue('procedimiento', {
+        ...datos.detallesProcedimiento,
+        descripcion: datos.detallesProcedimiento.descripcion || ''
+      });
+    }
+    
+    const respuestas: RespuestasSaludFormulario = {};
+    Object.entries(datos.informacionSalud).forEach(([id, item]) => {
+      respuestas[id] = {
+        respuesta: item.respuesta ? 'true' : 'false',
+        informacionAdicional: ''
+      };
+    });
+    methods.setValue('informacionSalud', respuestas);
+    
+    setProyecto(datos);
+  };
 
   // Avanzar al siguiente paso
   const nextStep = async () => {
     setErrorSubmit(null); // Limpiar errores anteriores
     let isValid = false;
     
-    switch (currentStep) {
-      case 1: // Datos Personales
+    switch (pasoActual) {
+      case 'tipo':
+        isValid = await methods.trigger('tipoProcedimientoId', { shouldFocus: true });
+        break;
+        
+      case 'identidad': {
+        isValid = await methods.trigger(['cliente.rut', 'cliente.fechaNacimiento'], { shouldFocus: true });
+        if (!isValid || !proyectoIdEnlace) break;
+        
+        const { rut, fechaNacimiento } = methods.getValues('cliente');
+        try {
+          const datos = await obtenerSesionProyecto(proyectoIdEnlace, rut, fechaNacimiento);
+          if (!datos) {
+            setErrorSubmit('No encontramos un proyecto con esos datos. Revisa tu RUT y fecha de nacimiento o consulta en recepción.');
+            isValid = false;
+          } else if (datos.estado === 'completed' && tipoSesion === 'session') {
+            setErrorSubmit('Este proyecto ya está terminado y solo admite retoques. Consulta en recepción.');
+            isValid = false;
+          } else {
+            cargarDatosProyecto(datos);
+          }
+        } catch (err) {
+          console.error('Error al cargar el proyecto:', err);
+          setErrorSubmit(err instanceof Error ? err.message : 'No se pudieron obtener los datos de tu proyecto.');
+          isValid = false;
+        }
+        break;
+      }
+        
+      case 'datos':
         isValid = await methods.trigger([
           'cliente.nombre', 
           'cliente.apellidos', 
@@ -80,68 +316,71 @@ const FormularioConsentimiento: React.FC = () => {
           'cliente.telefono',
           'cliente.email'
         ], { shouldFocus: true });
+        
+        // La edad mínima depende del procedimiento (el servidor también la valida)
+        if (isValid && tipoProcedimiento?.edadMinima && clienteEdad < tipoProcedimiento.edadMinima) {
+          setErrorSubmit(`${tipoProcedimiento.nombre} requiere una edad mínima de ${tipoProcedimiento.edadMinima} años.`);
+          isValid = false;
+        }
         break;
         
-      case 2: // Datos Tutor (solo para menores)
-        if (clienteEdad < 18) {
-          isValid = await methods.trigger([
-            'tutor.nombre',
-            'tutor.rut',
-            'tutor.parentesco'
-          ], { shouldFocus: true });
-          if (methods.getValues('tutor.parentesco') === 'Otro') {
-            isValid = isValid && await methods.trigger('tutor.otroParentesco', { shouldFocus: true });
-          }
-        } else {
-          isValid = true;
+      case 'tutor':
+        isValid = await methods.trigger([
+          'tutor.nombre',
+          'tutor.rut',
+          'tutor.parentesco'
+        ], { shouldFocus: true });
+        if (methods.getValues('tutor.parentesco') === 'Otro') {
+          isValid = isValid && await methods.trigger('tutor.otroParentesco', { shouldFocus: true });
         }
         break;
         
-      case 3: // Información Salud
-        const informacionSalud = methods.getValues('informacionSalud');
-        // Verificamos que al menos las primeras 10 preguntas estén respondidas (las más importantes)
-        isValid = Array.from({ length: 10 }).every((_, i) => 
-          informacionSalud[i] && informacionSalud[i].respuesta !== undefined
-        );
+      case 'salud': {
+        const informacionSalud: RespuestasSaludFormulario = methods.getValues('informacionSalud');
+        // Todas las preguntas configuradas por el estudio son obligatorias
+        isValid = preguntasSalud.every(pregunta => {
+          const respuesta = informacionSalud[pregunta.id]?.respuesta;
+          return respuesta === 'true' || respuesta === 'false';
+        });
         if (!isValid) {
-          setErrorSubmit('Por favor responde todas las preguntas de salud importantes.');
+          setErrorSubmit('Por favor responde todas las preguntas de salud.');
+          break;
+        }
+        
+        // Las respuestas bloqueantes impiden continuar con el formulario
+        const bloqueo = mensajeBloqueoSalud(informacionSalud);
+        if (bloqueo) {
+          setErrorSubmit(bloqueo);
+          isValid = false;
         }
         break;
+      }
         
-      case 4: // Selección Artista
+      case 'artista':
         isValid = await methods.trigger('artistaSeleccionado', { shouldFocus: true });
         break;
         
-      case 5: // Documentos Cédula o Consentimiento y Firma para mayores
-        if (clienteEdad >= 18) {
-          // Si es mayor y estamos en el paso de consentimiento y firma
-          if (!methods.getValues('confirmacionConsentimiento')) {
-            setErrorSubmit('Debes confirmar que has leído y aceptas los términos del consentimiento.');
-            return;
-          }
-          
-          if (!methods.getValues('firma')) {
-            setErrorSubmit('Debes firmar el consentimiento antes de enviar.');
-            return;
-          }
-          
-          // Si llegamos aquí, debemos enviar el formulario
-          isValid = true;
-          try {
-            await handleSubmit();
-          } catch (error) {
-            console.error('Error al enviar el formulario:', error);
-            // No avanzamos al siguiente paso si hay un error
-            return;
-          }
-          return; // Salimos para evitar el avance automático
-        } else {
-          // Si es menor y estamos en el paso de documentos, simplemente continuamos
-          isValid = true; // Este paso es opcional
+      case 'procedimiento':
+        isValid = await methods.trigger([
+          'procedimiento.zonaCuerpo',
+          'procedimiento.tamano',
+          'procedimiento.color',
+          'procedimiento.sesionesEstimadas'
+        ], { shouldFocus: true });
+        break;
+        
+      case 'documentos':
+        isValid = true; // Este paso es opcional
+        break;
+        
+      case 'resumen':
+        isValid = !cambiosSalud?.cambios.length || methods.getValues('confirmacionCambiosSalud');
+        if (!isValid) {
+          setErrorSubmit('Confirma los cambios en tu información de salud desde tu última visita.');
         }
         break;
         
-      case 6: // Consentimiento y Firma para menores
+      case 'firma':
         if (!methods.getValues('confirmacionConsentimiento')) {
           setErrorSubmit('Debes confirmar que has leído y aceptas los términos del consentimiento.');
           return;
@@ -153,7 +392,6 @@ const FormularioConsentimiento: React.FC = () => {
         }
         
         // Si llegamos aquí, debemos enviar el formulario
-        isValid = true;
         try {
           await handleSubmit();
         } catch (error) {
@@ -168,6 +406,9 @@ const FormularioConsentimiento: React.FC = () => {
     }
     
     if (isValid) {
+      if (pasos[currentStep] === 'resumen') {
+        await compararConVisitaAnterior();
+      }
       setCurrentStep(Math.min(currentStep + 1, totalSteps));
       window.scrollTo(0, 0);
     }
@@ -204,29 +445,64 @@ const FormularioConsentimiento: React.FC = () => {
       
       console.log("Enviando formulario...");
       
-      // Convertir respuestas booleanas
-      const informacionSaludProcesada: any = {};
-      Object.keys(formData.informacionSalud).forEach(preguntaId => {
-        informacionSaludProcesada[preguntaId] = {
-          respuesta: formData.informacionSalud[preguntaId].respuesta === 'true',
-          informacionAdicional: formData.informacionSalud[preguntaId].informacionAdicional
-        };
+      const respuestasFormulario: RespuestasSaludFormulario = formData.informacionSalud;
+      const bloqueo = mensajeBloqueoSalud(respuestasFormulario);
+      if (bloqueo) {
+        setErrorSubmit(bloqueo);
+        setIsSubmitting(false);
+        return;
+      }
+      
+      const informacionSaludProcesada = procesarInformacionSalud(respuestasFormulario);
+      
+      // Guardar el texto legal tal como lo vio el cliente, junto con la plantilla de la que sale
+      const esMenor = clienteEdad < 18;
+      const datosTexto = datosTextoDesdeConsentimiento({
+        cliente: formData.cliente,
+        tutor: esMenor ? formData.tutor : undefined,
+        artistaSeleccionado: formData.artistaSeleccionado
       });
+      const textoConsentimientoFirmado = renderTextoLegal(tipoProcedimiento?.textoConsentimiento ?? '', datosTexto, config);
+      const textoTutorFirmado = esMenor && formData.tutor
+        ? renderTextoLegal(tipoProcedimiento?.textoTutorLegal ?? '', datosTexto, config)
+        : undefined;
+      // Las sesiones de un proyecto conservan los detalles aprobados en el consentimiento original
+      const pideDetallesTatuaje = !proyecto && !!tipoProcedimiento?.pideDetallesTatuaje;
       
       // Crear objeto de consentimiento
       const consentimiento = await addConsentimiento({
         cliente: formData.cliente,
-        tutor: clienteEdad < 18 ? formData.tutor : undefined,
+        tutor: esMenor ? formData.tutor : undefined,
         informacionSalud: informacionSaludProcesada,
         artistaSeleccionado: formData.artistaSeleccionado,
+        tipoProcedimientoId: tipoProcedimiento?.id,
+        // Sin instrucciones para ese cuidado en el procedimiento no hay nada que enviar
+        tipoCuidado: textoCuidados(tipoProcedimiento, formData.tipoCuidado) ? formData.tipoCuidado : undefined,
+        detallesProcedimiento: pideDetallesTatuaje ? {
+          zonaCuerpo: formData.procedimiento.zonaCuerpo,
+          tamano: formData.procedimiento.tamano as TamanoTatuaje,
+          color: formData.procedimiento.color as ColorTatuaje,
+          sesionesEstimadas: formData.procedimiento.sesionesEstimadas,
+          descripcion: formData.procedimiento.descripcion.trim() || undefined
+        } : proyecto?.detallesProcedimiento,
+        imagenDiseno: pideDetallesTatuaje ? formData.imagenDiseno : undefined,
         cedulaCliente: formData.cedulaCliente,
-        firma: formData.firma
+        firma: formData.firma,
+        plantillaId: tipoProcedimiento?.plantillaId,
+        textoConsentimientoFirmado,
+        textoTutorFirmado,
+        citaId: cita?.id,
+        proyectoId: proyecto?.id,
+        tipoSesion: proyecto ? tipoSesion : undefined
       });
       
       console.log("Consentimiento guardado:", consentimiento);
       
-      // Generar PDF
-      const pdf = generatePDF(consentimiento, config);
+      // Copia para el cliente: mismo documento que se archivó al guardar (con el código y la huella del servidor)
+      const imagenDiseno = pideDetallesTatuaje && formData.imagenDiseno
+        ? await imagenParaPdf(formData.imagenDiseno).catch(() => undefined)
+        : undefined;
+      const pdf = generatePDF(consentimiento, config, imagenDiseno);
       const pdfData = pdf.output('datauristring');
       
       // Redirigir a la página de éxito con los datos necesarios
@@ -235,7 +511,8 @@ const FormularioConsentimiento: React.FC = () => {
           consentimientoId: consentimiento.id,
           consentimientoCodigo: consentimiento.codigo,
           clienteNombre: consentimiento.cliente.nombre,
-          pdfData: pdfData
+          pdfData: pdfData,
+          pendienteSincronizacion: consentimiento.pendienteSincronizacion
         }
       });
       
@@ -248,33 +525,35 @@ const FormularioConsentimiento: React.FC = () => {
 
   // Renderizar paso actual
   const renderStep = () => {
-    switch (currentStep) {
-      case 1:
+    switch (pasoActual) {
+      case 'tipo':
+        return <SeleccionProcedimiento />;
+      case 'identidad':
+        return <IdentidadSesion tipoSesion={tipoSesion} />;
+      case 'datos':
         return <DatosPersonales />;
-      case 2:
-        // Si es mayor de edad, mostrar información de salud en vez de datos del tutor
-        return clienteEdad >= 18 ? <InformacionSalud /> : <DatosTutor />;
-      case 3:
-        // Si es mayor de edad, mostrar selección de artista, de lo contrario información de salud
-        return clienteEdad >= 18 ? <SeleccionArtista /> : <InformacionSalud />;
-      case 4:
-        // Si es mayor de edad, mostrar documentos cédula, de lo contrario selección de artista
-        return clienteEdad >= 18 ? <DocumentosCedula /> : <SeleccionArtista />;
-      case 5:
-        // Si es mayor de edad, mostrar consentimiento y firma, de lo contrario documentos cédula
-        return clienteEdad >= 18 
-          ? <ConsentimientoFirma onCompleteStepChange={setIsPasoFirmaCompleto} onSubmit={handleSubmit} /> 
-          : <DocumentosCedula />;
-      case 6:
-        // Este paso solo existe para menores de edad (consentimiento y firma)
+      case 'tutor':
+        return <DatosTutor />;
+      case 'salud':
+        return <InformacionSalud />;
+      case 'artista':
+        return <SeleccionArtista />;
+      case 'procedimiento':
+        return <DetallesTatuaje />;
+      case 'documentos':
+        return <DocumentosCedula />;
+      case 'resumen':
+        return <Resumen cambiosSalud={cambiosSalud} />;
+      case 'firma':
         return <ConsentimientoFirma onCompleteStepChange={setIsPasoFirmaCompleto} onSubmit={handleSubmit} />;
       default:
         return <div>Paso no encontrado</div>;
     }
   };
 
-  // Mostrar error de conexión si lo hay
-  if (connectionError || consentimientosConnectionError) {
+  // Sin conexión el formulario funciona con la configuración en caché (el consentimiento queda en cola);
+  // solo se bloquea si nunca se pudo cargar la configuración
+  if (connectionError && config.artistas.length === 0) {
     return (
       <div className="min-h-screen bg-gray-100 p-4">
         <div className="max-w-3xl mx-auto bg-white rounded-lg shadow-md p-6 mt-10">
@@ -303,11 +582,33 @@ const FormularioConsentimiento: React.FC = () => {
             <Palette className="text-teal-500" size={28} />
             <h1 className="text-xl font-bold text-gray-800">{config.nombreEstudio}</h1>
           </Link>
+          <SalidaKiosco />
         </div>
       </header>
 
       <div className="container mx-auto px-4 py-8">
         <div className="max-w-3xl mx-auto">
+          {cita && (
+            <div className="mb-6 p-4 bg-teal-50 border border-teal-200 rounded-lg flex items-start text-teal-800">
+              <CalendarClock size={20} className="mr-3 mt-0.5 flex-shrink-0" />
+              <p>
+                Pre-registro para tu cita del {format(parseISO(cita.fechaInicio), "dd 'de' MMMM 'a las' HH:mm", { locale: es })} con {cita.nombreArtista}.
+              </p>
+            </div>
+          )}
+          
+          {proyecto && (
+            <div className="mb-6 p-4 bg-teal-50 border border-teal-200 rounded-lg flex items-start text-teal-800">
+              <Layers size={20} className="mr-3 mt-0.5 flex-shrink-0" />
+              <p>
+                {tipoSesion === 'touch_up' ? 'Retoque' : 'Nueva sesión'} de tu proyecto «{proyecto.nombre}».
+                {tipoSesion === 'touch_up' && proyecto.limiteRetoqueGratis && isAfter(parseISO(proyecto.limiteRetoqueGratis), new Date()) && (
+                  <> Tu retoque es gratuito hasta el {format(parseISO(proyecto.limiteRetoqueGratis), "dd 'de' MMMM", { locale: es })}.</>
+                )}
+              </p>
+            </div>
+          )}
+          
           {/* Progreso */}
           <div className="mb-8">
             <div className="flex justify-between items-center mb-2">
@@ -328,7 +629,7 @@ const FormularioConsentimiento: React.FC = () => {
 
           {/* Formulario */}
           <FormProvider {...methods}>
-            <form>
+            <form key={reinicios}>
               <div className="bg-white shadow-md rounded-lg p-6 md:p-8">
                 {renderStep()}
                 
@@ -351,6 +652,8 @@ const FormularioConsentimiento: React.FC = () => {
                     <ArrowLeft size={16} className="mr-2" />
                     Anterior
                   </button>
+                ) : modoKiosco ? (
+                  <span />
                 ) : (
                   <Link 
                     to="/"
@@ -368,13 +671,13 @@ const FormularioConsentimiento: React.FC = () => {
                   className={`flex items-center px-4 py-2 ${
                     isSubmitting
                       ? 'bg-gray-400 cursor-not-allowed'
-                      : ((clienteEdad >= 18 && currentStep === 5) || (clienteEdad < 18 && currentStep === 6)) && !isPasoFirmaCompleto
+                      : esPasoFirma && !isPasoFirmaCompleto
                         ? 'bg-gray-400 cursor-not-allowed'
                         : 'bg-teal-500 hover:bg-teal-600'
                   } text-white rounded-md transition-colors`}
                   disabled={
                     isSubmitting || 
-                    (((clienteEdad >= 18 && currentStep === 5) || (clienteEdad < 18 && currentStep === 6)) && !isPasoFirmaCompleto)
+                    (esPasoFirma && !isPasoFirmaCompleto)
                   }
                 >
                   {isSubmitting ? (
@@ -382,11 +685,11 @@ const FormularioConsentimiento: React.FC = () => {
                       <span className="inline-block animate-spin mr-2">⌛</span>
                       Enviando...
                     </>
-                  ) : ((clienteEdad >= 18 && currentStep === 5) || (clienteEdad < 18 && currentStep === 6))
+                  ) : esPasoFirma
                     ? 'Enviar Formulario'
                     : 'Siguiente'
                   }
-                  {!isSubmitting && !((clienteEdad >= 18 && currentStep === 5) || (clienteEdad < 18 && currentStep === 6)) && 
+                  {!isSubmitting && !esPasoFirma && 
                     <ArrowRight size={16} className="ml-2" />
                   }
                 </button>
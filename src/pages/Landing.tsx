@@ -1,51 +1,18 @@
 import React, { useState } from 'react';
 import { Link } from 'react-router-dom';
 import { useConfig } from '../contexts/ConfigContext';
-import { useConsentimientos } from '../contexts/ConsentimientosContext';
 import { Palette, Shield, FileCheck, CheckCircle, Search, Hash, X, Instagram, Mail, Phone, ChevronFirst as FirstAid } from 'lucide-react';
 import ContactPopup from '../components/ContactPopup';
 import CareInstructionsModal from '../components/CareInstructionsModal';
-import { format, parseISO } from 'date-fns';
-import { es } from 'date-fns/locale';
-import { formatRut } from '../utils/formatters';
+import ResultadoVerificacion from '../components/ResultadoVerificacion';
+import { useVerificacion } from '../hooks/useVerificacion';
 
 const Landing: React.FC = () => {
   const { config } = useConfig();
-  const { getConsentimientoPorCodigo } = useConsentimientos();
   const [showContactModal, setShowContactModal] = useState(false);
   const [showValidationModal, setShowValidationModal] = useState(false);
   const [showCareModal, setShowCareModal] = useState(false);
-  const [codigo, setCodigo] = useState('');
-  const [resultado, setResultado] = useState<{
-    encontrado: boolean;
-    consentimiento?: any;
-    mensaje?: string;
-  } | null>(null);
-
-  const validarDocumento = () => {
-    if (!codigo.trim()) {
-      setResultado({
-        encontrado: false,
-        mensaje: 'Por favor, ingresa un código de verificación'
-      });
-      return;
-    }
-
-    const consentimiento = getConsentimientoPorCodigo(codigo.trim().toUpperCase());
-    
-    if (consentimiento) {
-      setResultado({
-        encontrado: true,
-        consentimiento,
-        mensaje: 'Documento verificado exitosamente'
-      });
-    } else {
-      setResultado({
-        encontrado: false,
-        mensaje: 'No se encontró ningún documento con ese código'
-      });
-    }
-  };
+  const { codigo, setCodigo, resultado, verificando, validarDocumento, reiniciar } = useVerificacion();
 
   return (
     <div className="min-h-screen flex flex-col bg-gray-50">
@@ -239,8 +206,7 @@ const Landing: React.FC = () => {
             <button
               onClick={() => {
                 setShowValidationModal(false);
-                setResultado(null);
-                setCodigo('');
+                reiniciar();
               }}
               className="absolute top-3 right-3 text-gray-500 hover:text-gray-700"
             >
@@ -270,40 +236,15 @@ const Landing: React.FC = () => {
               </div>
 
               <button
-                onClick={validarDocumento}
-                className="w-full flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-teal-600 hover:bg-teal-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-teal-500"
+                onClick={() => validarDocumento()}
+                disabled={verificando}
+                className="w-full flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-teal-600 hover:bg-teal-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-teal-500 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 <Search size={18} className="mr-2" />
-                Validar
+                {verificando ? 'Validando...' : 'Validar'}
               </button>
 
-              {resultado && (
-                <div className={`mt-4 p-4 rounded-md ${
-                  resultado.encontrado ? 'bg-green-50' : 'bg-red-50'
-                }`}>
-                  {resultado.encontrado ? (
-                    <div className="space-y-3">
-                      <div className="flex items-center text-green-800">
-                        <CheckCircle className="h-5 w-5 mr-2" />
-                        <p className="font-medium">{resultado.mensaje}</p>
-                      </div>
-                      <div className="text-sm text-gray-600 space-y-2">
-                        <p><strong>Cliente:</strong> {resultado.consentimiento.cliente.nombre} {resultado.consentimiento.cliente.apellidos}</p>
-                        <p><strong>RUT/Pasaporte:</strong> {formatRut(resultado.consentimiento.cliente.rut)}</p>
-                        <p><strong>Fecha:</strong> {format(parseISO(resultado.consentimiento.fechaCreacion), "dd 'de' MMMM 'de' yyyy", { locale: es })}</p>
-                        <p><strong>Hora:</strong> {format(parseISO(resultado.consentimiento.fechaCreacion), 'HH:mm', { locale: es })}</p>
-                        <p><strong>Artista:</strong> {resultado.consentimiento.artistaSeleccionado}</p>
-                        <p className="italic mt-2 text-green-700">Este consentimiento es válido y está registrado en nuestro sistema.</p>
-                      </div>
-                    </div>
-                  ) : (
-                    <div className="flex items-center text-red-800">
-                      <X className="h-5 w-5 mr-2" />
-                      <p>{resultado.mensaje}</p>
-                    </div>
-                  )}
-                </div>
-              )}
+              {resultado && <ResultadoVerificacion resultado={resultado} />}
             </div>
           </div>
         </div>
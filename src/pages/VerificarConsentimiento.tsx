@@ -0,0 +1,102 @@
+import React, { useEffect, useRef } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useConfig } from '../contexts/ConfigContext';
+import { Hash, Home, Palette, Search } from 'lucide-react';
+import ResultadoVerificacion from '../components/ResultadoVerificacion';
+import { useVerificacion } from '../hooks/useVerificacion';
+
+/**
+ * Verificación pública de un consentimiento desde el enlace del código QR (/verificar/:codigo)
+ */
+const VerificarConsentimiento: React.FC = () => {
+  const { codigo: codigoEnlace = '' } = useParams<{ codigo: string }>();
+  const { config } = useConfig();
+  const { codigo, setCodigo, resultado, verificando, validarDocumento } = useVerificacion(codigoEnlace);
+
+  // El código viene en el enlace: se valida al abrir la página, una sola vez por código. Cada consulta
+  // cuenta en el límite por origen del servidor, y el efecto se repite al cambiar el código escrito
+  const codigoValidadoRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (codigoValidadoRef.current === codigoEnlace) return;
+    codigoValidadoRef.current = codigoEnlace;
+    setCodigo(codigoEnlace);
+    validarDocumento(codigoEnlace);
+  }, [codigoEnlace, setCodigo, validarDocumento]);
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex flex-col">
+      <header className="bg-white shadow-sm">
+        <div className="container mx-auto px-4 py-4">
+          <Link to="/" className="flex items-center gap-2">
+            <Palette className="text-teal-500" size={28} />
+            <h1 className="text-xl font-bold text-gray-800">{config.nombreEstudio}</h1>
+          </Link>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-12 flex-grow flex items-center justify-center">
+        <div className="bg-white rounded-lg shadow-lg p-6 max-w-md w-full">
+          <h2 className="text-2xl font-bold mb-4 text-center">Validar Documento</h2>
+
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              validarDocumento();
+            }}
+            className="space-y-4"
+          >
+            <div>
+              <label htmlFor="codigo" className="block text-sm font-medium text-gray-700 mb-1">
+                Código de Verificación
+              </label>
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <Hash className="h-5 w-5 text-gray-400" />
+                </div>
+                <input
+                  type="text"
+                  id="codigo"
+                  value={codigo}
+                  onChange={(e) => setCodigo(e.target.value)}
+                  className="pl-10 block w-full rounded-md border-gray-300 shadow-sm focus:border-teal-500 focus:ring-teal-500"
+                  placeholder="Ingresa el código (ej: TCF-XXXXX-XXXXX)"
+                />
+              </div>
+            </div>
+
+            <button
+              type="submit"
+              disabled={verificando}
+              className="w-full flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-teal-600 hover:bg-teal-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-teal-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Search size={18} className="mr-2" />
+              {verificando ? 'Validando...' : 'Validar'}
+            </button>
+          </form>
+
+          {resultado && <ResultadoVerificacion resultado={resultado} />}
+
+          <div className="mt-6 text-center">
+            <Link
+              to="/"
+              className="inline-flex items-center text-sm text-teal-600 hover:text-teal-700"
+            >
+              <Home size={16} className="mr-1" />
+              Volver al inicio
+            </Link>
+          </div>
+        </div>
+      </div>
+
+      <footer className="bg-gray-800 text-white py-4 mt-auto">
+        <div className="container mx-auto px-4 text-center">
+          <p className="text-sm">
+            {config.textosFooter || '© 2025 Sistema de Consentimientos'}
+          </p>
+        </div>
+      </footer>
+    </div>
+  );
+};
+
+export default VerificarConsentimiento;
@@ -0,0 +1,488 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { format, parseISO, startOfWeek, addDays, addWeeks, addMinutes, isSameDay } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Plus, Save, X, ChevronLeft, ChevronRight, Copy, Check, Edit, XCircle, User, RefreshCw } from 'lucide-react';
+import { useConfig } from '../../contexts/ConfigContext';
+import { Cita } from '../../types';
+import { obtenerCitas, crearCita, actualizarCita, cancelarCita, enlacePreregistro, NuevaCita } from '../../lib/citas';
+import { registrarEventoAuditoria } from '../../lib/auditoria';
+
+interface FormularioCita {
+  artistaId: string;
+  fecha: string;
+  hora: string;
+  duracionMinutos: number;
+  nombreCliente: string;
+  emailCliente: string;
+  telefonoCliente: string;
+  notas: string;
+}
+
+const formularioVacio = (artistaId = ''): FormularioCita => ({
+  artistaId,
+  fecha: format(new Date(), 'yyyy-MM-dd'),
+  hora: '11:00',
+  duracionMinutos: 120,
+  nombreCliente: '',
+  emailCliente: '',
+  telefonoCliente: '',
+  notas: ''
+});
+
+const Agenda: React.FC = () => {
+  const { config } = useConfig();
+  const artistasActivos = config.artistas.filter(artista => artista.activo);
+
+  const [inicioSemana, setInicioSemana] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
+  const [filtroArtista, setFiltroArtista] = useState('');
+  const [citas, setCitas] = useState<Cita[]>([]);
+  const [cargando, setCargando] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Formulario de alta o edición (editandoId null = cita nueva)
+  const [formulario, setFormulario] = useState<FormularioCita | null>(null);
+  const [editandoId, setEditandoId] = useState<string | null>(null);
+  const [guardando, setGuardando] = useState(false);
+  const [copiadoId, setCopiadoId] = useState<string | null>(null);
+
+  const diasSemana = Array.from({ length: 7 }, (_, i) => addDays(inicioSemana, i));
+
+  const cargarCitas = useCallback(async () => {
+    setCargando(true);
+    setError(null);
+
+    try {
+      setCitas(await obtenerCitas({
+        desde: inicioSemana.toISOString(),
+        hasta: addWeeks(inicioSemana, 1).toISOString(),
+        artistaId: filtroArtista || undefined
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al cargar la agenda');
+    } finally {
+      setCargando(false);
+    }
+  }, [inicioSemana, filtroArtista]);
+
+  useEffect(() => {
+    cargarCitas();
+  }, [cargarCitas]);
+
+  const handleNuevaCita = () => {
+    setEditandoId(null);
+    setFormulario(formularioVacio(filtroArtista || artistasActivos[0]?.id || ''));
+  };
+
+  const handleEditar = (cita: Cita) => {
+    setEditandoId(cita.id);
+    setFormulario({
+      artistaId: cita.artistaId,
+      fecha: format(parseISO(cita.fechaInicio), 'yyyy-MM-dd'),
+      hora: format(parseISO(cita.fechaInicio), 'HH:mm'),
+      duracionMinutos: cita.duracionMinutos,
+      nombreCliente: cita.nombreCliente,
+      emailCliente: cita.emailCliente || '',
+      telefonoCliente: cita.telefonoCliente || '',
+      notas: cita.notas || ''
+    });
+  };
+
+  const handleCancelarFormulario = () => {
+    setFormulario(null);
+    setEditandoId(null);
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value, type } = e.target;
+    setFormulario(prev => prev && ({
+      ...prev,
+      [name]: type === 'number' ? Number(value) : value
+    }));
+  };
+
+  const handleGuardar = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formulario) return;
+
+    if (!formulario.artistaId || !formulario.nombreCliente.trim()) {
+      setError('El artista y el nombre del cliente son obligatorios');
+      return;
+    }
+
+    const datos: NuevaCita = {
+      artistaId: formulario.artistaId,
+      // La fecha y la hora se ingresan en la hora local del estudio
+      fechaInicio: new Date(`${formulario.fecha}T${formulario.hora}`).toISOString(),
+      duracionMinutos: formulario.duracionMinutos,
+      nombreCliente: formulario.nombreCliente,
+      emailCliente: formulario.emailCliente,
+      telefonoCliente: formulario.telefonoCliente,
+      notas: formulario.notas
+    };
+
+    setGuardando(true);
+    setError(null);
+
+    try {
+      let citaId = editandoId;
+      if (citaId) {
+        await actualizarCita(citaId, datos);
+      } else {
+        citaId = await crearCita(datos);
+      }
+
+      registrarEventoAuditoria({
+        accion: editandoId ? 'cita.actualizar' : 'cita.crear',
+        entidad: 'cita',
+        entidadId: citaId,
+        diff: { artistaId: datos.artistaId, fechaInicio: datos.fechaInicio }
+      });
+
+      setFormulario(null);
+      setEditandoId(null);
+      await cargarCitas();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al guardar la cita');
+    } finally {
+      setGuardando(false);
+    }
+  };
+
+  const handleCancelarCita = async (cita: Cita) => {
+    if (!window.confirm(`¿Cancelar la cita de ${cita.nombreCliente}? El enlace de pre-registro dejará de funcionar.`)) {
+      return;
+    }
+
+    setError(null);
+
+    try {
+      await cancelarCita(cita.id);
+      registrarEventoAuditoria({ accion: 'cita.cancelar', entidad: 'cita', entidadId: cita.id });
+      await cargarCitas();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al cancelar la cita');
+    }
+  };
+
+  const handleCopiarEnlace = async (cita: Cita) => {
+    try {
+      await navigator.clipboard.writeText(enlacePreregistro(cita.id));
+      setCopiadoId(cita.id);
+      setTimeout(() => setCopiadoId(null), 2000);
+    } catch (err) {
+      console.error('Error al copiar el enlace:', err);
+      window.prompt('Copia el enlace de pre-registro:', enlacePreregistro(cita.id));
+    }
+  };
+
+  const citasActivas = citas.filter(cita => cita.estado === 'booked');
+  const pendientesFirma = citasActivas.filter(cita => !cita.consentimientoId).length;
+
+  return (
+    <div>
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-6">
+        <h1 className="text-2xl font-bold text-gray-800 mb-4 md:mb-0">Agenda</h1>
+        <div className="flex space-x-3">
+          <button
+            onClick={cargarCitas}
+            disabled={cargando}
+            className="inline-flex items-center px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-70"
+          >
+            <RefreshCw size={16} className={`mr-2 ${cargando ? 'animate-spin' : ''}`} />
+            Actualizar
+          </button>
+          <button
+            onClick={handleNuevaCita}
+            className="inline-flex items-center px-4 py-2 bg-teal-600 text-white rounded-md hover:bg-teal-700"
+          >
+            <Plus size={16} className="mr-2" />
+            Nueva Cita
+          </button>
+        </div>
+      </div>
+
+      {formulario && (
+        <div className="bg-teal-50 p-4 rounded-md border border-teal-200 mb-6">
+          <h3 className="text-md font-medium text-teal-800 mb-3">
+            {editandoId ? 'Modificar Cita' : 'Agendar Nueva Cita'}
+          </h3>
+
+          <form onSubmit={handleGuardar}>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <label htmlFor="artistaId" className="block text-sm font-medium text-gray-700 mb-1">Artista</label>
+                <select
+                  id="artistaId"
+                  name="artistaId"
+                  value={formulario.artistaId}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500"
+                >
+                  <option value="">Selecciona un artista</option>
+                  {artistasActivos.map(artista => (
+                    <option key={artista.id} value={artista.id}>{artista.nombre}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="fecha" className="block text-sm font-medium text-gray-700 mb-1">Fecha</label>
+                <input
+                  type="date"
+                  id="fecha"
+                  name="fecha"
+                  value={formulario.fecha}
+                  onChange={handleInputChange}
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="hora" className="block text-sm font-medium text-gray-700 mb-1">Hora</label>
+                <input
+                  type="time"
+                  id="hora"
+                  name="hora"
+                  value={formulario.hora}
+                  onChange={handleInputChange}
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="duracionMinutos" className="block text-sm font-medium text-gray-700 mb-1">Duración (minutos)</label>
+                <input
+                  type="number"
+                  id="duracionMinutos"
+                  name="duracionMinutos"
+                  min={15}
+                  step={15}
+                  value={formulario.duracionMinutos}
+                  onChange={handleInputChange}
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500"
+                />
+              </div>
+              <div className="md:col-span-2">
+                <label htmlFor="nombreCliente" className="block text-sm font-medium text-gray-700 mb-1">Cliente</label>
+                <input
+                  type="text"
+                  id="nombreCliente"
+                  name="nombreCliente"
+                  value={formulario.nombreCliente}
+                  onChange={handleInputChange}
+                  placeholder="Nombre completo"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="emailCliente" className="block text-sm font-medium text-gray-700 mb-1">Correo electrónico</label>
+                <input
+                  type="email"
+                  id="emailCliente"
+                  name="emailCliente"
+                  value={formulario.emailCliente}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="telefonoCliente" className="block text-sm font-medium text-gray-700 mb-1">Teléfono</label>
+                <input
+                  type="tel"
+                  id="telefonoCliente"
+                  name="telefonoCliente"
+                  value={formulario.telefonoCliente}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500"
+                />
+              </div>
+              <div className="md:col-span-4">
+                <label htmlFor="notas" className="block text-sm font-medium text-gray-700 mb-1">Notas</label>
+                <textarea
+                  id="notas"
+                  name="notas"
+                  rows={2}
+                  value={formulario.notas}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500"
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-3 mt-4">
+              <button
+                type="button"
+                onClick={handleCancelarFormulario}
+                disabled={guardando}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              >
+                <X size={16} className="mr-1" />
+                Cancelar
+              </button>
+              <button
+                type="submit"
+                disabled={guardando}
+                className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-white bg-teal-600 hover:bg-teal-700 disabled:opacity-70"
+              >
+                <Save size={16} className="mr-1" />
+                {guardando ? 'Guardando...' : 'Guardar Cita'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Semana y artista */}
+      <div className="bg-gray-50 p-4 rounded-lg mb-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setInicioSemana(prev => addWeeks(prev, -1))}
+            className="p-2 rounded-md hover:bg-gray-200 text-gray-700"
+            aria-label="Semana anterior"
+          >
+            <ChevronLeft size={18} />
+          </button>
+          <button
+            onClick={() => setInicioSemana(startOfWeek(new Date(), { weekStartsOn: 1 }))}
+            className="px-3 py-1 text-sm rounded-md border border-gray-300 bg-white hover:bg-gray-100 text-gray-700"
+          >
+            Hoy
+          </button>
+          <button
+            onClick={() => setInicioSemana(prev => addWeeks(prev, 1))}
+            className="p-2 rounded-md hover:bg-gray-200 text-gray-700"
+            aria-label="Semana siguiente"
+          >
+            <ChevronRight size={18} />
+          </button>
+          <span className="ml-2 font-medium text-gray-800">
+            {format(inicioSemana, "d 'de' MMMM", { locale: es })} - {format(addDays(inicioSemana, 6), "d 'de' MMMM yyyy", { locale: es })}
+          </span>
+        </div>
+
+        <div className="flex items-center">
+          <User size={16} className="mr-2 text-gray-500" />
+          <select
+            value={filtroArtista}
+            onChange={(e) => setFiltroArtista(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500"
+          >
+            <option value="">Todos los artistas</option>
+            {config.artistas.map(artista => (
+              <option key={artista.id} value={artista.id}>{artista.nombre}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-100 text-red-700 p-3 rounded-lg mb-4">
+          {error}
+        </div>
+      )}
+
+      {cargando ? (
+        <div className="p-10 text-center text-gray-500">Cargando agenda...</div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-7 gap-3">
+          {diasSemana.map(dia => {
+            const citasDia = citas.filter(cita => isSameDay(parseISO(cita.fechaInicio), dia));
+
+            return (
+              <div key={dia.toISOString()} className="bg-white rounded-lg shadow-sm min-h-[8rem]">
+                <div className={`px-3 py-2 border-b text-sm font-medium capitalize ${
+                  isSameDay(dia, new Date()) ? 'text-teal-700 bg-teal-50' : 'text-gray-700'
+                }`}>
+                  {format(dia, 'EEE d', { locale: es })}
+                </div>
+                <div className="p-2 space-y-2">
+                  {citasDia.length === 0 && (
+                    <p className="text-xs text-gray-400 text-center py-4">Sin citas</p>
+                  )}
+                  {citasDia.map(cita => {
+                    const inicio = parseISO(cita.fechaInicio);
+                    const cancelada = cita.estado === 'cancelled';
+
+                    return (
+                      <div
+                        key={cita.id}
+                        className={`p-2 rounded-md border text-sm ${
+                          cancelada
+                            ? 'border-gray-200 bg-gray-50 text-gray-400 line-through'
+                            : cita.consentimientoId
+                              ? 'border-green-200 bg-green-50'
+                              : 'border-yellow-200 bg-yellow-50'
+                        }`}
+                      >
+                        <div className="text-xs text-gray-500">
+                          {format(inicio, 'HH:mm')} - {format(addMinutes(inicio, cita.duracionMinutos), 'HH:mm')}
+                        </div>
+                        <div className="font-medium text-gray-900">{cita.nombreCliente}</div>
+                        {!filtroArtista && cita.nombreArtista && (
+                          <div className="text-xs text-gray-600">{cita.nombreArtista}</div>
+                        )}
+
+                        {!cancelada && (
+                          <div className="mt-1">
+                            {cita.consentimientoId ? (
+                              <Link
+                                to={`/admin/consentimientos/${cita.consentimientoId}`}
+                                className="text-xs text-green-700 hover:text-green-900"
+                              >
+                                Firmado · {cita.codigoConsentimiento}
+                              </Link>
+                            ) : (
+                              <span className="text-xs text-yellow-800">Pendiente de firma</span>
+                            )}
+                          </div>
+                        )}
+
+                        {!cancelada && (
+                          <div className="flex justify-end space-x-2 mt-2">
+                            {!cita.consentimientoId && (
+                              <button
+                                onClick={() => handleCopiarEnlace(cita)}
+                                className="text-teal-600 hover:text-teal-900"
+                                title="Copiar enlace de pre-registro"
+                              >
+                                {copiadoId === cita.id ? <Check size={16} /> : <Copy size={16} />}
+                              </button>
+                            )}
+                            <button
+                              onClick={() => handleEditar(cita)}
+                              className="text-gray-600 hover:text-gray-900"
+                              title="Modificar cita"
+                            >
+                              <Edit size={16} />
+                            </button>
+                            {!cita.consentimientoId && (
+                              <button
+                                onClick={() => handleCancelarCita(cita)}
+                                className="text-red-600 hover:text-red-900"
+                                title="Cancelar cita"
+                              >
+                                <XCircle size={16} />
+                              </button>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <p className="mt-4 text-sm text-gray-500">
+        {citasActivas.length} citas esta semana, {pendientesFirma} pendientes de firma.
+        Envía el enlace de pre-registro al cliente para que complete el consentimiento antes de su cita.
+      </p>
+    </div>
+  );
+};
+
+export default Agenda;
@@ -0,0 +1,261 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { format, parseISO, startOfDay, endOfDay } from 'date-fns';
+import { Filter, Calendar, User, Activity, RefreshCw } from 'lucide-react';
+import {
+  obtenerEventosAuditoria,
+  obtenerPersonal,
+  NOMBRES_ACCIONES,
+  AccionAuditoria,
+  EventoAuditoria,
+  FiltrosAuditoria
+} from '../../lib/auditoria';
+
+const Auditoria: React.FC = () => {
+  const [eventos, setEventos] = useState<EventoAuditoria[]>([]);
+  const [personal, setPersonal] = useState<{ id: string; nombre: string; email: string }[]>([]);
+  const [cargando, setCargando] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Filtros
+  const [filtroUsuario, setFiltroUsuario] = useState('');
+  const [filtroAccion, setFiltroAccion] = useState<AccionAuditoria | ''>('');
+  const [filtroFechaDesde, setFiltroFechaDesde] = useState('');
+  const [filtroFechaHasta, setFiltroFechaHasta] = useState('');
+
+  const cargarEventos = useCallback(async () => {
+    setCargando(true);
+    setError(null);
+
+    const filtros: FiltrosAuditoria = {
+      actorId: filtroUsuario || undefined,
+      accion: filtroAccion,
+      desde: filtroFechaDesde ? startOfDay(parseISO(filtroFechaDesde)).toISOString() : undefined,
+      hasta: filtroFechaHasta ? endOfDay(parseISO(filtroFechaHasta)).toISOString() : undefined
+    };
+
+    try {
+      setEventos(await obtenerEventosAuditoria(filtros));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al cargar el registro de auditoría');
+    } finally {
+      setCargando(false);
+    }
+  }, [filtroUsuario, filtroAccion, filtroFechaDesde, filtroFechaHasta]);
+
+  useEffect(() => {
+    cargarEventos();
+  }, [cargarEventos]);
+
+  useEffect(() => {
+    obtenerPersonal()
+      .then(setPersonal)
+      .catch(err => console.error('Error al cargar el personal para filtros:', err));
+  }, []);
+
+  const limpiarFiltros = () => {
+    setFiltroUsuario('');
+    setFiltroAccion('');
+    setFiltroFechaDesde('');
+    setFiltroFechaHasta('');
+  };
+
+  const nombreActor = (evento: EventoAuditoria) => {
+    const miembro = personal.find(p => p.id === evento.actorId);
+    return miembro ? miembro.nombre : evento.actorEmail || 'Usuario eliminado';
+  };
+
+  return (
+    <div>
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-6">
+        <h1 className="text-2xl font-bold text-gray-800 mb-4 md:mb-0">Registro de Auditoría</h1>
+        <button
+          onClick={cargarEventos}
+          disabled={cargando}
+          className="inline-flex items-center px-4 py-2 bg-teal-600 text-white rounded-md hover:bg-teal-700 disabled:opacity-70"
+        >
+          <RefreshCw size={16} className={`mr-2 ${cargando ? 'animate-spin' : ''}`} />
+          Actualizar
+        </button>
+      </div>
+
+      {/* Filtros */}
+      <div className="bg-gray-50 p-4 rounded-lg mb-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-medium text-gray-700 flex items-center">
+            <Filter size={18} className="mr-2" />
+            Filtros
+          </h3>
+          <button
+            onClick={limpiarFiltros}
+            className="text-sm text-teal-600 hover:text-teal-800"
+          >
+            Limpiar filtros
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              <div className="flex items-center">
+                <User size={16} className="mr-1" />
+                Usuario
+              </div>
+            </label>
+            <select
+              value={filtroUsuario}
+              onChange={(e) => setFiltroUsuario(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500"
+            >
+              <option value="">Todos los usuarios</option>
+              {personal.map(miembro => (
+                <option key={miembro.id} value={miembro.id}>{miembro.nombre}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              <div className="flex items-center">
+                <Activity size={16} className="mr-1" />
+                Acción
+              </div>
+            </label>
+            <select
+              value={filtroAccion}
+              onChange={(e) => setFiltroAccion(e.target.value as AccionAuditoria | '')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500"
+            >
+              <option value="">Todas las acciones</option>
+              {(Object.keys(NOMBRES_ACCIONES) as AccionAuditoria[]).map(accion => (
+                <option key={accion} value={accion}>{NOMBRES_ACCIONES[accion]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              <div className="flex items-center">
+                <Calendar size={16} className="mr-1" />
+                Fecha desde
+              </div>
+            </label>
+            <input
+              type="date"
+              value={filtroFechaDesde}
+              onChange={(e) => setFiltroFechaDesde(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              <div className="flex items-center">
+                <Calendar size={16} className="mr-1" />
+                Fecha hasta
+              </div>
+            </label>
+            <input
+              type="date"
+              value={filtroFechaHasta}
+              onChange={(e) => setFiltroFechaHasta(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500"
+            />
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-100 text-red-700 p-3 rounded-lg mb-4">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        {cargando ? (
+          <div className="p-10 text-center text-gray-500">Cargando registro...</div>
+        ) : eventos.length === 0 ? (
+          <div className="p-10 text-center text-gray-500">No hay eventos que coincidan con los filtros</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Fecha
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Usuario
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Acción
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Registro
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Detalles
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {eventos.map(evento => (
+                  <tr key={evento.id} className="align-top">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {format(parseISO(evento.fecha), 'dd/MM/yyyy HH:mm:ss')}
+                      {evento.fechaCliente &&
+                        Math.abs(parseISO(evento.fechaCliente).getTime() - parseISO(evento.fecha).getTime()) > 60000 && (
+                        <div className="text-xs text-gray-500">
+                          Ocurrió: {format(parseISO(evento.fechaCliente), 'dd/MM/yyyy HH:mm')}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{nombreActor(evento)}</div>
+                      <div className="text-xs text-gray-500">{evento.actorEmail}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {NOMBRES_ACCIONES[evento.accion] || evento.accion}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      {evento.entidad === 'consentimiento' && evento.entidadId ? (
+                        <Link
+                          to={`/admin/consentimientos/${evento.entidadId}`}
+                          className="text-teal-600 hover:text-teal-900"
+                        >
+                          Ver consentimiento
+                        </Link>
+                      ) : (
+                        <span className="text-gray-500">{evento.entidad}</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      {evento.diff ? (
+                        <details>
+                          <summary className="cursor-pointer text-teal-600 hover:text-teal-800">
+                            Ver detalles
+                          </summary>
+                          <pre className="mt-2 text-xs bg-gray-50 p-2 rounded max-w-md overflow-x-auto whitespace-pre-wrap">
+                            {JSON.stringify(evento.diff, null, 2)}
+                          </pre>
+                        </details>
+                      ) : (
+                        <span className="text-gray-400">-</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <p className="mt-4 text-sm text-gray-500">
+        Mostrando {eventos.length} eventos. El registro no se puede modificar ni eliminar.
+      </p>
+    </div>
+  );
+};
+
+export default Auditoria;
@@ -0,0 +1,188 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { ArrowLeft, Eye } from 'lucide-react';
+import { FichaCliente } from '../../types';
+import { obtenerFichaCliente, VisitaCliente } from '../../lib/clientes';
+import { formatRut } from '../../utils/formatters';
+import BadgeRiesgo from '../../components/BadgeRiesgo';
+
+const ClienteDetalle: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const [ficha, setFicha] = useState<FichaCliente | null>(null);
+  const [visitas, setVisitas] = useState<VisitaCliente[]>([]);
+  const [cargando, setCargando] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!id) return;
+
+    setCargando(true);
+    setError(null);
+
+    obtenerFichaCliente(id)
+      .then(resultado => {
+        setFicha(resultado?.ficha ?? null);
+        setVisitas(resultado?.visitas ?? []);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Error al cargar la ficha del cliente'))
+      .finally(() => setCargando(false));
+  }, [id]);
+
+  if (cargando) {
+    return <div className="p-10 text-center text-gray-500">Cargando ficha...</div>;
+  }
+
+  if (error || !ficha) {
+    return (
+      <div className="bg-white rounded-lg shadow-md p-6 text-center">
+        <h2 className="text-2xl font-bold text-gray-800 mb-4">
+          {error ? 'No se pudo cargar la ficha' : 'Cliente no encontrado'}
+        </h2>
+        {error && <p className="text-red-600 mb-4">{error}</p>}
+        <Link
+          to="/admin/clientes"
+          className="inline-flex items-center px-4 py-2 bg-teal-600 text-white rounded-md hover:bg-teal-700"
+        >
+          <ArrowLeft size={16} className="mr-2" />
+          Volver a clientes
+        </Link>
+      </div>
+    );
+  }
+
+  // Artistas con los que se ha tatuado, con la cantidad de sesiones
+  const artistas = visitas.reduce<Record<string, number>>((acc, visita) => {
+    acc[visita.artista] = (acc[visita.artista] || 0) + 1;
+    return acc;
+  }, {});
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center mb-6">
+        <Link to="/admin/clientes" className="mr-4 text-gray-600 hover:text-gray-900">
+          <ArrowLeft size={20} />
+        </Link>
+        <h1 className="text-2xl font-bold text-gray-800">{ficha.nombre} {ficha.apellidos}</h1>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-semibold text-gray-800 mb-6 pb-2 border-b">Datos del Cliente</h2>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <p className="text-sm text-gray-500">RUT / Pasaporte</p>
+            <p className="font-medium">{formatRut(ficha.documento)}</p>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm text-gray-500">Fecha de Nacimiento</p>
+            <p className="font-medium">
+              {ficha.fechaNacimiento ? format(parseISO(ficha.fechaNacimiento), 'dd/MM/yyyy') : '-'}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm text-gray-500">Teléfono</p>
+            <p className="font-medium">{ficha.telefono || '-'}</p>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm text-gray-500">Email</p>
+            <p className="font-medium">{ficha.email || '-'}</p>
+          </div>
+
+          <div className="space-y-2 md:col-span-2">
+            <p className="text-sm text-gray-500">Dirección</p>
+            <p className="font-medium">
+              {ficha.direccion
+                ? [ficha.direccion.calle, ficha.direccion.comuna, ficha.direccion.region].filter(Boolean).join(', ')
+                : '-'}
+            </p>
+          </div>
+        </div>
+
+        <p className="mt-6 text-xs text-gray-500">
+          Los datos corresponden al último consentimiento firmado. Cliente desde el {format(parseISO(ficha.fechaRegistro), 'dd/MM/yyyy')}.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-6 pb-2 border-b">
+          <h2 className="text-xl font-semibold text-gray-800">Consentimientos ({visitas.length})</h2>
+          <div className="flex flex-wrap gap-2 mt-2 md:mt-0">
+            {Object.entries(artistas).map(([artista, cantidad]) => (
+              <span key={artista} className="px-3 py-1 bg-teal-100 text-teal-800 rounded-full text-xs font-medium">
+                {artista || 'Sin artista'}: {cantidad}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {visitas.length === 0 ? (
+          <p className="text-gray-500 text-center py-6">Este cliente no tiene consentimientos visibles</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Fecha
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Código
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Artista
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Estado
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Acciones
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {visitas.map(visita => (
+                  <tr key={visita.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {format(parseISO(visita.fecha), 'dd/MM/yyyy HH:mm')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-700">
+                      {visita.codigo}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                      {visita.artista || '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <div className="flex items-center gap-2">
+                        {visita.archivado && (
+                          <span className="px-2 py-0.5 bg-red-100 text-red-800 rounded-full text-xs font-medium">
+                            Archivado
+                          </span>
+                        )}
+                        <BadgeRiesgo nivel={visita.nivelRiesgo} />
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                      <Link
+                        to={`/admin/consentimientos/${visita.id}`}
+                        className="inline-flex items-center text-teal-600 hover:text-teal-900"
+                      >
+                        <Eye size={16} className="mr-1" />
+                        Ver
+                      </Link>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ClienteDetalle;
@@ -0,0 +1,133 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { Search, Eye } from 'lucide-react';
+import { FichaCliente } from '../../types';
+import { obtenerFichasClientes } from '../../lib/clientes';
+import { formatRut } from '../../utils/formatters';
+
+const Clientes: React.FC = () => {
+  const [clientes, setClientes] = useState<FichaCliente[]>([]);
+  const [busqueda, setBusqueda] = useState('');
+  const [cargando, setCargando] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Buscar en el servidor cuando se deja de escribir
+  useEffect(() => {
+    let cancelado = false;
+    const timer = setTimeout(async () => {
+      setCargando(true);
+      setError(null);
+
+      try {
+        const resultado = await obtenerFichasClientes(busqueda);
+        if (!cancelado) setClientes(resultado);
+      } catch (err) {
+        if (!cancelado) setError(err instanceof Error ? err.message : 'Error al cargar los clientes');
+      } finally {
+        if (!cancelado) setCargando(false);
+      }
+    }, 300);
+
+    return () => {
+      cancelado = true;
+      clearTimeout(timer);
+    };
+  }, [busqueda]);
+
+  return (
+    <div>
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-6">
+        <h1 className="text-2xl font-bold text-gray-800 mb-4 md:mb-0">Clientes</h1>
+        <div className="relative w-full md:w-80">
+          <Search size={18} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            type="text"
+            value={busqueda}
+            onChange={(e) => setBusqueda(e.target.value)}
+            placeholder="Buscar por nombre o RUT"
+            className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500"
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-100 text-red-700 p-3 rounded-lg mb-4">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        {cargando ? (
+          <div className="p-10 text-center text-gray-500">Cargando clientes...</div>
+        ) : clientes.length === 0 ? (
+          <div className="p-10 text-center text-gray-500">No hay clientes que coincidan con la búsqueda</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Cliente
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    RUT / Pasaporte
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Contacto
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Consentimientos
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Cliente desde
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Acciones
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {clientes.map(cliente => (
+                  <tr key={cliente.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {cliente.nombre} {cliente.apellidos}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                      {formatRut(cliente.documento)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                      <div>{cliente.email || '-'}</div>
+                      <div className="text-xs text-gray-500">{cliente.telefono}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                      {cliente.totalConsentimientos ?? '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                      {format(parseISO(cliente.fechaRegistro), 'dd/MM/yyyy')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                      <Link
+                        to={`/admin/clientes/${cliente.id}`}
+                        className="inline-flex items-center text-teal-600 hover:text-teal-900"
+                      >
+                        <Eye size={16} className="mr-1" />
+                        Ver ficha
+                      </Link>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <p className="mt-4 text-sm text-gray-500">
+        Mostrando {clientes.length} clientes. Cada cliente se identifica por su RUT o pasaporte.
+      </p>
+    </div>
+  );
+};
+
+export default Clientes;
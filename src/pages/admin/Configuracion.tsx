@@ -1,7 +1,7 @@
 import React from 'react';
 import { Outlet } from 'react-router-dom';
 import { NavLink } from 'react-router-dom';
-import { Settings, Users, FileText, ChevronFirst as FirstAid } from 'lucide-react';
+import { Settings, Users, FileText, ChevronFirst as FirstAid, CalendarClock, Layers } from 'lucide-react';
 
 const Configuracion: React.FC = () => {
   return (
@@ -45,6 +45,36 @@ const Configuracion: React.FC = () => {
                     Artistas
                   </NavLink>
                 </li>
+                <li>
+                  <NavLink
+                    to="/admin/configuracion/tipos"
+                    className={({ isActive }) =>
+                      `flex items-center px-4 py-2 rounded-md transition-colors ${
+                        isActive
+                          ? 'bg-teal-500 text-white'
+                          : 'text-gray-700 hover:bg-gray-100'
+                      }`
+                    }
+                  >
+                    <Layers size={18} className="mr-2" />
+                    Procedimientos
+                  </NavLink>
+                </li>
+                <li>
+                  <NavLink
+                    to="/admin/configuracion/preguntas"
+                    className={({ isActive }) =>
+                      `flex items-center px-4 py-2 rounded-md transition-colors ${
+                        isActive
+                          ? 'bg-teal-500 text-white'
+                          : 'text-gray-700 hover:bg-gray-100'
+                      }`
+                    }
+                  >
+                    <FileText size={18} className="mr-2" />
+                    Preguntas de Salud
+                  </NavLink>
+                </li>
                 <li>
                   <NavLink
                     to="/admin/configuracion/cuidados"
@@ -60,6 +90,21 @@ const Configuracion: React.FC = () => {
                     Cuidados
                   </NavLink>
                 </li>
+                <li>
+                  <NavLink
+                    to="/admin/configuracion/seguimiento"
+                    className={({ isActive }) =>
+                      `flex items-center px-4 py-2 rounded-md transition-colors ${
+                        isActive
+                          ? 'bg-teal-500 text-white'
+                          : 'text-gray-700 hover:bg-gray-100'
+                      }`
+                    }
+                  >
+                    <CalendarClock size={18} className="mr-2" />
+                    Seguimiento
+                  </NavLink>
+                </li>
               </ul>
             </nav>
           </div>
@@ -1,43 +1,59 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { useConsentimientos } from '../../contexts/ConsentimientosContext';
 import { useConfig } from '../../contexts/ConfigContext';
+import { DetallesProcedimiento } from '../../types';
 import { format, parseISO } from 'date-fns';
-import { ArrowLeft, Download, Archive } from 'lucide-react';
-import { jsPDF } from 'jspdf';
+import { ArrowLeft, Download, Archive, Contact2, Send, Edit, ImageIcon } from 'lucide-react';
+import { generatePDF, nombreArchivoConsentimiento } from '../../utils/pdfGenerator';
 import { formatRut } from '../../utils/formatters';
-
-// Lista fija de preguntas de salud
-const PREGUNTAS_SALUD = [
-  '¿Comiste en las últimas 4 horas?',
-  '¿Tienes alergias?',
-  '¿Tienes hemofilia?',
-  '¿Has tomado aspirina en los últimos 5 días?',
-  '¿Tienes hepatitis?',
-  '¿Tienes mala cicatrización?',
-  '¿Vives con VIH?',
-  '¿Tienes problemas de salud?',
-  '¿Estás en tratamiento médico?',
-  '¿Tienes tendencia a desmayarte?',
-  '¿Fumas?',
-  '¿Bebes alcohol?',
-  '¿Bebiste en las últimas 3 horas?',
-  '¿Consumes drogas?',
-  '¿Tienes problemas dermatológicos?',
-  '¿Tu piel produce queloides?',
-  '¿Es tu primer tatuaje?'
-];
+import { resolverRespuestasSalud } from '../../utils/preguntasSalud';
+import { renderTextoLegal, datosTextoDesdeConsentimiento } from '../../utils/plantillaConsentimiento';
+import { useAuth } from '../../contexts/AuthContext';
+import { puedeAcceder } from '../../utils/permisos';
+import { useArtistaActual } from '../../hooks/useArtistaActual';
+import { registrarEventoAuditoria } from '../../lib/auditoria';
+import { obtenerUrlDocumento, obtenerImagenDisenoPdf, descargarPdfFirmado, TipoCedula } from '../../lib/documentos';
+import { enviarCorreoConsentimiento, ResultadoEnvioCorreo, NOMBRES_ESTADO_CORREO } from '../../lib/correo';
+import BadgeRiesgo from '../../components/BadgeRiesgo';
+import EditorProcedimiento from '../../components/EditorProcedimiento';
+import ProyectoConsentimiento from '../../components/ProyectoConsentimiento';
+import { describirProcedimiento, buscarTipoProcedimiento } from '../../utils/procedimiento';
 
 const ConsentimientoDetalle: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { getConsentimiento, archivarConsentimiento } = useConsentimientos();
+  const { getConsentimiento, archivarConsentimiento, actualizarProcedimiento } = useConsentimientos();
   const { config } = useConfig();
+  const { currentUser } = useAuth();
+  const { esArtista, nombreArtista, rutaBase } = useArtistaActual();
   const [archivando, setArchivando] = useState(false);
   const [mensajeExito, setMensajeExito] = useState(false);
+  const [urlsCedula, setUrlsCedula] = useState<Partial<Record<TipoCedula, string>>>({});
+  const [cargandoCedula, setCargandoCedula] = useState<TipoCedula | null>(null);
+  const [reenviandoCorreo, setReenviandoCorreo] = useState(false);
+  // Resultado del último reenvío; la lista del contexto se actualiza en la siguiente carga
+  const [envioCorreo, setEnvioCorreo] = useState<ResultadoEnvioCorreo | null>(null);
+  const [editandoProcedimiento, setEditandoProcedimiento] = useState(false);
+  const [urlDiseno, setUrlDiseno] = useState<string | null>(null);
+  const [cargandoDiseno, setCargandoDiseno] = useState(false);
+  
+  // Obtener consentimiento (en el portal del artista, solo si es uno de sus clientes)
+  const encontrado = getConsentimiento(id || '');
+  const consentimiento = esArtista && encontrado?.artistaSeleccionado !== nombreArtista
+    ? undefined
+    : encontrado;
   
-  // Obtener consentimiento
-  const consentimiento = getConsentimiento(id || '');
+  // Registrar quién ve los datos de salud del cliente
+  const consentimientoId = consentimiento?.id;
+  useEffect(() => {
+    if (!consentimientoId) return;
+    registrarEventoAuditoria({
+      accion: 'consentimiento.ver',
+      entidad: 'consentimiento',
+      entidadId: consentimientoId
+    });
+  }, [consentimientoId]);
   
   if (!consentimiento) {
     return (
@@ -47,7 +63,7 @@ const ConsentimientoDetalle: React.FC = () => {
           El consentimiento que estás buscando no existe o ha sido archivado.
         </p>
         <Link
-          to="/admin/consentimientos"
+          to={`${rutaBase}/consentimientos`}
           className="inline-flex items-center px-4 py-2 bg-teal-600 text-white rounded-md hover:bg-teal-700"
         >
           <ArrowLeft size={16} className="mr-2" />
@@ -73,7 +89,7 @@ const ConsentimientoDetalle: React.FC = () => {
         // Mostrar mensaje de éxito por 2 segundos antes de redirigir
         setTimeout(() => {
           // Después de archivar exitosamente, redirigir a la lista de consentimientos
-          navigate('/admin/consentimientos', { replace: true });
+          navigate(`${rutaBase}/consentimientos`, { replace: true });
         }, 2000);
       } catch (error) {
         console.error('Error al archivar el consentimiento:', error);
@@ -83,173 +99,104 @@ const ConsentimientoDetalle: React.FC = () => {
     }
   };
   
-  // Generar PDF
-  const generarPDF = () => {
-    const pdf = new jsPDF();
-    const margen = 20;
-    let y = margen;
-    
-    // Configuraciones
-    pdf.setFontSize(18);
-    pdf.setFont('helvetica', 'bold');
-    
-    // Titulo y datos del estudio
-    pdf.text(`${config.nombreEstudio}`, 105, y, { align: 'center' });
-    y += 8;
-    pdf.setFontSize(12);
-    pdf.setFont('helvetica', 'normal');
-    pdf.text(`${config.direccionEstudio}`, 105, y, { align: 'center' });
-    y += 15;
-    
-    // Información del formulario
-    pdf.setFontSize(14);
-    pdf.setFont('helvetica', 'bold');
-    pdf.text('FORMULARIO DE CONSENTIMIENTO PARA TATUAJE', 105, y, { align: 'center' });
-    y += 10;
-    
-    // Fecha
-    pdf.setFontSize(10);
-    pdf.setFont('helvetica', 'normal');
-    pdf.text(`Fecha: ${format(parseISO(consentimiento.fechaCreacion), 'dd/MM/yyyy')}`, margen, y);
-    y += 10;
-    
-    // Datos del cliente
-    pdf.setFontSize(12);
-    pdf.setFont('helvetica', 'bold');
-    pdf.text('DATOS DEL CLIENTE', margen, y);
-    y += 7;
-    
-    pdf.setFontSize(10);
-    pdf.setFont('helvetica', 'normal');
-    pdf.text(`Nombre: ${consentimiento.cliente.nombre} ${consentimiento.cliente.apellidos}`, margen, y);
-    y += 5;
-    pdf.text(`RUT/Pasaporte: ${formatRut(consentimiento.cliente.rut)}`, margen, y);
-    y += 5;
-    pdf.text(`Edad: ${consentimiento.cliente.edad} años`, margen, y);
-    y += 5;
-    pdf.text(`Fecha de Nacimiento: ${format(new Date(consentimiento.cliente.fechaNacimiento), 'dd/MM/yyyy')}`, margen, y);
-    y += 5;
-    pdf.text(`Dirección: ${consentimiento.cliente.direccion.calle}, ${consentimiento.cliente.direccion.comuna}, ${consentimiento.cliente.direccion.region}`, margen, y);
-    y += 5;
-    pdf.text(`Teléfono: ${consentimiento.cliente.telefono}`, margen, y);
-    y += 5;
-    pdf.text(`Email: ${consentimiento.cliente.email}`, margen, y);
-    y += 10;
-    
-    // Datos del tutor si es menor de edad
-    if (consentimiento.cliente.edad < 18 && consentimiento.tutor) {
-      pdf.setFontSize(12);
-      pdf.setFont('helvetica', 'bold');
-      pdf.text('DATOS DEL TUTOR LEGAL', margen, y);
-      y += 7;
+  // Las cédulas están en un bucket privado: se piden con una URL firmada de corta duración al momento de verlas
+  const verCedula = async (tipo: TipoCedula, ruta: string) => {
+    try {
+      setCargandoCedula(tipo);
+      const url = await obtenerUrlDocumento(ruta);
+      setUrlsCedula(prev => ({ ...prev, [tipo]: url }));
       
-      pdf.setFontSize(10);
-      pdf.setFont('helvetica', 'normal');
-      pdf.text(`Nombre: ${consentimiento.tutor.nombre}`, margen, y);
-      y += 5;
-      pdf.text(`RUT: ${formatRut(consentimiento.tutor.rut)}`, margen, y);
-      y += 5;
-      // Crear texto completo de parentesco
-      const parentescoCompleto = consentimiento.tutor.parentesco === 'Otro' 
-        ? `${consentimiento.tutor.parentesco} (${consentimiento.tutor.otroParentesco})`
-        : consentimiento.tutor.parentesco;
-      pdf.text(`Parentesco: ${parentescoCompleto}`, margen, y);
-      y += 10;
+      registrarEventoAuditoria({
+        accion: 'consentimiento.ver_documento',
+        entidad: 'consentimiento',
+        entidadId: consentimiento.id,
+        diff: { documento: `cedula-${tipo}` }
+      });
+    } catch (error) {
+      console.error('Error al cargar la cédula:', error);
+      alert('No se pudo cargar la cédula. Por favor, inténtalo de nuevo.');
+    } finally {
+      setCargandoCedula(null);
     }
-    
-    // Artista seleccionado
-    pdf.setFontSize(12);
-    pdf.setFont('helvetica', 'bold');
-    pdf.text('ARTISTA A CARGO', margen, y);
-    y += 7;
-    
-    pdf.setFontSize(10);
-    pdf.setFont('helvetica', 'normal');
-    pdf.text(`Artista: ${consentimiento.artistaSeleccionado}`, margen, y);
-    y += 10;
-    
-    // Información de salud
-    pdf.setFontSize(12);
-    pdf.setFont('helvetica', 'bold');
-    pdf.text('INFORMACIÓN DE SALUD', margen, y);
-    y += 7;
-    
-    pdf.setFontSize(10);
-    pdf.setFont('helvetica', 'normal');
-    
-    const infoSalud = consentimiento.informacionSalud || {};
-    
-    // Mostrar preguntas de salud con sus respuestas
-    PREGUNTAS_SALUD.forEach((pregunta, index) => {
-      const infoRespuesta = infoSalud[index] || {};
-      const respuesta = infoRespuesta.respuesta ? 'Sí' : 'No';
-      const infoAdicional = infoRespuesta.informacionAdicional || '';
-      
-      let textoRespuesta = `${pregunta}: ${respuesta}`;
-      if (infoAdicional) {
-        textoRespuesta += ` (${infoAdicional})`;
-      }
-      
-      // Verificar si hay espacio suficiente en la página actual, sino crear nueva
-      if (y > 270) {
-        pdf.addPage();
-        y = margen;
-      }
-      
-      const lineasRespuesta = pdf.splitTextToSize(textoRespuesta, 170);
-      pdf.text(lineasRespuesta, margen, y);
-      y += lineasRespuesta.length * 5;
-    });
-    
-    // Nueva página para el consentimiento y firma
-    pdf.addPage();
-    y = margen;
-    
-    // Texto de consentimiento
-    pdf.setFontSize(12);
-    pdf.setFont('helvetica', 'bold');
-    pdf.text('CONSENTIMIENTO GENERAL', margen, y);
-    y += 7;
-    
-    pdf.setFontSize(10);
-    pdf.setFont('helvetica', 'normal');
-    
-    // Texto de consentimiento con todas las variables reemplazadas
-    const textoConsentimiento = config.textoConsentimiento
-      .replace('{Nombre Cliente}', `${consentimiento.cliente.nombre} ${consentimiento.cliente.apellidos}`)
-      .replace('{Rut Cliente}', formatRut(consentimiento.cliente.rut))
-      .replace('{Edad Cliente}', consentimiento.cliente.edad.toString())
-      .replace('{Nombre Artista}', consentimiento.artistaSeleccionado)
-      .replace(/{Nombre Estudio}/g, config.nombreEstudio)
-      .replace('{Direccion Estudio}', config.direccionEstudio);
-      
-    const lineasConsentimiento = pdf.splitTextToSize(textoConsentimiento, 170);
-    pdf.text(lineasConsentimiento, margen, y);
-    y += lineasConsentimiento.length * 5 + 10;
-    
-    // Firma
-    if (consentimiento.firma) {
-      pdf.setFontSize(12);
-      pdf.setFont('helvetica', 'bold');
-      pdf.text('FIRMA DEL CLIENTE', margen, y);
-      y += 7;
+  };
+  
+  const verDiseno = async (ruta: string) => {
+    try {
+      setCargandoDiseno(true);
+      setUrlDiseno(await obtenerUrlDocumento(ruta));
+    } catch (error) {
+      console.error('Error al cargar el diseño:', error);
+      alert('No se pudo cargar el diseño. Por favor, inténtalo de nuevo.');
+    } finally {
+      setCargandoDiseno(false);
+    }
+  };
+  
+  const guardarProcedimiento = async (detalles: DetallesProcedimiento, imagenDiseno?: File) => {
+    await actualizarProcedimiento(consentimiento.id, detalles, imagenDiseno);
+    // La URL firmada anterior apunta al diseño reemplazado
+    if (imagenDiseno) setUrlDiseno(null);
+  };
+  
+  const reenviarCorreo = async () => {
+    try {
+      setReenviandoCorreo(true);
+      const resultado = await enviarCorreoConsentimiento(consentimiento.id, consentimiento.codigo);
+      setEnvioCorreo(resultado);
       
-      // Añadir la imagen de la firma
+      registrarEventoAuditoria({
+        accion: 'consentimiento.reenviar_correo',
+        entidad: 'consentimiento',
+        entidadId: consentimiento.id,
+        diff: { estado: resultado.estado }
+      });
+    } catch (error) {
+      console.error('Error al reenviar el correo:', error);
+      alert('No se pudo reenviar el correo. Por favor, inténtalo de nuevo.');
+    } finally {
+      setReenviandoCorreo(false);
+    }
+  };
+  
+  const estadoCorreo = envioCorreo?.estado ?? consentimiento.estadoCorreo;
+  const fechaEnvioCorreo = envioCorreo ? envioCorreo.fechaEnvio : consentimiento.fechaEnvioCorreo;
+  const errorCorreo = envioCorreo ? envioCorreo.error : consentimiento.errorCorreo;
+  
+  const cedulas = [
+    { tipo: 'cliente' as const, titulo: 'Cédula del Cliente', ruta: consentimiento.rutaCedulaCliente },
+    { tipo: 'tutor' as const, titulo: 'Cédula del Tutor', ruta: consentimiento.rutaCedulaTutor }
+  ].filter(cedula => cedula.ruta);
+  
+  const tipoProcedimiento = buscarTipoProcedimiento(config.tiposProcedimiento, consentimiento.tipoProcedimientoId);
+  // Los detalles del tatuaje solo aplican a los procedimientos que los piden (o si ya se registraron)
+  const muestraDetallesTatuaje = !!tipoProcedimiento?.pideDetallesTatuaje || !!consentimiento.detallesProcedimiento;
+  
+  // Texto exacto que firmó el cliente; los consentimientos anteriores al versionado usan la plantilla actual
+  const textoConsentimiento = consentimiento.textoConsentimientoFirmado ?? renderTextoLegal(tipoProcedimiento?.textoConsentimiento ?? '', datosTextoDesdeConsentimiento(consentimiento), config);
+  
+  // Generar PDF
+  const generarPDF = async () => {
+    // PDF archivado al firmar; los consentimientos anteriores se generan con la configuración actual
+    if (consentimiento.rutaPdfFirmado) {
       try {
-        pdf.addImage(consentimiento.firma, 'PNG', margen, y, 50, 20);
-        y += 25;
-        
-        pdf.setFontSize(10);
-        pdf.setFont('helvetica', 'normal');
-        pdf.text(`Fecha: ${format(parseISO(consentimiento.fechaCreacion), 'dd/MM/yyyy')}`, margen, y);
-      } catch (e) {
-        console.error('Error al añadir la firma al PDF:', e);
-        pdf.text('Error al cargar la firma', margen, y);
+        await descargarPdfFirmado(consentimiento);
+      } catch (error) {
+        console.error('Error al descargar el PDF:', error);
+        alert('No se pudo descargar el PDF. Por favor, inténtalo de nuevo.');
       }
+      return;
     }
     
-    // Guardar el PDF
-    pdf.save(`consentimiento_${consentimiento.cliente.nombre}_${format(parseISO(consentimiento.fechaCreacion), 'yyyyMMdd')}.pdf`);
+    const imagenDiseno = consentimiento.rutaImagenDiseno
+      ? await obtenerImagenDisenoPdf(consentimiento.rutaImagenDiseno).catch(() => undefined)
+      : undefined;
+    generatePDF(consentimiento, config, imagenDiseno).save(nombreArchivoConsentimiento(consentimiento));
+    
+    registrarEventoAuditoria({
+      accion: 'consentimiento.generar_pdf',
+      entidad: 'consentimiento',
+      entidadId: consentimiento.id
+    });
   };
 
   return (
@@ -257,12 +204,13 @@ const ConsentimientoDetalle: React.FC = () => {
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-6">
         <div className="flex items-center mb-4 sm:mb-0">
           <Link
-            to="/admin/consentimientos"
+            to={`${rutaBase}/consentimientos`}
             className="mr-4 text-gray-600 hover:text-gray-900"
           >
             <ArrowLeft size={20} />
           </Link>
           <h1 className="text-2xl font-bold text-gray-800">Detalle de Consentimiento</h1>
+          <BadgeRiesgo nivel={consentimiento.nivelRiesgo} className="ml-3" />
         </div>
         
         <div className="flex space-x-3">
@@ -273,6 +221,7 @@ const ConsentimientoDetalle: React.FC = () => {
             <Download size={16} className="mr-2" />
             Descargar PDF
           </button>
+          {puedeAcceder(currentUser, 'archivar') && (
           <button
             onClick={handleArchivar}
             disabled={archivando || mensajeExito || consentimiento.archivado}
@@ -306,6 +255,7 @@ const ConsentimientoDetalle: React.FC = () => {
               </>
             )}
           </button>
+          )}
         </div>
       </div>
       
@@ -318,6 +268,14 @@ const ConsentimientoDetalle: React.FC = () => {
             <span className="px-3 py-1 bg-teal-100 text-teal-800 rounded-full text-xs font-medium">
               Código: {consentimiento.codigo}
             </span>
+            {consentimiento.codigoOriginal && (
+              <span
+                className="px-3 py-1 bg-yellow-100 text-yellow-800 rounded-full text-xs font-medium"
+                title="Firmado sin conexión: el código ya existía al sincronizar y se reemplazó. La copia del cliente muestra el código entregado"
+              >
+                Código entregado al cliente: {consentimiento.codigoOriginal}
+              </span>
+            )}
             {consentimiento.archivado && (
               <span className="px-3 py-1 bg-red-100 text-red-800 rounded-full text-xs font-medium">
                 Archivado
@@ -330,6 +288,14 @@ const ConsentimientoDetalle: React.FC = () => {
           <div className="space-y-2">
             <p className="text-sm text-gray-500">Nombre Completo</p>
             <p className="font-medium">{consentimiento.cliente.nombre} {consentimiento.cliente.apellidos}</p>
+            {consentimiento.clienteId && puedeAcceder(currentUser, 'clientes') && (
+              <Link
+                to={`/admin/clientes/${consentimiento.clienteId}`}
+                className="text-sm text-teal-600 hover:text-teal-900"
+              >
+                Ver ficha del cliente
+              </Link>
+            )}
           </div>
           
           <div className="space-y-2">
@@ -372,6 +338,42 @@ const ConsentimientoDetalle: React.FC = () => {
           <div className="space-y-2">
             <p className="text-sm text-gray-500">Email</p>
             <p className="font-medium">{consentimiento.cliente.email}</p>
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              {estadoCorreo ? (
+                <span className={`px-2 py-0.5 rounded-full font-medium ${
+                  estadoCorreo === 'sent'
+                    ? 'bg-green-100 text-green-800'
+                    : estadoCorreo === 'failed'
+                      ? 'bg-red-100 text-red-800'
+                      : 'bg-yellow-100 text-yellow-800'
+                }`}>
+                  Correo: {NOMBRES_ESTADO_CORREO[estadoCorreo]}
+                </span>
+              ) : (
+                <span className="px-2 py-0.5 rounded-full font-medium bg-gray-100 text-gray-700">
+                  Correo no enviado
+                </span>
+              )}
+              {estadoCorreo === 'sent' && fechaEnvioCorreo && (
+                <span className="text-gray-500">
+                  {format(parseISO(fechaEnvioCorreo), 'dd/MM/yyyy HH:mm')}
+                </span>
+              )}
+              {puedeAcceder(currentUser, 'reenviarCorreo') && consentimiento.cliente.email && (
+                <button
+                  onClick={reenviarCorreo}
+                  disabled={reenviandoCorreo || !consentimiento.rutaPdfFirmado}
+                  title={consentimiento.rutaPdfFirmado ? undefined : 'El consentimiento no tiene un PDF archivado'}
+                  className="inline-flex items-center px-2 py-1 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Send size={12} className="mr-1" />
+                  {reenviandoCorreo ? 'Enviando...' : estadoCorreo ? 'Reenviar correo' : 'Enviar correo'}
+                </button>
+              )}
+            </div>
+            {estadoCorreo === 'failed' && errorCorreo && (
+              <p className="text-xs text-red-600">{errorCorreo}</p>
+            )}
           </div>
           
           <div className="space-y-2">
@@ -424,28 +426,180 @@ const ConsentimientoDetalle: React.FC = () => {
           </>
         )}
         
-        <h2 className="text-xl font-semibold text-gray-800 mt-8 mb-6 pb-2 border-b">
-          Artista y Detalles del Procedimiento
-        </h2>
+        {cedulas.length > 0 && (
+          <>
+            <h2 className="text-xl font-semibold text-gray-800 mt-8 mb-6 pb-2 border-b">
+              Documentos de Identidad
+            </h2>
+            
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+              {cedulas.map(cedula => (
+                <div key={cedula.tipo} className="space-y-2">
+                  <p className="text-sm text-gray-500">{cedula.titulo}</p>
+                  {urlsCedula[cedula.tipo] ? (
+                    <div className="border rounded-md p-3">
+                      <img
+                        src={urlsCedula[cedula.tipo]}
+                        alt={cedula.titulo}
+                        className="max-h-60 mx-auto"
+                      />
+                    </div>
+                  ) : (
+                    <button
+                      onClick={() => verCedula(cedula.tipo, cedula.ruta as string)}
+                      disabled={cargandoCedula === cedula.tipo}
+                      className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      <Contact2 size={16} className="mr-2" />
+                      {cargandoCedula === cedula.tipo ? 'Cargando...' : 'Ver cédula'}
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+        
+        <div className="flex items-center justify-between mt-8 mb-6 pb-2 border-b">
+          <h2 className="text-xl font-semibold text-gray-800">
+            Artista y Detalles del Procedimiento
+          </h2>
+          {muestraDetallesTatuaje && puedeAcceder(currentUser, 'editarProcedimiento') && (
+            <button
+              onClick={() => setEditandoProcedimiento(true)}
+              className="inline-flex items-center text-sm text-teal-600 hover:text-teal-900"
+            >
+              <Edit size={16} className="mr-1" />
+              {consentimiento.detallesProcedimiento ? 'Editar' : 'Completar'}
+            </button>
+          )}
+        </div>
         
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+          <div className="space-y-2">
+            <p className="text-sm text-gray-500">Procedimiento</p>
+            <p className="font-medium">{tipoProcedimiento?.nombre ?? 'Sin tipo registrado'}</p>
+          </div>
+          
           <div className="space-y-2">
             <p className="text-sm text-gray-500">Artista Seleccionado</p>
             <p className="font-medium">{consentimiento.artistaSeleccionado}</p>
           </div>
+          
+          {!muestraDetallesTatuaje ? null : consentimiento.detallesProcedimiento ? (
+            describirProcedimiento(consentimiento.detallesProcedimiento).map(({ etiqueta, valor }) => (
+              <div key={etiqueta} className="space-y-2">
+                <p className="text-sm text-gray-500">{etiqueta}</p>
+                <p className="font-medium whitespace-pre-line">{valor}</p>
+              </div>
+            ))
+          ) : (
+            <div className="space-y-2">
+              <p className="text-sm text-gray-500">Tatuaje</p>
+              <p className="text-gray-500">Sin detalles registrados</p>
+            </div>
+          )}
+          
+          {consentimiento.rutaImagenDiseno && (
+            <div className="space-y-2 md:col-span-2">
+              <p className="text-sm text-gray-500">Diseño Aprobado</p>
+              {urlDiseno ? (
+                <div className="border rounded-md p-3">
+                  <img src={urlDiseno} alt="Diseño aprobado" className="max-h-80 mx-auto" />
+                </div>
+              ) : (
+                <button
+                  onClick={() => verDiseno(consentimiento.rutaImagenDiseno as string)}
+                  disabled={cargandoDiseno}
+                  className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <ImageIcon size={16} className="mr-2" />
+                  {cargandoDiseno ? 'Cargando...' : 'Ver diseño'}
+                </button>
+              )}
+            </div>
+          )}
         </div>
         
+        {editandoProcedimiento && (
+          <EditorProcedimiento
+            detalles={consentimiento.detallesProcedimiento}
+            onGuardar={guardarProcedimiento}
+            onClose={() => setEditandoProcedimiento(false)}
+          />
+        )}
+        
+        {puedeAcceder(currentUser, 'proyectos') && !consentimiento.archivado && (
+          <ProyectoConsentimiento
+            consentimientoId={consentimiento.id}
+            proyectoId={consentimiento.proyectoId}
+          />
+        )}
+        
         <h2 className="text-xl font-semibold text-gray-800 mt-8 mb-6 pb-2 border-b">
           Información de Salud
         </h2>
         
+        {consentimiento.nivelRiesgo === 'review' && (
+          <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-md text-sm text-amber-800">
+            Este consentimiento tiene respuestas de salud que requieren revisión del artista antes del procedimiento.
+          </div>
+        )}
+        
+        {consentimiento.cambiosSalud && (
+          consentimiento.cambiosSalud.cambios.length === 0 ? (
+            <p className="mb-4 text-sm text-gray-600">
+              Sin cambios en la información de salud desde la última visita ({format(parseISO(consentimiento.cambiosSalud.fechaAnterior), 'dd/MM/yyyy')}).
+            </p>
+          ) : (
+            <div className="mb-4 p-4 bg-amber-50 border border-amber-200 rounded-md">
+              <div className="flex justify-between items-start mb-3">
+                <p className="font-medium text-amber-800">
+                  Cambios desde la última visita ({format(parseISO(consentimiento.cambiosSalud.fechaAnterior), 'dd/MM/yyyy')})
+                </p>
+                {consentimiento.cambiosSalud.consentimientoAnteriorId && puedeAcceder(currentUser, 'clientes') && (
+                  <Link
+                    to={`/admin/consentimientos/${consentimiento.cambiosSalud.consentimientoAnteriorId}`}
+                    className="text-sm text-teal-600 hover:text-teal-900"
+                  >
+                    Ver consentimiento anterior
+                  </Link>
+                )}
+              </div>
+              <ul className="space-y-2 text-sm">
+                {consentimiento.cambiosSalud.cambios.map(cambio => (
+                  <li key={cambio.id}>
+                    <p className="font-medium text-gray-800">{cambio.pregunta}</p>
+                    {cambio.respuestaAnterior !== undefined && cambio.respuestaAnterior !== cambio.respuesta && (
+                      <p className="text-gray-700">
+                        Antes: {cambio.respuestaAnterior ? 'Sí' : 'No'} → Ahora: {cambio.respuesta ? 'Sí' : 'No'}
+                      </p>
+                    )}
+                    {cambio.informacionAnterior !== cambio.informacionAdicional && (
+                      <p className="text-gray-600">
+                        Información adicional: {cambio.informacionAnterior || '(sin información)'} → {cambio.informacionAdicional || '(sin información)'}
+                      </p>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )
+        )}
+        
         <div className="grid grid-cols-1 gap-3 mb-8">
-          {PREGUNTAS_SALUD.map((pregunta, index) => {
-            const respuestaData = consentimiento.informacionSalud?.[index] || { respuesta: false };
+          {resolverRespuestasSalud(consentimiento.informacionSalud, config.preguntasSalud).map(respuestaData => {
+            const marcada = respuestaData.nivelRiesgo && respuestaData.nivelRiesgo !== 'none';
             return (
-              <div key={index} className="p-3 bg-gray-50 rounded-md">
+              <div
+                key={respuestaData.id}
+                className={`p-3 rounded-md ${marcada ? 'bg-amber-50 border border-amber-200' : 'bg-gray-50'}`}
+              >
                 <div className="flex justify-between items-start">
-                  <p className="font-medium">{pregunta}</p>
+                  <p className="font-medium">
+                    {respuestaData.pregunta}
+                    <BadgeRiesgo nivel={respuestaData.nivelRiesgo} className="ml-2" />
+                  </p>
                   <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
                     respuestaData.respuesta 
                       ? 'bg-blue-100 text-blue-800' 
@@ -464,6 +618,35 @@ const ConsentimientoDetalle: React.FC = () => {
           })}
         </div>
         
+        <div className="flex items-center justify-between mt-8 mb-6 pb-2 border-b">
+          <h2 className="text-xl font-semibold text-gray-800">
+            Texto Firmado
+          </h2>
+          {consentimiento.versionPlantilla ? (
+            <span className="px-3 py-1 bg-gray-100 text-gray-700 rounded-full text-xs font-medium">
+              Versión {consentimiento.versionPlantilla}
+            </span>
+          ) : (
+            <span className="px-3 py-1 bg-yellow-100 text-yellow-800 rounded-full text-xs font-medium">
+              Texto actual (firmado antes del versionado)
+            </span>
+          )}
+        </div>
+        
+        <div className="mb-8 space-y-4">
+          <p className="whitespace-pre-line text-sm text-gray-700 bg-gray-50 p-4 rounded-md">
+            {textoConsentimiento}
+          </p>
+          {consentimiento.textoTutorFirmado && (
+            <div>
+              <p className="text-sm text-gray-500 mb-1">Autorización del tutor legal</p>
+              <p className="whitespace-pre-line text-sm text-gray-700 bg-yellow-50 p-4 rounded-md">
+                {consentimiento.textoTutorFirmado}
+              </p>
+            </div>
+          )}
+        </div>
+        
         <h2 className="text-xl font-semibold text-gray-800 mt-8 mb-6 pb-2 border-b">
           Firma del Cliente
         </h2>
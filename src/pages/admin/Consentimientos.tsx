@@ -5,35 +5,26 @@ import { useConfig } from '../../contexts/ConfigContext';
 import { format, parseISO, isWithinInterval, subDays, startOfDay, endOfDay } from 'date-fns';
 import { es } from 'date-fns/locale';
 import { Search, Eye, Archive, Download, Hash, Filter, Calendar, User, X, FileDown } from 'lucide-react';
-import { jsPDF } from 'jspdf';
-import { formatRut } from '../../utils/formatters';
+import { generatePDF, nombreArchivoConsentimiento } from '../../utils/pdfGenerator';
 import ErrorMessageSupabase from '../../components/ErrorMessageSupabase';
 import { objectsToCsv, downloadCsv, getFormattedDateForFilename } from '../../utils/csvExport';
-
-// Lista fija de preguntas de salud
-const PREGUNTAS_SALUD = [
-  '¿Comiste en las últimas 4 horas?',
-  '¿Tienes alergias?',
-  '¿Tienes hemofilia?',
-  '¿Has tomado aspirina en los últimos 5 días?',
-  '¿Tienes hepatitis?',
-  '¿Tienes mala cicatrización?',
-  '¿Vives con VIH?',
-  '¿Tienes problemas de salud?',
-  '¿Estás en tratamiento médico?',
-  '¿Tienes tendencia a desmayarte?',
-  '¿Fumas?',
-  '¿Bebes alcohol?',
-  '¿Bebiste en las últimas 3 horas?',
-  '¿Consumes drogas?',
-  '¿Tienes problemas dermatológicos?',
-  '¿Tu piel produce queloides?',
-  '¿Es tu primer tatuaje?'
-];
+import { registrarEventoAuditoria } from '../../lib/auditoria';
+import { descargarPdfFirmado } from '../../lib/documentos';
+import { useAuth } from '../../contexts/AuthContext';
+import { puedeAcceder } from '../../utils/permisos';
+import { useArtistaActual } from '../../hooks/useArtistaActual';
+import BadgeRiesgo from '../../components/BadgeRiesgo';
 
 const Consentimientos: React.FC = () => {
-  const { consentimientos, archivarConsentimiento, getConsentimientoPorCodigo, connectionError } = useConsentimientos();
+  const { consentimientos: todosConsentimientos, archivarConsentimiento, connectionError } = useConsentimientos();
   const { config } = useConfig();
+  const { currentUser } = useAuth();
+  const { esArtista, nombreArtista, rutaBase } = useArtistaActual();
+  
+  // En el portal del artista solo se listan sus propios clientes
+  const consentimientos = esArtista
+    ? todosConsentimientos.filter(c => c.artistaSeleccionado === nombreArtista)
+    : todosConsentimientos;
   const [searchTerm, setSearchTerm] = useState('');
   const [searchType, setSearchType] = useState<'general' | 'codigo'>('general');
   const [archivandoId, setArchivandoId] = useState<string | null>(null);
@@ -112,9 +103,11 @@ const Consentimientos: React.FC = () => {
   // Filtrar consentimientos con todos los filtros aplicados
   const filteredConsentimientos = consentimientos.filter(
     (consentimiento) => {
-      // Filtro por código si ese es el tipo de búsqueda seleccionado
+      // Filtro por código si ese es el tipo de búsqueda seleccionado (también el que recibió el
+      // cliente si hubo que reemplazarlo al sincronizar)
       if (searchType === 'codigo') {
-        return consentimiento.codigo.toLowerCase().includes(searchTerm.toLowerCase());
+        return consentimiento.codigo.toLowerCase().includes(searchTerm.toLowerCase()) ||
+          !!consentimiento.codigoOriginal?.toLowerCase().includes(searchTerm.toLowerCase());
       }
       
       // Filtro por texto general (nombre, RUT, email)
@@ -124,7 +117,8 @@ const Consentimientos: React.FC = () => {
         nombreCompleto.includes(searchString) ||
         consentimiento.cliente.rut.toLowerCase().includes(searchString) ||
         consentimiento.cliente.email.toLowerCase().includes(searchString) ||
-        consentimiento.codigo.toLowerCase().includes(searchString);
+        consentimiento.codigo.toLowerCase().includes(searchString) ||
+        !!consentimiento.codigoOriginal?.toLowerCase().includes(searchString);
       
       // Filtro por artista
       const matchesArtista = filtroArtista === '' || consentimiento.artistaSeleccionado === filtroArtista;
@@ -166,180 +160,40 @@ const Consentimientos: React.FC = () => {
   };
 
   // Generar PDF
-  const generarPDF = (consentimiento: any) => {
-    const pdf = new jsPDF();
-    const margen = 20;
-    let y = margen;
-    
-    // Configuraciones
-    pdf.setFontSize(18);
-    pdf.setFont('helvetica', 'bold');
-    
-    // Titulo y datos del estudio
-    pdf.text(`${config.nombreEstudio}`, 105, y, { align: 'center' });
-    y += 8;
-    pdf.setFontSize(12);
-    pdf.setFont('helvetica', 'normal');
-    pdf.text(`${config.direccionEstudio}`, 105, y, { align: 'center' });
-    y += 15;
-    
-    // Información del formulario
-    pdf.setFontSize(14);
-    pdf.setFont('helvetica', 'bold');
-    pdf.text('FORMULARIO DE CONSENTIMIENTO PARA TATUAJE', 105, y, { align: 'center' });
-    y += 10;
-    
-    // Fecha
-    pdf.setFontSize(10);
-    pdf.setFont('helvetica', 'normal');
-    pdf.text(`Fecha: ${format(parseISO(consentimiento.fechaCreacion), 'dd/MM/yyyy')}`, margen, y);
-    y += 10;
-    
-    // Datos del cliente
-    pdf.setFontSize(12);
-    pdf.setFont('helvetica', 'bold');
-    pdf.text('DATOS DEL CLIENTE', margen, y);
-    y += 7;
-    
-    pdf.setFontSize(10);
-    pdf.setFont('helvetica', 'normal');
-    pdf.text(`Nombre: ${consentimiento.cliente.nombre} ${consentimiento.cliente.apellidos}`, margen, y);
-    y += 5;
-    pdf.text(`RUT/Pasaporte: ${formatRut(consentimiento.cliente.rut)}`, margen, y);
-    y += 5;
-    pdf.text(`Edad: ${consentimiento.cliente.edad} años`, margen, y);
-    y += 5;
-    pdf.text(`Fecha de Nacimiento: ${format(new Date(consentimiento.cliente.fechaNacimiento), 'dd/MM/yyyy')}`, margen, y);
-    y += 5;
-    pdf.text(`Dirección: ${consentimiento.cliente.direccion.calle}, ${consentimiento.cliente.direccion.comuna}, ${consentimiento.cliente.direccion.region}`, margen, y);
-    y += 5;
-    pdf.text(`Teléfono: ${consentimiento.cliente.telefono}`, margen, y);
-    y += 5;
-    pdf.text(`Email: ${consentimiento.cliente.email}`, margen, y);
-    y += 10;
-    
-    // Datos del tutor si es menor de edad
-    if (consentimiento.cliente.edad < 18 && consentimiento.tutor) {
-      pdf.setFontSize(12);
-      pdf.setFont('helvetica', 'bold');
-      pdf.text('DATOS DEL TUTOR LEGAL', margen, y);
-      y += 7;
-      
-      pdf.setFontSize(10);
-      pdf.setFont('helvetica', 'normal');
-      pdf.text(`Nombre: ${consentimiento.tutor.nombre}`, margen, y);
-      y += 5;
-      pdf.text(`RUT: ${formatRut(consentimiento.tutor.rut)}`, margen, y);
-      y += 5;
-      const parentescoTexto = consentimiento.tutor.parentesco === 'Otro' 
-        ? `${consentimiento.tutor.parentesco} (${consentimiento.tutor.otroParentesco})` 
-        : consentimiento.tutor.parentesco;
-      pdf.text(`Parentesco: ${parentescoTexto}`, margen, y);
-      y += 10;
-    }
-    
-    // Artista seleccionado
-    pdf.setFontSize(12);
-    pdf.setFont('helvetica', 'bold');
-    pdf.text('ARTISTA A CARGO', margen, y);
-    y += 7;
-    
-    pdf.setFontSize(10);
-    pdf.setFont('helvetica', 'normal');
-    pdf.text(`Artista: ${consentimiento.artistaSeleccionado}`, margen, y);
-    y += 10;
-    
-    // Información de salud
-    pdf.setFontSize(12);
-    pdf.setFont('helvetica', 'bold');
-    pdf.text('INFORMACIÓN DE SALUD', margen, y);
-    y += 7;
-    
-    pdf.setFontSize(10);
-    pdf.setFont('helvetica', 'normal');
-    
-    const infoSalud = consentimiento.informacionSalud || {};
-    
-    // Mostrar preguntas de salud con sus respuestas
-    PREGUNTAS_SALUD.forEach((pregunta, index) => {
-      const infoRespuesta = infoSalud[index] || {};
-      const respuesta = infoRespuesta.respuesta ? 'Sí' : 'No';
-      const infoAdicional = infoRespuesta.informacionAdicional || '';
-      
-      let textoRespuesta = `${pregunta}: ${respuesta}`;
-      if (infoAdicional) {
-        textoRespuesta += ` (${infoAdicional})`;
-      }
-      
-      // Verificar si hay espacio suficiente en la página actual, sino crear nueva
-      if (y > 270) {
-        pdf.addPage();
-        y = margen;
-      }
-      
-      const lineasRespuesta = pdf.splitTextToSize(textoRespuesta, 170);
-      pdf.text(lineasRespuesta, margen, y);
-      y += lineasRespuesta.length * 5;
-    });
-    
-    // Nueva página para el consentimiento y firma
-    pdf.addPage();
-    y = margen;
-    
-    // Texto de consentimiento
-    pdf.setFontSize(12);
-    pdf.setFont('helvetica', 'bold');
-    pdf.text('CONSENTIMIENTO GENERAL', margen, y);
-    y += 7;
-    
-    pdf.setFontSize(10);
-    pdf.setFont('helvetica', 'normal');
-    
-    const textoConsentimiento = config.textoConsentimiento
-      .replace('{Nombre Cliente}', `${consentimiento.cliente.nombre} ${consentimiento.cliente.apellidos}`)
-      .replace(/{Nombre Estudio}/g, config.nombreEstudio);
-      
-    const lineasConsentimiento = pdf.splitTextToSize(textoConsentimiento, 170);
-    pdf.text(lineasConsentimiento, margen, y);
-    y += lineasConsentimiento.length * 5 + 10;
-    
-    // Firma
-    if (consentimiento.firma) {
-      pdf.setFontSize(12);
-      pdf.setFont('helvetica', 'bold');
-      pdf.text('FIRMA DEL CLIENTE', margen, y);
-      y += 7;
-      
-      // Añadir la imagen de la firma
+  const generarPDF = async (consentimiento: any) => {
+    // PDF archivado al firmar; los consentimientos anteriores se generan con la configuración actual
+    if (consentimiento.rutaPdfFirmado) {
       try {
-        pdf.addImage(consentimiento.firma, 'PNG', margen, y, 50, 20);
-        y += 25;
-        
-        pdf.setFontSize(10);
-        pdf.setFont('helvetica', 'normal');
-        pdf.text(`Fecha: ${format(parseISO(consentimiento.fechaCreacion), 'dd/MM/yyyy')}`, margen, y);
-      } catch (e) {
-        console.error('Error al añadir la firma al PDF:', e);
-        pdf.text('Error al cargar la firma', margen, y);
+        await descargarPdfFirmado(consentimiento);
+      } catch (error) {
+        console.error('Error al descargar el PDF:', error);
+        alert('No se pudo descargar el PDF. Por favor, inténtalo de nuevo.');
       }
+      return;
     }
     
-    // Pie de página
-    pdf.setFontSize(8);
-    pdf.text(
-      `Documento válido emitido por ${config.nombreEstudio} con código: ${consentimiento.codigo}. Conserve este número para futuras verificaciones.`,
-      pdf.internal.pageSize.width / 2,
-      pdf.internal.pageSize.height - 10,
-      { align: 'center' }
-    );
+    generatePDF(consentimiento, config).save(nombreArchivoConsentimiento(consentimiento));
     
-    // Guardar el PDF
-    pdf.save(`consentimiento_${consentimiento.cliente.nombre}_${format(parseISO(consentimiento.fechaCreacion), 'yyyyMMdd')}.pdf`);
+    registrarEventoAuditoria({
+      accion: 'consentimiento.generar_pdf',
+      entidad: 'consentimiento',
+      entidadId: consentimiento.id
+    });
   };
 
   // Exportar datos de clientes a CSV
   const exportarClientesCSV = () => {
     // Preparar los datos para exportar (solo los campos solicitados)
+    registrarEventoAuditoria({
+      accion: 'consentimiento.exportar_csv',
+      entidad: 'consentimiento',
+      diff: {
+        archivados: false,
+        totalRegistros: filteredConsentimientos.length,
+        consentimientos: filteredConsentimientos.map(c => c.id)
+      }
+    });
+    
     const datosClientes = filteredConsentimientos.map(consentimiento => ({
       nombre: consentimiento.cliente.nombre,
       apellidos: consentimiento.cliente.apellidos,
@@ -364,7 +218,7 @@ const Consentimientos: React.FC = () => {
   if (connectionError) {
     return (
       <div className="space-y-6">
-        <h1 className="text-2xl font-bold text-gray-800 mb-6">Consentimientos Activos</h1>
+        <h1 className="text-2xl font-bold text-gray-800 mb-6">{esArtista ? 'Mis Clientes' : 'Consentimientos Activos'}</h1>
         <ErrorMessageSupabase onRetry={() => window.location.reload()} />
       </div>
     );
@@ -373,7 +227,7 @@ const Consentimientos: React.FC = () => {
   return (
     <div className="space-y-6">
       <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-6">
-        <h1 className="text-2xl font-bold text-gray-800 mb-4 md:mb-0">Consentimientos Activos</h1>
+        <h1 className="text-2xl font-bold text-gray-800 mb-4 md:mb-0">{esArtista ? 'Mis Clientes' : 'Consentimientos Activos'}</h1>
         
         <div className="flex items-center gap-2">
           <button
@@ -463,6 +317,7 @@ const Consentimientos: React.FC = () => {
           
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             {/* Filtro por artista */}
+            {!esArtista && (
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 <div className="flex items-center">
@@ -484,6 +339,7 @@ const Consentimientos: React.FC = () => {
                   ))}
               </select>
             </div>
+            )}
             
             {/* Filtro por fechas */}
             <div>
@@ -638,6 +494,7 @@ const Consentimientos: React.FC = () => {
                         <div>
                           <div className="text-sm font-medium text-gray-900">
                             {consentimiento.cliente.nombre} {consentimiento.cliente.apellidos}
+                            <BadgeRiesgo nivel={consentimiento.nivelRiesgo} className="ml-2" />
                           </div>
                           <div className="text-sm text-gray-500">
                             {consentimiento.cliente.email}
@@ -673,7 +530,7 @@ const Consentimientos: React.FC = () => {
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                       <div className="flex justify-end space-x-2">
                         <Link 
-                          to={`/admin/consentimientos/${consentimiento.id}`}
+                          to={`${rutaBase}/consentimientos/${consentimiento.id}`}
                           className="text-teal-600 hover:text-teal-900"
                           title="Ver detalles"
                         >
@@ -686,6 +543,7 @@ const Consentimientos: React.FC = () => {
                         >
                           <Download size={18} />
                         </button>
+                        {puedeAcceder(currentUser, 'archivar') && (
                         <button
                           onClick={() => handleArchivar(consentimiento.id)}
                           disabled={archivandoId === consentimiento.id}
@@ -702,6 +560,7 @@ const Consentimientos: React.FC = () => {
                             <Archive size={18} />
                           )}
                         </button>
+                        )}
                       </div>
                     </td>
                   </tr>
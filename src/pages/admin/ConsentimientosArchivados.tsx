@@ -4,32 +4,12 @@ import { useConsentimientos } from '../../contexts/ConsentimientosContext';
 import { format, parseISO, isWithinInterval, subDays, startOfDay, endOfDay } from 'date-fns';
 import { es } from 'date-fns/locale';
 import { Search, Eye, Download, Filter, Calendar, User, X, FileDown } from 'lucide-react';
-import { jsPDF } from 'jspdf';
-import { formatRut } from '../../utils/formatters';
+import { generatePDF, nombreArchivoConsentimiento } from '../../utils/pdfGenerator';
 import { useConfig } from '../../contexts/ConfigContext';
 import ErrorMessageSupabase from '../../components/ErrorMessageSupabase';
 import { objectsToCsv, downloadCsv, getFormattedDateForFilename } from '../../utils/csvExport';
-
-// Lista fija de preguntas de salud
-const PREGUNTAS_SALUD = [
-  '¿Comiste en las últimas 4 horas?',
-  '¿Tienes alergias?',
-  '¿Tienes hemofilia?',
-  '¿Has tomado aspirina en los últimos 5 días?',
-  '¿Tienes hepatitis?',
-  '¿Tienes mala cicatrización?',
-  '¿Vives con VIH?',
-  '¿Tienes problemas de salud?',
-  '¿Estás en tratamiento médico?',
-  '¿Tienes tendencia a desmayarte?',
-  '¿Fumas?',
-  '¿Bebes alcohol?',
-  '¿Bebiste en las últimas 3 horas?',
-  '¿Consumes drogas?',
-  '¿Tienes problemas dermatológicos?',
-  '¿Tu piel produce queloides?',
-  '¿Es tu primer tatuaje?'
-];
+import { registrarEventoAuditoria } from '../../lib/auditoria';
+import { descargarPdfFirmado } from '../../lib/documentos';
 
 const ConsentimientosArchivados: React.FC = () => {
   const { consentimientosArchivados, connectionError } = useConsentimientos();
@@ -105,7 +85,8 @@ const ConsentimientosArchivados: React.FC = () => {
         nombreCompleto.includes(searchString) ||
         consentimiento.cliente.rut.toLowerCase().includes(searchString) ||
         consentimiento.cliente.email.toLowerCase().includes(searchString) ||
-        consentimiento.codigo.toLowerCase().includes(searchString);
+        consentimiento.codigo.toLowerCase().includes(searchString) ||
+        !!consentimiento.codigoOriginal?.toLowerCase().includes(searchString);
       
       // Filtro por artista
       const matchesArtista = filtroArtista === '' || consentimiento.artistaSeleccionado === filtroArtista;
@@ -124,171 +105,40 @@ const ConsentimientosArchivados: React.FC = () => {
   );
   
   // Generar PDF
-  const generarPDF = (consentimiento: any) => {
-    const pdf = new jsPDF();
-    const margen = 20;
-    let y = margen;
-    
-    // Configuraciones
-    pdf.setFontSize(18);
-    pdf.setFont('helvetica', 'bold');
-    
-    // Titulo y datos del estudio
-    pdf.text(`${config.nombreEstudio}`, 105, y, { align: 'center' });
-    y += 8;
-    pdf.setFontSize(12);
-    pdf.setFont('helvetica', 'normal');
-    pdf.text(`${config.direccionEstudio}`, 105, y, { align: 'center' });
-    y += 15;
-    
-    // Información del formulario
-    pdf.setFontSize(14);
-    pdf.setFont('helvetica', 'bold');
-    pdf.text('FORMULARIO DE CONSENTIMIENTO PARA TATUAJE', 105, y, { align: 'center' });
-    y += 10;
-    
-    // Fecha
-    pdf.setFontSize(10);
-    pdf.setFont('helvetica', 'normal');
-    pdf.text(`Fecha: ${format(parseISO(consentimiento.fechaCreacion), 'dd/MM/yyyy')}`, margen, y);
-    y += 10;
-    
-    // Datos del cliente
-    pdf.setFontSize(12);
-    pdf.setFont('helvetica', 'bold');
-    pdf.text('DATOS DEL CLIENTE', margen, y);
-    y += 7;
-    
-    pdf.setFontSize(10);
-    pdf.setFont('helvetica', 'normal');
-    pdf.text(`Nombre: ${consentimiento.cliente.nombre} ${consentimiento.cliente.apellidos}`, margen, y);
-    y += 5;
-    pdf.text(`RUT/Pasaporte: ${formatRut(consentimiento.cliente.rut)}`, margen, y);
-    y += 5;
-    pdf.text(`Edad: ${consentimiento.cliente.edad} años`, margen, y);
-    y += 5;
-    pdf.text(`Fecha de Nacimiento: ${format(new Date(consentimiento.cliente.fechaNacimiento), 'dd/MM/yyyy')}`, margen, y);
-    y += 5;
-    pdf.text(`Dirección: ${consentimiento.cliente.direccion.calle}, ${consentimiento.cliente.direccion.comuna}, ${consentimiento.cliente.direccion.region}`, margen, y);
-    y += 5;
-    pdf.text(`Teléfono: ${consentimiento.cliente.telefono}`, margen, y);
-    y += 5;
-    pdf.text(`Email: ${consentimiento.cliente.email}`, margen, y);
-    y += 10;
-    
-    // Datos del tutor si es menor de edad
-    if (consentimiento.cliente.edad < 18 && consentimiento.tutor) {
-      pdf.setFontSize(12);
-      pdf.setFont('helvetica', 'bold');
-      pdf.text('DATOS DEL TUTOR LEGAL', margen, y);
-      y += 7;
-      
-      pdf.setFontSize(10);
-      pdf.setFont('helvetica', 'normal');
-      pdf.text(`Nombre: ${consentimiento.tutor.nombre}`, margen, y);
-      y += 5;
-      pdf.text(`RUT: ${formatRut(consentimiento.tutor.rut)}`, margen, y);
-      y += 5;
-      const parentescoTexto = consentimiento.tutor.parentesco === 'Otro' 
-        ? `${consentimiento.tutor.parentesco} (${consentimiento.tutor.otroParentesco})` 
-        : consentimiento.tutor.parentesco;
-      pdf.text(`Parentesco: ${parentescoTexto}`, margen, y);
-      y += 10;
-    }
-    
-    // Artista seleccionado
-    pdf.setFontSize(12);
-    pdf.setFont('helvetica', 'bold');
-    pdf.text('ARTISTA A CARGO', margen, y);
-    y += 7;
-    
-    pdf.setFontSize(10);
-    pdf.setFont('helvetica', 'normal');
-    pdf.text(`Artista: ${consentimiento.artistaSeleccionado}`, margen, y);
-    y += 10;
-    
-    // Información de salud
-    pdf.setFontSize(12);
-    pdf.setFont('helvetica', 'bold');
-    pdf.text('INFORMACIÓN DE SALUD', margen, y);
-    y += 7;
-    
-    pdf.setFontSize(10);
-    pdf.setFont('helvetica', 'normal');
-    
-    // Mostrar preguntas de salud con sus respuestas
-    const infoSalud = consentimiento.informacionSalud || {};
-    
-    PREGUNTAS_SALUD.forEach((pregunta, index) => {
-      const infoRespuesta = infoSalud[index] || {};
-      const respuesta = infoRespuesta.respuesta ? 'Sí' : 'No';
-      const infoAdicional = infoRespuesta.informacionAdicional || '';
-      
-      let textoRespuesta = `${pregunta}: ${respuesta}`;
-      if (infoAdicional) {
-        textoRespuesta += ` (${infoAdicional})`;
-      }
-      
-      // Verificar si hay espacio suficiente en la página actual, sino crear nueva
-      if (y > 270) {
-        pdf.addPage();
-        y = margen;
-      }
-      
-      const lineasRespuesta = pdf.splitTextToSize(textoRespuesta, 170);
-      pdf.text(lineasRespuesta, margen, y);
-      y += lineasRespuesta.length * 5;
-    });
-    
-    // Nueva página para el consentimiento y firma
-    pdf.addPage();
-    y = margen;
-    
-    // Texto de consentimiento
-    pdf.setFontSize(12);
-    pdf.setFont('helvetica', 'bold');
-    pdf.text('CONSENTIMIENTO GENERAL', margen, y);
-    y += 7;
-    
-    pdf.setFontSize(10);
-    pdf.setFont('helvetica', 'normal');
-    
-    const textoConsentimiento = config.textoConsentimiento
-      .replace('{Nombre Cliente}', `${consentimiento.cliente.nombre} ${consentimiento.cliente.apellidos}`)
-      .replace(/{Nombre Estudio}/g, config.nombreEstudio);
-      
-    const lineasConsentimiento = pdf.splitTextToSize(textoConsentimiento, 170);
-    pdf.text(lineasConsentimiento, margen, y);
-    y += lineasConsentimiento.length * 5 + 10;
-    
-    // Firma
-    if (consentimiento.firma) {
-      pdf.setFontSize(12);
-      pdf.setFont('helvetica', 'bold');
-      pdf.text('FIRMA DEL CLIENTE', margen, y);
-      y += 7;
-      
-      // Añadir la imagen de la firma
+  const generarPDF = async (consentimiento: any) => {
+    // PDF archivado al firmar; los consentimientos anteriores se generan con la configuración actual
+    if (consentimiento.rutaPdfFirmado) {
       try {
-        pdf.addImage(consentimiento.firma, 'PNG', margen, y, 50, 20);
-        y += 25;
-        
-        pdf.setFontSize(10);
-        pdf.setFont('helvetica', 'normal');
-        pdf.text(`Fecha: ${format(parseISO(consentimiento.fechaCreacion), 'dd/MM/yyyy')}`, margen, y);
-      } catch (e) {
-        console.error('Error al añadir la firma al PDF:', e);
-        pdf.text('Error al cargar la firma', margen, y);
+        await descargarPdfFirmado(consentimiento);
+      } catch (error) {
+        console.error('Error al descargar el PDF:', error);
+        alert('No se pudo descargar el PDF. Por favor, inténtalo de nuevo.');
       }
+      return;
     }
     
-    // Guardar el PDF
-    pdf.save(`consentimiento_${consentimiento.cliente.nombre}_${format(parseISO(consentimiento.fechaCreacion), 'yyyyMMdd')}.pdf`);
+    generatePDF(consentimiento, config).save(nombreArchivoConsentimiento(consentimiento));
+    
+    registrarEventoAuditoria({
+      accion: 'consentimiento.generar_pdf',
+      entidad: 'consentimiento',
+      entidadId: consentimiento.id
+    });
   };
 
   // Exportar datos de clientes a CSV
   const exportarClientesCSV = () => {
     // Preparar los datos para exportar (solo los campos solicitados)
+    registrarEventoAuditoria({
+      accion: 'consentimiento.exportar_csv',
+      entidad: 'consentimiento',
+      diff: {
+        archivados: true,
+        totalRegistros: filteredConsentimientos.length,
+        consentimientos: filteredConsentimientos.map(c => c.id)
+      }
+    });
+    
     const datosClientes = filteredConsentimientos.map(consentimiento => ({
       nombre: consentimiento.cliente.nombre,
       apellidos: consentimiento.cliente.apellidos,
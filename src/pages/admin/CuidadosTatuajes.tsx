@@ -4,13 +4,26 @@ import { Save, X } from 'lucide-react';
 import ErrorMessageSupabase from '../../components/ErrorMessageSupabase';
 
 const CuidadosTatuajes: React.FC = () => {
-  const { config, updateConfig, connectionError, retryConnection } = useConfig();
+  const { config, updateTipoProcedimiento, connectionError, retryConnection } = useConfig();
+  
+  // Cada tipo de procedimiento tiene sus propias instrucciones de cuidado
+  const [tipoId, setTipoId] = useState(config.tiposProcedimiento[0]?.id ?? '');
+  const tipoProcedimiento = config.tiposProcedimiento.find(tipo => tipo.id === tipoId);
   
   const [formState, setFormState] = useState({
-    creamAftercare: config.creamAftercare,
-    patchAftercare: config.patchAftercare
+    creamAftercare: tipoProcedimiento?.creamAftercare ?? '',
+    patchAftercare: tipoProcedimiento?.patchAftercare ?? ''
   });
   
+  const handleTipoChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const tipo = config.tiposProcedimiento.find(t => t.id === e.target.value);
+    setTipoId(e.target.value);
+    setFormState({
+      creamAftercare: tipo?.creamAftercare ?? '',
+      patchAftercare: tipo?.patchAftercare ?? ''
+    });
+  };
+  
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'success' | 'error'>('idle');
   const [errorMessage, setErrorMessage] = useState<string>('');
   
@@ -29,7 +42,11 @@ const CuidadosTatuajes: React.FC = () => {
       setSaveStatus('saving');
       setErrorMessage('');
       
-      await updateConfig(formState);
+      if (!tipoProcedimiento) {
+        throw new Error('Selecciona un procedimiento');
+      }
+      
+      await updateTipoProcedimiento(tipoProcedimiento.id, formState);
       
       setSaveStatus('success');
       
@@ -37,7 +54,7 @@ const CuidadosTatuajes: React.FC = () => {
         setSaveStatus('idle');
       }, 3000);
     } catch (error) {
-      console.error('Error al guardar los cuidados del tatuaje:', error);
+      console.error('Error al guardar los cuidados posteriores:', error);
       setErrorMessage(error instanceof Error ? error.message : 'Error desconocido al guardar');
       setSaveStatus('error');
       
@@ -50,7 +67,7 @@ const CuidadosTatuajes: React.FC = () => {
   if (connectionError) {
     return (
       <div className="space-y-6">
-        <h2 className="text-xl font-semibold text-gray-800">Cuidados del Tatuaje</h2>
+        <h2 className="text-xl font-semibold text-gray-800">Cuidados Posteriores</h2>
         <ErrorMessageSupabase 
           errorMessage="No se pudo establecer conexión con la base de datos."
           onRetry={retryConnection}
@@ -63,7 +80,7 @@ const CuidadosTatuajes: React.FC = () => {
   return (
     <div className="space-y-6">
       <div className="flex flex-col sm:flex-row justify-between items-center mb-6">
-        <h2 className="text-xl font-semibold text-gray-800">Cuidados del Tatuaje</h2>
+        <h2 className="text-xl font-semibold text-gray-800">Cuidados Posteriores</h2>
         
         {saveStatus === 'success' && (
           <div className="px-3 py-1 bg-green-100 text-green-800 rounded-md text-sm">
@@ -80,12 +97,31 @@ const CuidadosTatuajes: React.FC = () => {
       
       <form onSubmit={handleSubmit}>
         <div className="space-y-6">
+          <div>
+            <label htmlFor="tipoProcedimiento" className="block text-sm font-medium text-gray-700 mb-1">
+              Procedimiento
+            </label>
+            <select
+              id="tipoProcedimiento"
+              value={tipoId}
+              onChange={handleTipoChange}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500"
+            >
+              {config.tiposProcedimiento.map(tipo => (
+                <option key={tipo.id} value={tipo.id}>{tipo.nombre}</option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500">
+              Deja un método vacío si no aplica a este procedimiento: no se ofrecerá en el formulario.
+            </p>
+          </div>
+          
           <div className="bg-gray-50 p-4 rounded-md">
             <h3 className="text-lg font-medium text-gray-800 mb-4">Cuidados con Crema</h3>
             
             <div>
               <p className="text-sm text-gray-500 mb-2">
-                Instrucciones para el cuidado de tatuajes con método de crema. Puedes usar formato de texto con saltos de línea.
+                Instrucciones para el cuidado con método de crema. Puedes usar formato de texto con saltos de línea.
               </p>
               <textarea
                 id="creamAftercare"
@@ -103,7 +139,7 @@ const CuidadosTatuajes: React.FC = () => {
             
             <div>
               <p className="text-sm text-gray-500 mb-2">
-                Instrucciones para el cuidado de tatuajes con método de parche Second Skin. Puedes usar formato de texto con saltos de línea.
+                Instrucciones para el cuidado con método de parche Second Skin. Puedes usar formato de texto con saltos de línea.
               </p>
               <textarea
                 id="patchAftercare"
@@ -120,8 +156,8 @@ const CuidadosTatuajes: React.FC = () => {
             <button
               type="button"
               onClick={() => setFormState({
-                creamAftercare: config.creamAftercare,
-                patchAftercare: config.patchAftercare
+                creamAftercare: tipoProcedimiento?.creamAftercare ?? '',
+                patchAftercare: tipoProcedimiento?.patchAftercare ?? ''
               })}
               className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none"
               disabled={saveStatus === 'saving'}
@@ -4,7 +4,7 @@ import { useAuth } from '../../contexts/AuthContext';
 import { Palette, Key, ArrowLeft } from 'lucide-react';
 
 const Login: React.FC = () => {
-  const [username, setUsername] = useState('');
+  const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
@@ -17,14 +17,16 @@ const Login: React.FC = () => {
     setLoading(true);
 
     try {
-      const success = await login(username, password);
+      const success = await login(email, password);
       if (success) {
         navigate('/admin');
       } else {
         setError('Credenciales incorrectas. Por favor intenta de nuevo.');
       }
     } catch (err) {
-      setError('Error al iniciar sesión. Por favor intenta de nuevo.');
+      setError(err instanceof Error && err.message
+        ? err.message
+        : 'Error al iniciar sesión. Por favor intenta de nuevo.');
       console.error('Error de login:', err);
     }
 
@@ -52,17 +54,18 @@ const Login: React.FC = () => {
 
         <form onSubmit={handleSubmit}>
           <div className="mb-4">
-            <label htmlFor="username" className="block text-gray-700 font-medium mb-2">
-              Usuario
+            <label htmlFor="email" className="block text-gray-700 font-medium mb-2">
+              Correo electrónico
             </label>
             <div className="relative">
               <input
-                id="username"
-                type="text"
-                value={username}
-                onChange={(e) => setUsername(e.target.value)}
+                id="email"
+                type="email"
+                autoComplete="username"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 pl-10"
-                placeholder="Ingresa tu usuario"
+                placeholder="Ingresa tu correo"
                 required
               />
               <div className="absolute left-3 top-2.5 text-gray-400">
@@ -81,6 +84,7 @@ const Login: React.FC = () => {
               <input
                 id="password"
                 type="password"
+                autoComplete="current-password"
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 pl-10"
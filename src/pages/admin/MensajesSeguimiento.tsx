@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import { useConfig } from '../../contexts/ConfigContext';
+import { Save, X } from 'lucide-react';
+import ErrorMessageSupabase from '../../components/ErrorMessageSupabase';
+import { CanalSeguimiento, PasoSeguimiento } from '../../types';
+import { PASOS_SEGUIMIENTO, NOMBRES_CANAL_SEGUIMIENTO, VARIABLES_SEGUIMIENTO } from '../../lib/seguimientos';
+
+const MensajesSeguimiento: React.FC = () => {
+  const { config, updateConfig, updateTipoProcedimiento, connectionError } = useConfig();
+
+  // Cada tipo de procedimiento tiene sus propios mensajes; el canal es el mismo para todos
+  const [tipoId, setTipoId] = useState(config.tiposProcedimiento[0]?.id ?? '');
+  const tipoProcedimiento = config.tiposProcedimiento.find(tipo => tipo.id === tipoId);
+
+  const estadoInicial = (tipo = tipoProcedimiento) => ({
+    mensajesSeguimiento: { ...tipo?.mensajesSeguimiento },
+    canalSeguimiento: config.canalSeguimiento || 'email' as CanalSeguimiento
+  });
+
+  const [formState, setFormState] = useState(() => estadoInicial());
+
+  const handleTipoChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setTipoId(e.target.value);
+    setFormState(estadoInicial(config.tiposProcedimiento.find(t => t.id === e.target.value)));
+  };
+
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'success' | 'error'>('idle');
+  const [errorMessage, setErrorMessage] = useState<string>('');
+
+  const handleMensajeChange = (paso: PasoSeguimiento, valor: string) => {
+    setFormState(prev => ({
+      ...prev,
+      mensajesSeguimiento: { ...prev.mensajesSeguimiento, [paso]: valor }
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaveStatus('saving');
+      setErrorMessage('');
+
+      if (!tipoProcedimiento) {
+        throw new Error('Selecciona un procedimiento');
+      }
+
+      await updateTipoProcedimiento(tipoProcedimiento.id, { mensajesSeguimiento: formState.mensajesSeguimiento });
+      if (formState.canalSeguimiento !== config.canalSeguimiento) {
+        await updateConfig({ canalSeguimiento: formState.canalSeguimiento });
+      }
+
+      setSaveStatus('success');
+
+      setTimeout(() => {
+        setSaveStatus('idle');
+      }, 3000);
+    } catch (error) {
+      console.error('Error al guardar los mensajes de seguimiento:', error);
+      setErrorMessage(error instanceof Error ? error.message : 'Error desconocido al guardar');
+      setSaveStatus('error');
+
+      setTimeout(() => {
+        setSaveStatus('idle');
+      }, 5000);
+    }
+  };
+
+  if (connectionError) {
+    return (
+      <div className="space-y-6">
+        <h2 className="text-xl font-semibold text-gray-800">Mensajes de Seguimiento</h2>
+        <ErrorMessageSupabase />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-center mb-6">
+        <h2 className="text-xl font-semibold text-gray-800">Mensajes de Seguimiento</h2>
+
+        {saveStatus === 'success' && (
+          <div className="px-3 py-1 bg-green-100 text-green-800 rounded-md text-sm">
+            Mensajes de seguimiento guardados correctamente
+          </div>
+        )}
+
+        {saveStatus === 'error' && (
+          <div className="px-3 py-1 bg-red-100 text-red-800 rounded-md text-sm">
+            Error al guardar los mensajes: {errorMessage}
+          </div>
+        )}
+      </div>
+
+      <p className="text-sm text-gray-500">
+        Mensajes que recibe el cliente después de su sesión. Puedes usar las variables{' '}
+        {VARIABLES_SEGUIMIENTO.map((variable, index) => (
+          <React.Fragment key={variable}>
+            {index > 0 && ', '}
+            <code className="px-1 bg-gray-100 rounded">{variable}</code>
+          </React.Fragment>
+        ))}
+        . Deja un mensaje vacío para no enviarlo. Los cambios se aplican a los consentimientos que se firmen desde ahora.
+      </p>
+
+      <form onSubmit={handleSubmit}>
+        <div className="space-y-6">
+          <div className="bg-gray-50 p-4 rounded-md">
+            <label htmlFor="canalSeguimiento" className="block text-lg font-medium text-gray-800 mb-2">
+              Canal de envío
+            </label>
+            <select
+              id="canalSeguimiento"
+              value={formState.canalSeguimiento}
+              onChange={(e) => setFormState(prev => ({ ...prev, canalSeguimiento: e.target.value as CanalSeguimiento }))}
+              className="w-full sm:w-64 px-3 py-2 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500"
+            >
+              {(Object.keys(NOMBRES_CANAL_SEGUIMIENTO) as CanalSeguimiento[]).map(canal => (
+                <option key={canal} value={canal}>{NOMBRES_CANAL_SEGUIMIENTO[canal]}</option>
+              ))}
+            </select>
+            <p className="text-sm text-gray-500 mt-2">
+              Si el cliente no registró un correo o un teléfono para el canal elegido, el mensaje queda como fallido.
+            </p>
+            {formState.canalSeguimiento === 'whatsapp' && (
+              <p className="text-sm text-gray-500 mt-1">
+                WhatsApp solo envía plantillas aprobadas: el servidor necesita un proveedor configurado y una plantilla
+                con una variable para el texto. Sin ellos, los mensajes quedan como fallidos.
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="tipoProcedimiento" className="block text-sm font-medium text-gray-700 mb-1">
+              Procedimiento
+            </label>
+            <select
+              id="tipoProcedimiento"
+              value={tipoId}
+              onChange={handleTipoChange}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500"
+            >
+              {config.tiposProcedimiento.map(tipo => (
+                <option key={tipo.id} value={tipo.id}>{tipo.nombre}</option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500">
+              Los clientes reciben los mensajes del procedimiento que firmaron.
+            </p>
+          </div>
+
+          {(Object.keys(PASOS_SEGUIMIENTO) as PasoSeguimiento[]).map(paso => (
+            <div key={paso} className="bg-gray-50 p-4 rounded-md">
+              <h3 className="text-lg font-medium text-gray-800 mb-4">{PASOS_SEGUIMIENTO[paso]}</h3>
+              <textarea
+                id={`seguimiento_${paso}`}
+                value={formState.mensajesSeguimiento[paso] || ''}
+                onChange={(e) => handleMensajeChange(paso, e.target.value)}
+                rows={4}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500 text-sm"
+              />
+            </div>
+          ))}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => setFormState(estadoInicial())}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none"
+              disabled={saveStatus === 'saving'}
+            >
+              <X size={16} className="mr-2" />
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              disabled={saveStatus === 'saving'}
+              className={`inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-teal-600 hover:bg-teal-700 focus:outline-none ${
+                saveStatus === 'saving' ? 'opacity-70 cursor-not-allowed' : ''
+              }`}
+            >
+              {saveStatus === 'saving' ? (
+                <>
+                  <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                  </svg>
+                  Guardando...
+                </>
+              ) : (
+                <>
+                  <Save size={16} className="mr-2" />
+                  Guardar Cambios
+                </>
+              )}
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default MensajesSeguimiento;
@@ -1,18 +1,60 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useConfig } from '../../contexts/ConfigContext';
-import { Plus, Edit, Trash2, Save, X } from 'lucide-react';
+import { Plus, Edit, Archive, Save, X, GripVertical, RotateCcw } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { NivelRiesgo, PreguntaSalud } from '../../types';
+import { NOMBRES_NIVEL_RIESGO } from '../../utils/preguntasSalud';
+import BadgeRiesgo from '../../components/BadgeRiesgo';
 
 const PreguntasSalud: React.FC = () => {
-  const { config, addPreguntaSalud, updatePreguntaSalud, removePreguntaSalud } = useConfig();
+  const {
+    config,
+    addPreguntaSalud,
+    updatePreguntaSalud,
+    archivePreguntaSalud,
+    restorePreguntaSalud,
+    reorderPreguntasSalud,
+    getPreguntasSaludArchivadas
+  } = useConfig();
   
   const [showForm, setShowForm] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   
+  // Arrastrar y soltar para ordenar
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dragOverId, setDragOverId] = useState<string | null>(null);
+  
+  // Preguntas archivadas
+  const [showArchivadas, setShowArchivadas] = useState(false);
+  const [archivadas, setArchivadas] = useState<PreguntaSalud[]>([]);
+  const [loadingArchivadas, setLoadingArchivadas] = useState(false);
+  
+  const cargarArchivadas = useCallback(async () => {
+    setLoadingArchivadas(true);
+    try {
+      setArchivadas(await getPreguntasSaludArchivadas());
+    } catch (error) {
+      console.error('Error al cargar preguntas archivadas:', error);
+    } finally {
+      setLoadingArchivadas(false);
+    }
+  }, [getPreguntasSaludArchivadas]);
+  
+  useEffect(() => {
+    if (showArchivadas) {
+      cargarArchivadas();
+    }
+  }, [showArchivadas, cargarArchivadas]);
+  
   const [newPregunta, setNewPregunta] = useState({
     pregunta: '',
     respuestaPorDefecto: false,
     mostrarCampoAdicional: false,
-    campoAdicionalSoloSi: false
+    campoAdicionalSoloSi: false,
+    nivelRiesgo: 'none' as NivelRiesgo,
+    respuestaRiesgo: true,
+    mensajeRiesgo: '',
+    tipoProcedimientoId: ''
   });
   
   const [editPregunta, setEditPregunta] = useState({
@@ -20,7 +62,11 @@ const PreguntasSalud: React.FC = () => {
     pregunta: '',
     respuestaPorDefecto: false,
     mostrarCampoAdicional: false,
-    campoAdicionalSoloSi: false
+    campoAdicionalSoloSi: false,
+    nivelRiesgo: 'none' as NivelRiesgo,
+    respuestaRiesgo: true,
+    mensajeRiesgo: '',
+    tipoProcedimientoId: ''
   });
   
   const handleShowForm = () => {
@@ -29,7 +75,11 @@ const PreguntasSalud: React.FC = () => {
       pregunta: '',
       respuestaPorDefecto: false,
       mostrarCampoAdicional: false,
-      campoAdicionalSoloSi: false
+      campoAdicionalSoloSi: false,
+      nivelRiesgo: 'none',
+      respuestaRiesgo: true,
+      mensajeRiesgo: '',
+      tipoProcedimientoId: ''
     });
   };
   
@@ -39,27 +89,31 @@ const PreguntasSalud: React.FC = () => {
       pregunta: '',
       respuestaPorDefecto: false,
       mostrarCampoAdicional: false,
-      campoAdicionalSoloSi: false
+      campoAdicionalSoloSi: false,
+      nivelRiesgo: 'none',
+      respuestaRiesgo: true,
+      mensajeRiesgo: '',
+      tipoProcedimientoId: ''
     });
   };
   
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value, type } = e.target;
     const checked = (e.target as HTMLInputElement).checked;
     
     setNewPregunta(prev => ({
       ...prev,
-      [name]: type === 'checkbox' ? checked : value
+      [name]: type === 'checkbox' ? checked : name === 'respuestaRiesgo' ? value === 'true' : value
     }));
   };
   
-  const handleEditInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  const handleEditInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value, type } = e.target;
     const checked = (e.target as HTMLInputElement).checked;
     
     setEditPregunta(prev => ({
       ...prev,
-      [name]: type === 'checkbox' ? checked : value
+      [name]: type === 'checkbox' ? checked : name === 'respuestaRiesgo' ? value === 'true' : value
     }));
   };
   
@@ -72,17 +126,18 @@ const PreguntasSalud: React.FC = () => {
     }
     
     try {
-      await addPreguntaSalud({
-        id: `pregunta_${Date.now()}`,
-        ...newPregunta
-      });
+      await addPreguntaSalud(newPregunta);
       
       setShowForm(false);
       setNewPregunta({
         pregunta: '',
         respuestaPorDefecto: false,
         mostrarCampoAdicional: false,
-        campoAdicionalSoloSi: false
+        campoAdicionalSoloSi: false,
+        nivelRiesgo: 'none',
+        respuestaRiesgo: true,
+        mensajeRiesgo: '',
+        tipoProcedimientoId: ''
       });
     } catch (error) {
       console.error('Error al añadir pregunta:', error);
@@ -97,7 +152,11 @@ const PreguntasSalud: React.FC = () => {
       pregunta: pregunta.pregunta,
       respuestaPorDefecto: pregunta.respuestaPorDefecto,
       mostrarCampoAdicional: pregunta.mostrarCampoAdicional,
-      campoAdicionalSoloSi: pregunta.campoAdicionalSoloSi
+      campoAdicionalSoloSi: pregunta.campoAdicionalSoloSi,
+      nivelRiesgo: pregunta.nivelRiesgo || 'none',
+      respuestaRiesgo: pregunta.respuestaRiesgo ?? true,
+      mensajeRiesgo: pregunta.mensajeRiesgo || '',
+      tipoProcedimientoId: pregunta.tipoProcedimientoId || ''
     });
   };
   
@@ -116,7 +175,11 @@ const PreguntasSalud: React.FC = () => {
         pregunta: editPregunta.pregunta,
         respuestaPorDefecto: editPregunta.respuestaPorDefecto,
         mostrarCampoAdicional: editPregunta.mostrarCampoAdicional,
-        campoAdicionalSoloSi: editPregunta.campoAdicionalSoloSi
+        campoAdicionalSoloSi: editPregunta.campoAdicionalSoloSi,
+        nivelRiesgo: editPregunta.nivelRiesgo,
+        respuestaRiesgo: editPregunta.respuestaRiesgo,
+        mensajeRiesgo: editPregunta.mensajeRiesgo,
+        tipoProcedimientoId: editPregunta.tipoProcedimientoId
       });
       
       setEditingId(null);
@@ -126,21 +189,84 @@ const PreguntasSalud: React.FC = () => {
     }
   };
   
-  const handleDelete = async (id: string) => {
-    if (window.confirm('¿Estás seguro de que deseas eliminar esta pregunta?')) {
+  const handleArchive = async (id: string) => {
+    if (window.confirm('¿Deseas archivar esta pregunta? Dejará de mostrarse en el formulario, pero los consentimientos ya firmados conservarán la pregunta tal como se respondió.')) {
       try {
-        await removePreguntaSalud(id);
+        await archivePreguntaSalud(id);
+        if (showArchivadas) {
+          cargarArchivadas();
+        }
       } catch (error) {
-        console.error('Error al eliminar pregunta:', error);
-        alert('Error al eliminar pregunta');
+        console.error('Error al archivar pregunta:', error);
+        alert('Error al archivar pregunta');
       }
     }
   };
+  
+  const handleRestore = async (id: string) => {
+    try {
+      await restorePreguntaSalud(id);
+      setArchivadas(prev => prev.filter(p => p.id !== id));
+    } catch (error) {
+      console.error('Error al restaurar pregunta:', error);
+      alert('Error al restaurar pregunta');
+    }
+  };
+  
+  // Sin tipo, la pregunta se hace en todos los procedimientos
+  const nombreTipo = (tipoProcedimientoId?: string | null) =>
+    config.tiposProcedimiento.find(tipo => tipo.id === tipoProcedimientoId)?.nombre;
+  
+  const handleDragStart = (e: React.DragEvent<HTMLTableRowElement>, id: string) => {
+    setDraggingId(id);
+    e.dataTransfer.effectAllowed = 'move';
+  };
+  
+  const handleDragOver = (e: React.DragEvent<HTMLTableRowElement>, id: string) => {
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    if (dragOverId !== id) {
+      setDragOverId(id);
+    }
+  };
+  
+  const handleDragEnd = () => {
+    setDraggingId(null);
+    setDragOverId(null);
+  };
+  
+  const handleDrop = async (e: React.DragEvent<HTMLTableRowElement>, destinoId: string) => {
+    e.preventDefault();
+    const origenId = draggingId;
+    handleDragEnd();
+    
+    if (!origenId || origenId === destinoId) return;
+    
+    const ids = config.preguntasSalud.map(p => p.id);
+    const desde = ids.indexOf(origenId);
+    const hasta = ids.indexOf(destinoId);
+    if (desde === -1 || hasta === -1) return;
+    
+    ids.splice(desde, 1);
+    ids.splice(hasta, 0, origenId);
+    
+    try {
+      await reorderPreguntasSalud(ids);
+    } catch (error) {
+      console.error('Error al reordenar preguntas:', error);
+      alert('Error al guardar el orden de las preguntas');
+    }
+  };
 
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center mb-6">
-        <h2 className="text-xl font-semibold text-gray-800">Gestión de Preguntas de Salud</h2>
+        <div>
+          <h2 className="text-xl font-semibold text-gray-800">Gestión de Preguntas de Salud</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Arrastra las preguntas para cambiar el orden en que aparecen en el formulario.
+          </p>
+        </div>
         
         <button
           onClick={handleShowForm}
@@ -172,6 +298,24 @@ const PreguntasSalud: React.FC = () => {
                 />
               </div>
               
+              <div>
+                <label htmlFor="tipoProcedimientoId" className="block text-sm font-medium text-gray-700 mb-1">
+                  Aplica a
+                </label>
+                <select
+                  id="tipoProcedimientoId"
+                  name="tipoProcedimientoId"
+                  value={newPregunta.tipoProcedimientoId}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500"
+                >
+                  <option value="">Todos los procedimientos</option>
+                  {config.tiposProcedimiento.map(tipo => (
+                    <option key={tipo.id} value={tipo.id}>{tipo.nombre}</option>
+                  ))}
+                </select>
+              </div>
+              
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <div>
                   <label className="flex items-center cursor-pointer">
@@ -219,6 +363,58 @@ const PreguntasSalud: React.FC = () => {
                   </label>
                 </div>
               </div>
+              
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label htmlFor="nivelRiesgo" className="block text-sm font-medium text-gray-700 mb-1">
+                    Regla de riesgo
+                  </label>
+                  <select
+                    id="nivelRiesgo"
+                    name="nivelRiesgo"
+                    value={newPregunta.nivelRiesgo}
+                    onChange={handleInputChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500"
+                  >
+                    {(Object.keys(NOMBRES_NIVEL_RIESGO) as NivelRiesgo[]).map(nivel => (
+                      <option key={nivel} value={nivel}>{NOMBRES_NIVEL_RIESGO[nivel]}</option>
+                    ))}
+                  </select>
+                </div>
+                
+                <div>
+                  <label htmlFor="respuestaRiesgo" className="block text-sm font-medium text-gray-700 mb-1">
+                    Se activa si la respuesta es
+                  </label>
+                  <select
+                    id="respuestaRiesgo"
+                    name="respuestaRiesgo"
+                    value={String(newPregunta.respuestaRiesgo)}
+                    onChange={handleInputChange}
+                    disabled={newPregunta.nivelRiesgo === 'none'}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500 disabled:opacity-50"
+                  >
+                    <option value="true">Sí</option>
+                    <option value="false">No</option>
+                  </select>
+                </div>
+                
+                <div>
+                  <label htmlFor="mensajeRiesgo" className="block text-sm font-medium text-gray-700 mb-1">
+                    Mensaje
+                  </label>
+                  <input
+                    type="text"
+                    id="mensajeRiesgo"
+                    name="mensajeRiesgo"
+                    value={newPregunta.mensajeRiesgo}
+                    onChange={handleInputChange}
+                    disabled={newPregunta.nivelRiesgo === 'none'}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500 disabled:opacity-50"
+                    placeholder="Texto que verá el cliente o el artista"
+                  />
+                </div>
+              </div>
             </div>
             
             <div className="flex justify-end mt-4 space-x-2">
@@ -245,6 +441,9 @@ const PreguntasSalud: React.FC = () => {
           <table className="min-w-full divide-y divide-gray-200">
             <thead className="bg-gray-50">
               <tr>
+                <th scope="col" className="w-10 px-3 py-3">
+                  <span className="sr-only">Ordenar</span>
+                </th>
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Pregunta
                 </th>
@@ -257,6 +456,9 @@ const PreguntasSalud: React.FC = () => {
                 <th scope="col" className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Solo si "Sí"
                 </th>
+                <th scope="col" className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Riesgo
+                </th>
                 <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Acciones
                 </th>
@@ -264,19 +466,58 @@ const PreguntasSalud: React.FC = () => {
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
               {config.preguntasSalud.map((pregunta) => (
-                <tr key={pregunta.id}>
+                <tr
+                  key={pregunta.id}
+                  draggable={editingId === null}
+                  onDragStart={(e) => handleDragStart(e, pregunta.id)}
+                  onDragOver={(e) => handleDragOver(e, pregunta.id)}
+                  onDrop={(e) => handleDrop(e, pregunta.id)}
+                  onDragEnd={handleDragEnd}
+                  className={`${draggingId === pregunta.id ? 'opacity-50' : ''} ${
+                    dragOverId === pregunta.id && draggingId !== pregunta.id ? 'bg-teal-50' : ''
+                  }`}
+                >
+                  <td className="px-3 py-4 text-gray-400">
+                    <GripVertical
+                      size={18}
+                      className={editingId === null ? 'cursor-move' : 'opacity-30'}
+                    />
+                  </td>
                   <td className="px-6 py-4">
                     {editingId === pregunta.id ? (
-                      <textarea
-                        name="pregunta"
-                        value={editPregunta.pregunta}
-                        onChange={handleEditInputChange}
-                        className="w-full px-3 py-1 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500"
-                        rows={2}
-                      />
+                      <div className="space-y-2">
+                        <textarea
+                          name="pregunta"
+                          value={editPregunta.pregunta}
+                          onChange={handleEditInputChange}
+                          className="w-full px-3 py-1 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500"
+                          rows={2}
+                        />
+                        <select
+                          name="tipoProcedimientoId"
+                          value={editPregunta.tipoProcedimientoId}
+                          onChange={handleEditInputChange}
+                          className="w-full px-3 py-1 border border-gray-300 rounded-md text-sm focus:ring-teal-500 focus:border-teal-500"
+                        >
+                          <option value="">Todos los procedimientos</option>
+                          {config.tiposProcedimiento.map(tipo => (
+                            <option key={tipo.id} value={tipo.id}>{tipo.nombre}</option>
+                          ))}
+                        </select>
+                      </div>
                     ) : (
                       <div className="text-sm text-gray-900">
                         {pregunta.pregunta}
+                        {pregunta.version && pregunta.version > 1 && (
+                          <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+                            v{pregunta.version}
+                          </span>
+                        )}
+                        {nombreTipo(pregunta.tipoProcedimientoId) && (
+                          <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-teal-100 text-teal-700">
+                            Solo {nombreTipo(pregunta.tipoProcedimientoId)}
+                          </span>
+                        )}
                       </div>
                     )}
                   </td>
@@ -336,6 +577,52 @@ const PreguntasSalud: React.FC = () => {
                       </span>
                     )}
                   </td>
+                  <td className="px-6 py-4 text-center">
+                    {editingId === pregunta.id ? (
+                      <div className="space-y-1">
+                        <select
+                          name="nivelRiesgo"
+                          value={editPregunta.nivelRiesgo}
+                          onChange={handleEditInputChange}
+                          className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-teal-500 focus:border-teal-500"
+                        >
+                          {(Object.keys(NOMBRES_NIVEL_RIESGO) as NivelRiesgo[]).map(nivel => (
+                            <option key={nivel} value={nivel}>{NOMBRES_NIVEL_RIESGO[nivel]}</option>
+                          ))}
+                        </select>
+                        {editPregunta.nivelRiesgo !== 'none' && (
+                          <>
+                            <select
+                              name="respuestaRiesgo"
+                              value={String(editPregunta.respuestaRiesgo)}
+                              onChange={handleEditInputChange}
+                              className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-teal-500 focus:border-teal-500"
+                            >
+                              <option value="true">Si responde "Sí"</option>
+                              <option value="false">Si responde "No"</option>
+                            </select>
+                            <input
+                              type="text"
+                              name="mensajeRiesgo"
+                              value={editPregunta.mensajeRiesgo}
+                              onChange={handleEditInputChange}
+                              className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-teal-500 focus:border-teal-500"
+                              placeholder="Mensaje"
+                            />
+                          </>
+                        )}
+                      </div>
+                    ) : pregunta.nivelRiesgo && pregunta.nivelRiesgo !== 'none' ? (
+                      <span title={pregunta.mensajeRiesgo}>
+                        <BadgeRiesgo nivel={pregunta.nivelRiesgo} />
+                        <span className="block mt-1 text-xs text-gray-500">
+                          Si responde "{pregunta.respuestaRiesgo === false ? 'No' : 'Sí'}"
+                        </span>
+                      </span>
+                    ) : (
+                      <span className="text-xs text-gray-400">—</span>
+                    )}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                     {editingId === pregunta.id ? (
                       <div className="flex justify-end space-x-2">
@@ -364,11 +651,11 @@ const PreguntasSalud: React.FC = () => {
                           <Edit size={18} />
                         </button>
                         <button
-                          onClick={() => handleDelete(pregunta.id)}
+                          onClick={() => handleArchive(pregunta.id)}
                           className="text-red-600 hover:text-red-900"
-                          title="Eliminar"
+                          title="Archivar"
                         >
-                          <Trash2 size={18} />
+                          <Archive size={18} />
                         </button>
                       </div>
                     )}
@@ -378,7 +665,7 @@ const PreguntasSalud: React.FC = () => {
               
               {config.preguntasSalud.length === 0 && (
                 <tr>
-                  <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500">
+                  <td colSpan={7} className="px-6 py-4 text-center text-sm text-gray-500">
                     No hay preguntas registradas
                   </td>
                 </tr>
@@ -387,6 +674,50 @@ const PreguntasSalud: React.FC = () => {
           </table>
         </div>
       </div>
+      
+      {/* Preguntas archivadas */}
+      <div>
+        <button
+          type="button"
+          onClick={() => setShowArchivadas(prev => !prev)}
+          className="text-sm text-teal-600 hover:text-teal-800"
+        >
+          {showArchivadas ? 'Ocultar preguntas archivadas' : 'Ver preguntas archivadas'}
+        </button>
+        
+        {showArchivadas && (
+          <div className="mt-3 bg-gray-50 rounded-md border border-gray-200">
+            {loadingArchivadas ? (
+              <p className="px-6 py-4 text-sm text-gray-500">Cargando preguntas archivadas...</p>
+            ) : archivadas.length === 0 ? (
+              <p className="px-6 py-4 text-sm text-gray-500">No hay preguntas archivadas</p>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {archivadas.map(pregunta => (
+                  <li key={pregunta.id} className="px-6 py-3 flex justify-between items-center">
+                    <div>
+                      <p className="text-sm text-gray-700">{pregunta.pregunta}</p>
+                      {pregunta.archivadaEn && (
+                        <p className="text-xs text-gray-500">
+                          Archivada el {format(parseISO(pregunta.archivadaEn), 'dd/MM/yyyy')}
+                        </p>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => handleRestore(pregunta.id)}
+                      className="inline-flex items-center text-sm text-teal-600 hover:text-teal-800"
+                      title="Restaurar"
+                    >
+                      <RotateCcw size={16} className="mr-1" />
+                      Restaurar
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
     </div>
   );
 };
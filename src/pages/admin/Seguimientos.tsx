@@ -0,0 +1,257 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { Filter, Activity, CalendarClock, RefreshCw, RotateCcw, XCircle } from 'lucide-react';
+import { EstadoSeguimiento, MensajeSeguimiento, PasoSeguimiento } from '../../types';
+import {
+  obtenerMensajesSeguimiento,
+  cancelarMensajeSeguimiento,
+  reintentarMensajeSeguimiento,
+  PASOS_SEGUIMIENTO,
+  NOMBRES_ESTADO_SEGUIMIENTO,
+  NOMBRES_CANAL_SEGUIMIENTO
+} from '../../lib/seguimientos';
+import { registrarEventoAuditoria } from '../../lib/auditoria';
+
+const COLORES_ESTADO: Record<EstadoSeguimiento, string> = {
+  scheduled: 'bg-blue-100 text-blue-800',
+  sending: 'bg-yellow-100 text-yellow-800',
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-700'
+};
+
+const Seguimientos: React.FC = () => {
+  const [mensajes, setMensajes] = useState<MensajeSeguimiento[]>([]);
+  const [cargando, setCargando] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [procesandoId, setProcesandoId] = useState<string | null>(null);
+
+  // Filtros
+  const [filtroEstado, setFiltroEstado] = useState<EstadoSeguimiento | ''>('');
+  const [filtroPaso, setFiltroPaso] = useState<PasoSeguimiento | ''>('');
+
+  const cargarMensajes = useCallback(async () => {
+    setCargando(true);
+    setError(null);
+
+    try {
+      setMensajes(await obtenerMensajesSeguimiento({ estado: filtroEstado, paso: filtroPaso }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al cargar los mensajes de seguimiento');
+    } finally {
+      setCargando(false);
+    }
+  }, [filtroEstado, filtroPaso]);
+
+  useEffect(() => {
+    cargarMensajes();
+  }, [cargarMensajes]);
+
+  const limpiarFiltros = () => {
+    setFiltroEstado('');
+    setFiltroPaso('');
+  };
+
+  const handleAccion = async (mensaje: MensajeSeguimiento, accion: 'cancelar' | 'reintentar') => {
+    setProcesandoId(mensaje.id);
+    setError(null);
+
+    try {
+      if (accion === 'cancelar') {
+        await cancelarMensajeSeguimiento(mensaje.id);
+      } else {
+        await reintentarMensajeSeguimiento(mensaje.id);
+      }
+
+      registrarEventoAuditoria({
+        accion: accion === 'cancelar' ? 'seguimiento.cancelar' : 'seguimiento.reintentar',
+        entidad: 'consentimiento',
+        entidadId: mensaje.consentimientoId,
+        diff: { paso: mensaje.paso, estadoAnterior: mensaje.estado }
+      });
+
+      await cargarMensajes();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al actualizar el mensaje');
+    } finally {
+      setProcesandoId(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-6">
+        <h1 className="text-2xl font-bold text-gray-800 mb-4 md:mb-0">Mensajes de Seguimiento</h1>
+        <button
+          onClick={cargarMensajes}
+          disabled={cargando}
+          className="inline-flex items-center px-4 py-2 bg-teal-600 text-white rounded-md hover:bg-teal-700 disabled:opacity-70"
+        >
+          <RefreshCw size={16} className={`mr-2 ${cargando ? 'animate-spin' : ''}`} />
+          Actualizar
+        </button>
+      </div>
+
+      {/* Filtros */}
+      <div className="bg-gray-50 p-4 rounded-lg mb-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-medium text-gray-700 flex items-center">
+            <Filter size={18} className="mr-2" />
+            Filtros
+          </h3>
+          <button
+            onClick={limpiarFiltros}
+            className="text-sm text-teal-600 hover:text-teal-800"
+          >
+            Limpiar filtros
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              <div className="flex items-center">
+                <Activity size={16} className="mr-1" />
+                Estado
+              </div>
+            </label>
+            <select
+              value={filtroEstado}
+              onChange={(e) => setFiltroEstado(e.target.value as EstadoSeguimiento | '')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500"
+            >
+              <option value="">Todos los estados</option>
+              {(Object.keys(NOMBRES_ESTADO_SEGUIMIENTO) as EstadoSeguimiento[]).map(estado => (
+                <option key={estado} value={estado}>{NOMBRES_ESTADO_SEGUIMIENTO[estado]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              <div className="flex items-center">
+                <CalendarClock size={16} className="mr-1" />
+                Mensaje
+              </div>
+            </label>
+            <select
+              value={filtroPaso}
+              onChange={(e) => setFiltroPaso(e.target.value as PasoSeguimiento | '')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500"
+            >
+              <option value="">Todos los mensajes</option>
+              {(Object.keys(PASOS_SEGUIMIENTO) as PasoSeguimiento[]).map(paso => (
+                <option key={paso} value={paso}>{PASOS_SEGUIMIENTO[paso]}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-100 text-red-700 p-3 rounded-lg mb-4">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        {cargando ? (
+          <div className="p-10 text-center text-gray-500">Cargando mensajes...</div>
+        ) : mensajes.length === 0 ? (
+          <div className="p-10 text-center text-gray-500">No hay mensajes que coincidan con los filtros</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Programado
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Cliente
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Mensaje
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Estado
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Acciones
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {mensajes.map(mensaje => (
+                  <tr key={mensaje.id} className="align-top">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {format(parseISO(mensaje.fechaProgramada), 'dd/MM/yyyy HH:mm')}
+                      {mensaje.fechaEnvio && (
+                        <div className="text-xs text-gray-500">
+                          Enviado: {format(parseISO(mensaje.fechaEnvio), 'dd/MM/yyyy HH:mm')}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{mensaje.nombreCliente || '-'}</div>
+                      <Link
+                        to={`/admin/consentimientos/${mensaje.consentimientoId}`}
+                        className="text-xs text-teal-600 hover:text-teal-900 font-mono"
+                      >
+                        {mensaje.codigoConsentimiento || 'Ver consentimiento'}
+                      </Link>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {PASOS_SEGUIMIENTO[mensaje.paso]}
+                      <div className="text-xs text-gray-500">{NOMBRES_CANAL_SEGUIMIENTO[mensaje.canal]}</div>
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${COLORES_ESTADO[mensaje.estado]}`}>
+                        {NOMBRES_ESTADO_SEGUIMIENTO[mensaje.estado]}
+                      </span>
+                      {mensaje.intentos > 1 && (
+                        <div className="text-xs text-gray-500 mt-1">{mensaje.intentos} intentos</div>
+                      )}
+                      {mensaje.error && mensaje.estado !== 'sent' && (
+                        <div className="text-xs text-red-600 mt-1 max-w-xs">{mensaje.error}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                      {(mensaje.estado === 'scheduled' || mensaje.estado === 'failed') && (
+                        <button
+                          onClick={() => handleAccion(mensaje, 'cancelar')}
+                          disabled={procesandoId === mensaje.id}
+                          className="inline-flex items-center text-red-600 hover:text-red-900 disabled:opacity-50 ml-3"
+                        >
+                          <XCircle size={16} className="mr-1" />
+                          Cancelar
+                        </button>
+                      )}
+                      {(mensaje.estado === 'failed' || mensaje.estado === 'cancelled') && (
+                        <button
+                          onClick={() => handleAccion(mensaje, 'reintentar')}
+                          disabled={procesandoId === mensaje.id}
+                          className="inline-flex items-center text-teal-600 hover:text-teal-900 disabled:opacity-50 ml-3"
+                        >
+                          <RotateCcw size={16} className="mr-1" />
+                          Reintentar
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <p className="mt-4 text-sm text-gray-500">
+        Mostrando {mensajes.length} mensajes. Los textos se configuran en Configuración &gt; Seguimiento.
+      </p>
+    </div>
+  );
+};
+
+export default Seguimientos;
@@ -0,0 +1,317 @@
+import React, { useState } from 'react';
+import { useConfig } from '../../contexts/ConfigContext';
+import { Plus, Edit, Save, X } from 'lucide-react';
+import { TipoProcedimiento } from '../../types';
+
+const FORMULARIO_VACIO = {
+  nombre: '',
+  prefijoCodigo: '',
+  edadMinima: '',
+  pideDetallesTatuaje: false,
+  activo: true
+};
+
+const TiposProcedimiento: React.FC = () => {
+  const { config, addTipoProcedimiento, updateTipoProcedimiento } = useConfig();
+
+  const [showForm, setShowForm] = useState(false);
+  // null mientras se crea un tipo nuevo
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formState, setFormState] = useState(FORMULARIO_VACIO);
+  const [guardando, setGuardando] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleShowForm = () => {
+    setEditingId(null);
+    setFormState(FORMULARIO_VACIO);
+    setError(null);
+    setShowForm(true);
+  };
+
+  const handleEdit = (tipo: TipoProcedimiento) => {
+    setEditingId(tipo.id);
+    setFormState({
+      nombre: tipo.nombre,
+      prefijoCodigo: tipo.prefijoCodigo,
+      edadMinima: tipo.edadMinima ? String(tipo.edadMinima) : '',
+      pideDetallesTatuaje: tipo.pideDetallesTatuaje,
+      activo: tipo.activo
+    });
+    setError(null);
+    setShowForm(true);
+  };
+
+  const handleCancelForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value, type, checked } = e.target;
+    setFormState(prev => ({
+      ...prev,
+      [name]: type === 'checkbox' ? checked : name === 'prefijoCodigo' ? value.toUpperCase() : value
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const edadMinima = formState.edadMinima ? parseInt(formState.edadMinima, 10) : undefined;
+
+    if (!formState.nombre.trim()) {
+      setError('El nombre del procedimiento es obligatorio');
+      return;
+    }
+    // El prefijo encabeza los códigos de verificación (ej: TCF-XXXXX-XXXXX)
+    if (!/^[A-Z]{2,5}$/.test(formState.prefijoCodigo)) {
+      setError('El prefijo debe tener entre 2 y 5 letras, sin tildes ni números');
+      return;
+    }
+    if (edadMinima !== undefined && (isNaN(edadMinima) || edadMinima < 1 || edadMinima > 99)) {
+      setError('La edad mínima debe estar entre 1 y 99 años');
+      return;
+    }
+
+    const datos = {
+      nombre: formState.nombre.trim(),
+      prefijoCodigo: formState.prefijoCodigo,
+      edadMinima,
+      pideDetallesTatuaje: formState.pideDetallesTatuaje,
+      activo: formState.activo
+    };
+
+    try {
+      setGuardando(true);
+      setError(null);
+
+      if (editingId) {
+        await updateTipoProcedimiento(editingId, datos);
+      } else {
+        // Los textos y cuidados parten como copia del primer procedimiento para editarlos después
+        const base = config.tiposProcedimiento[0];
+        await addTipoProcedimiento({
+          ...datos,
+          textoConsentimiento: base?.textoConsentimiento ?? '',
+          textoTutorLegal: base?.textoTutorLegal ?? '',
+          creamAftercare: base?.creamAftercare ?? '',
+          patchAftercare: base?.patchAftercare ?? '',
+          mensajesSeguimiento: { ...base?.mensajesSeguimiento }
+        });
+      }
+
+      setShowForm(false);
+      setEditingId(null);
+    } catch (err) {
+      console.error('Error al guardar tipo de procedimiento:', err);
+      setError(err instanceof Error ? err.message : 'Error al guardar tipo de procedimiento');
+    } finally {
+      setGuardando(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-800">Tipos de Procedimiento</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Cada procedimiento tiene su texto legal, sus cuidados y sus preguntas de salud propias.
+          </p>
+        </div>
+
+        <button
+          onClick={handleShowForm}
+          className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md shadow-sm text-white bg-teal-600 hover:bg-teal-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-teal-500"
+        >
+          <Plus size={16} className="mr-1" />
+          Nuevo Procedimiento
+        </button>
+      </div>
+
+      {showForm && (
+        <div className="bg-teal-50 p-4 rounded-md border border-teal-200 mb-6">
+          <h3 className="text-md font-medium text-teal-800 mb-3">
+            {editingId ? 'Editar Procedimiento' : 'Añadir Nuevo Procedimiento'}
+          </h3>
+
+          <form onSubmit={handleSubmit}>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="nombre" className="block text-sm font-medium text-gray-700 mb-1">
+                  Nombre
+                </label>
+                <input
+                  type="text"
+                  id="nombre"
+                  name="nombre"
+                  value={formState.nombre}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500"
+                  placeholder="Ej: Piercing"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="prefijoCodigo" className="block text-sm font-medium text-gray-700 mb-1">
+                  Prefijo del código
+                </label>
+                <input
+                  type="text"
+                  id="prefijoCodigo"
+                  name="prefijoCodigo"
+                  value={formState.prefijoCodigo}
+                  onChange={handleInputChange}
+                  maxLength={5}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500 font-mono"
+                  placeholder="Ej: PCF"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="edadMinima" className="block text-sm font-medium text-gray-700 mb-1">
+                  Edad mínima (opcional)
+                </label>
+                <input
+                  type="number"
+                  id="edadMinima"
+                  name="edadMinima"
+                  min={1}
+                  max={99}
+                  value={formState.edadMinima}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500"
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-4 mt-4">
+              <label className="flex items-center cursor-pointer">
+                <input
+                  type="checkbox"
+                  name="pideDetallesTatuaje"
+                  checked={formState.pideDetallesTatuaje}
+                  onChange={handleInputChange}
+                  className="h-4 w-4 text-teal-600 focus:ring-teal-500 border-gray-300 rounded"
+                />
+                <span className="ml-2 text-sm text-gray-700">Pide los detalles del tatuaje (zona, tamaño, diseño)</span>
+              </label>
+
+              <label className="flex items-center cursor-pointer">
+                <input
+                  type="checkbox"
+                  name="activo"
+                  checked={formState.activo}
+                  onChange={handleInputChange}
+                  className="h-4 w-4 text-teal-600 focus:ring-teal-500 border-gray-300 rounded"
+                />
+                <span className="ml-2 text-sm text-gray-700">Activo en el formulario</span>
+              </label>
+            </div>
+
+            {!editingId && (
+              <p className="mt-3 text-xs text-gray-500">
+                El texto legal y los cuidados se copian del primer procedimiento; edítalos después en General y Cuidados.
+              </p>
+            )}
+
+            {error && (
+              <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                {error}
+              </div>
+            )}
+
+            <div className="flex justify-end mt-4 space-x-2">
+              <button
+                type="button"
+                onClick={handleCancelForm}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-teal-500"
+              >
+                <X size={16} className="mr-1" />
+                Cancelar
+              </button>
+              <button
+                type="submit"
+                disabled={guardando}
+                className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-white bg-teal-600 hover:bg-teal-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-teal-500 disabled:opacity-50"
+              >
+                <Save size={16} className="mr-1" />
+                {guardando ? 'Guardando...' : 'Guardar'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      <div className="bg-white rounded-md border border-gray-200">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Procedimiento
+                </th>
+                <th scope="col" className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Prefijo
+                </th>
+                <th scope="col" className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Edad Mínima
+                </th>
+                <th scope="col" className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Texto Vigente
+                </th>
+                <th scope="col" className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Estado
+                </th>
+                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Acciones
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {config.tiposProcedimiento.map(tipo => (
+                <tr key={tipo.id}>
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    {tipo.nombre}
+                    {tipo.pideDetallesTatuaje && (
+                      <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+                        Detalles del tatuaje
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-center text-sm font-mono text-gray-700">
+                    {tipo.prefijoCodigo}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-center text-sm text-gray-700">
+                    {tipo.edadMinima ? `${tipo.edadMinima} años` : '-'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-center text-sm text-gray-700">
+                    {tipo.versionPlantilla ? `Versión ${tipo.versionPlantilla}` : '-'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-center">
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                      tipo.activo ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                    }`}>
+                      {tipo.activo ? 'Activo' : 'Inactivo'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <button
+                      onClick={() => handleEdit(tipo)}
+                      className="text-teal-600 hover:text-teal-900"
+                      title="Editar"
+                    >
+                      <Edit size={18} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TiposProcedimiento;
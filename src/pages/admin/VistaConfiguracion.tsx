@@ -1,16 +1,53 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useConfig } from '../../contexts/ConfigContext';
-import { Save } from 'lucide-react';
+import { Save, History, Eye, AlertTriangle, Image as ImageIcon, Trash2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { PlantillaConsentimiento } from '../../types';
+import {
+  diferenciasTexto,
+  renderTextoLegal,
+  validarPlantilla,
+  VARIABLES_PLANTILLA,
+  CONDICIONES_PLANTILLA,
+  DatosTextoConsentimiento
+} from '../../utils/plantillaConsentimiento';
+import { comprimirImagen, leerComoDataUrl } from '../../utils/imagenes';
+import { COLOR_MARCA_PREDETERMINADO } from '../../utils/documentoPdf';
+
+const ESTILOS_DIFERENCIA = {
+  igual: 'text-gray-700',
+  agregada: 'bg-green-50 text-green-800',
+  eliminada: 'bg-red-50 text-red-800 line-through'
+};
+
+const PREFIJOS_DIFERENCIA = {
+  igual: ' ',
+  agregada: '+',
+  eliminada: '-'
+};
+
+// Cliente de ejemplo para la vista previa de los textos legales
+const CLIENTE_EJEMPLO: DatosTextoConsentimiento = {
+  nombreCliente: 'Camila Andrea',
+  apellidosCliente: 'Rojas Soto',
+  rutCliente: '123456785',
+  edadCliente: 27,
+  nombreArtista: 'Artista de ejemplo',
+  nombreTutor: 'Patricia Soto Fuentes',
+  rutTutor: '98765432K',
+  parentescoTutor: 'Madre'
+};
 
 const VistaConfiguracion: React.FC = () => {
-  const { config, updateConfig } = useConfig();
+  const { config, updateConfig, updateTipoProcedimiento, getPlantillasConsentimiento } = useConfig();
   
   const [formState, setFormState] = useState({
     nombreEstudio: config.nombreEstudio,
     direccionEstudio: config.direccionEstudio,
-    textoConsentimiento: config.textoConsentimiento,
-    textoTutorLegal: config.textoTutorLegal,
+    logo: config.logo || '',
+    colorMarca: config.colorMarca || COLOR_MARCA_PREDETERMINADO,
     textosFooter: config.textosFooter,
+    diasRetoqueGratis: String(config.diasRetoqueGratis ?? 60),
     datosContacto: {
       nombre: config.datosContacto.nombre,
       whatsapp: config.datosContacto.whatsapp,
@@ -19,9 +56,69 @@ const VistaConfiguracion: React.FC = () => {
     }
   });
   
+  // Los textos legales son de cada tipo de procedimiento
+  const [tipoId, setTipoId] = useState(config.tiposProcedimiento[0]?.id ?? '');
+  const tipoProcedimiento = config.tiposProcedimiento.find(tipo => tipo.id === tipoId);
+  const [textosLegales, setTextosLegales] = useState({
+    textoConsentimiento: tipoProcedimiento?.textoConsentimiento ?? '',
+    textoTutorLegal: tipoProcedimiento?.textoTutorLegal ?? ''
+  });
+  
+  const handleTipoChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const tipo = config.tiposProcedimiento.find(t => t.id === e.target.value);
+    setTipoId(e.target.value);
+    setTextosLegales({
+      textoConsentimiento: tipo?.textoConsentimiento ?? '',
+      textoTutorLegal: tipo?.textoTutorLegal ?? ''
+    });
+  };
+  
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'success' | 'error'>('idle');
   const [errorMessage, setErrorMessage] = useState<string>('');
   
+  // Historial de versiones de los textos legales
+  const [plantillas, setPlantillas] = useState<PlantillaConsentimiento[]>([]);
+  const [versionAnterior, setVersionAnterior] = useState<number | null>(null);
+  const [versionNueva, setVersionNueva] = useState<number | null>(null);
+  
+  const cargarPlantillas = useCallback(async () => {
+    if (!tipoId) return;
+    
+    try {
+      const data = await getPlantillasConsentimiento(tipoId);
+      setPlantillas(data);
+      // Por defecto comparar la versión vigente con la anterior
+      setVersionNueva(data[0]?.version ?? null);
+      setVersionAnterior(data[1]?.version ?? data[0]?.version ?? null);
+    } catch (error) {
+      console.error('Error al cargar versiones del consentimiento:', error);
+    }
+  }, [getPlantillasConsentimiento, tipoId]);
+  
+  // Guardar los textos crea una versión nueva: recargar el historial cuando cambia la vigente
+  const versionVigente = tipoProcedimiento?.versionPlantilla;
+  useEffect(() => {
+    cargarPlantillas();
+  }, [cargarPlantillas, versionVigente]);
+  
+  // Vista previa de los textos legales con un cliente de ejemplo
+  const [previewMenor, setPreviewMenor] = useState(false);
+  const datosPreview: DatosTextoConsentimiento = {
+    ...CLIENTE_EJEMPLO,
+    edadCliente: previewMenor ? 16 : CLIENTE_EJEMPLO.edadCliente
+  };
+  const estudioPreview = {
+    nombreEstudio: formState.nombreEstudio,
+    direccionEstudio: formState.direccionEstudio
+  };
+  
+  const erroresConsentimiento = validarPlantilla(textosLegales.textoConsentimiento);
+  const erroresTutor = validarPlantilla(textosLegales.textoTutorLegal);
+  const hayErroresPlantilla = erroresConsentimiento.length > 0 || erroresTutor.length > 0;
+  
+  const plantillaAnterior = plantillas.find(p => p.version === versionAnterior);
+  const plantillaNueva = plantillas.find(p => p.version === versionNueva);
+  
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setFormState(prev => ({
@@ -30,6 +127,28 @@ const VistaConfiguracion: React.FC = () => {
     }));
   };
   
+  const handleTextoLegalChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setTextosLegales(prev => ({
+      ...prev,
+      [name]: value
+    }));
+  };
+  
+  // El logo se guarda embebido en la configuración: se reduce para que pese pocos KB
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    
+    try {
+      const logo = await leerComoDataUrl(await comprimirImagen(file, { ladoMaximo: 400, calidad: 0.85 }));
+      setFormState(prev => ({ ...prev, logo }));
+    } catch (error) {
+      console.error('Error al procesar el logo:', error);
+      alert('No se pudo procesar la imagen del logo. Prueba con un archivo JPG o PNG.');
+    }
+  };
+  
   const handleContactoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setFormState(prev => ({
@@ -44,13 +163,35 @@ const VistaConfiguracion: React.FC = () => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
+    if (hayErroresPlantilla) {
+      setErrorMessage('Corrige los errores de los textos legales antes de guardar');
+      setSaveStatus('error');
+      return;
+    }
+    
+    const diasRetoqueGratis = parseInt(formState.diasRetoqueGratis, 10);
+    if (isNaN(diasRetoqueGratis) || diasRetoqueGratis < 0 || diasRetoqueGratis > 365) {
+      setErrorMessage('El plazo del retoque gratuito debe estar entre 0 y 365 días');
+      setSaveStatus('error');
+      return;
+    }
+    
     try {
       setSaveStatus('saving');
       setErrorMessage('');
       
-      await updateConfig(formState);
+      await updateConfig({ ...formState, diasRetoqueGratis });
+      
+      // Cada cambio de los textos legales crea una nueva versión: solo se guardan si cambiaron
+      if (tipoProcedimiento && (
+        textosLegales.textoConsentimiento !== tipoProcedimiento.textoConsentimiento ||
+        textosLegales.textoTutorLegal !== tipoProcedimiento.textoTutorLegal
+      )) {
+        await updateTipoProcedimiento(tipoProcedimiento.id, textosLegales);
+      }
       
       setSaveStatus('success');
+      cargarPlantillas();
       
       setTimeout(() => {
         setSaveStatus('idle');
@@ -118,46 +259,301 @@ const VistaConfiguracion: React.FC = () => {
                 />
               </div>
             </div>
+            
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Logo para los documentos PDF
+                </label>
+                <div className="flex items-center space-x-4">
+                  {formState.logo ? (
+                    <div className="w-20 h-20 bg-white border border-gray-200 rounded-md p-1 flex items-center justify-center">
+                      <img
+                        src={formState.logo}
+                        alt="Logo del estudio"
+                        className="max-w-full max-h-full object-contain"
+                      />
+                    </div>
+                  ) : (
+                    <div className="w-20 h-20 bg-gray-200 rounded-md flex items-center justify-center">
+                      <ImageIcon className="text-gray-400" size={32} />
+                    </div>
+                  )}
+                  <div className="flex-1 space-y-2">
+                    <input
+                      type="file"
+                      accept="image/png,image/jpeg"
+                      onChange={handleLogoChange}
+                      className="w-full text-sm"
+                    />
+                    {formState.logo && (
+                      <button
+                        type="button"
+                        onClick={() => setFormState(prev => ({ ...prev, logo: '' }))}
+                        className="inline-flex items-center text-sm text-red-600 hover:text-red-800"
+                      >
+                        <Trash2 size={14} className="mr-1" />
+                        Quitar logo
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+              
+              <div>
+                <label htmlFor="colorMarca" className="block text-sm font-medium text-gray-700 mb-1">
+                  Color de los documentos PDF
+                </label>
+                <div className="flex items-center space-x-3">
+                  <input
+                    type="color"
+                    id="colorMarca"
+                    name="colorMarca"
+                    value={formState.colorMarca}
+                    onChange={handleInputChange}
+                    className="h-10 w-16 border border-gray-300 rounded-md cursor-pointer"
+                  />
+                  <span className="font-mono text-sm text-gray-600">{formState.colorMarca}</span>
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  Se usa en el encabezado, los títulos y las tablas. Los PDF ya archivados no cambian.
+                </p>
+              </div>
+              
+              <div>
+                <label htmlFor="diasRetoqueGratis" className="block text-sm font-medium text-gray-700 mb-1">
+                  Plazo del retoque gratuito (días)
+                </label>
+                <input
+                  type="number"
+                  id="diasRetoqueGratis"
+                  name="diasRetoqueGratis"
+                  min={0}
+                  max={365}
+                  value={formState.diasRetoqueGratis}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  En los proyectos de varias sesiones, el primer retoque dentro de este plazo desde la última sesión es gratuito.
+                </p>
+              </div>
+            </div>
           </div>
           
           <div className="bg-gray-50 p-4 rounded-md">
             <h3 className="text-lg font-medium text-gray-800 mb-4">Texto Legal</h3>
             
             <div className="space-y-4">
+              <div>
+                <label htmlFor="tipoProcedimiento" className="block text-sm font-medium text-gray-700 mb-1">
+                  Procedimiento
+                </label>
+                <select
+                  id="tipoProcedimiento"
+                  value={tipoId}
+                  onChange={handleTipoChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500"
+                >
+                  {config.tiposProcedimiento.map(tipo => (
+                    <option key={tipo.id} value={tipo.id}>{tipo.nombre}</option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500">
+                  Cada procedimiento tiene sus propios textos y su propio historial de versiones.
+                </p>
+              </div>
+              
               <div>
                 <label htmlFor="textoConsentimiento" className="block text-sm font-medium text-gray-700 mb-1">
                   Texto del Consentimiento
                 </label>
-                <p className="text-xs text-gray-500 mb-2">
-                  Variables disponibles: {'{Nombre Cliente}'}, {'{Rut Cliente}'}, {'{Edad Cliente}'}, {'{Nombre Artista}'}, {'{Nombre Estudio}'}, {'{Direccion Estudio}'}
-                </p>
                 <textarea
                   id="textoConsentimiento"
                   name="textoConsentimiento"
-                  value={formState.textoConsentimiento}
-                  onChange={handleInputChange}
+                  value={textosLegales.textoConsentimiento}
+                  onChange={handleTextoLegalChange}
                   rows={10}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500"
+                  className={`w-full px-3 py-2 border rounded-md focus:ring-teal-500 focus:border-teal-500 ${
+                    erroresConsentimiento.length > 0 ? 'border-red-500' : 'border-gray-300'
+                  }`}
                 />
+                {erroresConsentimiento.map((error, index) => (
+                  <p key={index} className="mt-1 text-sm text-red-600 flex items-center">
+                    <AlertTriangle size={14} className="mr-1 flex-shrink-0" />
+                    {error.mensaje}
+                  </p>
+                ))}
               </div>
 
               <div>
                 <label htmlFor="textoTutorLegal" className="block text-sm font-medium text-gray-700 mb-1">
                   Texto del Tutor Legal
                 </label>
-                <p className="text-xs text-gray-500 mb-2">
-                  Variables disponibles: {'{Nombre Tutor}'}, {'{Rut Tutor}'}, {'{Parentesco Tutor}'}, {'{Nombre Cliente}'}, {'{Apellidos Cliente}'}, {'{Rut Cliente}'}, {'{Edad Cliente}'}, {'{Nombre Estudio}'}, {'{Direccion Estudio}'}
-                </p>
                 <textarea
                   id="textoTutorLegal"
                   name="textoTutorLegal"
-                  value={formState.textoTutorLegal}
-                  onChange={handleInputChange}
+                  value={textosLegales.textoTutorLegal}
+                  onChange={handleTextoLegalChange}
                   rows={10}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500"
+                  className={`w-full px-3 py-2 border rounded-md focus:ring-teal-500 focus:border-teal-500 ${
+                    erroresTutor.length > 0 ? 'border-red-500' : 'border-gray-300'
+                  }`}
                 />
+                {erroresTutor.map((error, index) => (
+                  <p key={index} className="mt-1 text-sm text-red-600 flex items-center">
+                    <AlertTriangle size={14} className="mr-1 flex-shrink-0" />
+                    {error.mensaje}
+                  </p>
+                ))}
               </div>
+              
+              <div className="text-xs text-gray-500 space-y-2">
+                <p className="font-medium text-gray-600">Variables disponibles (en ambos textos)</p>
+                <div className="flex flex-wrap gap-2">
+                  {VARIABLES_PLANTILLA.map(variable => (
+                    <span
+                      key={variable.nombre}
+                      title={variable.descripcion}
+                      className="px-2 py-0.5 bg-white border border-gray-200 rounded font-mono text-gray-700"
+                    >
+                      {`{${variable.nombre}}`}
+                    </span>
+                  ))}
+                </div>
+                <p>
+                  Para incluir un párrafo solo en algunos casos, enciérralo entre{' '}
+                  {CONDICIONES_PLANTILLA.map((condicion, index) => (
+                    <React.Fragment key={condicion.nombre}>
+                      {index > 0 && ' o '}
+                      <span className="font-mono text-gray-700" title={condicion.descripcion}>
+                        {`{si ${condicion.nombre}}`}
+                      </span>
+                    </React.Fragment>
+                  ))}
+                  {' '}y <span className="font-mono text-gray-700">{'{/si}'}</span>.
+                </p>
+              </div>
+            </div>
+          </div>
+          
+          <div className="bg-gray-50 p-4 rounded-md">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-4 gap-2">
+              <div className="flex items-center">
+                <Eye size={18} className="mr-2 text-gray-600" />
+                <h3 className="text-lg font-medium text-gray-800">Vista Previa</h3>
+              </div>
+              <label className="flex items-center cursor-pointer text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={previewMenor}
+                  onChange={(e) => setPreviewMenor(e.target.checked)}
+                  className="h-4 w-4 text-teal-600 focus:ring-teal-500 border-gray-300 rounded"
+                />
+                <span className="ml-2">Cliente menor de edad</span>
+              </label>
+            </div>
+            
+            <p className="text-xs text-gray-500 mb-3">
+              Así verá el cliente los textos, con datos de ejemplo.
+            </p>
+            
+            <div className="space-y-4">
+              <div className="bg-white p-4 rounded-md border border-gray-200">
+                <p className="text-sm font-medium text-gray-700 mb-2">Consentimiento General</p>
+                <p className="whitespace-pre-line text-sm text-gray-700">
+                  {renderTextoLegal(textosLegales.textoConsentimiento, datosPreview, estudioPreview)}
+                </p>
+              </div>
+              
+              {previewMenor && (
+                <div className="bg-yellow-50 p-4 rounded-md border border-yellow-200">
+                  <p className="text-sm font-medium text-gray-700 mb-2">Autorización del Tutor Legal</p>
+                  <p className="whitespace-pre-line text-sm text-gray-700">
+                    {renderTextoLegal(textosLegales.textoTutorLegal, datosPreview, estudioPreview)}
+                  </p>
+                </div>
+              )}
+            </div>
+          </div>
+          
+          <div className="bg-gray-50 p-4 rounded-md">
+            <div className="flex items-center mb-4">
+              <History size={18} className="mr-2 text-gray-600" />
+              <h3 className="text-lg font-medium text-gray-800">Versiones del Texto Legal</h3>
             </div>
+            
+            {plantillas.length === 0 ? (
+              <p className="text-sm text-gray-500">No hay versiones registradas</p>
+            ) : (
+              <div className="space-y-4">
+                <p className="text-xs text-gray-500">
+                  Cada vez que se guardan cambios en los textos legales se crea una versión nueva. Los consentimientos
+                  conservan la versión y el texto con que fueron firmados.
+                </p>
+                
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="versionAnterior" className="block text-sm font-medium text-gray-700 mb-1">
+                      Comparar versión
+                    </label>
+                    <select
+                      id="versionAnterior"
+                      value={versionAnterior ?? ''}
+                      onChange={(e) => setVersionAnterior(Number(e.target.value))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500"
+                    >
+                      {plantillas.map(plantilla => (
+                        <option key={plantilla.id} value={plantilla.version}>
+                          Versión {plantilla.version} ({format(parseISO(plantilla.fechaCreacion), 'dd/MM/yyyy HH:mm')})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  
+                  <div>
+                    <label htmlFor="versionNueva" className="block text-sm font-medium text-gray-700 mb-1">
+                      Con versión
+                    </label>
+                    <select
+                      id="versionNueva"
+                      value={versionNueva ?? ''}
+                      onChange={(e) => setVersionNueva(Number(e.target.value))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-teal-500 focus:border-teal-500"
+                    >
+                      {plantillas.map(plantilla => (
+                        <option key={plantilla.id} value={plantilla.version}>
+                          Versión {plantilla.version}{plantilla.version === plantillas[0].version ? ' (vigente)' : ''}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                
+                {plantillaAnterior && plantillaNueva && (
+                  [
+                    { titulo: 'Texto del Consentimiento', anterior: plantillaAnterior.textoConsentimiento, nuevo: plantillaNueva.textoConsentimiento },
+                    { titulo: 'Texto del Tutor Legal', anterior: plantillaAnterior.textoTutorLegal, nuevo: plantillaNueva.textoTutorLegal }
+                  ].map(({ titulo, anterior, nuevo }) => (
+                    <div key={titulo}>
+                      <p className="text-sm font-medium text-gray-700 mb-1">
+                        {titulo}
+                        {anterior === nuevo && (
+                          <span className="ml-2 text-xs font-normal text-gray-500">Sin cambios</span>
+                        )}
+                      </p>
+                      <div className="bg-white border border-gray-200 rounded-md p-3 font-mono text-xs max-h-64 overflow-y-auto">
+                        {diferenciasTexto(anterior, nuevo).map((linea, index) => (
+                          <div key={index} className={`whitespace-pre-wrap ${ESTILOS_DIFERENCIA[linea.tipo]}`}>
+                            {PREFIJOS_DIFERENCIA[linea.tipo]} {linea.texto}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
           </div>
           
           <div className="bg-gray-50 p-4 rounded-md">
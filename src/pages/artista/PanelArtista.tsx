@@ -0,0 +1,172 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend
+} from 'recharts';
+import { format, parseISO } from 'date-fns';
+import { Users, FileText, Calendar, AlertTriangle } from 'lucide-react';
+import { useConsentimientos } from '../../contexts/ConsentimientosContext';
+import { useArtistaActual } from '../../hooks/useArtistaActual';
+import ErrorMessageSupabase from '../../components/ErrorMessageSupabase';
+
+const PanelArtista: React.FC = () => {
+  const { consentimientos, getEstadisticasArtista, connectionError } = useConsentimientos();
+  const { artista, nombreArtista } = useArtistaActual();
+
+  if (connectionError) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-2xl font-bold text-gray-800 mb-6">Mi Panel</h1>
+        <ErrorMessageSupabase />
+      </div>
+    );
+  }
+
+  // La cuenta de artista debe estar vinculada a una ficha de la lista de artistas
+  if (!artista || !nombreArtista) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-2xl font-bold text-gray-800 mb-6">Mi Panel</h1>
+        <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-lg p-4 flex items-start">
+          <AlertTriangle className="mr-2 flex-shrink-0 mt-0.5" size={18} />
+          <p>
+            Tu cuenta no está vinculada a ningún artista del estudio.
+            Pide al dueño del estudio que revise tu perfil.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const estadisticas = getEstadisticasArtista(nombreArtista);
+  const mesActual = estadisticas.porMes?.[estadisticas.porMes.length - 1];
+  const recientes = consentimientos
+    .filter(c => c.artistaSeleccionado === nombreArtista)
+    .slice(0, 5);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center mb-6">
+        {artista.imagen && (
+          <img
+            src={artista.imagen}
+            alt={artista.nombre}
+            className="w-12 h-12 rounded-full object-cover mr-3"
+          />
+        )}
+        <h1 className="text-2xl font-bold text-gray-800">Hola, {artista.nombre}</h1>
+      </div>
+
+      {/* Tarjetas de resumen */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <div className="flex items-center mb-2">
+            <div className="bg-teal-100 p-3 rounded-full mr-3">
+              <FileText className="text-teal-500" size={22} />
+            </div>
+            <h2 className="text-lg font-medium text-gray-800">Total Clientes</h2>
+          </div>
+          <p className="text-3xl font-bold text-gray-900">{estadisticas.totalClientes}</p>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <div className="flex items-center mb-2">
+            <div className="bg-teal-100 p-3 rounded-full mr-3">
+              <Calendar className="text-teal-500" size={22} />
+            </div>
+            <h2 className="text-lg font-medium text-gray-800">Este Mes</h2>
+          </div>
+          <p className="text-3xl font-bold text-gray-900">{mesActual?.cantidad || 0}</p>
+          <p className="text-sm text-gray-500">clientes</p>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <div className="flex items-center mb-2">
+            <div className="bg-teal-100 p-3 rounded-full mr-3">
+              <Users className="text-teal-500" size={22} />
+            </div>
+            <h2 className="text-lg font-medium text-gray-800">Menores Tatuados</h2>
+          </div>
+          <p className="text-3xl font-bold text-gray-900">{estadisticas.menoresEdad || 0}</p>
+          <p className="text-sm text-gray-500">con autorización de tutor</p>
+        </div>
+      </div>
+
+      {/* Clientes por mes */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-lg font-medium text-gray-800 mb-4">Clientes por Mes (últimos 12 meses)</h2>
+        <div className="h-72">
+          {estadisticas.totalClientes > 0 ? (
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart
+                data={estadisticas.porMes}
+                margin={{ top: 10, right: 10, left: 10, bottom: 40 }}
+              >
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis
+                  dataKey="mes"
+                  angle={-45}
+                  textAnchor="end"
+                  height={70}
+                  tick={{ fontSize: 12 }}
+                />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Legend verticalAlign="top" />
+                <Bar dataKey="cantidad" name="Clientes" fill="#2DD4BF" radius={[4, 4, 0, 0]} />
+                <Bar dataKey="menores" name="Menores de edad" fill="#0F766E" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          ) : (
+            <div className="h-full flex items-center justify-center">
+              <p className="text-gray-500">Aún no tienes clientes registrados</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Clientes recientes */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-medium text-gray-800">Clientes Recientes</h2>
+          <Link to="/artista/consentimientos" className="text-sm text-teal-600 hover:text-teal-800">
+            Ver todos
+          </Link>
+        </div>
+
+        {recientes.length > 0 ? (
+          <ul className="divide-y divide-gray-200">
+            {recientes.map(consentimiento => (
+              <li key={consentimiento.id}>
+                <Link
+                  to={`/artista/consentimientos/${consentimiento.id}`}
+                  className="flex justify-between items-center py-3 hover:bg-gray-50 px-2 rounded"
+                >
+                  <span className="text-sm font-medium text-gray-900">
+                    {consentimiento.cliente.nombre} {consentimiento.cliente.apellidos}
+                  </span>
+                  <span className="text-sm text-gray-500">
+                    {format(parseISO(consentimiento.fechaCreacion), 'dd/MM/yyyy')}
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="py-10 text-center">
+            <p className="text-gray-500">No hay consentimientos registrados</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PanelArtista;
@@ -16,6 +16,38 @@ export interface Cliente {
   confirmacionDatos: boolean;
 }
 
+// Ficha de un cliente que vuelve: una por RUT o pasaporte, con los datos de su última visita
+export interface FichaCliente {
+  id: string;
+  documento: string;
+  nombre: string;
+  apellidos: string;
+  fechaNacimiento?: string;
+  telefono?: string;
+  email?: string;
+  direccion?: Cliente['direccion'];
+  fechaRegistro: string;
+  totalConsentimientos?: number;
+}
+
+// Respuesta de salud que cambió respecto de la visita anterior del cliente
+export interface CambioSalud {
+  id: string;
+  pregunta: string;
+  respuestaAnterior?: boolean;
+  respuesta: boolean;
+  // Solo para el personal: el formulario público no recibe la información anterior
+  informacionAnterior?: string;
+  informacionAdicional?: string;
+}
+
+// Cambios de salud desde la última visita; los calcula el servidor al guardar
+export interface CambiosSalud {
+  consentimientoAnteriorId?: string;
+  fechaAnterior: string;
+  cambios: CambioSalud[];
+}
+
 export interface Tutor {
   nombre: string;
   rut: string;
@@ -25,6 +57,9 @@ export interface Tutor {
   firma?: string;
 }
 
+// Qué ocurre cuando se da la respuesta de riesgo de una pregunta de salud
+export type NivelRiesgo = 'none' | 'info' | 'review' | 'block';
+
 export interface PreguntaSalud {
   id: string;
   pregunta: string;
@@ -32,6 +67,13 @@ export interface PreguntaSalud {
   mostrarCampoAdicional: boolean;
   campoAdicionalSoloSi: boolean;
   textoAdicional?: string;
+  version?: number;
+  archivadaEn?: string | null;
+  nivelRiesgo?: NivelRiesgo;
+  respuestaRiesgo?: boolean;
+  mensajeRiesgo?: string;
+  // Tipo de procedimiento al que aplica; sin tipo es común a todos
+  tipoProcedimientoId?: string | null;
 }
 
 export interface Artista {
@@ -41,21 +83,36 @@ export interface Artista {
   imagen?: string;
 }
 
+// Respuestas indexadas por id de pregunta (los registros antiguos usan el índice "0".."16")
 export interface InformacionSalud {
   [key: string]: {
     respuesta: boolean;
     informacionAdicional?: string;
+    // Texto, orden y versión de la pregunta al momento de firmar, para no depender de la configuración actual
+    pregunta?: string;
+    orden?: number;
+    version?: number;
+    // Regla que activó la respuesta al momento de firmar
+    nivelRiesgo?: NivelRiesgo;
   };
 }
 
+// Mensajes de seguimiento: al día siguiente, a los 3 y 14 días, y a las 6 semanas (oferta de retoque)
+export type PasoSeguimiento = 'day_1' | 'day_3' | 'day_14' | 'week_6';
+
+export type CanalSeguimiento = 'email' | 'whatsapp';
+
+export type EstadoSeguimiento = 'scheduled' | 'sending' | 'sent' | 'failed' | 'cancelled';
+
 export interface ConfiguracionFormulario {
   nombreEstudio: string;
   direccionEstudio: string;
+  // Marca de los documentos PDF: logo (data URL) y color principal (#rrggbb)
   logo?: string;
+  colorMarca?: string;
   preguntasSalud: PreguntaSalud[];
   artistas: Artista[];
-  textoConsentimiento: string;
-  textoTutorLegal: string;
+  tiposProcedimiento: TipoProcedimiento[];
   textosFooter: string;
   datosContacto: {
     nombre: string;
@@ -63,10 +120,64 @@ export interface ConfiguracionFormulario {
     email: string;
     instagram: string;
   };
+  // Canal por el que se envían los mensajes de seguimiento de todos los procedimientos
+  canalSeguimiento?: CanalSeguimiento;
+  // Días desde la última sesión de un proyecto en que el primer retoque es gratuito
+  diasRetoqueGratis?: number;
+}
+
+// Procedimiento que ofrece el estudio (tatuaje, piercing, microblading...), con sus propios textos
+// legales, preguntas de salud y cuidados posteriores
+export interface TipoProcedimiento {
+  id: string;
+  nombre: string;
+  // Prefijo de los códigos de sus consentimientos: 2 a 5 letras mayúsculas (ej. 'TCF')
+  prefijoCodigo: string;
+  textoConsentimiento: string;
+  textoTutorLegal: string;
+  // Sin edad mínima si no está definida; los menores de 18 siempre necesitan a su tutor legal
+  edadMinima?: number;
+  // Cuidados con crema y con parche; un texto vacío no se ofrece al cliente
   creamAftercare: string;
   patchAftercare: string;
+  // Texto de cada mensaje de seguimiento (vacío = no se envía)
+  mensajesSeguimiento: Partial<Record<PasoSeguimiento, string>>;
+  // El formulario pide la zona, el tamaño y el color del tatuaje
+  pideDetallesTatuaje: boolean;
+  activo: boolean;
+  // Versión vigente de la plantilla de textos legales del tipo
+  plantillaId?: string;
+  versionPlantilla?: number;
 }
 
+export interface PlantillaConsentimiento {
+  id: string;
+  version: number;
+  textoConsentimiento: string;
+  textoTutorLegal: string;
+  fechaCreacion: string;
+}
+
+// Cuidados posteriores: con crema o con parche (second skin)
+export type TipoCuidado = 'cream' | 'patch';
+
+// Detalles del tatuaje autorizado: zona del diagrama del cuerpo, tamaño, color y sesiones
+export type VistaCuerpo = 'front' | 'back';
+export type TamanoTatuaje = 'small' | 'medium' | 'large' | 'xlarge';
+export type ColorTatuaje = 'color' | 'black_grey';
+
+export interface DetallesProcedimiento {
+  // Id de la zona en ZONAS_CUERPO
+  zonaCuerpo: string;
+  tamano: TamanoTatuaje;
+  color: ColorTatuaje;
+  sesionesEstimadas: number;
+  descripcion?: string;
+}
+
+// Envío del PDF firmado al correo del cliente
+export type EstadoCorreo = 'pending' | 'sent' | 'failed';
+
 export interface Consentimiento {
   id: string;
   codigo: string;
@@ -78,11 +189,118 @@ export interface Consentimiento {
   cedulaCliente?: File | string;
   firma: string;
   archivado: boolean;
+  nivelRiesgo?: Exclude<NivelRiesgo, 'block'>;
+  // Tipo de procedimiento elegido al firmar (lo asigna el servidor si no viene)
+  tipoProcedimientoId?: string;
+  // Plantilla y texto exacto que firmó el cliente (no existen en consentimientos anteriores al versionado)
+  plantillaId?: string;
+  versionPlantilla?: number;
+  textoConsentimientoFirmado?: string;
+  textoTutorFirmado?: string;
+  // SHA-256 del contenido firmado, calculado en el servidor al guardar
+  hashIntegridad?: string;
+  // Rutas de las fotos de las cédulas en Storage (bucket privado)
+  rutaCedulaCliente?: string;
+  rutaCedulaTutor?: string;
+  // PDF generado al firmar, archivado en Storage (no existe en consentimientos anteriores)
+  rutaPdfFirmado?: string;
+  // Cuidados elegidos al firmar, que se envían por correo con el PDF
+  tipoCuidado?: TipoCuidado;
+  // Tatuaje autorizado (no existe en consentimientos anteriores)
+  detallesProcedimiento?: DetallesProcedimiento;
+  // Diseño aprobado: archivo elegido en el formulario y su ruta en Storage una vez subido
+  imagenDiseno?: File;
+  rutaImagenDiseno?: string;
+  // Estado del envío por correo (no existe en consentimientos anteriores)
+  estadoCorreo?: EstadoCorreo;
+  fechaEnvioCorreo?: string;
+  errorCorreo?: string;
+  // Cita desde la que se abrió el formulario (enlace de pre-registro)
+  citaId?: string;
+  // Ficha del cliente; la asigna el servidor a partir del RUT al guardar
+  clienteId?: string;
+  // Cambios de salud respecto del consentimiento anterior del cliente (no existe en su primera visita)
+  cambiosSalud?: CambiosSalud;
+  // Proyecto de varias sesiones al que pertenece; el número de sesión y el retoque gratuito los
+  // asigna el servidor al guardar
+  proyectoId?: string;
+  tipoSesion?: TipoSesion;
+  numeroSesion?: number;
+  retoqueGratis?: boolean;
+  // Firmado sin conexión: está en la cola del dispositivo y aún no existe en el servidor
+  pendienteSincronizacion?: boolean;
+  // Código que recibió el cliente sin conexión, si al sincronizar ya lo usaba otro consentimiento
+  codigoOriginal?: string;
+}
+
+// Obra de varias sesiones: agrupa el consentimiento original, las sesiones siguientes y los retoques
+export type TipoSesion = 'session' | 'touch_up';
+export type EstadoProyecto = 'active' | 'completed';
+
+export interface SesionProyecto {
+  consentimientoId: string;
+  codigo: string;
+  fecha: string;
+  artista: string;
+  tipo: TipoSesion;
+  numero?: number;
+  retoqueGratis: boolean;
+}
+
+export interface Proyecto {
+  id: string;
+  clienteId: string;
+  consentimientoOriginalId: string;
+  nombre: string;
+  estado: EstadoProyecto;
+  fechaCreacion: string;
+  // Sesiones y retoques, del más antiguo al más reciente
+  sesiones: SesionProyecto[];
+  // Hasta cuándo el próximo retoque es gratuito; no existe si ya se usó
+  limiteRetoqueGratis?: string;
+}
+
+// Cita agendada; se considera firmada cuando tiene un consentimiento vinculado
+export type EstadoCita = 'booked' | 'cancelled';
+
+export interface Cita {
+  id: string;
+  artistaId: string;
+  nombreArtista?: string;
+  fechaInicio: string;
+  duracionMinutos: number;
+  nombreCliente: string;
+  emailCliente?: string;
+  telefonoCliente?: string;
+  notas?: string;
+  estado: EstadoCita;
+  consentimientoId?: string;
+  codigoConsentimiento?: string;
+}
+
+export interface MensajeSeguimiento {
+  id: string;
+  consentimientoId: string;
+  codigoConsentimiento?: string;
+  nombreCliente?: string;
+  paso: PasoSeguimiento;
+  canal: CanalSeguimiento;
+  fechaProgramada: string;
+  estado: EstadoSeguimiento;
+  intentos: number;
+  fechaEnvio?: string;
+  error?: string;
 }
 
 export interface EstadisticaArtista {
   nombre: string;
   totalClientes: number;
+  menoresEdad?: number;
+  porMes?: {
+    mes: string;
+    cantidad: number;
+    menores: number;
+  }[];
 }
 
 export interface EstadisticasGenerales {
@@ -100,9 +318,12 @@ export interface EstadisticasGenerales {
   artistasStats: EstadisticaArtista[];
 }
 
+export type RolUsuario = 'owner' | 'receptionist' | 'artist';
+
 export interface Usuario {
   id: string;
-  usuario: string;
-  password: string;
-  rol: 'admin';
+  email: string;
+  nombre: string;
+  rol: RolUsuario;
+  artistaId?: string;
 }
\ No newline at end of file
@@ -18,6 +18,11 @@ export interface Database {
           tutor_consent_text: string
           footer_text: string
           contact_info: Json
+          logo: string | null
+          brand_color: string
+          followup_texts: Json
+          followup_channel: 'email' | 'whatsapp'
+          touch_up_window_days: number
           created_at: string
           updated_at: string
         }
@@ -29,6 +34,11 @@ export interface Database {
           tutor_consent_text: string
           footer_text: string
           contact_info?: Json
+          logo?: string | null
+          brand_color?: string
+          followup_texts?: Json
+          followup_channel?: 'email' | 'whatsapp'
+          touch_up_window_days?: number
           created_at?: string
           updated_at?: string
         }
@@ -40,6 +50,11 @@ export interface Database {
           tutor_consent_text?: string
           footer_text?: string
           contact_info?: Json
+          logo?: string | null
+          brand_color?: string
+          followup_texts?: Json
+          followup_channel?: 'email' | 'whatsapp'
+          touch_up_window_days?: number
           created_at?: string
           updated_at?: string
         }
@@ -81,6 +96,13 @@ export interface Database {
           show_additional_field: boolean
           additional_field_only_if_yes: boolean
           config_id: string
+          position: number
+          version: number
+          archived_at: string | null
+          risk_level: 'none' | 'info' | 'review' | 'block'
+          risk_answer: boolean
+          risk_message: string | null
+          procedure_type_id: string | null
           created_at: string
           updated_at: string
         }
@@ -91,6 +113,13 @@ export interface Database {
           show_additional_field?: boolean
           additional_field_only_if_yes?: boolean
           config_id: string
+          position?: number
+          version?: number
+          archived_at?: string | null
+          risk_level?: 'none' | 'info' | 'review' | 'block'
+          risk_answer?: boolean
+          risk_message?: string | null
+          procedure_type_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -101,6 +130,133 @@ export interface Database {
           show_additional_field?: boolean
           additional_field_only_if_yes?: boolean
           config_id?: string
+          position?: number
+          version?: number
+          archived_at?: string | null
+          risk_level?: 'none' | 'info' | 'review' | 'block'
+          risk_answer?: boolean
+          risk_message?: string | null
+          procedure_type_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      health_question_versions: {
+        Row: {
+          id: string
+          question_id: string
+          version: number
+          question: string
+          default_answer: boolean
+          show_additional_field: boolean
+          additional_field_only_if_yes: boolean
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          question_id: string
+          version: number
+          question: string
+          default_answer: boolean
+          show_additional_field: boolean
+          additional_field_only_if_yes: boolean
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          question_id?: string
+          version?: number
+          question?: string
+          default_answer?: boolean
+          show_additional_field?: boolean
+          additional_field_only_if_yes?: boolean
+          created_by?: string | null
+          created_at?: string
+        }
+      }
+      consent_templates: {
+        Row: {
+          id: string
+          config_id: string
+          procedure_type_id: string | null
+          version: number
+          consent_text: string
+          tutor_consent_text: string
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          config_id: string
+          procedure_type_id?: string | null
+          version: number
+          consent_text: string
+          tutor_consent_text: string
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          config_id?: string
+          procedure_type_id?: string | null
+          version?: number
+          consent_text?: string
+          tutor_consent_text?: string
+          created_by?: string | null
+          created_at?: string
+        }
+      }
+      procedure_types: {
+        Row: {
+          id: string
+          config_id: string
+          name: string
+          code_prefix: string
+          consent_text: string
+          tutor_consent_text: string
+          minimum_age: number | null
+          cream_aftercare: string
+          patch_aftercare: string
+          followup_texts: Json
+          asks_tattoo_details: boolean
+          active: boolean
+          position: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          config_id: string
+          name: string
+          code_prefix: string
+          consent_text: string
+          tutor_consent_text: string
+          minimum_age?: number | null
+          cream_aftercare?: string
+          patch_aftercare?: string
+          followup_texts?: Json
+          asks_tattoo_details?: boolean
+          active?: boolean
+          position?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          config_id?: string
+          name?: string
+          code_prefix?: string
+          consent_text?: string
+          tutor_consent_text?: string
+          minimum_age?: number | null
+          cream_aftercare?: string
+          patch_aftercare?: string
+          followup_texts?: Json
+          asks_tattoo_details?: boolean
+          active?: boolean
+          position?: number
           created_at?: string
           updated_at?: string
         }
@@ -115,6 +271,32 @@ export interface Database {
           client_signature: string
           tutor_signature: string | null
           archived: boolean
+          risk_level: 'none' | 'info' | 'review'
+          template_id: string | null
+          template_version: number | null
+          consent_text: string | null
+          tutor_consent_text: string | null
+          integrity_hash: string | null
+          client_id_document_path: string | null
+          tutor_id_document_path: string | null
+          signed_pdf_path: string | null
+          aftercare_type: 'cream' | 'patch' | null
+          email_status: 'pending' | 'sent' | 'failed' | null
+          email_sent_at: string | null
+          email_error: string | null
+          email_attempts: number
+          appointment_id: string | null
+          client_id: string | null
+          health_changes: Json | null
+          procedure_details: Json | null
+          design_image_path: string | null
+          procedure_type_id: string | null
+          project_id: string | null
+          session_type: 'session' | 'touch_up' | null
+          session_number: number | null
+          free_touch_up: boolean
+          signed_at: string
+          original_code: string | null
           created_at: string
           updated_at: string
         }
@@ -127,6 +309,32 @@ export interface Database {
           client_signature: string
           tutor_signature?: string | null
           archived?: boolean
+          risk_level?: 'none' | 'info' | 'review'
+          template_id?: string | null
+          template_version?: number | null
+          consent_text?: string | null
+          tutor_consent_text?: string | null
+          integrity_hash?: string | null
+          client_id_document_path?: string | null
+          tutor_id_document_path?: string | null
+          signed_pdf_path?: string | null
+          aftercare_type?: 'cream' | 'patch' | null
+          email_status?: 'pending' | 'sent' | 'failed' | null
+          email_sent_at?: string | null
+          email_error?: string | null
+          email_attempts?: number
+          appointment_id?: string | null
+          client_id?: string | null
+          health_changes?: Json | null
+          procedure_details?: Json | null
+          design_image_path?: string | null
+          procedure_type_id?: string | null
+          project_id?: string | null
+          session_type?: 'session' | 'touch_up' | null
+          session_number?: number | null
+          free_touch_up?: boolean
+          signed_at?: string
+          original_code?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -139,6 +347,32 @@ export interface Database {
           client_signature?: string
           tutor_signature?: string | null
           archived?: boolean
+          risk_level?: 'none' | 'info' | 'review'
+          template_id?: string | null
+          template_version?: number | null
+          consent_text?: string | null
+          tutor_consent_text?: string | null
+          integrity_hash?: string | null
+          client_id_document_path?: string | null
+          tutor_id_document_path?: string | null
+          signed_pdf_path?: string | null
+          aftercare_type?: 'cream' | 'patch' | null
+          email_status?: 'pending' | 'sent' | 'failed' | null
+          email_sent_at?: string | null
+          email_error?: string | null
+          email_attempts?: number
+          appointment_id?: string | null
+          client_id?: string | null
+          health_changes?: Json | null
+          procedure_details?: Json | null
+          design_image_path?: string | null
+          procedure_type_id?: string | null
+          project_id?: string | null
+          session_type?: 'session' | 'touch_up' | null
+          session_number?: number | null
+          free_touch_up?: boolean
+          signed_at?: string
+          original_code?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -169,6 +403,222 @@ export interface Database {
           created_at?: string
         }
       }
+      staff: {
+        Row: {
+          id: string
+          email: string
+          display_name: string
+          role: 'owner' | 'receptionist' | 'artist'
+          artist_id: string | null
+          active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id: string
+          email: string
+          display_name: string
+          role?: 'owner' | 'receptionist' | 'artist'
+          artist_id?: string | null
+          active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          email?: string
+          display_name?: string
+          role?: 'owner' | 'receptionist' | 'artist'
+          artist_id?: string | null
+          active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      audit_events: {
+        Row: {
+          id: string
+          actor_id: string | null
+          actor_email: string | null
+          action: string
+          entity_type: string
+          entity_id: string | null
+          diff: Json | null
+          client_timestamp: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          actor_id?: string | null
+          actor_email?: string | null
+          action: string
+          entity_type: string
+          entity_id?: string | null
+          diff?: Json | null
+          client_timestamp?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          actor_id?: string | null
+          actor_email?: string | null
+          action?: string
+          entity_type?: string
+          entity_id?: string | null
+          diff?: Json | null
+          client_timestamp?: string | null
+          created_at?: string
+        }
+      }
+      clients: {
+        Row: {
+          id: string
+          document_number: string
+          first_name: string
+          last_name: string
+          birth_date: string | null
+          phone: string | null
+          email: string | null
+          address: Json | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          document_number: string
+          first_name: string
+          last_name?: string
+          birth_date?: string | null
+          phone?: string | null
+          email?: string | null
+          address?: Json | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          document_number?: string
+          first_name?: string
+          last_name?: string
+          birth_date?: string | null
+          phone?: string | null
+          email?: string | null
+          address?: Json | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      appointments: {
+        Row: {
+          id: string
+          artist_id: string
+          starts_at: string
+          duration_minutes: number
+          client_name: string
+          client_email: string | null
+          client_phone: string | null
+          notes: string | null
+          status: 'booked' | 'cancelled'
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          artist_id: string
+          starts_at: string
+          duration_minutes?: number
+          client_name: string
+          client_email?: string | null
+          client_phone?: string | null
+          notes?: string | null
+          status?: 'booked' | 'cancelled'
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          artist_id?: string
+          starts_at?: string
+          duration_minutes?: number
+          client_name?: string
+          client_email?: string | null
+          client_phone?: string | null
+          notes?: string | null
+          status?: 'booked' | 'cancelled'
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      followup_messages: {
+        Row: {
+          id: string
+          consent_id: string
+          step: 'day_1' | 'day_3' | 'day_14' | 'week_6'
+          channel: 'email' | 'whatsapp'
+          scheduled_for: string
+          status: 'scheduled' | 'sending' | 'sent' | 'failed' | 'cancelled'
+          attempts: number
+          claimed_at: string | null
+          sent_at: string | null
+          error: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          consent_id: string
+          step: 'day_1' | 'day_3' | 'day_14' | 'week_6'
+          channel: 'email' | 'whatsapp'
+          scheduled_for: string
+          status?: 'scheduled' | 'sending' | 'sent' | 'failed' | 'cancelled'
+          attempts?: number
+          claimed_at?: string | null
+          sent_at?: string | null
+          error?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          consent_id?: string
+          step?: 'day_1' | 'day_3' | 'day_14' | 'week_6'
+          channel?: 'email' | 'whatsapp'
+          scheduled_for?: string
+          status?: 'scheduled' | 'sending' | 'sent' | 'failed' | 'cancelled'
+          attempts?: number
+          claimed_at?: string | null
+          sent_at?: string | null
+          error?: string | null
+          created_at?: string
+        }
+      }
+      projects: {
+        Row: {
+          id: string
+          client_id: string
+          original_consent_id: string
+          name: string
+          status: 'active' | 'completed'
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          client_id?: string
+          original_consent_id: string
+          name: string
+          status?: 'active' | 'completed'
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          client_id?: string
+          original_consent_id?: string
+          name?: string
+          status?: 'active' | 'completed'
+          created_at?: string
+          updated_at?: string
+        }
+      }
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,318 @@
+/*
+  Generador de códigos QR (modelo 2) sin dependencias ni servicios externos.
+  Cubre lo que necesita la aplicación: texto en modo byte (UTF-8), nivel de corrección M
+  y versiones 1 a 10 (hasta 213 bytes, suficiente para un enlace de verificación).
+*/
+
+// Bloques de corrección del nivel M por versión: [códigos de corrección por bloque, [bloques, datos por bloque][]]
+const BLOQUES_NIVEL_M: Array<[number, Array<[number, number]>]> = [
+  [10, [[1, 16]]],
+  [16, [[1, 28]]],
+  [26, [[1, 44]]],
+  [18, [[2, 32]]],
+  [24, [[2, 43]]],
+  [16, [[4, 27]]],
+  [18, [[4, 31]]],
+  [22, [[2, 38], [2, 39]]],
+  [22, [[3, 36], [2, 37]]],
+  [26, [[4, 43], [1, 44]]]
+];
+
+// Centros de los patrones de alineación por versión
+const ALINEACION: number[][] = [
+  [],
+  [6, 18],
+  [6, 22],
+  [6, 26],
+  [6, 30],
+  [6, 34],
+  [6, 22, 38],
+  [6, 24, 42],
+  [6, 26, 46],
+  [6, 28, 50]
+];
+
+const MASCARAS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => (x * y) % 2 + (x * y) % 3 === 0,
+  (x, y) => ((x * y) % 2 + (x * y) % 3) % 2 === 0,
+  (x, y) => ((x + y) % 2 + (x * y) % 3) % 2 === 0
+];
+
+const bit = (valor: number, posicion: number) => ((valor >>> posicion) & 1) !== 0;
+
+// Multiplicación en GF(256) con el polinomio x^8 + x^4 + x^3 + x^2 + 1
+const multiplicarGf = (x: number, y: number): number => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const divisorReedSolomon = (grado: number): number[] => {
+  const resultado = new Array<number>(grado).fill(0);
+  resultado[grado - 1] = 1;
+  let raiz = 1;
+  for (let i = 0; i < grado; i++) {
+    for (let j = 0; j < resultado.length; j++) {
+      resultado[j] = multiplicarGf(resultado[j], raiz);
+      if (j + 1 < resultado.length) {
+        resultado[j] ^= resultado[j + 1];
+      }
+    }
+    raiz = multiplicarGf(raiz, 0x02);
+  }
+  return resultado;
+};
+
+const restoReedSolomon = (datos: number[], divisor: number[]): number[] => {
+  const resultado = new Array<number>(divisor.length).fill(0);
+  datos.forEach(byte => {
+    const factor = byte ^ (resultado.shift() as number);
+    resultado.push(0);
+    divisor.forEach((coeficiente, i) => {
+      resultado[i] ^= multiplicarGf(coeficiente, factor);
+    });
+  });
+  return resultado;
+};
+
+// Codifica el texto, agrega el relleno y entrelaza los bloques con su corrección de errores
+const codificarDatos = (bytes: Uint8Array, version: number): number[] => {
+  const [correccionPorBloque, grupos] = BLOQUES_NIVEL_M[version - 1];
+  const capacidad = grupos.reduce((suma, [bloques, datos]) => suma + bloques * datos, 0);
+
+  const bits: number[] = [];
+  const agregar = (valor: number, largo: number) => {
+    for (let i = largo - 1; i >= 0; i--) bits.push((valor >>> i) & 1);
+  };
+  agregar(0b0100, 4); // modo byte
+  agregar(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach(byte => agregar(byte, 8));
+  agregar(0, Math.min(4, capacidad * 8 - bits.length));
+  agregar(0, (8 - bits.length % 8) % 8);
+
+  const datos: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    datos.push(bits.slice(i, i + 8).reduce((byte, b) => (byte << 1) | b, 0));
+  }
+  for (let relleno = 0xec; datos.length < capacidad; relleno ^= 0xec ^ 0x11) {
+    datos.push(relleno);
+  }
+
+  const divisor = divisorReedSolomon(correccionPorBloque);
+  const bloques: Array<{ datos: number[]; correccion: number[] }> = [];
+  let inicio = 0;
+  grupos.forEach(([cantidad, largo]) => {
+    for (let i = 0; i < cantidad; i++) {
+      const bloque = datos.slice(inicio, inicio + largo);
+      bloques.push({ datos: bloque, correccion: restoReedSolomon(bloque, divisor) });
+      inicio += largo;
+    }
+  });
+
+  const resultado: number[] = [];
+  const largoMaximo = Math.max(...bloques.map(bloque => bloque.datos.length));
+  for (let i = 0; i < largoMaximo; i++) {
+    bloques.forEach(bloque => {
+      if (i < bloque.datos.length) resultado.push(bloque.datos[i]);
+    });
+  }
+  for (let i = 0; i < correccionPorBloque; i++) {
+    bloques.forEach(bloque => resultado.push(bloque.correccion[i]));
+  }
+  return resultado;
+};
+
+// Penalización de una matriz según las cuatro reglas de la norma; gana la máscara con menos puntos
+const penalizacion = (modulos: boolean[][]): number => {
+  const lado = modulos.length;
+  let total = 0;
+
+  const lineas: boolean[][] = [];
+  for (let i = 0; i < lado; i++) {
+    lineas.push(modulos[i]);
+    lineas.push(modulos.map(fila => fila[i]));
+  }
+
+  const patronBuscador = [true, false, true, true, true, false, true];
+  lineas.forEach(linea => {
+    // Regla 1: cinco o más módulos seguidos del mismo color
+    let racha = 1;
+    for (let i = 1; i <= lado; i++) {
+      if (i < lado && linea[i] === linea[i - 1]) {
+        racha++;
+      } else {
+        if (racha >= 5) total += racha - 2;
+        racha = 1;
+      }
+    }
+
+    // Regla 3: patrones parecidos a los buscadores (1:1:3:1:1) con cuatro módulos claros a un lado
+    for (let i = 0; i + 7 <= lado; i++) {
+      if (!patronBuscador.every((valor, j) => linea[i + j] === valor)) continue;
+      const claroAntes = [1, 2, 3, 4].every(j => i - j < 0 || !linea[i - j]);
+      const claroDespues = [0, 1, 2, 3].every(j => i + 7 + j >= lado || !linea[i + 7 + j]);
+      if (claroAntes || claroDespues) total += 40;
+    }
+  });
+
+  // Regla 2: bloques de 2x2 del mismo color
+  for (let y = 0; y < lado - 1; y++) {
+    for (let x = 0; x < lado - 1; x++) {
+      const color = modulos[y][x];
+      if (color === modulos[y][x + 1] && color === modulos[y + 1][x] && color === modulos[y + 1][x + 1]) {
+        total += 3;
+      }
+    }
+  }
+
+  // Regla 4: proporción de módulos oscuros lejos del 50 %
+  const oscuros = modulos.reduce((suma, fila) => suma + fila.filter(Boolean).length, 0);
+  total += Math.floor(Math.abs((oscuros * 100) / (lado * lado) - 50) / 5) * 10;
+
+  return total;
+};
+
+/**
+ * Genera la matriz de un código QR
+ * @param texto Texto a codificar (p. ej. un enlace)
+ * @returns Matriz cuadrada de módulos; true = oscuro. No incluye el margen blanco
+ */
+export const generarMatrizQr = (texto: string): boolean[][] => {
+  const bytes = new TextEncoder().encode(texto);
+
+  const version = BLOQUES_NIVEL_M.findIndex(([, grupos], indice) => {
+    const capacidad = grupos.reduce((suma, [bloques, datos]) => suma + bloques * datos, 0);
+    const bitsContador = indice + 1 < 10 ? 8 : 16;
+    return 4 + bitsContador + bytes.length * 8 <= capacidad * 8;
+  }) + 1;
+  if (version === 0) {
+    throw new Error('El texto es demasiado largo para el código QR');
+  }
+
+  const lado = version * 4 + 17;
+  const modulos = Array.from({ length: lado }, () => new Array<boolean>(lado).fill(false));
+  const reservados = Array.from({ length: lado }, () => new Array<boolean>(lado).fill(false));
+  const fijar = (x: number, y: number, oscuro: boolean) => {
+    modulos[y][x] = oscuro;
+    reservados[y][x] = true;
+  };
+
+  // Patrones de sincronización
+  for (let i = 0; i < lado; i++) {
+    fijar(6, i, i % 2 === 0);
+    fijar(i, 6, i % 2 === 0);
+  }
+
+  // Patrones buscadores con su separador
+  [[3, 3], [lado - 4, 3], [3, lado - 4]].forEach(([cx, cy]) => {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x < 0 || x >= lado || y < 0 || y >= lado) continue;
+        const distancia = Math.max(Math.abs(dx), Math.abs(dy));
+        fijar(x, y, distancia !== 2 && distancia !== 4);
+      }
+    }
+  });
+
+  // Patrones de alineación (salvo donde chocan con los buscadores)
+  const centros = ALINEACION[version - 1];
+  centros.forEach((cy, i) => {
+    centros.forEach((cx, j) => {
+      const ultimo = centros.length - 1;
+      if ((i === 0 && j === 0) || (i === 0 && j === ultimo) || (i === ultimo && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          fijar(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    });
+  });
+
+  // Información de formato: nivel M (00) y máscara, con su BCH
+  const dibujarFormato = (mascara: number) => {
+    const datos = mascara;
+    let resto = datos;
+    for (let i = 0; i < 10; i++) resto = (resto << 1) ^ ((resto >>> 9) * 0x537);
+    const bits = ((datos << 10) | resto) ^ 0x5412;
+
+    for (let i = 0; i <= 5; i++) fijar(8, i, bit(bits, i));
+    fijar(8, 7, bit(bits, 6));
+    fijar(8, 8, bit(bits, 7));
+    fijar(7, 8, bit(bits, 8));
+    for (let i = 9; i < 15; i++) fijar(14 - i, 8, bit(bits, i));
+
+    for (let i = 0; i < 8; i++) fijar(lado - 1 - i, 8, bit(bits, i));
+    for (let i = 8; i < 15; i++) fijar(8, lado - 15 + i, bit(bits, i));
+    fijar(8, lado - 8, true);
+  };
+  dibujarFormato(0);
+
+  // Información de versión (desde la versión 7)
+  if (version >= 7) {
+    let resto = version;
+    for (let i = 0; i < 12; i++) resto = (resto << 1) ^ ((resto >>> 11) * 0x1f25);
+    const bits = (version << 12) | resto;
+    for (let i = 0; i < 18; i++) {
+      const a = lado - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      fijar(a, b, bit(bits, i));
+      fijar(b, a, bit(bits, i));
+    }
+  }
+
+  // Datos en zigzag, de a dos columnas desde la esquina inferior derecha
+  const datos = codificarDatos(bytes, version);
+  let indiceBit = 0;
+  for (let derecha = lado - 1; derecha >= 1; derecha -= 2) {
+    if (derecha === 6) derecha = 5;
+    for (let vertical = 0; vertical < lado; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = derecha - j;
+        const haciaArriba = ((derecha + 1) & 2) === 0;
+        const y = haciaArriba ? lado - 1 - vertical : vertical;
+        if (!reservados[y][x] && indiceBit < datos.length * 8) {
+          modulos[y][x] = bit(datos[indiceBit >>> 3], 7 - (indiceBit & 7));
+          indiceBit++;
+        }
+      }
+    }
+  }
+
+  const aplicarMascara = (mascara: number) => {
+    for (let y = 0; y < lado; y++) {
+      for (let x = 0; x < lado; x++) {
+        if (!reservados[y][x] && MASCARAS[mascara](x, y)) {
+          modulos[y][x] = !modulos[y][x];
+        }
+      }
+    }
+  };
+
+  // Probar las ocho máscaras y quedarse con la de menor penalización
+  let mejorMascara = 0;
+  let menorPenalizacion = Infinity;
+  for (let mascara = 0; mascara < MASCARAS.length; mascara++) {
+    aplicarMascara(mascara);
+    dibujarFormato(mascara);
+    const puntos = penalizacion(modulos);
+    if (puntos < menorPenalizacion) {
+      mejorMascara = mascara;
+      menorPenalizacion = puntos;
+    }
+    aplicarMascara(mascara); // la máscara es un XOR: aplicarla otra vez la deshace
+  }
+
+  aplicarMascara(mejorMascara);
+  dibujarFormato(mejorMascara);
+  return modulos;
+};
@@ -0,0 +1,468 @@
+import { jsPDF } from 'jspdf';
+import { ConfiguracionFormulario } from '../types';
+import { generarMatrizQr } from './codigoQr';
+
+export type ColorRgb = [number, number, number];
+
+export const COLOR_MARCA_PREDETERMINADO = '#008080';
+
+const FONDO_CAMPOS: ColorRgb = [245, 245, 245];
+const FONDO_FILA_ALTERNA: ColorRgb = [248, 248, 248];
+const TEXTO_TENUE: ColorRgb = [110, 110, 110];
+
+/**
+ * Convierte un color `#rrggbb` a RGB; si no es válido usa el color predeterminado
+ * @param hex Color de la marca del estudio
+ */
+export const hexARgb = (hex?: string): ColorRgb => {
+  const valido = hex && /^#[0-9a-f]{6}$/i.test(hex) ? hex : COLOR_MARCA_PREDETERMINADO;
+  return [1, 3, 5].map(inicio => parseInt(valido.slice(inicio, inicio + 2), 16)) as ColorRgb;
+};
+
+// Mezcla un color con blanco para los fondos suaves (0 = el color, 1 = blanco)
+const aclarar = (color: ColorRgb, proporcion: number): ColorRgb =>
+  color.map(canal => Math.round(canal + (255 - canal) * proporcion)) as ColorRgb;
+
+export interface CampoDocumento {
+  etiqueta: string;
+  valor: string;
+  // Ocupa toda la fila en vez de media
+  anchoCompleto?: boolean;
+}
+
+export interface ColumnaTabla {
+  titulo: string;
+  // Ancho relativo a las demás columnas
+  ancho: number;
+}
+
+export interface FilaTabla {
+  celdas: string[];
+  resaltada?: boolean;
+}
+
+export interface BloqueFirma {
+  etiqueta: string;
+  // Imagen PNG (data URL) de la firma
+  imagen?: string;
+  detalle?: string;
+}
+
+interface OpcionesVerificacion {
+  // Huella SHA-256 calculada por el servidor
+  hash?: string;
+  // Enlace de verificación pública; se imprime también como código QR
+  enlace?: string;
+}
+
+interface OpcionesParrafo {
+  tamano?: number;
+  sangria?: number;
+  tenue?: boolean;
+}
+
+/**
+ * Crea un documento A4 con la marca del estudio (logo, nombre, dirección y color) y las piezas
+ * comunes a todos los PDF de la aplicación. Cada pieza se dibuja a continuación de la anterior
+ * y agrega páginas cuando no queda espacio.
+ * @param config Configuración del estudio
+ */
+export const crearDocumentoPdf = (config: ConfiguracionFormulario) => {
+  const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  const anchoPagina = pdf.internal.pageSize.getWidth();
+  const altoPagina = pdf.internal.pageSize.getHeight();
+  const margen = 20;
+  const anchoUtil = anchoPagina - margen * 2;
+  // Bajo este límite van el pie y la numeración
+  const limiteInferior = altoPagina - 20;
+  const color = hexARgb(config.colorMarca);
+  let y = margen;
+
+  const asegurarEspacio = (alto: number) => {
+    if (y + alto > limiteInferior) {
+      pdf.addPage();
+      y = margen;
+    }
+  };
+
+  const restablecerTexto = () => {
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(10);
+    pdf.setTextColor(0, 0, 0);
+  };
+
+  // Alto de una línea de texto con la fuente actual, en mm
+  const altoLinea = () => pdf.getFontSize() * pdf.getLineHeightFactor() / pdf.internal.scaleFactor;
+
+  // Logo sobre un recuadro blanco, ajustado sin deformarlo
+  const dibujarLogo = (x: number, yLogo: number, lado: number): boolean => {
+    if (!config.logo) return false;
+
+    try {
+      const propiedades = pdf.getImageProperties(config.logo);
+      const escala = Math.min((lado - 2) / propiedades.width, (lado - 2) / propiedades.height);
+      const ancho = propiedades.width * escala;
+      const alto = propiedades.height * escala;
+
+      pdf.setFillColor(255, 255, 255);
+      pdf.roundedRect(x, yLogo, lado, lado, 2, 2, 'F');
+      pdf.addImage(config.logo, propiedades.fileType, x + (lado - ancho) / 2, yLogo + (lado - alto) / 2, ancho, alto);
+      return true;
+    } catch (error) {
+      console.error('Error al añadir el logo al PDF:', error);
+      return false;
+    }
+  };
+
+  /**
+   * Banda con la marca del estudio y el título del documento
+   */
+  const encabezado = (titulo: string) => {
+    const altoBanda = 36;
+    pdf.setFillColor(...color);
+    pdf.rect(0, 0, anchoPagina, altoBanda, 'F');
+
+    // Con logo el nombre va a su derecha; sin logo, centrado
+    const conLogo = dibujarLogo(margen, 6, 24);
+    const xTexto = conLogo ? margen + 30 : anchoPagina / 2;
+    const alineacion = conLogo ? 'left' : 'center';
+
+    pdf.setTextColor(255, 255, 255);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(20);
+    pdf.text(config.nombreEstudio, xTexto, 16, { align: alineacion });
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(11);
+    pdf.text(config.direccionEstudio, xTexto, 25, { align: alineacion });
+
+    y = altoBanda + 12;
+    pdf.setTextColor(...color);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(13);
+    pdf.text(titulo, anchoPagina / 2, y, { align: 'center' });
+    y += 10;
+    restablecerTexto();
+  };
+
+  /**
+   * Título de sección subrayado con el color de la marca
+   */
+  const seccion = (titulo: string) => {
+    asegurarEspacio(20);
+    pdf.setTextColor(...color);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(12);
+    pdf.text(titulo, margen, y);
+    pdf.setDrawColor(...color);
+    pdf.setLineWidth(0.5);
+    pdf.line(margen, y + 2, margen + anchoUtil, y + 2);
+    y += 9;
+    restablecerTexto();
+  };
+
+  /**
+   * Texto corrido; las líneas que no caben pasan a la página siguiente
+   */
+  const parrafo = (texto: string, { tamano = 10, sangria = 0, tenue = false }: OpcionesParrafo = {}) => {
+    pdf.setFontSize(tamano);
+    if (tenue) {
+      pdf.setTextColor(...TEXTO_TENUE);
+    }
+
+    const alto = altoLinea();
+    const lineas: string[] = pdf.splitTextToSize(texto, anchoUtil - sangria);
+    lineas.forEach(linea => {
+      asegurarEspacio(alto);
+      pdf.text(linea, margen + sangria, y);
+      y += alto;
+    });
+
+    y += 3;
+    restablecerTexto();
+  };
+
+  /**
+   * Datos en dos columnas (etiqueta: valor) sobre un recuadro
+   */
+  const campos = (lista: CampoDocumento[], fondo: ColorRgb = FONDO_CAMPOS) => {
+    // Ubicar cada campo en una fila y columna; los de ancho completo ocupan su propia fila
+    const posiciones: Array<{ campo: CampoDocumento; fila: number; columna: number }> = [];
+    let fila = 0;
+    let columna = 0;
+    lista.forEach(campo => {
+      if (campo.anchoCompleto && columna === 1) {
+        fila++;
+        columna = 0;
+      }
+      posiciones.push({ campo, fila, columna });
+      if (campo.anchoCompleto || columna === 1) {
+        fila++;
+        columna = 0;
+      } else {
+        columna = 1;
+      }
+    });
+    const totalFilas = columna === 1 ? fila + 1 : fila;
+
+    const altoFila = 7;
+    const alto = totalFilas * altoFila + 5;
+    asegurarEspacio(alto);
+
+    pdf.setFillColor(...fondo);
+    pdf.roundedRect(margen, y, anchoUtil, alto, 3, 3, 'F');
+    pdf.setFontSize(10);
+
+    posiciones.forEach(({ campo, fila: filaCampo, columna: columnaCampo }) => {
+      const x = margen + 5 + columnaCampo * (anchoUtil / 2);
+      const yCampo = y + 7 + filaCampo * altoFila;
+      const anchoDisponible = (campo.anchoCompleto ? anchoUtil : anchoUtil / 2) - 10;
+
+      pdf.setFont('helvetica', 'bold');
+      const etiqueta = `${campo.etiqueta}: `;
+      pdf.text(etiqueta, x, yCampo);
+      const anchoEtiqueta = pdf.getTextWidth(etiqueta);
+
+      // Una sola línea por campo: lo que no cabe se corta
+      pdf.setFont('helvetica', 'normal');
+      const [valor = ''] = pdf.splitTextToSize(campo.valor || '-', anchoDisponible - anchoEtiqueta);
+      pdf.text(valor, x + anchoEtiqueta, yCampo);
+    });
+
+    y += alto + 6;
+    restablecerTexto();
+  };
+
+  /**
+   * Tabla con encabezado del color de la marca; el encabezado se repite en cada página
+   */
+  const tabla = (columnas: ColumnaTabla[], filas: FilaTabla[]) => {
+    const totalRelativo = columnas.reduce((suma, columna) => suma + columna.ancho, 0);
+    const anchos = columnas.map(columna => (columna.ancho / totalRelativo) * anchoUtil);
+    const relleno = 2;
+    const altoCabecera = 8;
+
+    const dibujarCabecera = () => {
+      pdf.setFillColor(...color);
+      pdf.rect(margen, y, anchoUtil, altoCabecera, 'F');
+      pdf.setTextColor(255, 255, 255);
+      pdf.setFont('helvetica', 'bold');
+      pdf.setFontSize(9);
+
+      let x = margen;
+      columnas.forEach((columna, indice) => {
+        pdf.text(columna.titulo, x + relleno, y + 5.5);
+        x += anchos[indice];
+      });
+
+      y += altoCabecera;
+      restablecerTexto();
+      pdf.setFontSize(9);
+    };
+
+    asegurarEspacio(altoCabecera + 10);
+    dibujarCabecera();
+
+    filas.forEach((fila, indiceFila) => {
+      const lineasCeldas = fila.celdas.map((celda, indice) =>
+        pdf.splitTextToSize(celda || '', anchos[indice] - relleno * 2) as string[]
+      );
+      const alto = Math.max(1, ...lineasCeldas.map(lineas => lineas.length)) * altoLinea() + relleno * 2;
+
+      if (y + alto > limiteInferior) {
+        pdf.addPage();
+        y = margen;
+        dibujarCabecera();
+      }
+
+      // Filas resaltadas con un tono suave de la marca; el resto alternadas
+      if (fila.resaltada) {
+        pdf.setFillColor(...aclarar(color, 0.85));
+        pdf.rect(margen, y, anchoUtil, alto, 'F');
+      } else if (indiceFila % 2 === 1) {
+        pdf.setFillColor(...FONDO_FILA_ALTERNA);
+        pdf.rect(margen, y, anchoUtil, alto, 'F');
+      }
+
+      let x = margen;
+      lineasCeldas.forEach((lineas, indice) => {
+        pdf.text(lineas, x + relleno, y + relleno + altoLinea() * 0.75);
+        x += anchos[indice];
+      });
+
+      y += alto;
+    });
+
+    pdf.setDrawColor(...color);
+    pdf.setLineWidth(0.3);
+    pdf.line(margen, y, margen + anchoUtil, y);
+    y += 8;
+    restablecerTexto();
+  };
+
+  /**
+   * Imagen centrada (p. ej. el diseño aprobado), ajustada al ancho útil y a un alto máximo sin deformarla
+   */
+  const imagen = (datos: string, { altoMaximo = 90 }: { altoMaximo?: number } = {}) => {
+    try {
+      const propiedades = pdf.getImageProperties(datos);
+      const escala = Math.min(anchoUtil / propiedades.width, altoMaximo / propiedades.height);
+      const ancho = propiedades.width * escala;
+      const alto = propiedades.height * escala;
+
+      asegurarEspacio(alto);
+      pdf.addImage(datos, propiedades.fileType, margen + (anchoUtil - ancho) / 2, y, ancho, alto);
+      y += alto + 8;
+    } catch (error) {
+      console.error('Error al añadir la imagen al PDF:', error);
+    }
+  };
+
+  // Código QR con su margen blanco, dibujado con rectángulos para que se vea nítido al imprimir
+  const dibujarQr = (texto: string, x: number, yQr: number, lado: number) => {
+    const matriz = generarMatrizQr(texto);
+    const modulo = lado / (matriz.length + 8);
+
+    pdf.setFillColor(255, 255, 255);
+    pdf.rect(x, yQr, lado, lado, 'F');
+    pdf.setFillColor(0, 0, 0);
+
+    // Los módulos oscuros seguidos de una fila se dibujan como un solo rectángulo
+    matriz.forEach((fila, indiceFila) => {
+      let inicio = -1;
+      fila.forEach((oscuro, indiceColumna) => {
+        if (oscuro && inicio < 0) inicio = indiceColumna;
+        if ((!oscuro || indiceColumna === fila.length - 1) && inicio >= 0) {
+          const fin = oscuro ? indiceColumna + 1 : indiceColumna;
+          pdf.rect(x + (inicio + 4) * modulo, yQr + (indiceFila + 4) * modulo, (fin - inicio) * modulo, modulo, 'F');
+          inicio = -1;
+        }
+      });
+    });
+  };
+
+  /**
+   * Recuadro con el código del documento, su huella SHA-256 si el servidor lo selló
+   * y un código QR con el enlace de verificación
+   */
+  const recuadroVerificacion = (codigo: string, { hash, enlace }: OpcionesVerificacion = {}) => {
+    const ladoQr = 30;
+    const alto = enlace ? ladoQr + 4 : hash ? 20 : 13;
+    asegurarEspacio(alto);
+
+    pdf.setFillColor(...aclarar(color, 0.9));
+    pdf.roundedRect(margen, y, anchoUtil, alto, 3, 3, 'F');
+
+    pdf.setTextColor(...color);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(11);
+    pdf.text(`Código: ${codigo}`, margen + 5, y + 8);
+
+    if (hash) {
+      pdf.setFontSize(9);
+      // Con QR la insignia va bajo el código; sin QR, a la derecha
+      if (enlace) {
+        pdf.text('DOCUMENTO SELLADO', margen + 5, y + 14);
+      } else {
+        pdf.text('DOCUMENTO SELLADO', margen + anchoUtil - 5, y + 8, { align: 'right' });
+      }
+      pdf.setFont('courier', 'normal');
+      pdf.setFontSize(7.5);
+      pdf.setTextColor(...TEXTO_TENUE);
+      pdf.text(`SHA-256: ${hash}`, margen + 5, enlace ? y + 20 : y + 15);
+    }
+
+    if (enlace) {
+      pdf.setFont('helvetica', 'normal');
+      pdf.setFontSize(8);
+      pdf.setTextColor(...TEXTO_TENUE);
+      pdf.text('Escanee el código QR o visite:', margen + 5, y + 26);
+      pdf.setTextColor(...color);
+      pdf.text(enlace, margen + 5, y + 30);
+
+      try {
+        dibujarQr(enlace, margen + anchoUtil - ladoQr - 2, y + 2, ladoQr);
+      } catch (error) {
+        console.error('Error al generar el código QR:', error);
+      }
+    }
+
+    y += alto + 8;
+    restablecerTexto();
+  };
+
+  /**
+   * Firmas con su línea, etiqueta y detalle; hasta dos, una a cada lado
+   */
+  const firmas = (bloques: BloqueFirma[]) => {
+    const anchoBloque = 70;
+    const altoFirma = 22;
+    asegurarEspacio(altoFirma + 18);
+    const yLinea = y + altoFirma;
+
+    bloques.forEach((bloque, indice) => {
+      const x = indice === 0 ? margen : anchoPagina - margen - anchoBloque;
+
+      if (bloque.imagen) {
+        try {
+          pdf.addImage(bloque.imagen, 'PNG', x, y, anchoBloque, altoFirma);
+        } catch (error) {
+          console.error('Error al añadir la firma al PDF:', error);
+        }
+      }
+
+      pdf.setDrawColor(...color);
+      pdf.setLineWidth(0.3);
+      pdf.line(x, yLinea, x + anchoBloque, yLinea);
+      pdf.setFontSize(10);
+      pdf.setTextColor(0, 0, 0);
+      pdf.text(bloque.etiqueta, x, yLinea + 5);
+
+      if (bloque.detalle) {
+        pdf.setFontSize(9);
+        pdf.setTextColor(...TEXTO_TENUE);
+        pdf.text(bloque.detalle, x, yLinea + 10);
+      }
+    });
+
+    y = yLinea + 16;
+    restablecerTexto();
+  };
+
+  /**
+   * Agrega el pie y la numeración a todas las páginas y devuelve el documento terminado
+   */
+  const finalizar = (pie?: string): jsPDF => {
+    const totalPaginas = pdf.getNumberOfPages();
+
+    for (let pagina = 1; pagina <= totalPaginas; pagina++) {
+      pdf.setPage(pagina);
+      pdf.setDrawColor(...color);
+      pdf.setLineWidth(0.3);
+      pdf.line(margen, altoPagina - 15, anchoPagina - margen, altoPagina - 15);
+
+      pdf.setFont('helvetica', 'normal');
+      pdf.setFontSize(8);
+      pdf.setTextColor(...TEXTO_TENUE);
+      if (pie) {
+        pdf.text(pdf.splitTextToSize(pie, anchoUtil - 30), margen, altoPagina - 11);
+      }
+      pdf.text(`Página ${pagina} de ${totalPaginas}`, anchoPagina - margen, altoPagina - 11, { align: 'right' });
+    }
+
+    return pdf;
+  };
+
+  return {
+    pdf,
+    asegurarEspacio,
+    encabezado,
+    seccion,
+    parrafo,
+    campos,
+    tabla,
+    imagen,
+    recuadroVerificacion,
+    firmas,
+    finalizar
+  };
+};
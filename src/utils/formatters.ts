@@ -64,4 +64,24 @@ export const validarRut = (rut: string): boolean => {
   const dvCalculado = resto === 0 ? '0' : resto === 1 ? 'K' : String(11 - resto);
   
   return dvCalculado === dv;
-};
\ No newline at end of file
+};
+
+// Normalizar RUT o pasaporte para identificar al cliente: mayúsculas, sin puntos, guiones ni espacios.
+// Debe coincidir con la función normalizar_documento de la base de datos
+export const normalizarDocumento = (documento: string): string => {
+  return (documento || '').replace(/[^0-9A-Za-z]/g, '').toUpperCase();
+};
+
+// Edad cumplida a la fecha de hoy a partir de la fecha de nacimiento ('yyyy-MM-dd')
+export const calcularEdad = (fechaNacimiento: string): number => {
+  const fechaNac = new Date(fechaNacimiento);
+  const hoy = new Date();
+  let edad = hoy.getFullYear() - fechaNac.getFullYear();
+  const m = hoy.getMonth() - fechaNac.getMonth();
+  
+  if (m < 0 || (m === 0 && hoy.getDate() < fechaNac.getDate())) {
+    edad--;
+  }
+  
+  return edad;
+};
@@ -0,0 +1,80 @@
+interface OpcionesCompresion {
+  // Lado mayor de la imagen resultante, en píxeles
+  ladoMaximo?: number;
+  // Calidad JPEG entre 0 y 1
+  calidad?: number;
+}
+
+const cargarImagen = (archivo: Blob): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(archivo);
+    const imagen = new Image();
+    imagen.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(imagen);
+    };
+    imagen.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('No se pudo leer la imagen'));
+    };
+    imagen.src = url;
+  });
+};
+
+/**
+ * Reduce y convierte a JPEG una foto antes de subirla.
+ * Las fotos de celular pesan varios MB; para leer una cédula basta con ~1600 px de lado mayor.
+ * @param archivo Imagen seleccionada por el usuario
+ * @returns Imagen JPEG comprimida
+ */
+export const comprimirImagen = async (
+  archivo: Blob,
+  { ladoMaximo = 1600, calidad = 0.8 }: OpcionesCompresion = {}
+): Promise<Blob> => {
+  const imagen = await cargarImagen(archivo);
+  const escala = Math.min(1, ladoMaximo / Math.max(imagen.width, imagen.height));
+  const ancho = Math.round(imagen.width * escala);
+  const alto = Math.round(imagen.height * escala);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = ancho;
+  canvas.height = alto;
+  const contexto = canvas.getContext('2d');
+  if (!contexto) {
+    throw new Error('No se pudo procesar la imagen');
+  }
+
+  // Fondo blanco para las imágenes con transparencia (PNG)
+  contexto.fillStyle = '#ffffff';
+  contexto.fillRect(0, 0, ancho, alto);
+  contexto.drawImage(imagen, 0, 0, ancho, alto);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => blob ? resolve(blob) : reject(new Error('No se pudo comprimir la imagen')),
+      'image/jpeg',
+      calidad
+    );
+  });
+};
+
+/**
+ * Convierte una imagen en data URL, para guardarla embebida en la configuración
+ * @param archivo Imagen ya comprimida
+ */
+export const leerComoDataUrl = (archivo: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('No se pudo leer la imagen'));
+    reader.readAsDataURL(archivo);
+  });
+};
+
+/**
+ * Imagen reducida en data URL para incluirla en un PDF (p. ej. el diseño aprobado)
+ * @param archivo Imagen seleccionada por el usuario
+ */
+export const imagenParaPdf = async (archivo: Blob): Promise<string> => {
+  return leerComoDataUrl(await comprimirImagen(archivo, { ladoMaximo: 1000, calidad: 0.75 }));
+};
@@ -0,0 +1,88 @@
+import { Consentimiento } from '../types';
+
+export type EstadoIntegridad = 'integro' | 'alterado' | 'sin_huella';
+
+const codificador = new TextEncoder();
+
+// jsonb ordena las claves por largo en bytes y luego byte a byte
+const compararClaves = (a: string, b: string): number => {
+  const bytesA = codificador.encode(a);
+  const bytesB = codificador.encode(b);
+  if (bytesA.length !== bytesB.length) return bytesA.length - bytesB.length;
+  for (let i = 0; i < bytesA.length; i++) {
+    if (bytesA[i] !== bytesB[i]) return bytesA[i] - bytesB[i];
+  }
+  return 0;
+};
+
+/**
+ * Serializa un valor igual que `jsonb_strip_nulls(...)::text` en PostgreSQL:
+ * claves ordenadas como jsonb, separadores ", " y ": ", y sin propiedades nulas o indefinidas
+ * @param valor Valor a serializar
+ */
+export const serializarCanonico = (valor: unknown): string => {
+  if (Array.isArray(valor)) {
+    return `[${valor.map(item => serializarCanonico(item ?? null)).join(', ')}]`;
+  }
+
+  if (valor !== null && typeof valor === 'object') {
+    const entradas = Object.entries(valor as Record<string, unknown>)
+      .filter(([, v]) => v !== null && v !== undefined)
+      .sort(([a], [b]) => compararClaves(a, b));
+    return `{${entradas.map(([clave, v]) => `${JSON.stringify(clave)}: ${serializarCanonico(v)}`).join(', ')}}`;
+  }
+
+  return JSON.stringify(valor ?? null);
+};
+
+/**
+ * Contenido que cubre la huella; debe coincidir con la función SQL `huella_consentimiento`
+ * @param consentimiento Consentimiento guardado
+ */
+export const contenidoIntegridad = (consentimiento: Consentimiento) => ({
+  codigo: consentimiento.codigo,
+  cliente: {
+    nombre: consentimiento.cliente.nombre,
+    apellidos: consentimiento.cliente.apellidos,
+    edad: consentimiento.cliente.edad,
+    rut: consentimiento.cliente.rut,
+    fechaNacimiento: consentimiento.cliente.fechaNacimiento,
+    direccion: consentimiento.cliente.direccion,
+    telefono: consentimiento.cliente.telefono,
+    email: consentimiento.cliente.email,
+    confirmacionDatos: consentimiento.cliente.confirmacionDatos
+  },
+  tutor: consentimiento.tutor ? {
+    nombre: consentimiento.tutor.nombre,
+    rut: consentimiento.tutor.rut,
+    parentesco: consentimiento.tutor.parentesco,
+    otroParentesco: consentimiento.tutor.otroParentesco,
+    firma: consentimiento.tutor.firma
+  } : undefined,
+  informacionSalud: consentimiento.informacionSalud || {},
+  textoConsentimiento: consentimiento.textoConsentimientoFirmado,
+  textoTutor: consentimiento.textoTutorFirmado,
+  firma: consentimiento.firma
+});
+
+/**
+ * Calcula la huella SHA-256 (hex) del contenido firmado de un consentimiento
+ * @param consentimiento Consentimiento guardado
+ */
+export const calcularHashConsentimiento = async (consentimiento: Consentimiento): Promise<string> => {
+  const datos = codificador.encode(serializarCanonico(contenidoIntegridad(consentimiento)));
+  const digest = await crypto.subtle.digest('SHA-256', datos);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+/**
+ * Compara la huella guardada al firmar con la del contenido actual del consentimiento
+ * @param consentimiento Consentimiento guardado
+ */
+export const verificarIntegridad = async (consentimiento: Consentimiento): Promise<EstadoIntegridad> => {
+  if (!consentimiento.hashIntegridad) return 'sin_huella';
+  const hashActual = await calcularHashConsentimiento(consentimiento);
+  return hashActual === consentimiento.hashIntegridad ? 'integro' : 'alterado';
+};
@@ -1,273 +1,137 @@
 import { jsPDF } from 'jspdf';
-import { format } from 'date-fns';
+import { format, parseISO } from 'date-fns';
 import { formatRut } from './formatters';
-import { Consentimiento } from '../types';
+import { Consentimiento, TipoCuidado, TipoProcedimiento } from '../types';
 import { ConfiguracionFormulario } from '../types';
-
-// Lista fija de preguntas de salud
-const PREGUNTAS_SALUD = [
-  '¿Comiste en las últimas 4 horas?',
-  '¿Tienes alergias?',
-  '¿Tienes hemofilia?',
-  '¿Has tomado aspirina en los últimos 5 días?',
-  '¿Tienes hepatitis?',
-  '¿Tienes mala cicatrización?',
-  '¿Vives con VIH?',
-  '¿Tienes problemas de salud?',
-  '¿Estás en tratamiento médico?',
-  '¿Tienes tendencia a desmayarte?',
-  '¿Fumas?',
-  '¿Bebes alcohol?',
-  '¿Bebiste en las últimas 3 horas?',
-  '¿Consumes drogas?',
-  '¿Tienes problemas dermatológicos?',
-  '¿Tu piel produce queloides?',
-  '¿Es tu primer tatuaje?'
-];
-
-export const generatePDF = (consentimiento: Consentimiento, config: ConfiguracionFormulario): jsPDF => {
-  // Crear nuevo documento PDF
-  const pdf = new jsPDF({
-    orientation: 'portrait',
-    unit: 'mm',
-    format: 'a4'
+import { resolverRespuestasSalud } from './preguntasSalud';
+import { renderTextoLegal, datosTextoDesdeConsentimiento } from './plantillaConsentimiento';
+import { buscarTipoProcedimiento, describirProcedimiento, textoCuidados } from './procedimiento';
+import { crearDocumentoPdf, ColorRgb } from './documentoPdf';
+import { enlaceVerificacion } from '../lib/verificacion';
+
+const FONDO_TUTOR: ColorRgb = [255, 243, 205];
+
+// Nombre con el que se descarga el PDF de un consentimiento
+export const nombreArchivoConsentimiento = (consentimiento: Pick<Consentimiento, 'cliente' | 'fechaCreacion'>) =>
+  `consentimiento_${consentimiento.cliente.nombre}_${format(parseISO(consentimiento.fechaCreacion), 'yyyyMMdd')}.pdf`;
+
+/**
+ * Consentimiento firmado con la marca del estudio
+ * @param consentimiento Consentimiento guardado
+ * @param config Configuración del estudio
+ * @param imagenDiseno Diseño aprobado en data URL (está en Storage, así que quien genera el PDF lo obtiene antes)
+ */
+export const generatePDF = (consentimiento: Consentimiento, config: ConfiguracionFormulario, imagenDiseno?: string): jsPDF => {
+  const documento = crearDocumentoPdf(config);
+  const { cliente, tutor } = consentimiento;
+  const tipo = buscarTipoProcedimiento(config.tiposProcedimiento, consentimiento.tipoProcedimientoId);
+
+  documento.encabezado(`CONSENTIMIENTO INFORMADO PARA ${(tipo?.nombre ?? 'Tatuaje').toUpperCase()}`);
+
+  // Código, huella de integridad (solo si el servidor selló el contenido) y QR de verificación
+  documento.recuadroVerificacion(consentimiento.codigo, {
+    hash: consentimiento.hashIntegridad,
+    enlace: enlaceVerificacion(consentimiento.codigo)
   });
 
-  // Configuración de estilos
-  const styles = {
-    margin: 20,
-    headerHeight: 40,
-    lineHeight: 7,
-    sectionSpacing: 15,
-    colors: {
-      primary: [0, 128, 128],
-      secondary: [240, 240, 240],
-      accent: [76, 175, 80]
-    }
-  };
-
-  let y = styles.headerHeight + 10;
-
-  // Función helper para manejar el espacio y crear nuevas páginas si es necesario
-  const ensureSpace = (neededSpace: number): void => {
-    if (y + neededSpace > pdf.internal.pageSize.height - 20) {
-      pdf.addPage();
-      y = styles.margin;
+  documento.seccion('INFORMACIÓN DEL CLIENTE');
+  documento.campos([
+    { etiqueta: 'Nombre completo', valor: `${cliente.nombre} ${cliente.apellidos}`, anchoCompleto: true },
+    { etiqueta: 'RUT/Pasaporte', valor: formatRut(cliente.rut) },
+    { etiqueta: 'Edad', valor: `${cliente.edad} años` },
+    { etiqueta: 'Fecha de nacimiento', valor: format(new Date(cliente.fechaNacimiento), 'dd/MM/yyyy') },
+    { etiqueta: 'Teléfono', valor: cliente.telefono },
+    { etiqueta: 'Dirección', valor: `${cliente.direccion.calle}, ${cliente.direccion.comuna}, ${cliente.direccion.region}`, anchoCompleto: true },
+    { etiqueta: 'Email', valor: cliente.email, anchoCompleto: true },
+    { etiqueta: 'Artista a cargo', valor: consentimiento.artistaSeleccionado },
+    { etiqueta: 'Fecha de firma', valor: format(new Date(consentimiento.fechaCreacion), 'dd/MM/yyyy HH:mm') }
+  ]);
+
+  // Tatuaje autorizado (los consentimientos anteriores no lo tienen)
+  if (consentimiento.detallesProcedimiento) {
+    const { descripcion, ...detalles } = consentimiento.detallesProcedimiento;
+    documento.seccion('DETALLES DEL PROCEDIMIENTO');
+    // La zona va en su propia fila; la descripción puede ser larga y va como párrafo
+    documento.campos(describirProcedimiento(detalles).map((campo, indice) => ({ ...campo, anchoCompleto: indice === 0 })));
+    if (descripcion) {
+      documento.parrafo(`Descripción del diseño: ${descripcion}`);
     }
-  };
-
-  // Encabezado
-  pdf.setFillColor(...styles.colors.primary);
-  pdf.rect(0, 0, pdf.internal.pageSize.width, styles.headerHeight, 'F');
-
-  // Título y dirección
-  pdf.setTextColor(255, 255, 255);
-  pdf.setFontSize(24);
-  pdf.setFont('helvetica', 'bold');
-  pdf.text(config.nombreEstudio, pdf.internal.pageSize.width / 2, 15, { align: 'center' });
-  
-  pdf.setFontSize(12);
-  pdf.setFont('helvetica', 'normal');
-  pdf.text(config.direccionEstudio, pdf.internal.pageSize.width / 2, 25, { align: 'center' });
-
-  // Badge de verificación
-  pdf.setFillColor(...styles.colors.accent);
-  pdf.roundedRect(styles.margin, y, 80, 12, 3, 3, 'F');
-  pdf.setTextColor(255, 255, 255);
-  pdf.setFontSize(11);
-  pdf.text('Documento Verificado', styles.margin + 10, y + 8);
-
-  // Código del consentimiento
-  pdf.setTextColor(0, 0, 0);
-  pdf.setFillColor(...styles.colors.secondary);
-  pdf.roundedRect(pdf.internal.pageSize.width - styles.margin - 80, y, 80, 12, 3, 3, 'F');
-  pdf.text(`Código: ${consentimiento.codigo}`, pdf.internal.pageSize.width - styles.margin - 70, y + 8);
-
-  y += 25;
-
-  // Información del cliente
-  pdf.setFillColor(245, 245, 245);
-  pdf.roundedRect(styles.margin, y, pdf.internal.pageSize.width - (styles.margin * 2), 65, 3, 3, 'F');
-  
-  pdf.setFontSize(14);
-  pdf.setFont('helvetica', 'bold');
-  pdf.text('INFORMACIÓN DEL CLIENTE', styles.margin + 5, y + 10);
-  
-  pdf.setFontSize(11);
-  pdf.setFont('helvetica', 'normal');
-
-  const clienteData = [
-    [`Nombre completo: ${consentimiento.cliente.nombre} ${consentimiento.cliente.apellidos}`, 
-     `RUT/Pasaporte: ${formatRut(consentimiento.cliente.rut)}`],
-    [`Edad: ${consentimiento.cliente.edad} años`, 
-     `Fecha de nacimiento: ${format(new Date(consentimiento.cliente.fechaNacimiento), 'dd/MM/yyyy')}`],
-    [`Dirección: ${consentimiento.cliente.direccion.calle}`,
-     `Comuna: ${consentimiento.cliente.direccion.comuna}`],
-    [`Región: ${consentimiento.cliente.direccion.region}`,
-     `Teléfono: ${consentimiento.cliente.telefono}`],
-    [`Email: ${consentimiento.cliente.email}`, '']
-  ];
-
-  let dataY = y + 20;
-  clienteData.forEach(row => {
-    pdf.text(row[0], styles.margin + 10, dataY);
-    if (row[1]) {
-      pdf.text(row[1], pdf.internal.pageSize.width / 2 + 10, dataY);
+    if (imagenDiseno) {
+      documento.parrafo('Diseño aprobado:', { tenue: true });
+      documento.imagen(imagenDiseno);
     }
-    dataY += styles.lineHeight;
-  });
-
-  y = dataY + 15;
-
-  // Información del artista
-  pdf.setFillColor(245, 245, 245);
-  pdf.roundedRect(styles.margin, y, pdf.internal.pageSize.width - (styles.margin * 2), 20, 3, 3, 'F');
-  pdf.text(`Artista a cargo: ${consentimiento.artistaSeleccionado}`, styles.margin + 5, y + 12);
-
-  y += 35;
-
-  // Información de salud
-  ensureSpace(120); // Asegurarse de que hay espacio para la sección de salud
-  pdf.setFontSize(14);
-  pdf.setFont('helvetica', 'bold');
-  pdf.text('INFORMACIÓN DE SALUD', styles.margin, y);
-  y += 10;
-  
-  pdf.setFontSize(10);
-  pdf.setFont('helvetica', 'normal');
-  
-  const infoSalud = consentimiento.informacionSalud || {};
-  
-  // Mostrar cada pregunta de salud con su respuesta
-  PREGUNTAS_SALUD.forEach((pregunta, index) => {
-    const infoRespuesta = infoSalud[index] || {};
-    const respuesta = infoRespuesta.respuesta ? 'Sí' : 'No';
-    const infoAdicional = infoRespuesta.informacionAdicional || '';
-    
-    let textoRespuesta = `${pregunta}: ${respuesta}`;
-    if (infoAdicional) {
-      textoRespuesta += ` (${infoAdicional})`;
-    }
-    
-    // Verificar si hay espacio suficiente en la página actual
-    ensureSpace(10);
-    
-    const lineasRespuesta = pdf.splitTextToSize(textoRespuesta, 170);
-    pdf.text(lineasRespuesta, styles.margin, y);
-    y += lineasRespuesta.length * 5 + 2;
-  });
-
-  y += 10;
-
-  // Texto del consentimiento
-  ensureSpace(100);
-  pdf.setFontSize(14);
-  pdf.setFont('helvetica', 'bold');
-  pdf.text('CONSENTIMIENTO GENERAL', styles.margin, y);
-  y += 10;
-  
-  pdf.setFontSize(10);
-  pdf.setFont('helvetica', 'normal');
-  
-  const textoConsentimiento = config.textoConsentimiento
-    .replace('{Nombre Cliente}', `${consentimiento.cliente.nombre} ${consentimiento.cliente.apellidos}`)
-    .replace('{Rut Cliente}', formatRut(consentimiento.cliente.rut))
-    .replace('{Edad Cliente}', consentimiento.cliente.edad.toString())
-    .replace('{Nombre Artista}', consentimiento.artistaSeleccionado)
-    .replace(/{Nombre Estudio}/g, config.nombreEstudio)
-    .replace('{Direccion Estudio}', config.direccionEstudio);
-
-  const splitText = pdf.splitTextToSize(textoConsentimiento, 
-    pdf.internal.pageSize.width - (styles.margin * 2));
-  pdf.text(splitText, styles.margin, y);
-
-  y += splitText.length * 5 + 20;
-
-  // Datos del tutor legal (si aplica)
-  if (consentimiento.cliente.edad < 18 && consentimiento.tutor) {
-    ensureSpace(120);
-    
-    pdf.setFillColor(255, 243, 205);
-    pdf.roundedRect(styles.margin, y, pdf.internal.pageSize.width - (styles.margin * 2), 90, 3, 3, 'F');
-    
-    pdf.setFontSize(14);
-    pdf.setFont('helvetica', 'bold');
-    pdf.text('INFORMACIÓN DEL TUTOR LEGAL', styles.margin + 5, y + 10);
-    
-    pdf.setFontSize(11);
-    pdf.setFont('helvetica', 'normal');
-
-    // Crear texto completo de parentesco
-    const parentescoCompleto = consentimiento.tutor.parentesco === 'Otro' 
-      ? `${consentimiento.tutor.parentesco} (${consentimiento.tutor.otroParentesco})`
-      : consentimiento.tutor.parentesco;
-
-    const tutorData = [
-      [`Nombre completo: ${consentimiento.tutor.nombre}`, 
-       `RUT: ${formatRut(consentimiento.tutor.rut)}`],
-      [`Parentesco: ${parentescoCompleto}`, '']
-    ];
-
-    let tutorY = y + 20;
-    tutorData.forEach(row => {
-      pdf.text(row[0], styles.margin + 10, tutorY);
-      if (row[1]) {
-        pdf.text(row[1], pdf.internal.pageSize.width / 2 + 10, tutorY);
-      }
-      tutorY += styles.lineHeight;
-    });
-
-    const textoTutorLegal = config.textoTutorLegal
-      .replace('{Nombre Tutor}', consentimiento.tutor.nombre)
-      .replace('{Rut Tutor}', formatRut(consentimiento.tutor.rut))
-      .replace('{Parentesco Tutor}', parentescoCompleto)
-      .replace('{Nombre Cliente}', consentimiento.cliente.nombre)
-      .replace('{Apellidos Cliente}', consentimiento.cliente.apellidos)
-      .replace('{Rut Cliente}', formatRut(consentimiento.cliente.rut))
-      .replace('{Edad Cliente}', consentimiento.cliente.edad.toString())
-      .replace(/{Nombre Estudio}/g, config.nombreEstudio)
-      .replace('{Direccion Estudio}', config.direccionEstudio);
-
-    const splitTextoTutor = pdf.splitTextToSize(textoTutorLegal, 
-      pdf.internal.pageSize.width - (styles.margin * 2) - 20);
-    
-    tutorY += 10;
-    pdf.text(splitTextoTutor, styles.margin + 10, tutorY);
-    
-    y = tutorY + splitTextoTutor.length * 5 + 20;
   }
 
-  // Sección de firmas
-  ensureSpace(50);
-  pdf.setDrawColor(...styles.colors.primary);
+  documento.seccion('INFORMACIÓN DE SALUD');
+  const respuestasSalud = resolverRespuestasSalud(consentimiento.informacionSalud, config.preguntasSalud);
+  documento.tabla(
+    [
+      { titulo: 'Pregunta', ancho: 6 },
+      { titulo: 'Respuesta', ancho: 1.4 },
+      { titulo: 'Detalle', ancho: 3 }
+    ],
+    respuestasSalud.map(({ pregunta, respuesta, informacionAdicional }) => ({
+      celdas: [pregunta, respuesta ? 'Sí' : 'No', informacionAdicional || ''],
+      resaltada: respuesta
+    }))
+  );
 
-  // Firma del cliente
-  if (consentimiento.firma) {
-    pdf.addImage(consentimiento.firma, 'PNG', styles.margin, y - 20, 70, 20);
+  // Texto firmado; los consentimientos anteriores al versionado usan la plantilla actual
+  documento.seccion('CONSENTIMIENTO GENERAL');
+  documento.parrafo(
+    consentimiento.textoConsentimientoFirmado ?? renderTextoLegal(tipo?.textoConsentimiento ?? '', datosTextoDesdeConsentimiento(consentimiento), config)
+  );
+  if (consentimiento.versionPlantilla) {
+    documento.parrafo(`Versión del texto legal: ${consentimiento.versionPlantilla}`, { tamano: 8, tenue: true });
   }
-  pdf.line(styles.margin, y, styles.margin + 70, y);
-  pdf.text('Firma del Cliente', styles.margin, y + 5);
-  pdf.text(`Fecha: ${format(new Date(consentimiento.fechaCreacion), 'dd/MM/yyyy')}`, 
-    styles.margin, y + 12);
 
-  // Firma del tutor si aplica
-  if (consentimiento.tutor?.firma) {
-    pdf.addImage(consentimiento.tutor.firma, 'PNG', 
-      pdf.internal.pageSize.width - styles.margin - 70, y - 20, 70, 20);
-    pdf.line(pdf.internal.pageSize.width - styles.margin - 70, y, 
-      pdf.internal.pageSize.width - styles.margin, y);
-    pdf.text('Firma del Tutor Legal', 
-      pdf.internal.pageSize.width - styles.margin - 70, y + 5);
+  // Datos del tutor legal (si aplica)
+  if (cliente.edad < 18 && tutor) {
+    const parentescoCompleto = tutor.parentesco === 'Otro'
+      ? `${tutor.parentesco} (${tutor.otroParentesco})`
+      : tutor.parentesco;
+
+    documento.seccion('INFORMACIÓN DEL TUTOR LEGAL');
+    documento.campos([
+      { etiqueta: 'Nombre completo', valor: tutor.nombre, anchoCompleto: true },
+      { etiqueta: 'RUT', valor: formatRut(tutor.rut) },
+      { etiqueta: 'Parentesco', valor: parentescoCompleto }
+    ], FONDO_TUTOR);
+    documento.parrafo(
+      consentimiento.textoTutorFirmado ?? renderTextoLegal(tipo?.textoTutorLegal ?? '', datosTextoDesdeConsentimiento(consentimiento), config)
+    );
   }
 
-  // Pie de página
-  pdf.setFontSize(8);
-  pdf.text(
-    `Documento válido emitido por ${config.nombreEstudio} con código: ${consentimiento.codigo}. Conserve este número para futuras verificaciones.`,
-    pdf.internal.pageSize.width / 2,
-    pdf.internal.pageSize.height - 10,
-    { align: 'center' }
+  documento.seccion('FIRMAS');
+  documento.firmas([
+    {
+      etiqueta: 'Firma del Cliente',
+      imagen: consentimiento.firma,
+      detalle: `Fecha: ${format(new Date(consentimiento.fechaCreacion), 'dd/MM/yyyy')}`
+    },
+    ...(tutor?.firma ? [{
+      etiqueta: 'Firma del Tutor Legal',
+      imagen: tutor.firma,
+      detalle: `RUT: ${formatRut(tutor.rut)}`
+    }] : [])
+  ]);
+
+  return documento.finalizar(
+    `Documento válido emitido por ${config.nombreEstudio} con código: ${consentimiento.codigo}. Conserve este número para futuras verificaciones.`
   );
-
-  return pdf;
-};
\ No newline at end of file
+};
+
+/**
+ * Instrucciones de cuidado posteriores a un procedimiento, con la marca del estudio
+ * @param config Configuración del estudio
+ * @param tipo Tipo de procedimiento
+ * @param cuidado Cuidado con crema o con parche
+ */
+export const generarPdfCuidados = (config: ConfiguracionFormulario, tipo: TipoProcedimiento, cuidado: TipoCuidado): jsPDF => {
+  const documento = crearDocumentoPdf(config);
+
+  documento.encabezado(`CUIDADOS POST-${tipo.nombre.toUpperCase()} ${cuidado === 'cream' ? 'CON CREMA' : 'CON PARCHE'}`);
+  documento.parrafo(textoCuidados(tipo, cuidado), { tamano: 11 });
+
+  return documento.finalizar(`Para cualquier consulta: ${config.datosContacto.whatsapp || 'WhatsApp no disponible'}`);
+};
@@ -0,0 +1,50 @@
+import { RolUsuario, Usuario } from '../types';
+
+/**
+ * Nombre visible de cada rol del personal
+ */
+export const NOMBRES_ROLES: Record<RolUsuario, string> = {
+  owner: 'Dueño',
+  receptionist: 'Recepción',
+  artist: 'Artista'
+};
+
+export type SeccionPanel = 'panel' | 'portalArtista' | 'archivados' | 'archivar' | 'reenviarCorreo' | 'editarProcedimiento' | 'seguimientos' | 'agenda' | 'proyectos' | 'clientes' | 'configuracion' | 'auditoria' | 'kiosco';
+
+/**
+ * Roles que pueden acceder a cada sección del panel.
+ * Las políticas RLS de Supabase aplican las mismas reglas en el servidor.
+ */
+export const PERMISOS_SECCION: Record<SeccionPanel, RolUsuario[]> = {
+  panel: ['owner', 'receptionist'],
+  portalArtista: ['artist'],
+  archivados: ['owner', 'receptionist'],
+  archivar: ['owner', 'receptionist'],
+  reenviarCorreo: ['owner', 'receptionist'],
+  editarProcedimiento: ['owner', 'receptionist'],
+  seguimientos: ['owner', 'receptionist'],
+  agenda: ['owner', 'receptionist'],
+  proyectos: ['owner', 'receptionist'],
+  clientes: ['owner', 'receptionist'],
+  configuracion: ['owner'],
+  auditoria: ['owner'],
+  kiosco: ['owner', 'receptionist']
+};
+
+/**
+ * Comprueba si un usuario tiene acceso a una sección del panel
+ * @param usuario Usuario con sesión iniciada
+ * @param seccion Sección a comprobar
+ */
+export const puedeAcceder = (usuario: Usuario | null, seccion: SeccionPanel): boolean => {
+  if (!usuario) return false;
+  return PERMISOS_SECCION[seccion].includes(usuario.rol);
+};
+
+/**
+ * Ruta de inicio según el rol: los artistas entran a su portal, el resto al panel
+ * @param usuario Usuario con sesión iniciada
+ */
+export const rutaInicio = (usuario: Usuario | null): string => {
+  return usuario?.rol === 'artist' ? '/artista' : '/admin';
+};
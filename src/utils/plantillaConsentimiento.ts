@@ -0,0 +1,239 @@
+import { formatRut } from './formatters';
+import { Consentimiento } from '../types';
+
+export interface DatosTextoConsentimiento {
+  nombreCliente?: string;
+  apellidosCliente?: string;
+  rutCliente?: string;
+  edadCliente?: number | string;
+  nombreArtista?: string;
+  nombreTutor?: string;
+  rutTutor?: string;
+  parentescoTutor?: string;
+}
+
+export interface DatosEstudio {
+  nombreEstudio: string;
+  direccionEstudio: string;
+}
+
+export interface LineaDiferencia {
+  tipo: 'igual' | 'agregada' | 'eliminada';
+  texto: string;
+}
+
+export interface VariablePlantilla {
+  nombre: string;
+  descripcion: string;
+  valor: (datos: DatosTextoConsentimiento, estudio: DatosEstudio) => string | undefined;
+}
+
+export interface CondicionPlantilla {
+  nombre: string;
+  descripcion: string;
+  cumple: (datos: DatosTextoConsentimiento) => boolean;
+}
+
+export interface ErrorPlantilla {
+  mensaje: string;
+  posicion: number;
+}
+
+const esMenorDeEdad = (datos: DatosTextoConsentimiento): boolean => {
+  const edad = Number(datos.edadCliente);
+  return datos.edadCliente !== undefined && datos.edadCliente !== '' && !isNaN(edad) && edad < 18;
+};
+
+/**
+ * Variables que se pueden usar en los textos legales, escritas como {Nombre Cliente}
+ */
+export const VARIABLES_PLANTILLA: VariablePlantilla[] = [
+  { nombre: 'Nombre Cliente', descripcion: 'Nombres del cliente', valor: d => d.nombreCliente },
+  { nombre: 'Apellidos Cliente', descripcion: 'Apellidos del cliente', valor: d => d.apellidosCliente },
+  {
+    nombre: 'Nombre Completo Cliente',
+    descripcion: 'Nombres y apellidos del cliente',
+    valor: d => [d.nombreCliente, d.apellidosCliente].filter(Boolean).join(' ') || undefined
+  },
+  { nombre: 'Rut Cliente', descripcion: 'RUT o pasaporte del cliente', valor: d => d.rutCliente ? formatRut(d.rutCliente) : undefined },
+  { nombre: 'Edad Cliente', descripcion: 'Edad del cliente en años', valor: d => d.edadCliente?.toString() || undefined },
+  { nombre: 'Nombre Artista', descripcion: 'Artista a cargo del procedimiento', valor: d => d.nombreArtista },
+  { nombre: 'Nombre Tutor', descripcion: 'Nombre del tutor legal', valor: d => d.nombreTutor },
+  { nombre: 'Rut Tutor', descripcion: 'RUT del tutor legal', valor: d => d.rutTutor ? formatRut(d.rutTutor) : undefined },
+  { nombre: 'Parentesco Tutor', descripcion: 'Parentesco del tutor con el cliente', valor: d => d.parentescoTutor },
+  { nombre: 'Nombre Estudio', descripcion: 'Nombre del estudio', valor: (_, e) => e.nombreEstudio },
+  { nombre: 'Direccion Estudio', descripcion: 'Dirección del estudio', valor: (_, e) => e.direccionEstudio }
+];
+
+/**
+ * Condiciones para mostrar párrafos solo en algunos casos: {si Menor de Edad}...{/si}
+ */
+export const CONDICIONES_PLANTILLA: CondicionPlantilla[] = [
+  { nombre: 'Menor de Edad', descripcion: 'El cliente tiene menos de 18 años', cumple: esMenorDeEdad },
+  { nombre: 'Mayor de Edad', descripcion: 'El cliente tiene 18 años o más', cumple: d => !esMenorDeEdad(d) }
+];
+
+// Marcadores {…}: variables, apertura {si Condición} y cierre {/si}
+const PATRON_MARCADOR = /\{([^{}]*)\}/g;
+const PATRON_SI = /^si\s+(.+)$/;
+const CIERRE_SI = '/si';
+
+/**
+ * Texto del parentesco del tutor, con el detalle cuando es "Otro"
+ */
+export const textoParentescoTutor = (parentesco?: string, otroParentesco?: string): string | undefined => {
+  return parentesco === 'Otro' && otroParentesco ? `${parentesco} (${otroParentesco})` : parentesco || undefined;
+};
+
+// Consentimiento guardado o valores del formulario (que pueden estar incompletos)
+interface FuenteDatosTexto {
+  cliente?: Partial<Consentimiento['cliente']>;
+  tutor?: { nombre?: string; rut?: string; parentesco?: string; otroParentesco?: string };
+  artistaSeleccionado?: string;
+}
+
+/**
+ * Datos para las variables de la plantilla a partir de un consentimiento o de los valores del formulario
+ */
+export const datosTextoDesdeConsentimiento = (consentimiento: FuenteDatosTexto): DatosTextoConsentimiento => ({
+  nombreCliente: consentimiento.cliente?.nombre,
+  apellidosCliente: consentimiento.cliente?.apellidos,
+  rutCliente: consentimiento.cliente?.rut,
+  edadCliente: consentimiento.cliente?.edad,
+  nombreArtista: consentimiento.artistaSeleccionado,
+  nombreTutor: consentimiento.tutor?.nombre,
+  rutTutor: consentimiento.tutor?.rut,
+  parentescoTutor: textoParentescoTutor(consentimiento.tutor?.parentesco, consentimiento.tutor?.otroParentesco)
+});
+
+/**
+ * Revisa una plantilla antes de guardarla
+ * @param texto Plantilla a revisar
+ * @returns Lista de errores (marcadores desconocidos o condiciones mal cerradas); vacía si es válida
+ */
+export const validarPlantilla = (texto: string): ErrorPlantilla[] => {
+  const errores: ErrorPlantilla[] = [];
+  let abierta: { nombre: string; posicion: number } | null = null;
+
+  for (const coincidencia of texto.matchAll(PATRON_MARCADOR)) {
+    const contenido = coincidencia[1].trim();
+    const posicion = coincidencia.index ?? 0;
+    const si = contenido.match(PATRON_SI);
+
+    if (si) {
+      if (abierta) {
+        errores.push({ mensaje: `No se puede abrir {${contenido}} dentro de {si ${abierta.nombre}}`, posicion });
+      }
+      if (!CONDICIONES_PLANTILLA.some(c => c.nombre === si[1])) {
+        errores.push({ mensaje: `Condición desconocida: "${si[1]}"`, posicion });
+      }
+      abierta = { nombre: si[1], posicion };
+    } else if (contenido === CIERRE_SI) {
+      if (!abierta) {
+        errores.push({ mensaje: '{/si} sin una condición abierta', posicion });
+      }
+      abierta = null;
+    } else if (!VARIABLES_PLANTILLA.some(v => v.nombre === contenido)) {
+      errores.push({ mensaje: `Variable desconocida: {${contenido}}`, posicion });
+    }
+  }
+
+  if (abierta) {
+    errores.push({ mensaje: `Falta cerrar {si ${abierta.nombre}} con {/si}`, posicion: abierta.posicion });
+  }
+
+  return errores.sort((a, b) => a.posicion - b.posicion);
+};
+
+/**
+ * Genera el texto legal con los datos del consentimiento.
+ * Resuelve las condiciones y reemplaza todas las apariciones de cada variable; las variables sin
+ * dato se muestran entre corchetes para que el cliente sepa qué se completará. Los marcadores
+ * desconocidos se dejan tal cual.
+ * @param texto Plantilla con variables como {Nombre Cliente}
+ * @param datos Datos del cliente, del tutor y del artista
+ * @param estudio Nombre y dirección del estudio
+ */
+export const renderTextoLegal = (
+  texto: string,
+  datos: DatosTextoConsentimiento,
+  estudio: DatosEstudio
+): string => {
+  let salida = '';
+  let incluir = true;
+  let ultimo = 0;
+
+  for (const coincidencia of texto.matchAll(PATRON_MARCADOR)) {
+    const posicion = coincidencia.index ?? 0;
+    if (incluir) salida += texto.slice(ultimo, posicion);
+    ultimo = posicion + coincidencia[0].length;
+
+    const contenido = coincidencia[1].trim();
+    const si = contenido.match(PATRON_SI);
+
+    if (si || contenido === CIERRE_SI) {
+      if (si) {
+        const condicion = CONDICIONES_PLANTILLA.find(c => c.nombre === si[1]);
+        incluir = condicion ? condicion.cumple(datos) : true;
+      } else {
+        incluir = true;
+      }
+      // Un marcador de condición en su propia línea no deja una línea en blanco
+      if ((posicion === 0 || texto[posicion - 1] === '\n') && texto[ultimo] === '\n') {
+        ultimo++;
+      }
+      continue;
+    }
+
+    if (!incluir) continue;
+
+    const variable = VARIABLES_PLANTILLA.find(v => v.nombre === contenido);
+    salida += variable
+      ? variable.valor(datos, estudio) || `[${variable.nombre}]`
+      : coincidencia[0];
+  }
+
+  if (incluir) salida += texto.slice(ultimo);
+
+  return salida;
+};
+
+/**
+ * Compara dos textos línea por línea (subsecuencia común más larga)
+ * @param anterior Texto de la versión anterior
+ * @param nuevo Texto de la versión nueva
+ * @returns Líneas en orden, marcadas como iguales, agregadas o eliminadas
+ */
+export const diferenciasTexto = (anterior: string, nuevo: string): LineaDiferencia[] => {
+  const a = anterior.split('\n');
+  const b = nuevo.split('\n');
+
+  // Tabla de longitudes de la subsecuencia común desde cada posición
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lineas: LineaDiferencia[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lineas.push({ tipo: 'igual', texto: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lineas.push({ tipo: 'eliminada', texto: a[i] });
+      i++;
+    } else {
+      lineas.push({ tipo: 'agregada', texto: b[j] });
+      j++;
+    }
+  }
+  while (i < a.length) lineas.push({ tipo: 'eliminada', texto: a[i++] });
+  while (j < b.length) lineas.push({ tipo: 'agregada', texto: b[j++] });
+
+  return lineas;
+};
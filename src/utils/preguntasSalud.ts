@@ -0,0 +1,161 @@
+import { InformacionSalud, NivelRiesgo, PreguntaSalud } from '../types';
+
+/**
+ * Preguntas fijas usadas antes de que el formulario leyera la tabla health_questions.
+ * Los consentimientos antiguos guardan sus respuestas por índice de esta lista.
+ */
+export const PREGUNTAS_SALUD_LEGADO = [
+  '¿Comiste en las últimas 4 horas?',
+  '¿Tienes alergias?',
+  '¿Tienes hemofilia?',
+  '¿Has tomado aspirina en los últimos 5 días?',
+  '¿Tienes hepatitis?',
+  '¿Tienes mala cicatrización?',
+  '¿Vives con VIH?',
+  '¿Tienes problemas de salud?',
+  '¿Estás en tratamiento médico?',
+  '¿Tienes tendencia a desmayarte?',
+  '¿Fumas?',
+  '¿Bebes alcohol?',
+  '¿Bebiste en las últimas 3 horas?',
+  '¿Consumes drogas?',
+  '¿Tienes problemas dermatológicos?',
+  '¿Tu piel produce queloides?',
+  '¿Es tu primer tatuaje?'
+];
+
+/**
+ * Preguntas que se hacen para un tipo de procedimiento: las comunes y las propias del tipo
+ * @param preguntas Preguntas vigentes de la configuración
+ * @param tipoProcedimientoId Tipo elegido en el formulario
+ */
+export const preguntasDelTipo = (preguntas: PreguntaSalud[], tipoProcedimientoId?: string): PreguntaSalud[] =>
+  preguntas.filter(pregunta => !pregunta.tipoProcedimientoId || pregunta.tipoProcedimientoId === tipoProcedimientoId);
+
+/**
+ * Nombre visible de cada nivel de riesgo
+ */
+export const NOMBRES_NIVEL_RIESGO: Record<NivelRiesgo, string> = {
+  none: 'Sin regla',
+  info: 'Informativo',
+  review: 'Requiere revisión',
+  block: 'Bloquea el envío'
+};
+
+// Prioridad para quedarse con el nivel más grave
+const PRIORIDAD_RIESGO: Record<NivelRiesgo, number> = {
+  none: 0,
+  info: 1,
+  review: 2,
+  block: 3
+};
+
+export interface RespuestaSaludResuelta {
+  id: string;
+  pregunta: string;
+  respuesta: boolean;
+  informacionAdicional?: string;
+  nivelRiesgo?: NivelRiesgo;
+}
+
+export interface AlertaSalud {
+  preguntaId: string;
+  pregunta: string;
+  nivel: NivelRiesgo;
+  mensaje?: string;
+}
+
+/**
+ * Indica si se debe pedir el campo de texto adicional para una pregunta
+ * @param pregunta Pregunta de salud configurada
+ * @param respuesta Respuesta actual ('true'/'false' en el formulario)
+ */
+export const requiereCampoAdicional = (pregunta: PreguntaSalud, respuesta: unknown): boolean => {
+  if (!pregunta.mostrarCampoAdicional) return false;
+  if (!pregunta.campoAdicionalSoloSi) return true;
+  return respuesta === true || respuesta === 'true';
+};
+
+/**
+ * Indica si una respuesta activa la regla de riesgo de la pregunta
+ * @param pregunta Pregunta de salud configurada
+ * @param respuesta Respuesta dada (booleano o 'true'/'false' del formulario)
+ */
+export const activaReglaRiesgo = (pregunta: PreguntaSalud, respuesta: unknown): boolean => {
+  if (!pregunta.nivelRiesgo || pregunta.nivelRiesgo === 'none') return false;
+
+  const respondida = respuesta === true || respuesta === false || respuesta === 'true' || respuesta === 'false';
+  if (!respondida) return false;
+
+  const respondioSi = respuesta === true || respuesta === 'true';
+  return respondioSi === (pregunta.respuestaRiesgo ?? true);
+};
+
+/**
+ * Evalúa las reglas de riesgo de todas las preguntas
+ * @param preguntas Preguntas de salud configuradas
+ * @param respuestas Respuestas por id de pregunta
+ * @returns Nivel más grave encontrado y la lista de alertas activadas
+ */
+export const evaluarRiesgoSalud = (
+  preguntas: PreguntaSalud[],
+  respuestas: Record<string, { respuesta?: unknown } | undefined>
+): { nivel: NivelRiesgo; alertas: AlertaSalud[] } => {
+  const alertas: AlertaSalud[] = preguntas
+    .filter(pregunta => activaReglaRiesgo(pregunta, respuestas[pregunta.id]?.respuesta))
+    .map(pregunta => ({
+      preguntaId: pregunta.id,
+      pregunta: pregunta.pregunta,
+      nivel: pregunta.nivelRiesgo as NivelRiesgo,
+      mensaje: pregunta.mensajeRiesgo
+    }));
+
+  const nivel = alertas.reduce<NivelRiesgo>(
+    (max, alerta) => (PRIORIDAD_RIESGO[alerta.nivel] > PRIORIDAD_RIESGO[max] ? alerta.nivel : max),
+    'none'
+  );
+
+  return { nivel, alertas };
+};
+
+/**
+ * Obtiene la lista de respuestas de salud de un consentimiento en orden, con el texto de cada pregunta.
+ * Usa el texto guardado al firmar; si no existe, busca la pregunta en la configuración
+ * actual y, para registros antiguos indexados por posición, en la lista fija original.
+ * @param informacionSalud Respuestas guardadas en el consentimiento
+ * @param preguntas Preguntas de salud de la configuración actual
+ */
+export const resolverRespuestasSalud = (
+  informacionSalud: InformacionSalud | undefined,
+  preguntas: PreguntaSalud[]
+): RespuestaSaludResuelta[] => {
+  const respuestas = informacionSalud || {};
+
+  return Object.keys(respuestas)
+    .map(id => {
+      const datos = respuestas[id];
+      const indiceActual = preguntas.findIndex(p => p.id === id);
+      const esLegado = /^\d+$/.test(id);
+
+      const pregunta = datos.pregunta
+        || (indiceActual >= 0 ? preguntas[indiceActual].pregunta : undefined)
+        || (esLegado ? PREGUNTAS_SALUD_LEGADO[Number(id)] : undefined)
+        || 'Pregunta eliminada';
+
+      const orden = datos.orden
+        ?? (esLegado ? Number(id) : indiceActual >= 0 ? indiceActual : Number.MAX_SAFE_INTEGER);
+
+      return {
+        orden,
+        respuesta: {
+          id,
+          pregunta,
+          respuesta: datos.respuesta === true || (datos.respuesta as unknown) === 'true',
+          informacionAdicional: datos.informacionAdicional || undefined,
+          nivelRiesgo: datos.nivelRiesgo
+        }
+      };
+    })
+    .sort((a, b) => a.orden - b.orden)
+    .map(item => item.respuesta);
+};
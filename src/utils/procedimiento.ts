@@ -0,0 +1,115 @@
+import { ColorTatuaje, DetallesProcedimiento, TamanoTatuaje, TipoCuidado, TipoProcedimiento, VistaCuerpo } from '../types';
+
+/**
+ * Tipo de procedimiento por id. Sin id (consentimientos sin tipo o formulario sin elegir) se usa
+ * el primero activo, el mismo que asigna el servidor
+ * @param tipos Tipos de la configuración, en su orden
+ * @param id Id del tipo
+ */
+export const buscarTipoProcedimiento = (tipos: TipoProcedimiento[], id?: string | null): TipoProcedimiento | undefined =>
+  (id ? tipos.find(tipo => tipo.id === id) : undefined) ?? tipos.find(tipo => tipo.activo) ?? tipos[0];
+
+/**
+ * Texto de cuidados de un tipo de procedimiento
+ */
+export const textoCuidados = (tipo: TipoProcedimiento | undefined, cuidado: TipoCuidado): string =>
+  (cuidado === 'cream' ? tipo?.creamAftercare : tipo?.patchAftercare) ?? '';
+
+export const NOMBRES_VISTA_CUERPO: Record<VistaCuerpo, string> = {
+  front: 'Frontal',
+  back: 'Posterior'
+};
+
+export const OPCIONES_TAMANO: { valor: TamanoTatuaje; etiqueta: string }[] = [
+  { valor: 'small', etiqueta: 'Pequeño (hasta 5 cm)' },
+  { valor: 'medium', etiqueta: 'Mediano (5 a 15 cm)' },
+  { valor: 'large', etiqueta: 'Grande (15 a 30 cm)' },
+  { valor: 'xlarge', etiqueta: 'Muy grande (más de 30 cm)' }
+];
+
+export const OPCIONES_COLOR: { valor: ColorTatuaje; etiqueta: string }[] = [
+  { valor: 'black_grey', etiqueta: 'Negro y grises' },
+  { valor: 'color', etiqueta: 'A color' }
+];
+
+// Zona seleccionable del diagrama: un rectángulo redondeado en un lienzo de 120 x 250
+export interface ZonaCuerpo {
+  id: string;
+  nombre: string;
+  vista: VistaCuerpo;
+  x: number;
+  y: number;
+  ancho: number;
+  alto: number;
+  radio: number;
+}
+
+type FormaZona = Pick<ZonaCuerpo, 'x' | 'y' | 'ancho' | 'alto' | 'radio'>;
+
+// Cabeza y tronco: misma forma en las dos vistas, distinto nombre
+const TRONCO: Array<FormaZona & { parte: string; nombres: Record<VistaCuerpo, string> }> = [
+  { parte: 'head', x: 46, y: 4, ancho: 28, alto: 34, radio: 12, nombres: { front: 'Cabeza y rostro', back: 'Cabeza (parte posterior)' } },
+  { parte: 'neck', x: 52, y: 38, ancho: 16, alto: 10, radio: 3, nombres: { front: 'Cuello', back: 'Nuca' } },
+  { parte: 'upper_torso', x: 38, y: 49, ancho: 44, alto: 30, radio: 6, nombres: { front: 'Pecho', back: 'Espalda alta' } },
+  { parte: 'lower_torso', x: 40, y: 80, ancho: 40, alto: 34, radio: 4, nombres: { front: 'Abdomen', back: 'Espalda baja' } },
+  { parte: 'hips', x: 40, y: 115, ancho: 40, alto: 17, radio: 4, nombres: { front: 'Cadera y pelvis', back: 'Glúteos' } }
+];
+
+// Extremidades del lado izquierdo del diagrama; las del otro lado son su reflejo
+const EXTREMIDADES: Array<FormaZona & { parte: string; femenino: boolean; nombres: Record<VistaCuerpo, string> }> = [
+  { parte: 'arm', x: 24, y: 50, ancho: 13, alto: 44, radio: 6, femenino: false, nombres: { front: 'Brazo {lado} (cara anterior)', back: 'Brazo {lado} (cara posterior)' } },
+  { parte: 'forearm', x: 20, y: 95, ancho: 13, alto: 40, radio: 6, femenino: false, nombres: { front: 'Antebrazo {lado} (cara anterior)', back: 'Antebrazo {lado} (cara posterior)' } },
+  { parte: 'hand', x: 17, y: 136, ancho: 14, alto: 16, radio: 5, femenino: true, nombres: { front: 'Palma de la mano {lado}', back: 'Dorso de la mano {lado}' } },
+  { parte: 'thigh', x: 41, y: 133, ancho: 18, alto: 52, radio: 7, femenino: false, nombres: { front: 'Muslo {lado} (cara anterior)', back: 'Muslo {lado} (cara posterior)' } },
+  { parte: 'leg', x: 43, y: 186, ancho: 15, alto: 46, radio: 6, femenino: true, nombres: { front: 'Canilla {lado}', back: 'Pantorrilla {lado}' } },
+  { parte: 'foot', x: 40, y: 233, ancho: 18, alto: 12, radio: 4, femenino: false, nombres: { front: 'Empeine {lado}', back: 'Talón {lado}' } }
+];
+
+const ANCHO_DIAGRAMA = 120;
+
+const zonasVista = (vista: VistaCuerpo): ZonaCuerpo[] => [
+  ...TRONCO.map(({ parte, nombres, ...forma }) => ({ id: `${vista}_${parte}`, nombre: nombres[vista], vista, ...forma })),
+  ...EXTREMIDADES.flatMap(({ parte, femenino, nombres, ...forma }) => {
+    // De frente, el lado derecho de la persona queda a la izquierda del diagrama; de espaldas, al revés
+    const ladoIzquierdoDiagrama = vista === 'front' ? 'right' : 'left';
+    const ladoDerechoDiagrama = vista === 'front' ? 'left' : 'right';
+    const nombreLado = (lado: string) => lado === 'right'
+      ? (femenino ? 'derecha' : 'derecho')
+      : (femenino ? 'izquierda' : 'izquierdo');
+
+    return [
+      { lado: ladoIzquierdoDiagrama, x: forma.x },
+      { lado: ladoDerechoDiagrama, x: ANCHO_DIAGRAMA - forma.x - forma.ancho }
+    ].map(({ lado, x }) => ({
+      id: `${vista}_${lado}_${parte}`,
+      nombre: nombres[vista].replace('{lado}', nombreLado(lado)),
+      vista,
+      ...forma,
+      x
+    }));
+  })
+];
+
+/**
+ * Zonas del diagrama del cuerpo, vista frontal y posterior
+ */
+export const ZONAS_CUERPO: ZonaCuerpo[] = [...zonasVista('front'), ...zonasVista('back')];
+
+/**
+ * Nombre de una zona del cuerpo; las zonas que ya no existen se muestran con su id
+ * @param id Id de la zona
+ */
+export const nombreZonaCuerpo = (id: string): string =>
+  ZONAS_CUERPO.find(zona => zona.id === id)?.nombre ?? id;
+
+/**
+ * Texto de cada detalle del procedimiento, en el orden en que se muestran y se imprimen
+ * @param detalles Detalles guardados en el consentimiento
+ */
+export const describirProcedimiento = (detalles: DetallesProcedimiento): { etiqueta: string; valor: string }[] => [
+  { etiqueta: 'Zona del cuerpo', valor: nombreZonaCuerpo(detalles.zonaCuerpo) },
+  { etiqueta: 'Tamaño aproximado', valor: OPCIONES_TAMANO.find(opcion => opcion.valor === detalles.tamano)?.etiqueta ?? detalles.tamano },
+  { etiqueta: 'Color', valor: OPCIONES_COLOR.find(opcion => opcion.valor === detalles.color)?.etiqueta ?? detalles.color },
+  { etiqueta: 'Sesiones estimadas', valor: String(detalles.sesionesEstimadas) },
+  ...(detalles.descripcion ? [{ etiqueta: 'Descripción del diseño', valor: detalles.descripcion }] : [])
+];
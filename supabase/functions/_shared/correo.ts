@@ -0,0 +1,61 @@
+// Envío por SMTP compartido por las funciones (en desarrollo, MailHog)
+//
+// Variables de entorno:
+//   SMTP_HOST, SMTP_PORT   Servidor de correo. En desarrollo, MailHog: host.docker.internal y 1025
+//   SMTP_USER, SMTP_PASS   Credenciales (vacías para MailHog)
+//   SMTP_TLS               'true' para conexión TLS directa (por defecto, sin TLS)
+//   SMTP_FROM              Remitente, p. ej. "Estudio <no-responder@estudio.cl>"
+
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+
+export interface AdjuntoCorreo {
+  nombre: string;
+  tipo: string;
+  contenido: Uint8Array | string;
+  // Imágenes que el HTML muestra en línea con cid:<idContenido>
+  idContenido?: string;
+}
+
+export interface MensajeCorreo {
+  para: string;
+  asunto: string;
+  texto: string;
+  html: string;
+  adjuntos?: AdjuntoCorreo[];
+}
+
+export const enviarCorreo = async (mensaje: MensajeCorreo): Promise<void> => {
+  const tls = Deno.env.get('SMTP_TLS') === 'true';
+  const usuarioSmtp = Deno.env.get('SMTP_USER');
+  const smtp = new SMTPClient({
+    connection: {
+      hostname: Deno.env.get('SMTP_HOST') ?? 'localhost',
+      port: Number(Deno.env.get('SMTP_PORT') ?? (tls ? 465 : 1025)),
+      tls,
+      ...(usuarioSmtp ? { auth: { username: usuarioSmtp, password: Deno.env.get('SMTP_PASS') ?? '' } } : {})
+    },
+    // Sin TLS se usa STARTTLS si el servidor lo ofrece; MailHog no lo ofrece
+    debug: { allowUnsecure: !tls }
+  });
+
+  try {
+    await smtp.send({
+      from: Deno.env.get('SMTP_FROM') ?? 'no-responder@localhost',
+      to: mensaje.para,
+      subject: mensaje.asunto,
+      content: mensaje.texto,
+      html: mensaje.html,
+      attachments: (mensaje.adjuntos ?? []).map(adjunto => ({
+        filename: adjunto.nombre,
+        contentType: adjunto.tipo,
+        ...(adjunto.idContenido ? { contentID: adjunto.idContenido } : {}),
+        // Las cadenas son base64 (p. ej. el logo guardado como data URL)
+        ...(typeof adjunto.contenido === 'string'
+          ? { encoding: 'base64' as const, content: adjunto.contenido }
+          : { encoding: 'binary' as const, content: adjunto.contenido })
+      }))
+    });
+  } finally {
+    await smtp.close();
+  }
+};
@@ -0,0 +1,105 @@
+// Datos del estudio para los mensajes al cliente: marca, contacto y textos configurados
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.8';
+import type { AdjuntoCorreo } from './correo.ts';
+
+const COLOR_MARCA_PREDETERMINADO = '#008080';
+const ID_LOGO = 'logo-estudio';
+
+export interface DatosContacto {
+  whatsapp?: string;
+  email?: string;
+  instagram?: string;
+}
+
+export interface Estudio {
+  nombre: string;
+  direccion: string;
+  colorMarca: string;
+  contacto: DatosContacto;
+  cuidadoCrema?: string;
+  cuidadoParche?: string;
+  // Logo guardado como data URL, listo para adjuntarse en línea
+  logo?: AdjuntoCorreo;
+}
+
+export const obtenerEstudio = async (admin: SupabaseClient): Promise<Estudio> => {
+  const { data: config, error } = await admin
+    .from('config')
+    .select('studio_name, studio_address, contact_info, cream_aftercare, patch_aftercare, logo, brand_color')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`No se pudo obtener la configuración del estudio: ${error.message}`);
+  }
+
+  const partesLogo = (config?.logo as string | null)?.match(/^data:(image\/(?:png|jpeg));base64,(.+)$/);
+
+  return {
+    nombre: config?.studio_name ?? '',
+    direccion: config?.studio_address ?? '',
+    colorMarca: config?.brand_color || COLOR_MARCA_PREDETERMINADO,
+    contacto: (config?.contact_info ?? {}) as DatosContacto,
+    cuidadoCrema: config?.cream_aftercare ?? undefined,
+    cuidadoParche: config?.patch_aftercare ?? undefined,
+    logo: partesLogo ? {
+      nombre: partesLogo[1] === 'image/png' ? 'logo.png' : 'logo.jpg',
+      tipo: partesLogo[1],
+      contenido: partesLogo[2],
+      idContenido: ID_LOGO
+    } : undefined
+  };
+};
+
+export const escaparHtml = (texto: string) =>
+  texto
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Los saltos de línea de los textos configurados se respetan en el HTML
+export const parrafosHtml = (texto: string) =>
+  escaparHtml(texto).replace(/\n/g, '<br>');
+
+export const lineasContacto = ({ contacto }: Estudio) => [
+  contacto.whatsapp && `WhatsApp: ${contacto.whatsapp}`,
+  contacto.email && `Email: ${contacto.email}`,
+  contacto.instagram && `Instagram: ${contacto.instagram}`
+].filter(Boolean) as string[];
+
+/**
+ * Estructura común de los correos: cabecera con el logo y el color del estudio, contenido y pie de contacto
+ */
+export const marcoCorreo = (estudio: Estudio, contenidoHtml: string) => `<!DOCTYPE html>
+<html lang="es">
+<body style="margin:0;padding:0;background:#f3f4f6;font-family:Helvetica,Arial,sans-serif;color:#1f2937;">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f3f4f6;padding:24px 0;">
+    <tr>
+      <td align="center">
+        <table role="presentation" width="600" cellpadding="0" cellspacing="0" style="max-width:600px;width:100%;background:#ffffff;border-radius:8px;overflow:hidden;">
+          <tr>
+            <td style="background:${estudio.colorMarca};padding:24px;color:#ffffff;">
+              ${estudio.logo ? `<img src="cid:${ID_LOGO}" alt="" height="48" style="display:block;height:48px;margin-bottom:12px;background:#ffffff;border-radius:4px;padding:4px;">` : ''}
+              <h1 style="margin:0;font-size:22px;">${escaparHtml(estudio.nombre)}</h1>
+              <p style="margin:4px 0 0;font-size:13px;opacity:0.9;">${escaparHtml(estudio.direccion)}</p>
+            </td>
+          </tr>
+          <tr>
+            <td style="padding:24px;font-size:15px;line-height:1.5;">
+              ${contenidoHtml}
+            </td>
+          </tr>
+          <tr>
+            <td style="padding:16px 24px;background:#f9fafb;font-size:12px;color:#6b7280;">
+              ${lineasContacto(estudio).map(linea => escaparHtml(linea)).join('<br>')}
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`;
@@ -0,0 +1,120 @@
+// Proveedores de WhatsApp intercambiables para los mensajes al cliente
+//
+// Variables de entorno:
+//   WHATSAPP_PROVIDER   'meta' (WhatsApp Cloud API), 'twilio' o 'consola' (solo para desarrollo: registra el
+//                       mensaje sin enviarlo). Es obligatoria: sin ella los mensajes quedan como fallidos
+//   Meta:    WHATSAPP_TOKEN, WHATSAPP_PHONE_NUMBER_ID, WHATSAPP_TEMPLATE, WHATSAPP_TEMPLATE_LANGUAGE (por defecto 'es')
+//   Twilio:  TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_WHATSAPP_FROM (p. ej. +14155238886), TWILIO_CONTENT_SID
+//
+// Los seguimientos los inicia el estudio, fuera de la ventana de 24 horas desde el último mensaje del
+// cliente, y WhatsApp solo los acepta como plantillas aprobadas. La plantilla (WHATSAPP_TEMPLATE en Meta,
+// TWILIO_CONTENT_SID en Twilio) debe tener un cuerpo con una sola variable, {{1}}, que recibe el texto
+// configurado por el estudio.
+//
+// Para agregar otro proveedor basta con implementar `ProveedorWhatsApp` y registrarlo en `PROVEEDORES`.
+
+export interface ProveedorWhatsApp {
+  nombre: string;
+  /**
+   * Envía un mensaje con la plantilla aprobada
+   * @param telefono Número en formato internacional, solo dígitos (p. ej. 56912345678)
+   * @param texto Mensaje, como valor de la variable de la plantilla
+   */
+  enviar: (telefono: string, texto: string) => Promise<void>;
+}
+
+const variable = (nombre: string) => {
+  const valor = Deno.env.get(nombre);
+  if (!valor) {
+    throw new Error(`Falta la variable de entorno ${nombre}`);
+  }
+  return valor;
+};
+
+// Las variables de una plantilla no admiten saltos de línea, tabulaciones ni más de 4 espacios seguidos
+const textoVariable = (texto: string) => texto.replace(/\s+/g, ' ').trim();
+
+const meta: ProveedorWhatsApp = {
+  nombre: 'meta',
+  enviar: async (telefono, texto) => {
+    const respuesta = await fetch(`https://graph.facebook.com/v19.0/${variable('WHATSAPP_PHONE_NUMBER_ID')}/messages`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${variable('WHATSAPP_TOKEN')}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        messaging_product: 'whatsapp',
+        to: telefono,
+        type: 'template',
+        template: {
+          name: variable('WHATSAPP_TEMPLATE'),
+          language: { code: Deno.env.get('WHATSAPP_TEMPLATE_LANGUAGE') || 'es' },
+          components: [{
+            type: 'body',
+            parameters: [{ type: 'text', text: textoVariable(texto) }]
+          }]
+        }
+      })
+    });
+
+    if (!respuesta.ok) {
+      throw new Error(`WhatsApp Cloud API respondió ${respuesta.status}: ${await respuesta.text()}`);
+    }
+  }
+};
+
+const twilio: ProveedorWhatsApp = {
+  nombre: 'twilio',
+  enviar: async (telefono, texto) => {
+    const cuenta = variable('TWILIO_ACCOUNT_SID');
+    const respuesta = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${cuenta}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${btoa(`${cuenta}:${variable('TWILIO_AUTH_TOKEN')}`)}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams({
+        From: `whatsapp:${variable('TWILIO_WHATSAPP_FROM')}`,
+        To: `whatsapp:+${telefono}`,
+        ContentSid: variable('TWILIO_CONTENT_SID'),
+        ContentVariables: JSON.stringify({ 1: textoVariable(texto) })
+      })
+    });
+
+    if (!respuesta.ok) {
+      throw new Error(`Twilio respondió ${respuesta.status}: ${await respuesta.text()}`);
+    }
+  }
+};
+
+// En desarrollo el mensaje solo queda en el log de la función
+const consola: ProveedorWhatsApp = {
+  nombre: 'consola',
+  enviar: async (telefono, texto) => {
+    console.log(`[WhatsApp a +${telefono}]\n${texto}`);
+  }
+};
+
+const PROVEEDORES: Record<string, ProveedorWhatsApp> = { meta, twilio, consola };
+
+// Sin proveedor configurado el envío falla: un mensaje que nadie recibió no debe quedar como enviado
+export const obtenerProveedorWhatsApp = (): ProveedorWhatsApp => {
+  const nombre = variable('WHATSAPP_PROVIDER');
+  const proveedor = PROVEEDORES[nombre];
+  if (!proveedor) {
+    throw new Error(`Proveedor de WhatsApp desconocido: ${nombre}`);
+  }
+  return proveedor;
+};
+
+/**
+ * Deja el teléfono en formato internacional; los números chilenos sin código de país
+ * (9 dígitos que empiezan con 9) se completan con 56
+ * @returns El número solo con dígitos, o null si no parece válido
+ */
+export const normalizarTelefono = (telefono: string): string | null => {
+  const digitos = telefono.replace(/\D/g, '');
+  if (/^9\d{8}$/.test(digitos)) return `56${digitos}`;
+  return digitos.length >= 10 && digitos.length <= 15 ? digitos : null;
+};
@@ -0,0 +1,156 @@
+/*
+  Envía al cliente el PDF firmado de su consentimiento y los cuidados elegidos al firmar,
+  y registra el resultado en `consents.email_status`.
+
+  - El formulario público lo llama justo después de guardar: solo puede enviar un consentimiento
+    recién guardado (última hora) que todavía no se entregó, con su id y su código.
+  - Dueño y recepción pueden reenviarlo en cualquier momento desde el detalle del consentimiento.
+
+  Variables de entorno: las de SMTP (ver `_shared/correo.ts`) y
+    APP_URL   URL pública de la aplicación, para el enlace de verificación (opcional)
+*/
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.8';
+import { enviarCorreo } from '../_shared/correo.ts';
+import { obtenerEstudio } from '../_shared/estudio.ts';
+import { plantillaCorreoConsentimiento } from './plantilla.ts';
+
+const BUCKET_DOCUMENTOS = 'consent-documents';
+// Ventana y máximo de intentos para los envíos que pide el formulario público
+const VENTANA_FORMULARIO_MS = 60 * 60 * 1000;
+const MAX_INTENTOS_FORMULARIO = 3;
+
+const cabecerasCors = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+const responder = (cuerpo: Record<string, unknown>, estado = 200) =>
+  new Response(JSON.stringify(cuerpo), {
+    status: estado,
+    headers: { ...cabecerasCors, 'Content-Type': 'application/json' }
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: cabecerasCors });
+  }
+
+  let id: string | undefined;
+  let codigo: string | undefined;
+  try {
+    ({ id, codigo } = await req.json());
+  } catch {
+    return responder({ error: 'Solicitud inválida' }, 400);
+  }
+  if (!id || !codigo) {
+    return responder({ error: 'Faltan el id o el código del consentimiento' }, 400);
+  }
+
+  const url = Deno.env.get('SUPABASE_URL')!;
+  const admin = createClient(url, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  // Rol de quien llama, con su propia sesión (NULL si es el formulario público)
+  const usuario = createClient(url, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } }
+  });
+  const { data: rol } = await usuario.rpc('rol_personal_actual');
+  const esPersonal = rol === 'owner' || rol === 'receptionist';
+
+  const { data: consentimiento, error: consentimientoError } = await admin
+    .from('consents')
+    .select('id, code, client_info, aftercare_type, signed_pdf_path, email_status, email_attempts, created_at, procedure_types(cream_aftercare, patch_aftercare)')
+    .eq('id', id)
+    .eq('code', codigo)
+    .maybeSingle();
+
+  if (consentimientoError) {
+    console.error('Error al obtener el consentimiento:', consentimientoError);
+    return responder({ error: 'No se pudo obtener el consentimiento' }, 500);
+  }
+  if (!consentimiento) {
+    return responder({ error: 'El consentimiento no existe' }, 404);
+  }
+
+  if (!esPersonal) {
+    const reciente = Date.now() - new Date(consentimiento.created_at).getTime() < VENTANA_FORMULARIO_MS;
+    if (!reciente || consentimiento.email_status === 'sent' || consentimiento.email_attempts >= MAX_INTENTOS_FORMULARIO) {
+      return responder({ error: 'No está permitido enviar este consentimiento' }, 403);
+    }
+  }
+
+  const cliente = consentimiento.client_info as { nombre?: string; email?: string };
+  if (!cliente.email) {
+    return responder({ error: 'El cliente no registró un correo electrónico' }, 409);
+  }
+  if (!consentimiento.signed_pdf_path) {
+    return responder({ error: 'El consentimiento no tiene un PDF archivado' }, 409);
+  }
+
+  const registrarResultado = async (enviado: boolean, error?: string) => {
+    const fechaEnvio = enviado ? new Date().toISOString() : undefined;
+    const { error: actualizacionError } = await admin
+      .from('consents')
+      .update({
+        email_status: enviado ? 'sent' : 'failed',
+        ...(enviado ? { email_sent_at: fechaEnvio } : {}),
+        email_error: error ?? null,
+        email_attempts: consentimiento.email_attempts + 1
+      })
+      .eq('id', consentimiento.id);
+
+    if (actualizacionError) {
+      console.error('Error al registrar el envío del correo:', actualizacionError);
+    }
+    return fechaEnvio;
+  };
+
+  try {
+    const { data: pdf, error: pdfError } = await admin.storage
+      .from(BUCKET_DOCUMENTOS)
+      .download(consentimiento.signed_pdf_path);
+    if (pdfError || !pdf) {
+      throw new Error(`No se pudo leer el PDF archivado${pdfError ? `: ${pdfError.message}` : ''}`);
+    }
+
+    const estudio = await obtenerEstudio(admin);
+    // Los cuidados son del procedimiento firmado; la configuración del estudio queda como respaldo
+    const tipo = consentimiento.procedure_types as { cream_aftercare?: string; patch_aftercare?: string } | null;
+    const appUrl = Deno.env.get('APP_URL')?.replace(/\/$/, '');
+    const correo = plantillaCorreoConsentimiento(estudio, {
+      nombreCliente: cliente.nombre ?? '',
+      codigo: consentimiento.code,
+      textoCuidados: consentimiento.aftercare_type === 'patch'
+        ? tipo?.patch_aftercare || estudio.cuidadoParche
+        : consentimiento.aftercare_type === 'cream'
+          ? tipo?.cream_aftercare || estudio.cuidadoCrema
+          : undefined,
+      enlaceVerificacion: appUrl ? `${appUrl}/verificar/${encodeURIComponent(consentimiento.code)}` : undefined
+    });
+
+    await enviarCorreo({
+      para: cliente.email,
+      asunto: correo.asunto,
+      texto: correo.texto,
+      html: correo.html,
+      adjuntos: [
+        {
+          nombre: `consentimiento_${consentimiento.code}.pdf`,
+          tipo: 'application/pdf',
+          contenido: new Uint8Array(await pdf.arrayBuffer())
+        },
+        ...(estudio.logo ? [estudio.logo] : [])
+      ]
+    });
+
+    const fechaEnvio = await registrarResultado(true);
+    return responder({ estado: 'sent', fechaEnvio });
+  } catch (err) {
+    const mensaje = err instanceof Error ? err.message : String(err);
+    console.error('Error al enviar el correo del consentimiento:', mensaje);
+    await registrarResultado(false, mensaje);
+    // La solicitud se procesó: el fallo de entrega queda registrado en el consentimiento
+    return responder({ estado: 'failed', error: mensaje });
+  }
+});
@@ -0,0 +1,48 @@
+// Plantilla del correo que recibe el cliente: PDF firmado y cuidados posteriores, con la marca del estudio
+
+import { Estudio, escaparHtml, parrafosHtml, lineasContacto, marcoCorreo } from '../_shared/estudio.ts';
+
+export interface DatosCorreoConsentimiento {
+  nombreCliente: string;
+  codigo: string;
+  textoCuidados?: string;
+  enlaceVerificacion?: string;
+}
+
+export interface CorreoGenerado {
+  asunto: string;
+  html: string;
+  texto: string;
+}
+
+export const plantillaCorreoConsentimiento = (estudio: Estudio, datos: DatosCorreoConsentimiento): CorreoGenerado => {
+  const asunto = `Tu consentimiento firmado en ${estudio.nombre} (${datos.codigo})`;
+
+  const texto = [
+    `Hola ${datos.nombreCliente},`,
+    '',
+    `Gracias por confiar en ${estudio.nombre}. Adjuntamos una copia de tu consentimiento firmado.`,
+    `Código de verificación: ${datos.codigo}`,
+    ...(datos.enlaceVerificacion ? [`Verifícalo en: ${datos.enlaceVerificacion}`] : []),
+    ...(datos.textoCuidados ? ['', datos.textoCuidados] : []),
+    '',
+    estudio.nombre,
+    estudio.direccion,
+    ...lineasContacto(estudio)
+  ].join('\n');
+
+  const html = marcoCorreo(estudio, `
+              <p style="margin:0 0 16px;">Hola ${escaparHtml(datos.nombreCliente)},</p>
+              <p style="margin:0 0 16px;">
+                Gracias por confiar en ${escaparHtml(estudio.nombre)}. Adjuntamos una copia de tu consentimiento firmado.
+              </p>
+              <p style="margin:0 0 16px;padding:12px;background:#f9fafb;border-left:4px solid ${estudio.colorMarca};">
+                Código de verificación: <strong style="font-family:monospace;">${escaparHtml(datos.codigo)}</strong>
+                ${datos.enlaceVerificacion ? `<br><a href="${escaparHtml(datos.enlaceVerificacion)}" style="color:${estudio.colorMarca};">Verificar el documento</a>` : ''}
+              </p>
+              ${datos.textoCuidados ? `
+              <h2 style="margin:24px 0 8px;font-size:17px;color:${estudio.colorMarca};">Cuidados de tu tatuaje</h2>
+              <p style="margin:0;font-size:14px;">${parrafosHtml(datos.textoCuidados)}</p>` : ''}`);
+
+  return { asunto, html, texto };
+};
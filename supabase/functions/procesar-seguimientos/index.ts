@@ -0,0 +1,145 @@
+/*
+  Envía los mensajes de seguimiento vencidos (`followup_messages`) por correo o WhatsApp
+  y registra el resultado de cada uno.
+
+  Se ejecuta periódicamente con la clave de servicio, p. ej. con Supabase Cron cada 15 minutos:
+
+    select cron.schedule('procesar-seguimientos', '*/15 * * * *', $$
+      select net.http_post(
+        url := '<SUPABASE_URL>/functions/v1/procesar-seguimientos',
+        headers := jsonb_build_object('Authorization', 'Bearer <SUPABASE_SERVICE_ROLE_KEY>')
+      );
+    $$);
+
+  Variables de entorno: las de SMTP (ver `_shared/correo.ts`) y las de WhatsApp (ver `_shared/whatsapp.ts`).
+*/
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.8';
+import { enviarCorreo } from '../_shared/correo.ts';
+import { obtenerEstudio, Estudio, parrafosHtml, lineasContacto, marcoCorreo } from '../_shared/estudio.ts';
+import { obtenerProveedorWhatsApp, normalizarTelefono } from '../_shared/whatsapp.ts';
+
+const MAX_INTENTOS = 3;
+// Espera antes de reintentar un envío fallido
+const ESPERA_REINTENTO_MS = 60 * 60 * 1000;
+
+// Los asuntos sirven para cualquier procedimiento; el texto de cada tipo da el detalle
+const ASUNTOS: Record<string, string> = {
+  day_1: '¿Cómo va tu recuperación?',
+  day_3: 'Cuidados después de tu sesión: día 3',
+  day_14: 'Dos semanas después de tu sesión',
+  week_6: 'Seis semanas después de tu sesión'
+};
+
+interface MensajeSeguimiento {
+  id: string;
+  consent_id: string;
+  step: string;
+  channel: 'email' | 'whatsapp';
+  attempts: number;
+}
+
+interface DatosCliente {
+  nombre?: string;
+  email?: string;
+  telefono?: string;
+}
+
+// Mismas variables que los textos legales, escritas como {Nombre Cliente}
+const completarTexto = (texto: string, cliente: DatosCliente, artista: string, estudio: Estudio) =>
+  texto
+    .replace(/\{Nombre Cliente\}/g, cliente.nombre ?? '')
+    .replace(/\{Nombre Artista\}/g, artista)
+    .replace(/\{Nombre Estudio\}/g, estudio.nombre);
+
+Deno.serve(async (req) => {
+  const claveServicio = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  if (req.headers.get('Authorization') !== `Bearer ${claveServicio}`) {
+    return new Response(JSON.stringify({ error: 'No autorizado' }), { status: 401 });
+  }
+
+  const admin = createClient(Deno.env.get('SUPABASE_URL')!, claveServicio);
+
+  const { data: mensajes, error: reclamarError } = await admin.rpc('reclamar_seguimientos', { p_limite: 50 });
+  if (reclamarError) {
+    console.error('Error al obtener los mensajes de seguimiento:', reclamarError);
+    return new Response(JSON.stringify({ error: reclamarError.message }), { status: 500 });
+  }
+
+  const pendientes = (mensajes ?? []) as MensajeSeguimiento[];
+  if (pendientes.length === 0) {
+    return new Response(JSON.stringify({ procesados: 0, enviados: 0, fallidos: 0 }));
+  }
+
+  const estudio = await obtenerEstudio(admin);
+  const { data: consentimientos } = await admin
+    .from('consents')
+    .select('id, client_info, artists:artist_id (name), procedure_types:procedure_type_id (followup_texts)')
+    .in('id', [...new Set(pendientes.map(m => m.consent_id))]);
+
+  let enviados = 0;
+  let fallidos = 0;
+
+  for (const mensaje of pendientes) {
+    try {
+      const consentimiento = consentimientos?.find(c => c.id === mensaje.consent_id);
+      if (!consentimiento) {
+        throw new Error('El consentimiento ya no existe');
+      }
+
+      const cliente = consentimiento.client_info as DatosCliente;
+      const artista = (consentimiento.artists as { name?: string } | null)?.name ?? '';
+      // Textos del tipo de procedimiento del consentimiento, por paso ('day_1', 'day_3', 'day_14', 'week_6')
+      const textos = (consentimiento.procedure_types as { followup_texts?: Record<string, string> } | null)?.followup_texts;
+      const plantilla = textos?.[mensaje.step]?.trim();
+      if (!plantilla) {
+        throw new Error('El estudio desactivó este mensaje de seguimiento para el procedimiento');
+      }
+      const texto = completarTexto(plantilla, cliente, artista, estudio);
+
+      if (mensaje.channel === 'whatsapp') {
+        const telefono = normalizarTelefono(cliente.telefono ?? '');
+        if (!telefono) {
+          throw new Error('El cliente no tiene un teléfono válido para WhatsApp');
+        }
+        await obtenerProveedorWhatsApp().enviar(telefono, texto);
+      } else {
+        if (!cliente.email) {
+          throw new Error('El cliente no registró un correo electrónico');
+        }
+        await enviarCorreo({
+          para: cliente.email,
+          asunto: `${ASUNTOS[mensaje.step] ?? 'Seguimiento de tu sesión'} - ${estudio.nombre}`,
+          texto: [texto, '', estudio.nombre, ...lineasContacto(estudio)].join('\n'),
+          html: marcoCorreo(estudio, `<p style="margin:0;">${parrafosHtml(texto)}</p>`),
+          adjuntos: estudio.logo ? [estudio.logo] : []
+        });
+      }
+
+      await admin
+        .from('followup_messages')
+        .update({ status: 'sent', sent_at: new Date().toISOString(), error: null })
+        .eq('id', mensaje.id);
+      enviados++;
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      console.error(`Error al enviar el seguimiento ${mensaje.id}:`, error);
+
+      // Se reintenta más tarde hasta agotar los intentos
+      const reintentar = mensaje.attempts < MAX_INTENTOS;
+      await admin
+        .from('followup_messages')
+        .update({
+          status: reintentar ? 'scheduled' : 'failed',
+          ...(reintentar ? { scheduled_for: new Date(Date.now() + ESPERA_REINTENTO_MS).toISOString() } : {}),
+          error
+        })
+        .eq('id', mensaje.id);
+      fallidos++;
+    }
+  }
+
+  return new Response(JSON.stringify({ procesados: pendientes.length, enviados, fallidos }), {
+    headers: { 'Content-Type': 'application/json' }
+  });
+});
@@ -0,0 +1,122 @@
+/*
+  # Cuentas de personal con Supabase Auth
+
+  1. Nuevas tablas
+    - `staff`: perfil de cada empleado del estudio, vinculado 1:1 con `auth.users`
+      - `id` (uuid, referencia a auth.users)
+      - `email`, `display_name`
+      - `active` para desactivar cuentas sin borrarlas
+
+  2. Seguridad
+    - RLS habilitado en `staff`; cada usuario autenticado solo puede leer su propio perfil
+    - Nueva función `es_personal_activo()` para comprobar en las políticas que la sesión
+      pertenece a un empleado activo (no basta con tener una cuenta en auth.users)
+    - Las políticas de `consents` para usuarios autenticados pasan a exigir personal activo
+    - `archivar_consentimiento` deja de estar disponible para usuarios anónimos
+
+  3. Alta de cuentas
+    - Crear el usuario en Authentication > Users del panel de Supabase
+    - Insertar la fila correspondiente en `staff` con el mismo id
+*/
+
+CREATE TABLE IF NOT EXISTS public.staff (
+  id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email text NOT NULL UNIQUE,
+  display_name text NOT NULL,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.staff ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow authenticated read own staff" ON public.staff;
+CREATE POLICY "Allow authenticated read own staff"
+ON public.staff
+FOR SELECT
+TO authenticated
+USING (id = auth.uid());
+
+DROP TRIGGER IF EXISTS update_staff_updated_at ON public.staff;
+CREATE TRIGGER update_staff_updated_at
+BEFORE UPDATE ON public.staff
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+GRANT SELECT ON public.staff TO authenticated;
+
+-- Comprueba si la sesión actual pertenece a un empleado activo
+CREATE OR REPLACE FUNCTION public.es_personal_activo()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.staff
+    WHERE id = auth.uid() AND active = true
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.es_personal_activo() TO authenticated;
+
+-- Restringir las operaciones de usuarios autenticados al personal activo
+DROP POLICY IF EXISTS "Allow authenticated CRUD consents" ON public.consents;
+DROP POLICY IF EXISTS "Allow authenticated select consents" ON public.consents;
+DROP POLICY IF EXISTS "Allow authenticated insert consents" ON public.consents;
+DROP POLICY IF EXISTS "Allow authenticated update consents" ON public.consents;
+DROP POLICY IF EXISTS "Allow authenticated delete consents" ON public.consents;
+
+CREATE POLICY "Allow authenticated select consents"
+ON public.consents
+FOR SELECT
+TO authenticated
+USING (public.es_personal_activo());
+
+CREATE POLICY "Allow authenticated insert consents"
+ON public.consents
+FOR INSERT
+TO authenticated
+WITH CHECK (public.es_personal_activo());
+
+CREATE POLICY "Allow authenticated update consents"
+ON public.consents
+FOR UPDATE
+TO authenticated
+USING (public.es_personal_activo())
+WITH CHECK (public.es_personal_activo());
+
+CREATE POLICY "Allow authenticated delete consents"
+ON public.consents
+FOR DELETE
+TO authenticated
+USING (public.es_personal_activo());
+
+-- El archivado solo puede hacerlo el personal con sesión iniciada
+CREATE OR REPLACE FUNCTION archivar_consentimiento(consentimiento_id uuid)
+RETURNS SETOF consents
+SECURITY DEFINER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT public.es_personal_activo() THEN
+    RAISE EXCEPTION 'No tienes permisos para archivar consentimientos';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM consents WHERE id = consentimiento_id) THEN
+    RAISE EXCEPTION 'No se encontró el consentimiento con ID %', consentimiento_id;
+  END IF;
+
+  RETURN QUERY
+  UPDATE consents
+  SET
+    archived = true,
+    updated_at = now()
+  WHERE id = consentimiento_id
+  RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION archivar_consentimiento(uuid) FROM anon;
+GRANT EXECUTE ON FUNCTION archivar_consentimiento(uuid) TO authenticated;
@@ -0,0 +1,207 @@
+/*
+  # Roles del personal: dueño, recepción y artista
+
+  1. Cambios
+    - Nueva columna `role` en `staff` ('owner', 'receptionist', 'artist')
+    - Nueva columna `artist_id` en `staff` para vincular las cuentas de artista con su ficha en `artists`
+    - Funciones `rol_personal_actual()` y `artista_personal_actual()` para usar en las políticas
+
+  2. Seguridad
+    - `consents`: dueño y recepción ven todo; un artista solo ve los consentimientos con su `artist_id`
+    - Solo dueño y recepción pueden archivar; solo el dueño puede eliminar
+    - `config`, `artists` y `health_questions`: lectura pública (la necesita el formulario),
+      escritura solo para el dueño
+*/
+
+-- Columnas de rol en staff
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'staff' AND column_name = 'role'
+  ) THEN
+    ALTER TABLE public.staff ADD COLUMN role text NOT NULL DEFAULT 'owner';
+    ALTER TABLE public.staff ADD CONSTRAINT staff_role_check
+      CHECK (role IN ('owner', 'receptionist', 'artist'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'staff' AND column_name = 'artist_id'
+  ) THEN
+    ALTER TABLE public.staff ADD COLUMN artist_id uuid REFERENCES public.artists(id) ON DELETE SET NULL;
+    ALTER TABLE public.staff ADD CONSTRAINT staff_artist_role_check
+      CHECK (role <> 'artist' OR artist_id IS NOT NULL);
+  END IF;
+END $$;
+
+-- Rol del empleado con sesión iniciada (NULL si no es personal activo)
+CREATE OR REPLACE FUNCTION public.rol_personal_actual()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM public.staff
+  WHERE id = auth.uid() AND active = true;
+$$;
+
+-- Artista vinculado al empleado con sesión iniciada
+CREATE OR REPLACE FUNCTION public.artista_personal_actual()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT artist_id FROM public.staff
+  WHERE id = auth.uid() AND active = true;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.rol_personal_actual() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.artista_personal_actual() TO authenticated;
+
+-- Políticas de consents según rol
+DROP POLICY IF EXISTS "Allow authenticated select consents" ON public.consents;
+DROP POLICY IF EXISTS "Allow authenticated insert consents" ON public.consents;
+DROP POLICY IF EXISTS "Allow authenticated update consents" ON public.consents;
+DROP POLICY IF EXISTS "Allow authenticated delete consents" ON public.consents;
+
+CREATE POLICY "Allow authenticated select consents"
+ON public.consents
+FOR SELECT
+TO authenticated
+USING (
+  public.rol_personal_actual() IN ('owner', 'receptionist')
+  OR (public.rol_personal_actual() = 'artist' AND artist_id = public.artista_personal_actual())
+);
+
+CREATE POLICY "Allow authenticated insert consents"
+ON public.consents
+FOR INSERT
+TO authenticated
+WITH CHECK (public.rol_personal_actual() IN ('owner', 'receptionist'));
+
+CREATE POLICY "Allow authenticated update consents"
+ON public.consents
+FOR UPDATE
+TO authenticated
+USING (public.rol_personal_actual() IN ('owner', 'receptionist'))
+WITH CHECK (public.rol_personal_actual() IN ('owner', 'receptionist'));
+
+CREATE POLICY "Allow authenticated delete consents"
+ON public.consents
+FOR DELETE
+TO authenticated
+USING (public.rol_personal_actual() = 'owner');
+
+-- Respuestas de salud: mismas reglas de visibilidad que el consentimiento
+DROP POLICY IF EXISTS "Allow authenticated CRUD consent_health_answers" ON public.consent_health_answers;
+
+CREATE POLICY "Allow authenticated select consent_health_answers"
+ON public.consent_health_answers
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (SELECT 1 FROM public.consents c WHERE c.id = consent_id)
+);
+
+CREATE POLICY "Allow authenticated write consent_health_answers"
+ON public.consent_health_answers
+FOR ALL
+TO authenticated
+USING (public.rol_personal_actual() IN ('owner', 'receptionist'))
+WITH CHECK (public.rol_personal_actual() IN ('owner', 'receptionist'));
+
+-- Archivado: solo dueño y recepción
+CREATE OR REPLACE FUNCTION archivar_consentimiento(consentimiento_id uuid)
+RETURNS SETOF consents
+SECURITY DEFINER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF public.rol_personal_actual() IS NULL
+     OR public.rol_personal_actual() NOT IN ('owner', 'receptionist') THEN
+    RAISE EXCEPTION 'No tienes permisos para archivar consentimientos';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM consents WHERE id = consentimiento_id) THEN
+    RAISE EXCEPTION 'No se encontró el consentimiento con ID %', consentimiento_id;
+  END IF;
+
+  RETURN QUERY
+  UPDATE consents
+  SET
+    archived = true,
+    updated_at = now()
+  WHERE id = consentimiento_id
+  RETURNING *;
+END;
+$$;
+
+-- Reemplazar las políticas existentes de configuración, artistas y preguntas de salud
+DO $$
+DECLARE
+  pol record;
+BEGIN
+  FOR pol IN
+    SELECT tablename, policyname FROM pg_policies
+    WHERE schemaname = 'public' AND tablename IN ('config', 'artists', 'health_questions')
+  LOOP
+    EXECUTE format('DROP POLICY %I ON public.%I', pol.policyname, pol.tablename);
+  END LOOP;
+END $$;
+
+ALTER TABLE public.config ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.artists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.health_questions ENABLE ROW LEVEL SECURITY;
+
+-- config
+CREATE POLICY "Allow public read config"
+ON public.config
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+-- La primera carga de la aplicación crea la configuración por defecto si no existe
+CREATE POLICY "Allow public insert initial config"
+ON public.config
+FOR INSERT
+TO anon, authenticated
+WITH CHECK (NOT EXISTS (SELECT 1 FROM public.config));
+
+CREATE POLICY "Allow owner update config"
+ON public.config
+FOR UPDATE
+TO authenticated
+USING (public.rol_personal_actual() = 'owner')
+WITH CHECK (public.rol_personal_actual() = 'owner');
+
+-- artists
+CREATE POLICY "Allow public read artists"
+ON public.artists
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+CREATE POLICY "Allow owner write artists"
+ON public.artists
+FOR ALL
+TO authenticated
+USING (public.rol_personal_actual() = 'owner')
+WITH CHECK (public.rol_personal_actual() = 'owner');
+
+-- health_questions
+CREATE POLICY "Allow public read health_questions"
+ON public.health_questions
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+CREATE POLICY "Allow owner write health_questions"
+ON public.health_questions
+FOR ALL
+TO authenticated
+USING (public.rol_personal_actual() = 'owner')
+WITH CHECK (public.rol_personal_actual() = 'owner');
@@ -0,0 +1,100 @@
+/*
+  # Registro de auditoría inmutable
+
+  1. Nuevas tablas
+    - `audit_events`: un registro por cada acción sensible del personal
+      - `actor_id` y `actor_email`: quién realizó la acción (se completan en el servidor)
+      - `action`: tipo de acción (p. ej. 'consentimiento.ver', 'config.actualizar')
+      - `entity_type` / `entity_id`: sobre qué registro se realizó
+      - `diff`: cambios realizados (valores antes/después) o detalles de la acción
+      - `created_at`: fecha del servidor, no la del navegador
+      - `client_timestamp`: momento de la acción según el navegador (difiere si el evento
+        se envió más tarde por falta de conexión)
+
+  2. Seguridad
+    - RLS habilitado; el personal activo solo puede insertar eventos a su nombre
+    - Solo el dueño del estudio puede consultar el registro
+    - Los eventos no se pueden modificar ni eliminar (trigger + sin políticas UPDATE/DELETE)
+*/
+
+CREATE TABLE IF NOT EXISTS public.audit_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Sin clave foránea: el registro debe sobrevivir a la eliminación de la cuenta
+  actor_id uuid DEFAULT auth.uid(),
+  actor_email text,
+  action text NOT NULL,
+  entity_type text NOT NULL,
+  entity_id text,
+  diff jsonb,
+  client_timestamp timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS audit_events_created_at_idx ON public.audit_events(created_at DESC);
+CREATE INDEX IF NOT EXISTS audit_events_actor_id_idx ON public.audit_events(actor_id);
+CREATE INDEX IF NOT EXISTS audit_events_action_idx ON public.audit_events(action);
+
+ALTER TABLE public.audit_events ENABLE ROW LEVEL SECURITY;
+
+-- El actor y la fecha los fija el servidor, no el cliente
+CREATE OR REPLACE FUNCTION public.completar_evento_auditoria()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.actor_id := auth.uid();
+  NEW.actor_email := (SELECT email FROM public.staff WHERE id = auth.uid());
+  NEW.created_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS completar_audit_events ON public.audit_events;
+CREATE TRIGGER completar_audit_events
+BEFORE INSERT ON public.audit_events
+FOR EACH ROW
+EXECUTE FUNCTION public.completar_evento_auditoria();
+
+-- Impedir cualquier modificación o borrado, incluso con la clave de servicio
+CREATE OR REPLACE FUNCTION public.impedir_cambios_auditoria()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'El registro de auditoría es inmutable';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS inmutable_audit_events ON public.audit_events;
+CREATE TRIGGER inmutable_audit_events
+BEFORE UPDATE OR DELETE ON public.audit_events
+FOR EACH ROW
+EXECUTE FUNCTION public.impedir_cambios_auditoria();
+
+DROP POLICY IF EXISTS "Allow authenticated insert audit_events" ON public.audit_events;
+CREATE POLICY "Allow authenticated insert audit_events"
+ON public.audit_events
+FOR INSERT
+TO authenticated
+WITH CHECK (public.es_personal_activo());
+
+DROP POLICY IF EXISTS "Allow owner read audit_events" ON public.audit_events;
+CREATE POLICY "Allow owner read audit_events"
+ON public.audit_events
+FOR SELECT
+TO authenticated
+USING (public.rol_personal_actual() = 'owner');
+
+REVOKE ALL ON public.audit_events FROM anon;
+REVOKE UPDATE, DELETE, TRUNCATE ON public.audit_events FROM authenticated;
+GRANT SELECT, INSERT ON public.audit_events TO authenticated;
+
+-- Lista de personal para el filtro por usuario del registro (solo dueño)
+DROP POLICY IF EXISTS "Allow owner read staff" ON public.staff;
+CREATE POLICY "Allow owner read staff"
+ON public.staff
+FOR SELECT
+TO authenticated
+USING (public.rol_personal_actual() = 'owner');
@@ -0,0 +1,87 @@
+/*
+  # Preguntas de salud configurables
+
+  1. Cambios
+    - Nueva columna `position` en `health_questions` para definir el orden en el formulario
+    - Función `sembrar_preguntas_salud` que crea las 17 preguntas que antes estaban fijas en el código
+    - Las configuraciones existentes sin preguntas reciben las preguntas por defecto
+    - Trigger para que cada configuración nueva empiece con las preguntas por defecto
+
+  2. Notas
+    - Los consentimientos guardan las respuestas por id de pregunta junto con el texto mostrado,
+      por lo que editar o eliminar preguntas no altera los registros ya firmados
+    - Los consentimientos antiguos (respuestas por índice "0".."16") se siguen mostrando
+      con la lista original desde la aplicación
+*/
+
+ALTER TABLE public.health_questions
+  ADD COLUMN IF NOT EXISTS position integer NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS health_questions_config_position_idx
+  ON public.health_questions(config_id, position);
+
+-- Crea las preguntas por defecto para una configuración que aún no tiene preguntas
+CREATE OR REPLACE FUNCTION public.sembrar_preguntas_salud(p_config_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.health_questions WHERE config_id = p_config_id) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.health_questions
+    (config_id, question, default_answer, show_additional_field, additional_field_only_if_yes, position)
+  VALUES
+    (p_config_id, '¿Comiste en las últimas 4 horas?', true, false, false, 0),
+    (p_config_id, '¿Tienes alergias?', false, true, true, 1),
+    (p_config_id, '¿Tienes hemofilia?', false, false, false, 2),
+    (p_config_id, '¿Has tomado aspirina en los últimos 5 días?', false, false, false, 3),
+    (p_config_id, '¿Tienes hepatitis?', false, false, false, 4),
+    (p_config_id, '¿Tienes mala cicatrización?', false, false, false, 5),
+    (p_config_id, '¿Vives con VIH?', false, false, false, 6),
+    (p_config_id, '¿Tienes problemas de salud?', false, true, true, 7),
+    (p_config_id, '¿Estás en tratamiento médico?', false, true, true, 8),
+    (p_config_id, '¿Tienes tendencia a desmayarte?', false, false, false, 9),
+    (p_config_id, '¿Fumas?', false, false, false, 10),
+    (p_config_id, '¿Bebes alcohol?', false, false, false, 11),
+    (p_config_id, '¿Bebiste en las últimas 3 horas?', false, false, false, 12),
+    (p_config_id, '¿Consumes drogas?', false, false, false, 13),
+    (p_config_id, '¿Tienes problemas dermatológicos?', false, true, true, 14),
+    (p_config_id, '¿Tu piel produce queloides?', false, false, false, 15),
+    (p_config_id, '¿Es tu primer tatuaje?', false, false, false, 16);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.sembrar_preguntas_salud(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Sembrar las configuraciones existentes
+DO $$
+DECLARE
+  config_row record;
+BEGIN
+  FOR config_row IN SELECT id FROM public.config LOOP
+    PERFORM public.sembrar_preguntas_salud(config_row.id);
+  END LOOP;
+END $$;
+
+-- Sembrar automáticamente cada configuración nueva
+CREATE OR REPLACE FUNCTION public.sembrar_preguntas_salud_config()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.sembrar_preguntas_salud(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sembrar_preguntas_salud_config ON public.config;
+CREATE TRIGGER sembrar_preguntas_salud_config
+AFTER INSERT ON public.config
+FOR EACH ROW
+EXECUTE FUNCTION public.sembrar_preguntas_salud_config();
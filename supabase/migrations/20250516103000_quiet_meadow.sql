@@ -0,0 +1,139 @@
+/*
+  # Versionado y archivado de preguntas de salud
+
+  1. Cambios
+    - `health_questions.archived_at`: las preguntas ya no se eliminan, se archivan
+    - `health_questions.version`: se incrementa cada vez que cambia el texto o las opciones de la pregunta
+    - Nueva tabla `health_question_versions` con el historial de cada versión (la completa un trigger)
+    - Función `reordenar_preguntas_salud` para guardar el orden definido en el panel
+
+  2. Seguridad
+    - El dueño puede crear y modificar preguntas, pero no eliminarlas
+    - El historial de versiones es de solo lectura para el personal activo
+*/
+
+ALTER TABLE public.health_questions
+  ADD COLUMN IF NOT EXISTS archived_at timestamptz,
+  ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1;
+
+CREATE TABLE IF NOT EXISTS public.health_question_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  question_id uuid NOT NULL REFERENCES public.health_questions(id),
+  version integer NOT NULL,
+  question text NOT NULL,
+  default_answer boolean NOT NULL,
+  show_additional_field boolean NOT NULL,
+  additional_field_only_if_yes boolean NOT NULL,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (question_id, version)
+);
+
+ALTER TABLE public.health_question_versions ENABLE ROW LEVEL SECURITY;
+
+-- Historial inicial de las preguntas existentes
+INSERT INTO public.health_question_versions
+  (question_id, version, question, default_answer, show_additional_field, additional_field_only_if_yes, created_by)
+SELECT id, version, question, default_answer, show_additional_field, additional_field_only_if_yes, NULL
+FROM public.health_questions
+ON CONFLICT (question_id, version) DO NOTHING;
+
+-- Calcular la versión: solo cambia cuando cambia lo que ve o responde el cliente
+CREATE OR REPLACE FUNCTION public.versionar_pregunta_salud()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.version := 1;
+  ELSIF NEW.question IS DISTINCT FROM OLD.question
+     OR NEW.default_answer IS DISTINCT FROM OLD.default_answer
+     OR NEW.show_additional_field IS DISTINCT FROM OLD.show_additional_field
+     OR NEW.additional_field_only_if_yes IS DISTINCT FROM OLD.additional_field_only_if_yes THEN
+    NEW.version := OLD.version + 1;
+  ELSE
+    NEW.version := OLD.version;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS versionar_health_questions ON public.health_questions;
+CREATE TRIGGER versionar_health_questions
+BEFORE INSERT OR UPDATE ON public.health_questions
+FOR EACH ROW
+EXECUTE FUNCTION public.versionar_pregunta_salud();
+
+-- Guardar cada versión nueva en el historial
+CREATE OR REPLACE FUNCTION public.registrar_version_pregunta_salud()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.version <> OLD.version THEN
+    INSERT INTO public.health_question_versions
+      (question_id, version, question, default_answer, show_additional_field, additional_field_only_if_yes)
+    VALUES
+      (NEW.id, NEW.version, NEW.question, NEW.default_answer, NEW.show_additional_field, NEW.additional_field_only_if_yes)
+    ON CONFLICT (question_id, version) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS historial_health_questions ON public.health_questions;
+CREATE TRIGGER historial_health_questions
+AFTER INSERT OR UPDATE ON public.health_questions
+FOR EACH ROW
+EXECUTE FUNCTION public.registrar_version_pregunta_salud();
+
+-- Las preguntas se archivan en vez de eliminarse
+DROP POLICY IF EXISTS "Allow owner write health_questions" ON public.health_questions;
+DROP POLICY IF EXISTS "Allow owner insert health_questions" ON public.health_questions;
+DROP POLICY IF EXISTS "Allow owner update health_questions" ON public.health_questions;
+
+CREATE POLICY "Allow owner insert health_questions"
+ON public.health_questions
+FOR INSERT
+TO authenticated
+WITH CHECK (public.rol_personal_actual() = 'owner');
+
+CREATE POLICY "Allow owner update health_questions"
+ON public.health_questions
+FOR UPDATE
+TO authenticated
+USING (public.rol_personal_actual() = 'owner')
+WITH CHECK (public.rol_personal_actual() = 'owner');
+
+REVOKE DELETE, TRUNCATE ON public.health_questions FROM anon, authenticated;
+
+DROP POLICY IF EXISTS "Allow staff read health_question_versions" ON public.health_question_versions;
+CREATE POLICY "Allow staff read health_question_versions"
+ON public.health_question_versions
+FOR SELECT
+TO authenticated
+USING (public.es_personal_activo());
+
+REVOKE ALL ON public.health_question_versions FROM anon;
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON public.health_question_versions FROM authenticated;
+GRANT SELECT ON public.health_question_versions TO authenticated;
+
+-- Guardar el orden de las preguntas según la lista de ids recibida
+CREATE OR REPLACE FUNCTION public.reordenar_preguntas_salud(p_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.health_questions hq
+  SET position = orden.posicion - 1,
+      updated_at = now()
+  FROM unnest(p_ids) WITH ORDINALITY AS orden(id, posicion)
+  WHERE hq.id = orden.id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.reordenar_preguntas_salud(uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.reordenar_preguntas_salud(uuid[]) TO authenticated;
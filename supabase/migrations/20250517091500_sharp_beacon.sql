@@ -0,0 +1,143 @@
+/*
+  # Reglas de riesgo en las preguntas de salud
+
+  1. Cambios
+    - `health_questions.risk_level`: qué ocurre cuando se da la respuesta de riesgo
+      - 'none': sin regla
+      - 'info': se informa al artista
+      - 'review': el consentimiento queda marcado para revisión del artista
+      - 'block': el formulario no se puede enviar
+    - `health_questions.risk_answer`: respuesta que activa la regla (por defecto "Sí")
+    - `health_questions.risk_message`: mensaje que se muestra al cliente o al artista
+    - `consents.risk_level`: nivel de riesgo del consentimiento ('none', 'info' o 'review'),
+      calculado en el servidor al guardar
+    - Reglas por defecto: hemofilia y VIH requieren revisión; haber bebido alcohol en las
+      últimas 3 horas bloquea el formulario
+
+  2. Seguridad
+    - El trigger `evaluar_riesgo_consents` rechaza los consentimientos con respuestas bloqueantes
+      aunque el formulario se haya omitido
+*/
+
+ALTER TABLE public.health_questions
+  ADD COLUMN IF NOT EXISTS risk_level text NOT NULL DEFAULT 'none',
+  ADD COLUMN IF NOT EXISTS risk_answer boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS risk_message text;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'health_questions_risk_level_check'
+  ) THEN
+    ALTER TABLE public.health_questions ADD CONSTRAINT health_questions_risk_level_check
+      CHECK (risk_level IN ('none', 'info', 'review', 'block'));
+  END IF;
+END $$;
+
+ALTER TABLE public.consents
+  ADD COLUMN IF NOT EXISTS risk_level text NOT NULL DEFAULT 'none';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'consents_risk_level_check'
+  ) THEN
+    ALTER TABLE public.consents ADD CONSTRAINT consents_risk_level_check
+      CHECK (risk_level IN ('none', 'info', 'review'));
+  END IF;
+END $$;
+
+-- Reglas por defecto para las preguntas sembradas que aún no tienen regla
+UPDATE public.health_questions
+SET risk_level = 'review',
+    risk_message = 'Hemofilia declarada: el artista debe evaluar si puede realizar el procedimiento.'
+WHERE question = '¿Tienes hemofilia?' AND risk_level = 'none';
+
+UPDATE public.health_questions
+SET risk_level = 'review',
+    risk_message = 'VIH declarado: el artista debe revisar las precauciones antes del procedimiento.'
+WHERE question = '¿Vives con VIH?' AND risk_level = 'none';
+
+UPDATE public.health_questions
+SET risk_level = 'block',
+    risk_message = 'No podemos tatuarte si has bebido alcohol en las últimas 3 horas. Por favor, vuelve más tarde.'
+WHERE question = '¿Bebiste en las últimas 3 horas?' AND risk_level = 'none';
+
+-- Las configuraciones nuevas reciben las preguntas con sus reglas por defecto
+CREATE OR REPLACE FUNCTION public.sembrar_preguntas_salud(p_config_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.health_questions WHERE config_id = p_config_id) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.health_questions
+    (config_id, question, default_answer, show_additional_field, additional_field_only_if_yes, position, risk_level, risk_message)
+  VALUES
+    (p_config_id, '¿Comiste en las últimas 4 horas?', true, false, false, 0, 'none', NULL),
+    (p_config_id, '¿Tienes alergias?', false, true, true, 1, 'none', NULL),
+    (p_config_id, '¿Tienes hemofilia?', false, false, false, 2, 'review',
+      'Hemofilia declarada: el artista debe evaluar si puede realizar el procedimiento.'),
+    (p_config_id, '¿Has tomado aspirina en los últimos 5 días?', false, false, false, 3, 'none', NULL),
+    (p_config_id, '¿Tienes hepatitis?', false, false, false, 4, 'none', NULL),
+    (p_config_id, '¿Tienes mala cicatrización?', false, false, false, 5, 'none', NULL),
+    (p_config_id, '¿Vives con VIH?', false, false, false, 6, 'review',
+      'VIH declarado: el artista debe revisar las precauciones antes del procedimiento.'),
+    (p_config_id, '¿Tienes problemas de salud?', false, true, true, 7, 'none', NULL),
+    (p_config_id, '¿Estás en tratamiento médico?', false, true, true, 8, 'none', NULL),
+    (p_config_id, '¿Tienes tendencia a desmayarte?', false, false, false, 9, 'none', NULL),
+    (p_config_id, '¿Fumas?', false, false, false, 10, 'none', NULL),
+    (p_config_id, '¿Bebes alcohol?', false, false, false, 11, 'none', NULL),
+    (p_config_id, '¿Bebiste en las últimas 3 horas?', false, false, false, 12, 'block',
+      'No podemos tatuarte si has bebido alcohol en las últimas 3 horas. Por favor, vuelve más tarde.'),
+    (p_config_id, '¿Consumes drogas?', false, false, false, 13, 'none', NULL),
+    (p_config_id, '¿Tienes problemas dermatológicos?', false, true, true, 14, 'none', NULL),
+    (p_config_id, '¿Tu piel produce queloides?', false, false, false, 15, 'none', NULL),
+    (p_config_id, '¿Es tu primer tatuaje?', false, false, false, 16, 'none', NULL);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.sembrar_preguntas_salud(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Calcular el nivel de riesgo con las reglas vigentes y rechazar respuestas bloqueantes
+CREATE OR REPLACE FUNCTION public.evaluar_riesgo_consentimiento()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  nivel text := 'none';
+  regla record;
+BEGIN
+  FOR regla IN
+    SELECT hq.question, hq.risk_level, hq.risk_message
+    FROM jsonb_each(COALESCE(NEW.client_info::jsonb -> 'informacionSalud', '{}'::jsonb)) AS r(pregunta_id, datos)
+    JOIN public.health_questions hq ON hq.id::text = r.pregunta_id
+    WHERE hq.risk_level <> 'none'
+      AND jsonb_typeof(r.datos -> 'respuesta') = 'boolean'
+      AND (r.datos ->> 'respuesta')::boolean = hq.risk_answer
+  LOOP
+    IF regla.risk_level = 'block' THEN
+      RAISE EXCEPTION 'Respuesta de salud no permitida: %', COALESCE(regla.risk_message, regla.question);
+    ELSIF regla.risk_level = 'review' THEN
+      nivel := 'review';
+    ELSIF regla.risk_level = 'info' AND nivel = 'none' THEN
+      nivel := 'info';
+    END IF;
+  END LOOP;
+
+  NEW.risk_level := nivel;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS evaluar_riesgo_consents ON public.consents;
+CREATE TRIGGER evaluar_riesgo_consents
+BEFORE INSERT ON public.consents
+FOR EACH ROW
+EXECUTE FUNCTION public.evaluar_riesgo_consentimiento();
@@ -0,0 +1,136 @@
+/*
+  # Plantillas de consentimiento versionadas
+
+  1. Cambios
+    - Nueva tabla `consent_templates` con cada versión de los textos legales de la configuración
+      (`consent_text` y `tutor_consent_text`). Un trigger crea una versión nueva cada vez que
+      cambian los textos en `config`
+    - `consents.template_id` y `consents.template_version`: plantilla con la que se firmó
+    - `consents.consent_text` y `consents.tutor_consent_text`: texto exacto que vio y firmó el cliente,
+      con las variables ya reemplazadas
+    - Los consentimientos existentes quedan sin plantilla (se firmaron antes del versionado)
+
+  2. Seguridad
+    - Las plantillas son de solo lectura; solo el trigger puede crearlas
+    - La plantilla y el texto firmado de un consentimiento no se pueden modificar después de guardarlo
+*/
+
+CREATE TABLE IF NOT EXISTS public.consent_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  config_id uuid NOT NULL REFERENCES public.config(id) ON DELETE CASCADE,
+  version integer NOT NULL,
+  consent_text text NOT NULL,
+  tutor_consent_text text NOT NULL,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (config_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS consent_templates_config_id_idx
+  ON public.consent_templates (config_id, version DESC);
+
+ALTER TABLE public.consent_templates ENABLE ROW LEVEL SECURITY;
+
+-- Versión inicial con los textos actuales
+INSERT INTO public.consent_templates (config_id, version, consent_text, tutor_consent_text, created_by)
+SELECT id, 1, consent_text, tutor_consent_text, NULL
+FROM public.config
+ON CONFLICT (config_id, version) DO NOTHING;
+
+-- Crear una versión nueva cuando cambian los textos legales
+CREATE OR REPLACE FUNCTION public.registrar_plantilla_consentimiento()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT'
+     OR NEW.consent_text IS DISTINCT FROM OLD.consent_text
+     OR NEW.tutor_consent_text IS DISTINCT FROM OLD.tutor_consent_text THEN
+    INSERT INTO public.consent_templates (config_id, version, consent_text, tutor_consent_text)
+    SELECT NEW.id, COALESCE(MAX(version), 0) + 1, NEW.consent_text, NEW.tutor_consent_text
+    FROM public.consent_templates
+    WHERE config_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS plantilla_consentimiento_config ON public.config;
+CREATE TRIGGER plantilla_consentimiento_config
+AFTER INSERT OR UPDATE OF consent_text, tutor_consent_text ON public.config
+FOR EACH ROW
+EXECUTE FUNCTION public.registrar_plantilla_consentimiento();
+
+ALTER TABLE public.consents
+  ADD COLUMN IF NOT EXISTS template_id uuid REFERENCES public.consent_templates(id),
+  ADD COLUMN IF NOT EXISTS template_version integer,
+  ADD COLUMN IF NOT EXISTS consent_text text,
+  ADD COLUMN IF NOT EXISTS tutor_consent_text text;
+
+CREATE INDEX IF NOT EXISTS consents_template_id_idx ON public.consents (template_id);
+
+-- Al guardar, usar la plantilla vigente si el formulario no indicó una y tomar su versión del servidor
+CREATE OR REPLACE FUNCTION public.asignar_plantilla_consentimiento()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.template_id IS NULL THEN
+    SELECT ct.id INTO NEW.template_id
+    FROM public.consent_templates ct
+    JOIN public.config c ON c.id = ct.config_id
+    ORDER BY c.created_at DESC, ct.version DESC
+    LIMIT 1;
+  END IF;
+
+  IF NEW.template_id IS NOT NULL THEN
+    SELECT version INTO NEW.template_version
+    FROM public.consent_templates
+    WHERE id = NEW.template_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS asignar_plantilla_consents ON public.consents;
+CREATE TRIGGER asignar_plantilla_consents
+BEFORE INSERT ON public.consents
+FOR EACH ROW
+EXECUTE FUNCTION public.asignar_plantilla_consentimiento();
+
+-- Lo firmado no cambia: impedir modificar la plantilla o el texto de un consentimiento guardado
+CREATE OR REPLACE FUNCTION public.proteger_texto_firmado()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.template_id IS DISTINCT FROM OLD.template_id
+     OR NEW.template_version IS DISTINCT FROM OLD.template_version
+     OR NEW.consent_text IS DISTINCT FROM OLD.consent_text
+     OR NEW.tutor_consent_text IS DISTINCT FROM OLD.tutor_consent_text THEN
+    RAISE EXCEPTION 'El texto firmado de un consentimiento no se puede modificar';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS proteger_texto_firmado_consents ON public.consents;
+CREATE TRIGGER proteger_texto_firmado_consents
+BEFORE UPDATE ON public.consents
+FOR EACH ROW
+EXECUTE FUNCTION public.proteger_texto_firmado();
+
+-- El formulario público necesita saber qué versión está mostrando
+DROP POLICY IF EXISTS "Allow public read consent_templates" ON public.consent_templates;
+CREATE POLICY "Allow public read consent_templates"
+ON public.consent_templates
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON public.consent_templates FROM anon, authenticated;
@@ -0,0 +1,16 @@
+/*
+  # Variables de plantilla unificadas
+
+  1. Cambios
+    - `{Nombre Cliente}` pasa a significar solo los nombres del cliente en todos los textos legales.
+      Antes, en el texto del consentimiento se reemplazaba por nombres y apellidos, y en el del tutor
+      solo por los nombres
+    - Los textos de consentimiento que usaban `{Nombre Cliente}` sin `{Apellidos Cliente}` se
+      actualizan a `{Nombre Completo Cliente}` para que el texto generado no cambie
+    - El cambio crea una versión nueva de la plantilla; los consentimientos ya firmados conservan su texto
+*/
+
+UPDATE public.config
+SET consent_text = replace(consent_text, '{Nombre Cliente}', '{Nombre Completo Cliente}')
+WHERE consent_text LIKE '%{Nombre Cliente}%'
+  AND consent_text NOT LIKE '%{Apellidos Cliente}%';
@@ -0,0 +1,106 @@
+/*
+  # Huella de integridad de los consentimientos
+
+  1. Cambios
+    - `consents.integrity_hash`: SHA-256 (hex) del contenido firmado, calculado en el servidor al guardar
+    - Función `huella_consentimiento(consents)`: serialización canónica del consentimiento (datos del cliente,
+      tutor, respuestas de salud, texto legal firmado y firma) como `jsonb::text`, y su SHA-256.
+      La aplicación reproduce la misma serialización en `src/utils/integridad.ts` para verificar los registros
+    - Los consentimientos existentes se sellan con su contenido actual
+
+  2. Seguridad
+    - La huella no se puede modificar después de guardada: si alguien cambia los datos del consentimiento,
+      la huella deja de coincidir y la verificación pública lo informa
+*/
+
+ALTER TABLE public.consents
+  ADD COLUMN IF NOT EXISTS integrity_hash text;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'consents_integrity_hash_check'
+  ) THEN
+    ALTER TABLE public.consents ADD CONSTRAINT consents_integrity_hash_check
+      CHECK (integrity_hash IS NULL OR integrity_hash ~ '^[0-9a-f]{64}$');
+  END IF;
+END $$;
+
+-- Serialización canónica: jsonb ordena las claves y jsonb_strip_nulls quita los valores nulos
+CREATE OR REPLACE FUNCTION public.huella_consentimiento(c public.consents)
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT encode(sha256(convert_to(jsonb_strip_nulls(jsonb_build_object(
+    'codigo', c.code,
+    'cliente', jsonb_build_object(
+      'nombre', c.client_info::jsonb -> 'nombre',
+      'apellidos', c.client_info::jsonb -> 'apellidos',
+      'edad', c.client_info::jsonb -> 'edad',
+      'rut', c.client_info::jsonb -> 'rut',
+      'fechaNacimiento', c.client_info::jsonb -> 'fechaNacimiento',
+      'direccion', c.client_info::jsonb -> 'direccion',
+      'telefono', c.client_info::jsonb -> 'telefono',
+      'email', c.client_info::jsonb -> 'email',
+      'confirmacionDatos', c.client_info::jsonb -> 'confirmacionDatos'
+    ),
+    'tutor', CASE WHEN c.tutor_info IS NULL THEN NULL ELSE jsonb_build_object(
+      'nombre', c.tutor_info::jsonb -> 'nombre',
+      'rut', c.tutor_info::jsonb -> 'rut',
+      'parentesco', c.tutor_info::jsonb -> 'parentesco',
+      'otroParentesco', c.tutor_info::jsonb -> 'otroParentesco',
+      'firma', c.tutor_info::jsonb -> 'firma'
+    ) END,
+    'informacionSalud', COALESCE(c.client_info::jsonb -> 'informacionSalud', '{}'::jsonb),
+    'textoConsentimiento', c.consent_text,
+    'textoTutor', c.tutor_consent_text,
+    'firma', c.client_signature
+  ))::text, 'UTF8')), 'hex');
+$$;
+
+-- Sellar los consentimientos existentes antes de proteger la huella
+UPDATE public.consents
+SET integrity_hash = public.huella_consentimiento(consents)
+WHERE integrity_hash IS NULL;
+
+-- Calcular la huella al guardar; se ignora cualquier valor enviado por el cliente
+CREATE OR REPLACE FUNCTION public.sellar_consentimiento()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.integrity_hash := public.huella_consentimiento(NEW);
+  RETURN NEW;
+END;
+$$;
+
+-- El nombre hace que se ejecute después de asignar la plantilla y evaluar el riesgo
+DROP TRIGGER IF EXISTS sellar_integridad_consents ON public.consents;
+CREATE TRIGGER sellar_integridad_consents
+BEFORE INSERT ON public.consents
+FOR EACH ROW
+EXECUTE FUNCTION public.sellar_consentimiento();
+
+-- La huella se protege junto con el texto firmado
+CREATE OR REPLACE FUNCTION public.proteger_texto_firmado()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.template_id IS DISTINCT FROM OLD.template_id
+     OR NEW.template_version IS DISTINCT FROM OLD.template_version
+     OR NEW.consent_text IS DISTINCT FROM OLD.consent_text
+     OR NEW.tutor_consent_text IS DISTINCT FROM OLD.tutor_consent_text THEN
+    RAISE EXCEPTION 'El texto firmado de un consentimiento no se puede modificar';
+  END IF;
+
+  IF NEW.integrity_hash IS DISTINCT FROM OLD.integrity_hash THEN
+    RAISE EXCEPTION 'La huella de integridad de un consentimiento no se puede modificar';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,170 @@
+/*
+  # Verificación pública de consentimientos en el servidor
+
+  1. Cambios
+    - Función `verificar_codigo_consentimiento(p_codigo)`: recibe un código `TCF-XXXXX-XXXXX` y devuelve
+      solo lo necesario para validar el documento: si es válido, si está archivado, la fecha de firma,
+      el nombre del estudio, el nombre del cliente enmascarado y el estado de la huella de integridad
+    - Nueva tabla `verification_attempts`: intentos de verificación por origen, para limitar la cantidad
+      de consultas (10 por minuto por origen y 300 por minuto en total). El origen se guarda como SHA-256
+      de la IP, no la IP
+    - Función `registrar_consulta_publica()`: aplica y registra el límite; la usan todas las funciones
+      públicas que consultan datos de clientes
+    - Función `resumen_consentimiento_guardado(p_id, p_codigo)`: el formulario público ya no puede leer
+      la fila que acaba de insertar, así que obtiene con esta función los datos que calcula el servidor
+      (nivel de riesgo, versión de la plantilla y huella)
+
+  2. Seguridad
+    - Se elimina la política "Allow anon read consents": los usuarios anónimos ya no pueden leer
+      consentimientos (datos personales, RUT y respuestas de salud)
+    - `verification_attempts` no tiene políticas; solo la usan las funciones
+*/
+
+DROP POLICY IF EXISTS "Allow anon read consents" ON public.consents;
+REVOKE SELECT ON public.consents FROM anon;
+
+CREATE TABLE IF NOT EXISTS public.verification_attempts (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  client_key text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS verification_attempts_client_key_idx
+  ON public.verification_attempts (client_key, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS verification_attempts_created_at_idx
+  ON public.verification_attempts (created_at);
+
+ALTER TABLE public.verification_attempts ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON public.verification_attempts FROM anon, authenticated;
+
+-- Nombre enmascarado: inicial de cada palabra ("Camila Rojas" -> "C*** R***")
+CREATE OR REPLACE FUNCTION public.enmascarar_nombre(p_nombre text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT string_agg(upper(left(palabra, 1)) || '***', ' ')
+  FROM regexp_split_to_table(trim(COALESCE(p_nombre, '')), '\s+') AS palabra
+  WHERE palabra <> '';
+$$;
+
+-- Límite de consultas de las funciones públicas. El origen es el último valor de x-forwarded-for:
+-- lo agrega el proxy de la API, mientras que los anteriores los puede enviar el propio cliente.
+-- El límite total frena a quien rote de IP
+CREATE OR REPLACE FUNCTION public.registrar_consulta_publica(
+  p_mensaje text DEFAULT 'Demasiadas consultas. Espera un minuto e inténtalo de nuevo.'
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_origen text;
+BEGIN
+  v_origen := encode(sha256(convert_to(COALESCE(
+    NULLIF(trim(regexp_replace(
+      current_setting('request.headers', true)::json ->> 'x-forwarded-for', '^.*,', ''
+    )), ''),
+    'desconocido'
+  ), 'UTF8')), 'hex');
+
+  IF (
+    SELECT count(*) FROM public.verification_attempts
+    WHERE client_key = v_origen
+      AND created_at > now() - interval '1 minute'
+  ) >= 10 OR (
+    SELECT count(*) FROM public.verification_attempts
+    WHERE created_at > now() - interval '1 minute'
+  ) >= 300 THEN
+    RAISE EXCEPTION '%', p_mensaje
+      USING ERRCODE = 'P0001', HINT = 'rate_limit';
+  END IF;
+
+  INSERT INTO public.verification_attempts (client_key) VALUES (v_origen);
+
+  -- Los intentos antiguos ya no sirven para el límite
+  DELETE FROM public.verification_attempts WHERE created_at < now() - interval '1 day';
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.registrar_consulta_publica(text) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION public.verificar_codigo_consentimiento(p_codigo text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_codigo text := upper(trim(COALESCE(p_codigo, '')));
+  v_consentimiento public.consents;
+  v_estudio text;
+BEGIN
+  PERFORM public.registrar_consulta_publica('Demasiados intentos de verificación. Espera un minuto e inténtalo de nuevo.');
+
+  IF v_codigo !~ '^TCF-[A-Z0-9]{5}-[A-Z0-9]{5}$' THEN
+    RETURN jsonb_build_object('valido', false);
+  END IF;
+
+  SELECT * INTO v_consentimiento
+  FROM public.consents
+  WHERE code = v_codigo;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('valido', false);
+  END IF;
+
+  SELECT studio_name INTO v_estudio
+  FROM public.config
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  RETURN jsonb_build_object(
+    'valido', true,
+    'codigo', v_consentimiento.code,
+    'archivado', COALESCE(v_consentimiento.archived, false),
+    'fecha', v_consentimiento.created_at,
+    'estudio', v_estudio,
+    'cliente', public.enmascarar_nombre(concat_ws(' ',
+      v_consentimiento.client_info::jsonb ->> 'nombre',
+      v_consentimiento.client_info::jsonb ->> 'apellidos'
+    )),
+    'integridad', CASE
+      WHEN v_consentimiento.integrity_hash IS NULL THEN 'sin_huella'
+      WHEN v_consentimiento.integrity_hash = public.huella_consentimiento(v_consentimiento) THEN 'integro'
+      ELSE 'alterado'
+    END,
+    'hash', v_consentimiento.integrity_hash
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.verificar_codigo_consentimiento(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.verificar_codigo_consentimiento(text) TO anon, authenticated;
+
+-- Datos calculados por el servidor al guardar; exige el id y el código, que solo conoce quien insertó
+CREATE OR REPLACE FUNCTION public.resumen_consentimiento_guardado(p_id uuid, p_codigo text)
+RETURNS TABLE (
+  risk_level text,
+  template_id uuid,
+  template_version integer,
+  integrity_hash text,
+  created_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.risk_level, c.template_id, c.template_version, c.integrity_hash, c.created_at
+  FROM public.consents c
+  WHERE c.id = p_id
+    AND c.code = p_codigo;
+$$;
+
+REVOKE ALL ON FUNCTION public.resumen_consentimiento_guardado(uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.resumen_consentimiento_guardado(uuid, text) TO anon, authenticated;
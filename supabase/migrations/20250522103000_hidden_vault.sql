@@ -0,0 +1,82 @@
+/*
+  # Cédulas de identidad en Storage
+
+  1. Cambios
+    - Bucket privado `consent-documents` para las fotos de las cédulas (JPEG, máx. 5 MB; el formulario
+      las comprime antes de subirlas)
+    - `consents.client_id_document_path` y `consents.tutor_id_document_path`: ruta de cada foto dentro
+      del bucket. Las fotos se guardan en una carpeta con el id del consentimiento
+      (`<id>/cedula-cliente.jpg`, `<id>/cedula-tutor.jpg`)
+
+  2. Seguridad
+    - El formulario público solo puede subir archivos nuevos a la carpeta de un consentimiento que
+      todavía no existe; no puede leer, reemplazar ni eliminar archivos
+    - El personal puede leer (y generar URLs firmadas de) los documentos de los consentimientos que
+      puede ver según su rol
+    - La ruta guardada en el consentimiento debe estar en su propia carpeta
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('consent-documents', 'consent-documents', false, 5242880, ARRAY['image/jpeg'])
+ON CONFLICT (id) DO UPDATE
+SET public = false,
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+ALTER TABLE public.consents
+  ADD COLUMN IF NOT EXISTS client_id_document_path text,
+  ADD COLUMN IF NOT EXISTS tutor_id_document_path text;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'consents_id_document_path_check'
+  ) THEN
+    ALTER TABLE public.consents ADD CONSTRAINT consents_id_document_path_check
+      CHECK (
+        (client_id_document_path IS NULL OR client_id_document_path = id::text || '/cedula-cliente.jpg')
+        AND (tutor_id_document_path IS NULL OR tutor_id_document_path = id::text || '/cedula-tutor.jpg')
+      );
+  END IF;
+END $$;
+
+-- Subida desde el formulario: solo a la carpeta de un consentimiento que aún no se guardó
+CREATE OR REPLACE FUNCTION public.carpeta_documentos_disponible(p_nombre text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_nombre ~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/cedula-(cliente|tutor)\.jpg$'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.consents
+      WHERE id::text = split_part(p_nombre, '/', 1)
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.carpeta_documentos_disponible(text) TO anon, authenticated;
+
+DROP POLICY IF EXISTS "Allow public upload consent-documents" ON storage.objects;
+CREATE POLICY "Allow public upload consent-documents"
+ON storage.objects
+FOR INSERT
+TO anon, authenticated
+WITH CHECK (
+  bucket_id = 'consent-documents'
+  AND public.carpeta_documentos_disponible(name)
+);
+
+-- Lectura para el personal: la subconsulta aplica las políticas de consents (el artista solo ve los suyos)
+DROP POLICY IF EXISTS "Allow staff read consent-documents" ON storage.objects;
+CREATE POLICY "Allow staff read consent-documents"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'consent-documents'
+  AND EXISTS (
+    SELECT 1 FROM public.consents c
+    WHERE c.id::text = (storage.foldername(name))[1]
+  )
+);
@@ -0,0 +1,56 @@
+/*
+  # Códigos de consentimiento únicos y fecha de firma
+
+  1. Cambios
+    - Índice único `consents_code_key` sobre `consents.code`. Los consentimientos firmados sin conexión
+      reciben su código en el dispositivo; si al sincronizar el código ya existe, la aplicación genera
+      uno nuevo en vez de guardar un duplicado que la verificación pública no podría distinguir
+    - Nueva columna `consents.original_code`: código que el cliente recibió sin conexión cuando hubo que
+      reemplazarlo al sincronizar, para que el personal pueda reconocer su copia
+    - Nueva columna `consents.signed_at`: momento en que el cliente firmó. Un consentimiento firmado sin
+      conexión se guarda cuando vuelve la red, así que `created_at` es la hora de sincronización; la fecha
+      del PDF, los seguimientos y la visita anterior usan `signed_at`. Los existentes usan `created_at`
+
+  2. Seguridad
+    - El servidor acota la fecha que envía el dispositivo: nunca posterior al guardado ni más de 90 días
+      anterior. Después de guardada no se puede modificar
+*/
+
+CREATE UNIQUE INDEX IF NOT EXISTS consents_code_key ON public.consents (code);
+
+ALTER TABLE public.consents
+  ADD COLUMN IF NOT EXISTS signed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS original_code text;
+
+UPDATE public.consents
+SET signed_at = created_at
+WHERE signed_at IS NULL;
+
+ALTER TABLE public.consents
+  ALTER COLUMN signed_at SET DEFAULT now(),
+  ALTER COLUMN signed_at SET NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.acotar_fecha_firma()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    NEW.signed_at := OLD.signed_at;
+  ELSE
+    NEW.signed_at := LEAST(
+      NEW.created_at,
+      GREATEST(COALESCE(NEW.signed_at, NEW.created_at), NEW.created_at - interval '90 days')
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Los triggers BEFORE se ejecutan por orden alfabético: este va antes de los que usan la fecha de firma
+DROP TRIGGER IF EXISTS acotar_fecha_firma_consents ON public.consents;
+CREATE TRIGGER acotar_fecha_firma_consents
+BEFORE INSERT OR UPDATE ON public.consents
+FOR EACH ROW
+EXECUTE FUNCTION public.acotar_fecha_firma();
@@ -0,0 +1,115 @@
+/*
+  # PDF firmado archivado en Storage
+
+  1. Cambios
+    - El bucket `consent-documents` acepta también PDF
+    - `consents.signed_pdf_path`: ruta del PDF del consentimiento tal como se entregó al cliente
+      (`<id>/consentimiento.pdf`). Se genera una sola vez al guardar el consentimiento; las descargas
+      posteriores usan este archivo y no cambian aunque cambie la configuración del estudio
+    - Función `registrar_pdf_consentimiento(id, código)`: guarda la ruta del PDF una vez subido
+
+  2. Seguridad
+    - El formulario público solo puede subir el PDF de un consentimiento recién guardado (última hora)
+      que todavía no tiene PDF; no puede leerlo, reemplazarlo ni eliminarlo
+    - La ruta del PDF no se puede modificar una vez registrada
+    - El personal lee el PDF con la política de lectura existente del bucket
+*/
+
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY['image/jpeg', 'application/pdf']
+WHERE id = 'consent-documents';
+
+ALTER TABLE public.consents
+  ADD COLUMN IF NOT EXISTS signed_pdf_path text;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'consents_signed_pdf_path_check'
+  ) THEN
+    ALTER TABLE public.consents ADD CONSTRAINT consents_signed_pdf_path_check
+      CHECK (signed_pdf_path IS NULL OR signed_pdf_path = id::text || '/consentimiento.pdf');
+  END IF;
+END $$;
+
+-- Subida del PDF: solo a la carpeta de un consentimiento recién guardado y sin PDF
+CREATE OR REPLACE FUNCTION public.pdf_consentimiento_pendiente(p_nombre text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_nombre ~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/consentimiento\.pdf$'
+    AND EXISTS (
+      SELECT 1 FROM public.consents
+      WHERE id::text = split_part(p_nombre, '/', 1)
+        AND signed_pdf_path IS NULL
+        AND created_at > now() - interval '1 hour'
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.pdf_consentimiento_pendiente(text) TO anon, authenticated;
+
+DROP POLICY IF EXISTS "Allow public upload signed consent pdf" ON storage.objects;
+CREATE POLICY "Allow public upload signed consent pdf"
+ON storage.objects
+FOR INSERT
+TO anon, authenticated
+WITH CHECK (
+  bucket_id = 'consent-documents'
+  AND public.pdf_consentimiento_pendiente(name)
+);
+
+-- El formulario no puede actualizar consentimientos: la ruta se registra solo si el archivo ya está en el bucket
+CREATE OR REPLACE FUNCTION public.registrar_pdf_consentimiento(p_id uuid, p_codigo text)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ruta text := p_id::text || '/consentimiento.pdf';
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM storage.objects
+    WHERE bucket_id = 'consent-documents' AND name = v_ruta
+  ) THEN
+    RAISE EXCEPTION 'El PDF del consentimiento no se encuentra en el bucket';
+  END IF;
+
+  UPDATE public.consents
+  SET signed_pdf_path = v_ruta
+  WHERE id = p_id
+    AND code = p_codigo
+    AND signed_pdf_path IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'El consentimiento no existe o ya tiene un PDF registrado';
+  END IF;
+
+  RETURN v_ruta;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.registrar_pdf_consentimiento(uuid, text) TO anon, authenticated;
+
+-- El PDF registrado es el documento entregado al cliente
+CREATE OR REPLACE FUNCTION public.proteger_pdf_firmado()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.signed_pdf_path IS NOT NULL AND NEW.signed_pdf_path IS DISTINCT FROM OLD.signed_pdf_path THEN
+    RAISE EXCEPTION 'El PDF firmado de un consentimiento no se puede modificar';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS proteger_pdf_firmado_consents ON public.consents;
+CREATE TRIGGER proteger_pdf_firmado_consents
+BEFORE UPDATE ON public.consents
+FOR EACH ROW
+EXECUTE FUNCTION public.proteger_pdf_firmado();
@@ -0,0 +1,32 @@
+/*
+  # Marca del estudio en los documentos
+
+  1. Cambios
+    - `config.logo`: logo del estudio como imagen embebida (data URL PNG o JPEG), para los PDF
+    - `config.brand_color`: color principal de los documentos en hexadecimal (`#rrggbb`)
+
+  2. Seguridad
+    - El logo se limita a ~300 KB; la aplicación lo reduce antes de guardarlo
+    - Sin cambios en las políticas: `config` ya es de lectura pública y solo el dueño la modifica
+*/
+
+ALTER TABLE public.config
+  ADD COLUMN IF NOT EXISTS logo text,
+  ADD COLUMN IF NOT EXISTS brand_color text NOT NULL DEFAULT '#008080';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'config_brand_color_check'
+  ) THEN
+    ALTER TABLE public.config ADD CONSTRAINT config_brand_color_check
+      CHECK (brand_color ~ '^#[0-9a-fA-F]{6}$');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'config_logo_check'
+  ) THEN
+    ALTER TABLE public.config ADD CONSTRAINT config_logo_check
+      CHECK (logo IS NULL OR (logo ~ '^data:image/(png|jpeg);base64,' AND length(logo) <= 300000));
+  END IF;
+END $$;
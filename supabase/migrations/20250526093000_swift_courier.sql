@@ -0,0 +1,79 @@
+/*
+  # Envío del consentimiento por correo
+
+  1. Cambios
+    - `consents.aftercare_type`: cuidados elegidos al firmar ('cream' o 'patch'); se envían al cliente
+      junto con el PDF firmado
+    - Estado del envío al correo del cliente, lo actualiza la función `enviar-consentimiento`:
+      - `email_status`: 'pending' (por enviar), 'sent' (entregado al servidor SMTP) o 'failed'
+        (los consentimientos anteriores quedan en NULL: nunca se enviaron)
+      - `email_sent_at`: fecha del último envío correcto
+      - `email_error`: último error del servidor de correo
+      - `email_attempts`: cantidad de envíos intentados, incluidos los reenvíos del personal
+
+  2. Seguridad
+    - El formulario no puede fijar el estado del envío al guardar: siempre empieza en 'pending'
+    - Solo la función de envío (clave de servicio) puede modificar el estado del envío
+*/
+
+ALTER TABLE public.consents
+  ADD COLUMN IF NOT EXISTS aftercare_type text,
+  ADD COLUMN IF NOT EXISTS email_status text,
+  ADD COLUMN IF NOT EXISTS email_sent_at timestamptz,
+  ADD COLUMN IF NOT EXISTS email_error text,
+  ADD COLUMN IF NOT EXISTS email_attempts integer NOT NULL DEFAULT 0;
+
+-- El valor por defecto se asigna aparte para que los consentimientos existentes queden en NULL
+ALTER TABLE public.consents ALTER COLUMN email_status SET DEFAULT 'pending';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'consents_aftercare_type_check'
+  ) THEN
+    ALTER TABLE public.consents ADD CONSTRAINT consents_aftercare_type_check
+      CHECK (aftercare_type IS NULL OR aftercare_type IN ('cream', 'patch'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'consents_email_status_check'
+  ) THEN
+    ALTER TABLE public.consents ADD CONSTRAINT consents_email_status_check
+      CHECK (email_status IS NULL OR email_status IN ('pending', 'sent', 'failed'));
+  END IF;
+END $$;
+
+-- El estado del envío lo registra solo la función de correo
+CREATE OR REPLACE FUNCTION public.proteger_estado_correo()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF auth.role() IS DISTINCT FROM 'service_role' THEN
+      NEW.email_status := 'pending';
+      NEW.email_sent_at := NULL;
+      NEW.email_error := NULL;
+      NEW.email_attempts := 0;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF auth.role() IS DISTINCT FROM 'service_role' AND (
+    NEW.email_status IS DISTINCT FROM OLD.email_status
+    OR NEW.email_sent_at IS DISTINCT FROM OLD.email_sent_at
+    OR NEW.email_error IS DISTINCT FROM OLD.email_error
+    OR NEW.email_attempts IS DISTINCT FROM OLD.email_attempts
+  ) THEN
+    RAISE EXCEPTION 'El estado del envío por correo solo lo modifica el servidor';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS proteger_estado_correo_consents ON public.consents;
+CREATE TRIGGER proteger_estado_correo_consents
+BEFORE INSERT OR UPDATE ON public.consents
+FOR EACH ROW
+EXECUTE FUNCTION public.proteger_estado_correo();
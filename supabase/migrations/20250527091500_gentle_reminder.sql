@@ -0,0 +1,183 @@
+/*
+  # Mensajes de seguimiento después de la sesión
+
+  1. Cambios
+    - `config.followup_texts`: texto de cada mensaje de seguimiento, por paso
+      ('day_1', 'day_3', 'day_14', 'week_6'). Un texto vacío desactiva ese paso.
+      Admite las variables {Nombre Cliente}, {Nombre Artista} y {Nombre Estudio}
+    - `config.followup_channel`: canal de los mensajes ('email' o 'whatsapp')
+
+  2. Nuevas tablas
+    - `followup_messages`: un mensaje programado por consentimiento y paso
+      - `scheduled_for`: fecha de envío (fecha del consentimiento + 1 día, 3 días, 14 días o 6 semanas)
+      - `status`: 'scheduled', 'sending', 'sent', 'failed' o 'cancelled'
+      - `attempts`, `error`, `sent_at`: resultado de los envíos
+
+  3. Funciones
+    - Trigger `programar_seguimientos`: programa los mensajes al guardar un consentimiento
+    - `reclamar_seguimientos(límite)`: toma los mensajes vencidos para enviarlos (solo la función
+      `procesar-seguimientos`, con la clave de servicio)
+    - `cancelar_seguimiento(id)` y `reintentar_seguimiento(id)`: acciones del personal
+
+  4. Seguridad
+    - RLS habilitado; dueño y recepción ven los mensajes, sin políticas de escritura
+    - El personal solo cambia el estado con las funciones de cancelar y reintentar
+*/
+
+ALTER TABLE public.config
+  ADD COLUMN IF NOT EXISTS followup_texts jsonb NOT NULL DEFAULT jsonb_build_object(
+    'day_1', 'Hola {Nombre Cliente}, ¿cómo va tu tatuaje? Recuerda lavarlo con jabón neutro y aplicar una capa fina de crema. Si notas algo fuera de lo normal, escríbenos. - {Nombre Estudio}',
+    'day_3', 'Hola {Nombre Cliente}, en estos días es normal que el tatuaje pique o se pele un poco. No lo rasques ni retires las costras, y evita el sol y las piscinas. - {Nombre Estudio}',
+    'day_14', 'Hola {Nombre Cliente}, tu tatuaje ya debería estar casi cicatrizado. Sigue hidratándolo y usa protector solar si se expone al sol. - {Nombre Estudio}',
+    'week_6', 'Hola {Nombre Cliente}, ya pasaron 6 semanas desde tu sesión con {Nombre Artista}. Si tu tatuaje necesita un retoque, escríbenos para agendarlo. - {Nombre Estudio}'
+  ),
+  ADD COLUMN IF NOT EXISTS followup_channel text NOT NULL DEFAULT 'email';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'config_followup_channel_check'
+  ) THEN
+    ALTER TABLE public.config ADD CONSTRAINT config_followup_channel_check
+      CHECK (followup_channel IN ('email', 'whatsapp'));
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.followup_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  consent_id uuid NOT NULL REFERENCES public.consents(id) ON DELETE CASCADE,
+  step text NOT NULL CHECK (step IN ('day_1', 'day_3', 'day_14', 'week_6')),
+  channel text NOT NULL CHECK (channel IN ('email', 'whatsapp')),
+  scheduled_for timestamptz NOT NULL,
+  status text NOT NULL DEFAULT 'scheduled'
+    CHECK (status IN ('scheduled', 'sending', 'sent', 'failed', 'cancelled')),
+  attempts integer NOT NULL DEFAULT 0,
+  claimed_at timestamptz,
+  sent_at timestamptz,
+  error text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (consent_id, step)
+);
+
+CREATE INDEX IF NOT EXISTS followup_messages_status_scheduled_for_idx
+  ON public.followup_messages(status, scheduled_for);
+
+ALTER TABLE public.followup_messages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow staff select followup messages" ON public.followup_messages;
+CREATE POLICY "Allow staff select followup messages"
+ON public.followup_messages
+FOR SELECT
+TO authenticated
+USING (public.rol_personal_actual() IN ('owner', 'receptionist'));
+
+-- Programar los mensajes con los pasos que tienen texto; el formulario público no puede escribir en la tabla
+CREATE OR REPLACE FUNCTION public.programar_seguimientos()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_textos jsonb;
+  v_canal text;
+BEGIN
+  SELECT followup_texts, followup_channel INTO v_textos, v_canal
+  FROM public.config
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  INSERT INTO public.followup_messages (consent_id, step, channel, scheduled_for)
+  SELECT NEW.id, paso.step, COALESCE(v_canal, 'email'), NEW.signed_at + paso.intervalo
+  FROM (VALUES
+    ('day_1', interval '1 day'),
+    ('day_3', interval '3 days'),
+    ('day_14', interval '14 days'),
+    ('week_6', interval '6 weeks')
+  ) AS paso(step, intervalo)
+  WHERE COALESCE(btrim(v_textos ->> paso.step), '') <> ''
+  ON CONFLICT (consent_id, step) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS programar_seguimientos_consents ON public.consents;
+CREATE TRIGGER programar_seguimientos_consents
+AFTER INSERT ON public.consents
+FOR EACH ROW
+EXECUTE FUNCTION public.programar_seguimientos();
+
+-- Mensajes vencidos para enviar; los que quedaron 'sending' más de 15 minutos (envío interrumpido) se retoman
+CREATE OR REPLACE FUNCTION public.reclamar_seguimientos(p_limite integer DEFAULT 50)
+RETURNS SETOF public.followup_messages
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.followup_messages m
+  SET status = 'sending',
+      claimed_at = now(),
+      attempts = m.attempts + 1
+  WHERE m.id IN (
+    SELECT id FROM public.followup_messages
+    WHERE (status = 'scheduled' AND scheduled_for <= now())
+       OR (status = 'sending' AND claimed_at < now() - interval '15 minutes')
+    ORDER BY scheduled_for
+    LIMIT p_limite
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING m.*;
+$$;
+
+REVOKE ALL ON FUNCTION public.reclamar_seguimientos(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reclamar_seguimientos(integer) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.cancelar_seguimiento(p_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.rol_personal_actual() IS NULL OR public.rol_personal_actual() NOT IN ('owner', 'receptionist') THEN
+    RAISE EXCEPTION 'No tienes permisos para cancelar mensajes de seguimiento';
+  END IF;
+
+  UPDATE public.followup_messages
+  SET status = 'cancelled'
+  WHERE id = p_id AND status IN ('scheduled', 'failed');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Solo se pueden cancelar mensajes programados o fallidos';
+  END IF;
+END;
+$$;
+
+-- Vuelve a programar un mensaje fallido o cancelado para el próximo envío
+CREATE OR REPLACE FUNCTION public.reintentar_seguimiento(p_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.rol_personal_actual() IS NULL OR public.rol_personal_actual() NOT IN ('owner', 'receptionist') THEN
+    RAISE EXCEPTION 'No tienes permisos para reintentar mensajes de seguimiento';
+  END IF;
+
+  UPDATE public.followup_messages
+  SET status = 'scheduled',
+      scheduled_for = GREATEST(scheduled_for, now()),
+      attempts = 0,
+      error = NULL
+  WHERE id = p_id AND status IN ('failed', 'cancelled');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Solo se pueden reintentar mensajes fallidos o cancelados';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cancelar_seguimiento(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reintentar_seguimiento(uuid) TO authenticated;
@@ -0,0 +1,134 @@
+/*
+  # Agenda de citas vinculada a los consentimientos
+
+  1. Nuevas tablas
+    - `appointments`: citas agendadas por artista
+      - `artist_id`, `starts_at`, `duration_minutes`
+      - `client_name`, `client_email`, `client_phone`, `notes`: datos de contacto para recepción
+      - `status`: 'booked' o 'cancelled'
+
+  2. Cambios
+    - `consents.appointment_id`: cita desde la que se firmó el consentimiento (enlace de pre-registro).
+      Una cita tiene como máximo un consentimiento
+
+  3. Funciones
+    - `cita_preregistro(id)`: datos mínimos de una cita agendada para abrir el formulario con el artista
+      preseleccionado (disponible sin sesión, con el id del enlace)
+    - Trigger `vincular_cita_consentimiento`: al guardar un consentimiento descarta la cita si no existe,
+      está cancelada o ya tiene un consentimiento firmado (el consentimiento se guarda igual, sin cita)
+
+  4. Seguridad
+    - RLS habilitado en `appointments`: dueño y recepción gestionan la agenda; cada artista ve sus citas
+    - El formulario público no puede leer la tabla de citas
+*/
+
+CREATE TABLE IF NOT EXISTS public.appointments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  artist_id uuid NOT NULL REFERENCES public.artists(id),
+  starts_at timestamptz NOT NULL,
+  duration_minutes integer NOT NULL DEFAULT 120 CHECK (duration_minutes > 0),
+  client_name text NOT NULL,
+  client_email text,
+  client_phone text,
+  notes text,
+  status text NOT NULL DEFAULT 'booked' CHECK (status IN ('booked', 'cancelled')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS appointments_artist_id_starts_at_idx
+  ON public.appointments(artist_id, starts_at);
+
+DROP TRIGGER IF EXISTS update_appointments_updated_at ON public.appointments;
+CREATE TRIGGER update_appointments_updated_at
+BEFORE UPDATE ON public.appointments
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.consents
+  ADD COLUMN IF NOT EXISTS appointment_id uuid REFERENCES public.appointments(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS consents_appointment_id_key
+  ON public.consents(appointment_id)
+  WHERE appointment_id IS NOT NULL;
+
+ALTER TABLE public.appointments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow staff select appointments" ON public.appointments;
+DROP POLICY IF EXISTS "Allow staff insert appointments" ON public.appointments;
+DROP POLICY IF EXISTS "Allow staff update appointments" ON public.appointments;
+DROP POLICY IF EXISTS "Allow staff delete appointments" ON public.appointments;
+
+CREATE POLICY "Allow staff select appointments"
+ON public.appointments
+FOR SELECT
+TO authenticated
+USING (
+  public.rol_personal_actual() IN ('owner', 'receptionist')
+  OR (public.rol_personal_actual() = 'artist' AND artist_id = public.artista_personal_actual())
+);
+
+CREATE POLICY "Allow staff insert appointments"
+ON public.appointments
+FOR INSERT
+TO authenticated
+WITH CHECK (public.rol_personal_actual() IN ('owner', 'receptionist'));
+
+CREATE POLICY "Allow staff update appointments"
+ON public.appointments
+FOR UPDATE
+TO authenticated
+USING (public.rol_personal_actual() IN ('owner', 'receptionist'))
+WITH CHECK (public.rol_personal_actual() IN ('owner', 'receptionist'));
+
+CREATE POLICY "Allow staff delete appointments"
+ON public.appointments
+FOR DELETE
+TO authenticated
+USING (public.rol_personal_actual() = 'owner');
+
+-- Datos del enlace de pre-registro: solo citas agendadas que aún no tienen consentimiento
+CREATE OR REPLACE FUNCTION public.cita_preregistro(p_id uuid)
+RETURNS TABLE (id uuid, artist_id uuid, artist_name text, starts_at timestamptz)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT a.id, a.artist_id, ar.name, a.starts_at
+  FROM public.appointments a
+  JOIN public.artists ar ON ar.id = a.artist_id
+  WHERE a.id = p_id
+    AND a.status = 'booked'
+    AND NOT EXISTS (SELECT 1 FROM public.consents c WHERE c.appointment_id = a.id);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cita_preregistro(uuid) TO anon, authenticated;
+
+-- Un consentimiento firmado sin conexión puede llegar cuando la cita ya no admite uno:
+-- se guarda igual, sin vincularlo
+CREATE OR REPLACE FUNCTION public.vincular_cita_consentimiento()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.appointment_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.appointments a
+    WHERE a.id = NEW.appointment_id
+      AND a.status = 'booked'
+      AND NOT EXISTS (SELECT 1 FROM public.consents c WHERE c.appointment_id = a.id)
+  ) THEN
+    NEW.appointment_id := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS vincular_cita_consentimiento_consents ON public.consents;
+CREATE TRIGGER vincular_cita_consentimiento_consents
+BEFORE INSERT ON public.consents
+FOR EACH ROW
+EXECUTE FUNCTION public.vincular_cita_consentimiento();
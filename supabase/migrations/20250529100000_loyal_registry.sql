@@ -0,0 +1,185 @@
+/*
+  # Registro de clientes por RUT o pasaporte
+
+  1. Nuevas tablas
+    - `clients`: una ficha por persona, identificada por `document_number` (RUT o pasaporte normalizado:
+      en mayúsculas, sin puntos, guiones ni espacios)
+      - `first_name`, `last_name`, `birth_date`, `phone`, `email`, `address`: datos del último
+        consentimiento firmado
+
+  2. Cambios
+    - `consents.client_id`: ficha del cliente que firmó
+    - Los consentimientos existentes se vinculan a una ficha creada a partir de su RUT
+
+  3. Funciones
+    - `normalizar_documento(texto)`: mismo formato que `normalizarDocumento` en la aplicación
+    - Trigger `asignar_cliente_consentimiento`: al guardar un consentimiento crea o actualiza la ficha
+      del cliente y la vincula
+    - `cliente_recurrente(documento, fecha_nacimiento)`: contacto y dirección de un cliente que vuelve,
+      para que el formulario ofrezca completarlos
+
+  4. Seguridad
+    - RLS habilitado en `clients`: solo dueño y recepción pueden ver las fichas
+    - El formulario público solo obtiene el contacto y la dirección si el RUT y la fecha de nacimiento
+      coinciden, y comparte el límite de consultas por origen de la verificación de documentos
+*/
+
+CREATE OR REPLACE FUNCTION public.normalizar_documento(p_documento text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT upper(regexp_replace(COALESCE(p_documento, ''), '[^0-9A-Za-z]', '', 'g'));
+$$;
+
+-- Fecha de nacimiento del formulario ('yyyy-MM-dd'); los registros antiguos pueden no tenerla
+CREATE OR REPLACE FUNCTION public.fecha_nacimiento_cliente(p_client_info jsonb)
+RETURNS date
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_client_info ->> 'fechaNacimiento' ~ '^\d{4}-\d{2}-\d{2}$'
+      THEN (p_client_info ->> 'fechaNacimiento')::date
+  END;
+$$;
+
+CREATE TABLE IF NOT EXISTS public.clients (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_number text NOT NULL UNIQUE CHECK (document_number <> ''),
+  first_name text NOT NULL,
+  last_name text NOT NULL DEFAULT '',
+  birth_date date,
+  phone text,
+  email text,
+  address jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+DROP TRIGGER IF EXISTS update_clients_updated_at ON public.clients;
+CREATE TRIGGER update_clients_updated_at
+BEFORE UPDATE ON public.clients
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.consents
+  ADD COLUMN IF NOT EXISTS client_id uuid REFERENCES public.clients(id);
+
+CREATE INDEX IF NOT EXISTS consents_client_id_idx ON public.consents(client_id);
+
+ALTER TABLE public.clients ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow staff select clients" ON public.clients;
+CREATE POLICY "Allow staff select clients"
+ON public.clients
+FOR SELECT
+TO authenticated
+USING (public.rol_personal_actual() IN ('owner', 'receptionist'));
+
+-- Ficha del cliente: se crea con el primer consentimiento y se actualiza con los datos de cada visita
+CREATE OR REPLACE FUNCTION public.asignar_cliente_consentimiento()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_info jsonb := NEW.client_info::jsonb;
+  v_documento text := public.normalizar_documento(NEW.client_info::jsonb ->> 'rut');
+  v_cliente_id uuid;
+BEGIN
+  IF v_documento = '' THEN
+    NEW.client_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.clients (document_number, first_name, last_name, birth_date, phone, email, address)
+  VALUES (
+    v_documento,
+    COALESCE(v_info ->> 'nombre', ''),
+    COALESCE(v_info ->> 'apellidos', ''),
+    public.fecha_nacimiento_cliente(v_info),
+    v_info ->> 'telefono',
+    v_info ->> 'email',
+    v_info -> 'direccion'
+  )
+  ON CONFLICT (document_number) DO UPDATE SET
+    first_name = EXCLUDED.first_name,
+    last_name = EXCLUDED.last_name,
+    birth_date = COALESCE(EXCLUDED.birth_date, clients.birth_date),
+    phone = COALESCE(EXCLUDED.phone, clients.phone),
+    email = COALESCE(EXCLUDED.email, clients.email),
+    address = COALESCE(EXCLUDED.address, clients.address)
+  RETURNING id INTO v_cliente_id;
+
+  NEW.client_id := v_cliente_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS asignar_cliente_consents ON public.consents;
+CREATE TRIGGER asignar_cliente_consents
+BEFORE INSERT ON public.consents
+FOR EACH ROW
+EXECUTE FUNCTION public.asignar_cliente_consentimiento();
+
+-- Fichas de los consentimientos existentes, con los datos del más reciente de cada cliente
+INSERT INTO public.clients (document_number, first_name, last_name, birth_date, phone, email, address)
+SELECT DISTINCT ON (documento)
+  documento,
+  COALESCE(info ->> 'nombre', ''),
+  COALESCE(info ->> 'apellidos', ''),
+  public.fecha_nacimiento_cliente(info),
+  info ->> 'telefono',
+  info ->> 'email',
+  info -> 'direccion'
+FROM (
+  SELECT public.normalizar_documento(c.client_info::jsonb ->> 'rut') AS documento,
+         c.client_info::jsonb AS info,
+         c.signed_at
+  FROM public.consents c
+) AS existentes
+WHERE documento <> ''
+ORDER BY documento, signed_at DESC
+ON CONFLICT (document_number) DO NOTHING;
+
+UPDATE public.consents c
+SET client_id = cl.id
+FROM public.clients cl
+WHERE c.client_id IS NULL
+  AND cl.document_number = public.normalizar_documento(c.client_info::jsonb ->> 'rut');
+
+-- Contacto y dirección de un cliente que vuelve; exige el RUT y la fecha de nacimiento
+CREATE OR REPLACE FUNCTION public.cliente_recurrente(p_documento text, p_fecha_nacimiento date)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_cliente public.clients;
+BEGIN
+  PERFORM public.registrar_consulta_publica();
+
+  SELECT * INTO v_cliente
+  FROM public.clients
+  WHERE document_number = public.normalizar_documento(p_documento)
+    AND birth_date = p_fecha_nacimiento;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'telefono', v_cliente.phone,
+    'email', v_cliente.email,
+    'direccion', v_cliente.address
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.cliente_recurrente(text, date) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.cliente_recurrente(text, date) TO anon, authenticated;
@@ -0,0 +1,147 @@
+/*
+  # Cambios en la información de salud desde la última visita
+
+  1. Cambios
+    - `consents.health_changes`: respuestas de salud que cambiaron respecto del consentimiento anterior
+      del mismo cliente, con la fecha y el id de ese consentimiento. Es NULL en la primera visita
+      y tiene la lista vacía si el cliente vuelve sin cambios
+
+  2. Funciones
+    - `comparar_respuestas_salud(anterior, nueva)`: preguntas cuya respuesta o información adicional
+      cambió. Se emparejan por id y, en su defecto, por el texto de la pregunta; las preguntas que no
+      existían en la visita anterior no se consideran cambios
+    - Trigger `detectar_cambios_salud`: al guardar un consentimiento calcula los cambios respecto del
+      anterior del cliente (después de asignar la ficha del cliente)
+    - `cambios_salud_cliente(documento, fecha_nacimiento, informacion_salud)`: los mismos cambios para
+      que el cliente los confirme en el resumen antes de firmar
+
+  3. Seguridad
+    - Los cambios quedan en el propio consentimiento: el artista los ve aunque no pueda ver el
+      consentimiento anterior
+    - El formulario público exige el RUT y la fecha de nacimiento, comparte el límite de consultas por
+      origen de la verificación de documentos y no recibe la información adicional anterior
+*/
+
+ALTER TABLE public.consents
+  ADD COLUMN IF NOT EXISTS health_changes jsonb;
+
+CREATE OR REPLACE FUNCTION public.comparar_respuestas_salud(p_anterior jsonb, p_nueva jsonb)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+    'id', nueva.key,
+    'pregunta', nueva.value ->> 'pregunta',
+    'respuestaAnterior', (anterior.value ->> 'respuesta')::boolean,
+    'respuesta', (nueva.value ->> 'respuesta')::boolean,
+    'informacionAnterior', NULLIF(btrim(anterior.value ->> 'informacionAdicional'), ''),
+    'informacionAdicional', NULLIF(btrim(nueva.value ->> 'informacionAdicional'), '')
+  )) ORDER BY (nueva.value ->> 'orden')::integer NULLS LAST), '[]'::jsonb)
+  FROM jsonb_each(COALESCE(p_nueva, '{}'::jsonb)) AS nueva
+  JOIN LATERAL (
+    SELECT a.value
+    FROM jsonb_each(COALESCE(p_anterior, '{}'::jsonb)) AS a
+    WHERE a.key = nueva.key
+       OR (a.value ->> 'pregunta' IS NOT NULL AND a.value ->> 'pregunta' = nueva.value ->> 'pregunta')
+    ORDER BY (a.key = nueva.key) DESC
+    LIMIT 1
+  ) AS anterior ON true
+  WHERE (anterior.value ->> 'respuesta')::boolean IS DISTINCT FROM (nueva.value ->> 'respuesta')::boolean
+     OR COALESCE(btrim(anterior.value ->> 'informacionAdicional'), '')
+        <> COALESCE(btrim(nueva.value ->> 'informacionAdicional'), '');
+$$;
+
+-- Cambios respecto del consentimiento anterior del cliente; lo calcula siempre el servidor
+CREATE OR REPLACE FUNCTION public.detectar_cambios_salud()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_anterior public.consents;
+BEGIN
+  NEW.health_changes := NULL;
+
+  IF NEW.client_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_anterior
+  FROM public.consents
+  WHERE client_id = NEW.client_id
+    AND id <> NEW.id
+    AND signed_at <= NEW.signed_at
+  ORDER BY signed_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.health_changes := jsonb_build_object(
+    'consentimientoAnteriorId', v_anterior.id,
+    'fechaAnterior', v_anterior.signed_at,
+    'cambios', public.comparar_respuestas_salud(
+      v_anterior.client_info::jsonb -> 'informacionSalud',
+      NEW.client_info::jsonb -> 'informacionSalud'
+    )
+  );
+  RETURN NEW;
+END;
+$$;
+
+-- Los triggers BEFORE se ejecutan por orden alfabético: este va después de asignar_cliente_consents
+DROP TRIGGER IF EXISTS detectar_cambios_salud_consents ON public.consents;
+CREATE TRIGGER detectar_cambios_salud_consents
+BEFORE INSERT ON public.consents
+FOR EACH ROW
+EXECUTE FUNCTION public.detectar_cambios_salud();
+
+-- Cambios para el resumen del formulario público; exige el RUT y la fecha de nacimiento
+CREATE OR REPLACE FUNCTION public.cambios_salud_cliente(
+  p_documento text,
+  p_fecha_nacimiento date,
+  p_informacion_salud jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_anterior public.consents;
+  v_cambios jsonb;
+BEGIN
+  PERFORM public.registrar_consulta_publica();
+
+  SELECT c.* INTO v_anterior
+  FROM public.consents c
+  JOIN public.clients cl ON cl.id = c.client_id
+  WHERE cl.document_number = public.normalizar_documento(p_documento)
+    AND cl.birth_date = p_fecha_nacimiento
+  ORDER BY c.signed_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Sin la información adicional anterior: el cliente solo necesita saber qué cambió
+  SELECT COALESCE(jsonb_agg(cambio - 'informacionAnterior'), '[]'::jsonb) INTO v_cambios
+  FROM jsonb_array_elements(public.comparar_respuestas_salud(
+    v_anterior.client_info::jsonb -> 'informacionSalud',
+    p_informacion_salud
+  )) AS cambio;
+
+  RETURN jsonb_build_object(
+    'fechaAnterior', v_anterior.signed_at,
+    'cambios', v_cambios
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.cambios_salud_cliente(text, date, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.cambios_salud_cliente(text, date, jsonb) TO anon, authenticated;
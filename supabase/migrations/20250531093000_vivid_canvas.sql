@@ -0,0 +1,104 @@
+/*
+  # Detalles del procedimiento en el consentimiento
+
+  1. Cambios
+    - `consents.procedure_details`: tatuaje autorizado (`zonaCuerpo`, `tamano`, `color`,
+      `sesionesEstimadas`, `descripcion`). Los consentimientos anteriores no lo tienen
+    - `consents.design_image_path`: ruta del diseño aprobado en el bucket `consent-documents`
+      (`<id>/diseno.jpg`)
+
+  2. Seguridad
+    - El formulario público puede subir el diseño a la carpeta de un consentimiento que todavía no
+      existe, igual que las cédulas
+    - Dueño y recepción pueden completar los detalles y reemplazar el diseño de un consentimiento
+      guardado (mismas reglas que la actualización de consentimientos)
+    - Los detalles no forman parte de la huella de integridad: corregirlos no invalida la verificación,
+      y el PDF archivado al firmar conserva lo autorizado en ese momento
+*/
+
+ALTER TABLE public.consents
+  ADD COLUMN IF NOT EXISTS procedure_details jsonb,
+  ADD COLUMN IF NOT EXISTS design_image_path text;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'consents_procedure_details_check'
+  ) THEN
+    ALTER TABLE public.consents ADD CONSTRAINT consents_procedure_details_check
+      CHECK (
+        procedure_details IS NULL
+        OR (
+          procedure_details ->> 'zonaCuerpo' <> ''
+          AND procedure_details ->> 'tamano' IN ('small', 'medium', 'large', 'xlarge')
+          AND procedure_details ->> 'color' IN ('color', 'black_grey')
+          AND jsonb_typeof(procedure_details -> 'sesionesEstimadas') = 'number'
+          AND (procedure_details ->> 'sesionesEstimadas')::numeric BETWEEN 1 AND 50
+        )
+      );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'consents_design_image_path_check'
+  ) THEN
+    ALTER TABLE public.consents ADD CONSTRAINT consents_design_image_path_check
+      CHECK (design_image_path IS NULL OR design_image_path = id::text || '/diseno.jpg');
+  END IF;
+END $$;
+
+-- Subida desde el formulario: ahora también el diseño aprobado
+CREATE OR REPLACE FUNCTION public.carpeta_documentos_disponible(p_nombre text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_nombre ~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/(cedula-(cliente|tutor)|diseno)\.jpg$'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.consents
+      WHERE id::text = split_part(p_nombre, '/', 1)
+    );
+$$;
+
+-- Diseño de un consentimiento guardado: solo quien puede modificar el consentimiento
+CREATE OR REPLACE FUNCTION public.diseno_editable(p_nombre text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_nombre ~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/diseno\.jpg$'
+    AND public.rol_personal_actual() IN ('owner', 'receptionist')
+    AND EXISTS (
+      SELECT 1 FROM public.consents
+      WHERE id::text = split_part(p_nombre, '/', 1)
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.diseno_editable(text) TO authenticated;
+
+DROP POLICY IF EXISTS "Allow staff upload design consent-documents" ON storage.objects;
+CREATE POLICY "Allow staff upload design consent-documents"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'consent-documents'
+  AND public.diseno_editable(name)
+);
+
+DROP POLICY IF EXISTS "Allow staff replace design consent-documents" ON storage.objects;
+CREATE POLICY "Allow staff replace design consent-documents"
+ON storage.objects
+FOR UPDATE
+TO authenticated
+USING (
+  bucket_id = 'consent-documents'
+  AND public.diseno_editable(name)
+)
+WITH CHECK (
+  bucket_id = 'consent-documents'
+  AND public.diseno_editable(name)
+);
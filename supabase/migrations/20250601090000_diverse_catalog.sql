@@ -0,0 +1,396 @@
+/*
+  # Tipos de procedimiento
+
+  1. Cambios
+    - Nueva tabla `procedure_types`: procedimientos que ofrece el estudio (tatuaje, piercing, microblading,
+      remoción láser...), cada uno con su prefijo de código, textos legales, edad mínima, cuidados
+      posteriores, mensajes de seguimiento y si el formulario pide los detalles del tatuaje
+    - Cada configuración existente recibe el tipo "Tatuaje" con sus textos actuales y el prefijo `TCF`;
+      las columnas de textos de `config` quedan solo como textos iniciales de ese tipo
+    - `consent_templates.procedure_type_id`: las versiones de los textos legales ahora son por tipo. Las
+      versiones existentes pasan al tipo "Tatuaje" y el trigger de versionado se mueve a `procedure_types`
+    - `health_questions.procedure_type_id`: preguntas de un solo tipo; NULL es una pregunta común a todos.
+      "¿Es tu primer tatuaje?" pasa a ser solo del tipo "Tatuaje", también en las configuraciones nuevas
+    - `consents.procedure_type_id`: tipo elegido al firmar. Los consentimientos existentes son tatuajes
+
+  2. Funciones
+    - `programar_seguimientos`: programa los pasos con texto en los mensajes de seguimiento del tipo
+      del consentimiento; el canal sigue siendo el de la configuración
+    - `asignar_plantilla_consentimiento`: asigna el tipo de la plantilla, o el primer tipo activo, si
+      el formulario no indicó uno (formularios en cola desde antes de este cambio), rechaza clientes menores que la edad mínima
+      del tipo y usa la plantilla vigente de ese tipo. Rechaza una plantilla enviada por el formulario
+      que no sea de ese tipo
+    - `verificar_codigo_consentimiento`: acepta cualquier prefijo de 2 a 5 letras
+
+  3. Seguridad
+    - Todos pueden leer los tipos (el formulario público los necesita); solo el dueño los crea y
+      modifica. No se eliminan: se desactivan
+    - El tipo de un consentimiento guardado no se puede modificar, igual que su texto firmado y su huella
+*/
+
+CREATE TABLE IF NOT EXISTS public.procedure_types (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  config_id uuid NOT NULL REFERENCES public.config(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  code_prefix text NOT NULL CHECK (code_prefix ~ '^[A-Z]{2,5}$'),
+  consent_text text NOT NULL,
+  tutor_consent_text text NOT NULL,
+  minimum_age integer CHECK (minimum_age IS NULL OR minimum_age BETWEEN 1 AND 99),
+  cream_aftercare text NOT NULL DEFAULT '',
+  patch_aftercare text NOT NULL DEFAULT '',
+  followup_texts jsonb NOT NULL DEFAULT '{}'::jsonb,
+  asks_tattoo_details boolean NOT NULL DEFAULT false,
+  active boolean NOT NULL DEFAULT true,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (config_id, code_prefix)
+);
+
+CREATE INDEX IF NOT EXISTS procedure_types_config_position_idx
+  ON public.procedure_types(config_id, position);
+
+DROP TRIGGER IF EXISTS update_procedure_types_updated_at ON public.procedure_types;
+CREATE TRIGGER update_procedure_types_updated_at
+BEFORE UPDATE ON public.procedure_types
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- Preguntas de salud por tipo
+ALTER TABLE public.health_questions
+  ADD COLUMN IF NOT EXISTS procedure_type_id uuid REFERENCES public.procedure_types(id);
+
+-- Crea el tipo "Tatuaje" con los textos de la configuración, si aún no tiene tipos, y le asigna
+-- "¿Es tu primer tatuaje?". En una configuración nueva las preguntas ya están sembradas: los
+-- triggers AFTER se ejecutan por orden alfabético y sembrar_preguntas_salud_config va antes
+CREATE OR REPLACE FUNCTION public.sembrar_tipos_procedimiento(p_config_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tipo_id uuid;
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.procedure_types WHERE config_id = p_config_id) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.procedure_types
+    (config_id, name, code_prefix, consent_text, tutor_consent_text, cream_aftercare, patch_aftercare, followup_texts,
+     asks_tattoo_details, position)
+  SELECT id, 'Tatuaje', 'TCF', consent_text, tutor_consent_text,
+    COALESCE(cream_aftercare, ''), COALESCE(patch_aftercare, ''), COALESCE(followup_texts, '{}'::jsonb), true, 0
+  FROM public.config
+  WHERE id = p_config_id
+  RETURNING id INTO v_tipo_id;
+
+  UPDATE public.health_questions
+  SET procedure_type_id = v_tipo_id
+  WHERE config_id = p_config_id
+    AND question = '¿Es tu primer tatuaje?'
+    AND procedure_type_id IS NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.sembrar_tipos_procedimiento(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Versiones de los textos legales por tipo
+ALTER TABLE public.consent_templates
+  ADD COLUMN IF NOT EXISTS procedure_type_id uuid REFERENCES public.procedure_types(id);
+
+ALTER TABLE public.consent_templates
+  DROP CONSTRAINT IF EXISTS consent_templates_config_id_version_key;
+
+-- El versionado pasa de la configuración a los tipos
+DROP TRIGGER IF EXISTS plantilla_consentimiento_config ON public.config;
+
+DO $$
+DECLARE
+  config_row record;
+BEGIN
+  FOR config_row IN SELECT id FROM public.config LOOP
+    PERFORM public.sembrar_tipos_procedimiento(config_row.id);
+  END LOOP;
+END $$;
+
+UPDATE public.consent_templates ct
+SET procedure_type_id = pt.id
+FROM public.procedure_types pt
+WHERE pt.config_id = ct.config_id
+  AND pt.code_prefix = 'TCF'
+  AND ct.procedure_type_id IS NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'consent_templates_procedure_type_version_key'
+  ) THEN
+    ALTER TABLE public.consent_templates ADD CONSTRAINT consent_templates_procedure_type_version_key
+      UNIQUE (procedure_type_id, version);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS consent_templates_procedure_type_id_idx
+  ON public.consent_templates (procedure_type_id, version DESC);
+
+-- Crear una versión nueva del tipo cuando cambian sus textos legales
+CREATE OR REPLACE FUNCTION public.registrar_plantilla_consentimiento()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT'
+     OR NEW.consent_text IS DISTINCT FROM OLD.consent_text
+     OR NEW.tutor_consent_text IS DISTINCT FROM OLD.tutor_consent_text THEN
+    INSERT INTO public.consent_templates (config_id, procedure_type_id, version, consent_text, tutor_consent_text)
+    SELECT NEW.config_id, NEW.id, COALESCE(MAX(version), 0) + 1, NEW.consent_text, NEW.tutor_consent_text
+    FROM public.consent_templates
+    WHERE procedure_type_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS plantilla_consentimiento_procedure_types ON public.procedure_types;
+CREATE TRIGGER plantilla_consentimiento_procedure_types
+AFTER INSERT OR UPDATE OF consent_text, tutor_consent_text ON public.procedure_types
+FOR EACH ROW
+EXECUTE FUNCTION public.registrar_plantilla_consentimiento();
+
+-- Cada configuración nueva empieza con el tipo "Tatuaje" (y su primera versión de textos)
+CREATE OR REPLACE FUNCTION public.sembrar_tipos_procedimiento_config()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.sembrar_tipos_procedimiento(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sembrar_tipos_procedimiento_config ON public.config;
+CREATE TRIGGER sembrar_tipos_procedimiento_config
+AFTER INSERT ON public.config
+FOR EACH ROW
+EXECUTE FUNCTION public.sembrar_tipos_procedimiento_config();
+
+-- Tipo de cada consentimiento
+ALTER TABLE public.consents
+  ADD COLUMN IF NOT EXISTS procedure_type_id uuid REFERENCES public.procedure_types(id);
+
+CREATE INDEX IF NOT EXISTS consents_procedure_type_id_idx ON public.consents (procedure_type_id);
+
+UPDATE public.consents
+SET procedure_type_id = (
+  SELECT pt.id
+  FROM public.procedure_types pt
+  JOIN public.config c ON c.id = pt.config_id
+  WHERE pt.code_prefix = 'TCF'
+  ORDER BY c.created_at DESC
+  LIMIT 1
+)
+WHERE procedure_type_id IS NULL;
+
+-- Los mensajes de seguimiento son los del tipo del consentimiento (asignado antes de insertar)
+CREATE OR REPLACE FUNCTION public.programar_seguimientos()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_textos jsonb;
+  v_canal text;
+BEGIN
+  SELECT followup_texts INTO v_textos
+  FROM public.procedure_types
+  WHERE id = NEW.procedure_type_id;
+
+  SELECT followup_channel INTO v_canal
+  FROM public.config
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  INSERT INTO public.followup_messages (consent_id, step, channel, scheduled_for)
+  SELECT NEW.id, paso.step, COALESCE(v_canal, 'email'), NEW.signed_at + paso.intervalo
+  FROM (VALUES
+    ('day_1', interval '1 day'),
+    ('day_3', interval '3 days'),
+    ('day_14', interval '14 days'),
+    ('week_6', interval '6 weeks')
+  ) AS paso(step, intervalo)
+  WHERE COALESCE(btrim(v_textos ->> paso.step), '') <> ''
+  ON CONFLICT (consent_id, step) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Al guardar: tipo, edad mínima y plantilla vigente del tipo
+CREATE OR REPLACE FUNCTION public.asignar_plantilla_consentimiento()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tipo public.procedure_types;
+  v_edad numeric;
+BEGIN
+  -- Un formulario en cola sin tipo pero con plantilla usa el tipo de esa plantilla
+  IF NEW.procedure_type_id IS NULL AND NEW.template_id IS NOT NULL THEN
+    SELECT procedure_type_id INTO NEW.procedure_type_id
+    FROM public.consent_templates
+    WHERE id = NEW.template_id;
+  END IF;
+
+  IF NEW.procedure_type_id IS NULL THEN
+    SELECT pt.* INTO v_tipo
+    FROM public.procedure_types pt
+    JOIN public.config c ON c.id = pt.config_id
+    WHERE pt.active
+    ORDER BY c.created_at DESC, pt.position, pt.created_at
+    LIMIT 1;
+
+    NEW.procedure_type_id := v_tipo.id;
+  ELSE
+    SELECT * INTO v_tipo
+    FROM public.procedure_types
+    WHERE id = NEW.procedure_type_id;
+  END IF;
+
+  v_edad := NULLIF(NEW.client_info::jsonb ->> 'edad', '')::numeric;
+  IF v_tipo.minimum_age IS NOT NULL AND v_edad < v_tipo.minimum_age THEN
+    RAISE EXCEPTION 'El procedimiento % requiere una edad mínima de % años', v_tipo.name, v_tipo.minimum_age;
+  END IF;
+
+  IF NEW.template_id IS NULL THEN
+    SELECT ct.id INTO NEW.template_id
+    FROM public.consent_templates ct
+    WHERE ct.procedure_type_id = NEW.procedure_type_id
+    ORDER BY ct.version DESC
+    LIMIT 1;
+  END IF;
+
+  -- La plantilla la envía el formulario: debe ser una versión del tipo del consentimiento
+  IF NEW.template_id IS NOT NULL THEN
+    SELECT version INTO NEW.template_version
+    FROM public.consent_templates
+    WHERE id = NEW.template_id
+      AND procedure_type_id = NEW.procedure_type_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'La plantilla del consentimiento no corresponde al procedimiento elegido';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Lo firmado no cambia: tampoco el tipo de procedimiento
+CREATE OR REPLACE FUNCTION public.proteger_texto_firmado()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.template_id IS DISTINCT FROM OLD.template_id
+     OR NEW.template_version IS DISTINCT FROM OLD.template_version
+     OR NEW.consent_text IS DISTINCT FROM OLD.consent_text
+     OR NEW.tutor_consent_text IS DISTINCT FROM OLD.tutor_consent_text
+     OR NEW.procedure_type_id IS DISTINCT FROM OLD.procedure_type_id THEN
+    RAISE EXCEPTION 'El texto firmado de un consentimiento no se puede modificar';
+  END IF;
+
+  IF NEW.integrity_hash IS DISTINCT FROM OLD.integrity_hash THEN
+    RAISE EXCEPTION 'La huella de integridad de un consentimiento no se puede modificar';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Verificación pública: el prefijo del código depende del tipo
+CREATE OR REPLACE FUNCTION public.verificar_codigo_consentimiento(p_codigo text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_codigo text := upper(trim(COALESCE(p_codigo, '')));
+  v_consentimiento public.consents;
+  v_estudio text;
+BEGIN
+  PERFORM public.registrar_consulta_publica('Demasiados intentos de verificación. Espera un minuto e inténtalo de nuevo.');
+
+  IF v_codigo !~ '^[A-Z]{2,5}-[A-Z0-9]{5}-[A-Z0-9]{5}$' THEN
+    RETURN jsonb_build_object('valido', false);
+  END IF;
+
+  SELECT * INTO v_consentimiento
+  FROM public.consents
+  WHERE code = v_codigo;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('valido', false);
+  END IF;
+
+  SELECT studio_name INTO v_estudio
+  FROM public.config
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  RETURN jsonb_build_object(
+    'valido', true,
+    'codigo', v_consentimiento.code,
+    'archivado', COALESCE(v_consentimiento.archived, false),
+    'fecha', v_consentimiento.signed_at,
+    'estudio', v_estudio,
+    'cliente', public.enmascarar_nombre(concat_ws(' ',
+      v_consentimiento.client_info::jsonb ->> 'nombre',
+      v_consentimiento.client_info::jsonb ->> 'apellidos'
+    )),
+    'integridad', CASE
+      WHEN v_consentimiento.integrity_hash IS NULL THEN 'sin_huella'
+      WHEN v_consentimiento.integrity_hash = public.huella_consentimiento(v_consentimiento) THEN 'integro'
+      ELSE 'alterado'
+    END,
+    'hash', v_consentimiento.integrity_hash
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.verificar_codigo_consentimiento(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.verificar_codigo_consentimiento(text) TO anon, authenticated;
+
+ALTER TABLE public.procedure_types ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow public read procedure_types" ON public.procedure_types;
+CREATE POLICY "Allow public read procedure_types"
+ON public.procedure_types
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Allow owner insert procedure_types" ON public.procedure_types;
+CREATE POLICY "Allow owner insert procedure_types"
+ON public.procedure_types
+FOR INSERT
+TO authenticated
+WITH CHECK (public.rol_personal_actual() = 'owner');
+
+DROP POLICY IF EXISTS "Allow owner update procedure_types" ON public.procedure_types;
+CREATE POLICY "Allow owner update procedure_types"
+ON public.procedure_types
+FOR UPDATE
+TO authenticated
+USING (public.rol_personal_actual() = 'owner')
+WITH CHECK (public.rol_personal_actual() = 'owner');
+
+REVOKE DELETE, TRUNCATE ON public.procedure_types FROM anon, authenticated;
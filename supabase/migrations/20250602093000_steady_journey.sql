@@ -0,0 +1,355 @@
+/*
+  # Proyectos de varias sesiones
+
+  1. Nuevas tablas
+    - `projects`: obra grande que se realiza en varias sesiones a partir de un consentimiento original
+      - `client_id`: ficha del cliente (la del consentimiento original)
+      - `original_consent_id`: consentimiento desde el que se creó; un consentimiento inicia como máximo
+        un proyecto
+      - `name`: nombre que le da el estudio (ej. "Manga japonesa brazo izquierdo")
+      - `status`: 'active' o 'completed'
+
+  2. Cambios
+    - `consents.project_id`: proyecto al que pertenece el consentimiento (el original incluido)
+    - `consents.session_type`: 'session' (sesión del proyecto) o 'touch_up' (retoque)
+    - `consents.session_number`: número de sesión dentro del proyecto; los retoques no tienen número
+    - `consents.free_touch_up`: retoque sin costo, dentro de la ventana desde la última sesión
+    - `config.touch_up_window_days`: días desde la última sesión en que el primer retoque es gratuito
+
+  3. Funciones
+    - Trigger `vincular_consentimiento_original`: al crear un proyecto lo asigna al consentimiento
+      original como sesión 1
+    - `limite_retoque_gratis(proyecto)`: fecha hasta la que un retoque es gratuito; NULL si el proyecto
+      no tiene sesiones o ya usó el retoque gratuito desde la última sesión
+    - Trigger `vincular_proyecto_consentimiento`: al guardar un consentimiento con proyecto numera la
+      sesión y marca el retoque gratuito. Descarta el proyecto si no existe, es de otro cliente o está
+      terminado y se trata de una sesión (los retoques se aceptan después de terminarlo). Se ejecuta
+      después de asignar la ficha del cliente
+    - `sesion_proyecto(proyecto, documento, fecha_nacimiento)`: datos del último consentimiento del
+      proyecto para que el cliente confirme sus datos, actualice su salud y vuelva a firmar
+    - `resumen_consentimiento_guardado` devuelve además el proyecto, el número de sesión y el retoque
+      gratuito asignados al guardar
+
+  4. Seguridad
+    - RLS habilitado en `projects`: dueño y recepción gestionan los proyectos; cada artista ve los
+      proyectos en que tiene una sesión
+    - El enlace de una sesión nueva exige el RUT y la fecha de nacimiento del cliente, comparte el
+      límite de consultas por origen de la verificación de documentos y no entrega las firmas. Del
+      cliente solo entrega el nombre y, de cada pregunta de salud, si respondió sí o no: la información
+      adicional, el contacto, la dirección y los datos del tutor legal los vuelve a ingresar el cliente
+*/
+
+CREATE TABLE IF NOT EXISTS public.projects (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id uuid NOT NULL REFERENCES public.clients(id),
+  original_consent_id uuid NOT NULL UNIQUE REFERENCES public.consents(id),
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS projects_client_id_idx ON public.projects(client_id);
+
+DROP TRIGGER IF EXISTS update_projects_updated_at ON public.projects;
+CREATE TRIGGER update_projects_updated_at
+BEFORE UPDATE ON public.projects
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.consents
+  ADD COLUMN IF NOT EXISTS project_id uuid REFERENCES public.projects(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS session_type text,
+  ADD COLUMN IF NOT EXISTS session_number integer,
+  ADD COLUMN IF NOT EXISTS free_touch_up boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS consents_project_id_idx ON public.consents(project_id);
+
+ALTER TABLE public.config
+  ADD COLUMN IF NOT EXISTS touch_up_window_days integer NOT NULL DEFAULT 60;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'consents_session_type_check'
+  ) THEN
+    ALTER TABLE public.consents ADD CONSTRAINT consents_session_type_check
+      CHECK (
+        (project_id IS NULL AND session_type IS NULL)
+        OR (project_id IS NOT NULL AND session_type IN ('session', 'touch_up'))
+      );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'config_touch_up_window_days_check'
+  ) THEN
+    ALTER TABLE public.config ADD CONSTRAINT config_touch_up_window_days_check
+      CHECK (touch_up_window_days BETWEEN 0 AND 365);
+  END IF;
+END $$;
+
+-- El cliente del proyecto es el del consentimiento original, que no puede ser parte de otro proyecto
+CREATE OR REPLACE FUNCTION public.asignar_cliente_proyecto()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_original public.consents;
+BEGIN
+  SELECT * INTO v_original
+  FROM public.consents
+  WHERE id = NEW.original_consent_id;
+
+  IF v_original.project_id IS NOT NULL THEN
+    RAISE EXCEPTION 'El consentimiento ya pertenece a un proyecto';
+  END IF;
+
+  IF v_original.client_id IS NULL THEN
+    RAISE EXCEPTION 'El consentimiento original no tiene ficha de cliente';
+  END IF;
+
+  NEW.client_id := v_original.client_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS asignar_cliente_proyecto_projects ON public.projects;
+CREATE TRIGGER asignar_cliente_proyecto_projects
+BEFORE INSERT ON public.projects
+FOR EACH ROW
+EXECUTE FUNCTION public.asignar_cliente_proyecto();
+
+CREATE OR REPLACE FUNCTION public.vincular_consentimiento_original()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.consents
+  SET project_id = NEW.id,
+      session_type = 'session',
+      session_number = 1,
+      free_touch_up = false
+  WHERE id = NEW.original_consent_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS vincular_consentimiento_original_projects ON public.projects;
+CREATE TRIGGER vincular_consentimiento_original_projects
+AFTER INSERT ON public.projects
+FOR EACH ROW
+EXECUTE FUNCTION public.vincular_consentimiento_original();
+
+CREATE OR REPLACE FUNCTION public.limite_retoque_gratis(p_proyecto uuid)
+RETURNS timestamptz
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ultima_sesion timestamptz;
+  v_dias integer;
+BEGIN
+  SELECT max(signed_at) INTO v_ultima_sesion
+  FROM public.consents
+  WHERE project_id = p_proyecto
+    AND session_type = 'session';
+
+  IF v_ultima_sesion IS NULL OR EXISTS (
+    SELECT 1 FROM public.consents
+    WHERE project_id = p_proyecto
+      AND free_touch_up
+      AND signed_at > v_ultima_sesion
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT touch_up_window_days INTO v_dias
+  FROM public.config
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  RETURN v_ultima_sesion + make_interval(days => COALESCE(v_dias, 60));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.limite_retoque_gratis(uuid) TO authenticated;
+
+-- Como la cita, un consentimiento que no puede vincularse al proyecto se guarda igual, sin proyecto
+CREATE OR REPLACE FUNCTION public.vincular_proyecto_consentimiento()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_proyecto public.projects;
+  v_limite timestamptz;
+BEGIN
+  NEW.session_number := NULL;
+  NEW.free_touch_up := false;
+
+  IF NEW.project_id IS NOT NULL THEN
+    NEW.session_type := COALESCE(NEW.session_type, 'session');
+    SELECT * INTO v_proyecto FROM public.projects WHERE id = NEW.project_id;
+
+    IF NOT FOUND
+      OR NEW.client_id IS DISTINCT FROM v_proyecto.client_id
+      OR (NEW.session_type = 'session' AND v_proyecto.status <> 'active')
+    THEN
+      NEW.project_id := NULL;
+    END IF;
+  END IF;
+
+  IF NEW.project_id IS NULL THEN
+    NEW.session_type := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.session_type = 'session' THEN
+    SELECT COALESCE(max(session_number), 0) + 1 INTO NEW.session_number
+    FROM public.consents
+    WHERE project_id = NEW.project_id;
+  ELSE
+    v_limite := public.limite_retoque_gratis(NEW.project_id);
+    NEW.free_touch_up := v_limite IS NOT NULL AND NEW.signed_at <= v_limite;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Los triggers BEFORE se ejecutan por orden alfabético: este va después de asignar_cliente_consents
+DROP TRIGGER IF EXISTS vincular_proyecto_consentimiento_consents ON public.consents;
+CREATE TRIGGER vincular_proyecto_consentimiento_consents
+BEFORE INSERT ON public.consents
+FOR EACH ROW
+EXECUTE FUNCTION public.vincular_proyecto_consentimiento();
+
+-- Datos para la sesión nueva del formulario público; exige el RUT y la fecha de nacimiento
+CREATE OR REPLACE FUNCTION public.sesion_proyecto(
+  p_proyecto uuid,
+  p_documento text,
+  p_fecha_nacimiento date
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_proyecto public.projects;
+  v_ultimo public.consents;
+BEGIN
+  PERFORM public.registrar_consulta_publica();
+
+  SELECT p.* INTO v_proyecto
+  FROM public.projects p
+  JOIN public.clients cl ON cl.id = p.client_id
+  WHERE p.id = p_proyecto
+    AND cl.document_number = public.normalizar_documento(p_documento)
+    AND cl.birth_date = p_fecha_nacimiento;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_ultimo
+  FROM public.consents
+  WHERE project_id = v_proyecto.id
+  ORDER BY signed_at DESC
+  LIMIT 1;
+
+  RETURN jsonb_build_object(
+    'id', v_proyecto.id,
+    'nombre', v_proyecto.name,
+    'estado', v_proyecto.status,
+    'cliente', jsonb_build_object(
+      'nombre', v_ultimo.client_info::jsonb ->> 'nombre',
+      'apellidos', v_ultimo.client_info::jsonb ->> 'apellidos'
+    ),
+    'informacionSalud', (
+      SELECT COALESCE(jsonb_object_agg(respuesta.key, jsonb_build_object('respuesta', respuesta.value -> 'respuesta')), '{}'::jsonb)
+      FROM jsonb_each(COALESCE(v_ultimo.client_info::jsonb -> 'informacionSalud', '{}'::jsonb)) AS respuesta
+    ),
+    'artista', (SELECT name FROM public.artists WHERE id = v_ultimo.artist_id),
+    'tipoProcedimientoId', v_ultimo.procedure_type_id,
+    'tipoCuidado', v_ultimo.aftercare_type,
+    'detallesProcedimiento', v_ultimo.procedure_details,
+    'limiteRetoqueGratis', public.limite_retoque_gratis(v_proyecto.id)
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.sesion_proyecto(uuid, text, date) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.sesion_proyecto(uuid, text, date) TO anon, authenticated;
+
+-- El formulario necesita saber si el consentimiento quedó en el proyecto y con qué número de sesión
+DROP FUNCTION IF EXISTS public.resumen_consentimiento_guardado(uuid, text);
+CREATE FUNCTION public.resumen_consentimiento_guardado(p_id uuid, p_codigo text)
+RETURNS TABLE (
+  risk_level text,
+  template_id uuid,
+  template_version integer,
+  integrity_hash text,
+  created_at timestamptz,
+  project_id uuid,
+  session_number integer,
+  free_touch_up boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.risk_level, c.template_id, c.template_version, c.integrity_hash, c.created_at,
+         c.project_id, c.session_number, c.free_touch_up
+  FROM public.consents c
+  WHERE c.id = p_id
+    AND c.code = p_codigo;
+$$;
+
+REVOKE ALL ON FUNCTION public.resumen_consentimiento_guardado(uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.resumen_consentimiento_guardado(uuid, text) TO anon, authenticated;
+
+ALTER TABLE public.projects ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow staff select projects" ON public.projects;
+DROP POLICY IF EXISTS "Allow staff insert projects" ON public.projects;
+DROP POLICY IF EXISTS "Allow staff update projects" ON public.projects;
+
+CREATE POLICY "Allow staff select projects"
+ON public.projects
+FOR SELECT
+TO authenticated
+USING (
+  public.rol_personal_actual() IN ('owner', 'receptionist')
+  OR (
+    public.rol_personal_actual() = 'artist'
+    AND EXISTS (
+      SELECT 1 FROM public.consents c
+      WHERE c.project_id = projects.id
+        AND c.artist_id = public.artista_personal_actual()
+    )
+  )
+);
+
+CREATE POLICY "Allow staff insert projects"
+ON public.projects
+FOR INSERT
+TO authenticated
+WITH CHECK (public.rol_personal_actual() IN ('owner', 'receptionist'));
+
+CREATE POLICY "Allow staff update projects"
+ON public.projects
+FOR UPDATE
+TO authenticated
+USING (public.rol_personal_actual() IN ('owner', 'receptionist'))
+WITH CHECK (public.rol_personal_actual() IN ('owner', 'receptionist'));